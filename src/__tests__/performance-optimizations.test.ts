@@ -13,6 +13,7 @@ import {
   LazyEmailContentParser,
   LazyRecipientParser,
   LazyNameMatchingEngine,
+  componentFactories,
   globalLazyLoader 
 } from '../models/lazy-loader';
 import { 
@@ -161,6 +162,17 @@ describe('Lazy Loader', () => {
     expect(loader.isLoaded('testComponent')).toBe(false);
     expect(mockComponent.dispose).toHaveBeenCalled();
   });
+
+  test('should load a new recipient parser when the generic mailbox settings change', async () => {
+    loader.register('recipientParser', componentFactories.recipientParser);
+
+    const defaults = await loader.load<LazyRecipientParser>('recipientParser', {});
+    const edited = await loader.load<LazyRecipientParser>('recipientParser', { personalMailboxes: ['info@acme.com'] });
+
+    expect(edited).not.toBe(defaults);
+    expect((await defaults.parseEmailAddress('info@acme.com')).isGeneric).toBe(true);
+    expect((await edited.parseEmailAddress('info@acme.com')).isGeneric).toBe(false);
+  });
 });
 
 describe('Lazy Components', () => {
@@ -18,12 +18,14 @@
   }
 };
 
-// Mock DOM methods
-Object.defineProperty(window, 'getComputedStyle', {
-  value: () => ({
-    getPropertyValue: () => ''
-  })
-});
+// Mock DOM methods (suites for the JavaScript-only runtime run without a window)
+if (typeof window !== 'undefined') {
+  Object.defineProperty(window, 'getComputedStyle', {
+    value: () => ({
+      getPropertyValue: () => ''
+    })
+  });
+}
 
 // Mock console methods to reduce noise in tests
 global.console = {
@@ -0,0 +1,234 @@
+/**
+ * Unit tests for the OnMessageSend Smart Alerts handler
+ */
+
+import { ValidationResult, ParsedRecipient } from '../../models/interfaces';
+
+const mockOrchestrator = {
+  initialize: jest.fn(),
+  validateCurrentEmail: jest.fn(),
+  dispose: jest.fn()
+};
+
+jest.mock('../../integration/validation-orchestrator', () => ({
+  ValidationOrchestratorImpl: jest.fn().mockImplementation(() => mockOrchestrator)
+}));
+
+// Mock Office.js globals used at module load
+(global as any).Office = {
+  onReady: jest.fn(),
+  actions: {
+    associate: jest.fn()
+  }
+};
+
+import { buildSendWarningMessage, onMessageSendHandler } from '../commands';
+import { ValidationOrchestratorImpl } from '../../integration/validation-orchestrator';
+
+const createRecipient = (email: string, extractedNames: string[], displayName?: string): ParsedRecipient => ({
+  email,
+  displayName,
+  extractedNames,
+  isGeneric: false
+});
+
+const createResult = (greetingName: string, isValid: boolean, suggestedRecipient?: ParsedRecipient): ValidationResult => ({
+  greetingName,
+  isValid,
+  suggestedRecipient,
+  confidence: isValid ? 1 : 0.4
+});
+
+describe('commands', () => {
+  let event: { completed: jest.Mock };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockOrchestrator.initialize.mockResolvedValue(undefined);
+    event = { completed: jest.fn() };
+  });
+
+  describe('registration', () => {
+    it('should associate the send handler with Office actions', () => {
+      jest.isolateModules(() => {
+        require('../commands');
+      });
+
+      expect((global as any).Office.actions.associate).toHaveBeenCalledWith('onMessageSendHandler', expect.any(Function));
+      expect((global as any).Office.actions.associate).toHaveBeenCalledWith('showTaskpane', expect.any(Function));
+    });
+  });
+
+  describe('buildSendWarningMessage', () => {
+    it('should list each mismatched name with its suggested recipient', () => {
+      const message = buildSendWarningMessage([
+        createResult('Jon', false, createRecipient('john.smith@example.com', ['john', 'smith'])),
+        createResult('Peter', false)
+      ]);
+
+      expect(message).toContain('"Jon": did you mean "john" (john.smith@example.com)?');
+      expect(message).toContain('"Peter": no matching recipient');
+    });
+
+    it('should describe a sign-off that does not match the sender', () => {
+      const message = buildSendWarningMessage([{
+        ...createResult('Anna', false, createRecipient('peter.schmidt@example.com', ['peter', 'schmidt'], 'Peter Schmidt')),
+        warningType: 'sign_off_mismatch'
+      }]);
+
+      expect(message).toContain('Signed as "Anna", but this message is sent by "Peter Schmidt".');
+      expect(message).not.toContain('The greeting doesn\'t seem to match');
+    });
+
+    it('should list every recipient an ambiguous greeting could mean', () => {
+      const alexMeier = createRecipient('alex.meier@example.com', ['alex', 'meier'], 'Alex Meier');
+      const alexSchulz = createRecipient('alex.schulz@example.com', ['alex', 'schulz']);
+      const message = buildSendWarningMessage([{
+        ...createResult('Alex', true, alexMeier),
+        warningType: 'ambiguous_greeting',
+        candidates: [
+          { recipient: alexMeier, matchType: 'exact', confidence: 1 },
+          { recipient: alexSchulz, matchType: 'exact', confidence: 1 }
+        ]
+      }]);
+
+      expect(message).toContain('"Alex" could mean any of Alex Meier (alex.meier@example.com), alex.schulz@example.com.');
+      expect(message).not.toContain('The greeting doesn\'t seem to match');
+    });
+
+    it('should name To recipients nobody greets and greetings that only reach CC', () => {
+      const message = buildSendWarningMessage([
+        {
+          ...createResult('Peter', true, createRecipient('peter@example.com', ['peter'])),
+          warningType: 'cc_only_greeting'
+        },
+        {
+          ...createResult('', false, createRecipient('anna.schmidt@example.com', ['anna', 'schmidt'], 'Anna Schmidt')),
+          warningType: 'recipient_not_greeted'
+        }
+      ]);
+
+      expect(message).toContain('"Peter" only matches peter@example.com, who is in CC/BCC rather than To.');
+      expect(message).toContain('Anna Schmidt (anna.schmidt@example.com) is on the To line but isn\'t greeted.');
+      expect(message).not.toContain('The greeting doesn\'t seem to match');
+    });
+
+    it('should describe salutations that don\'t fit the recipient', () => {
+      const message = buildSendWarningMessage([
+        {
+          ...createResult('smith', true, createRecipient('anna.smith@example.com', ['anna', 'smith'], 'Dr. Anna Smith')),
+          warningType: 'salutation_mismatch',
+          salutationIssue: { kind: 'missing_title', expected: 'Dr.' }
+        }
+      ]);
+
+      expect(message).toContain('The salutation for "smith" leaves out the title "Dr." of Dr. Anna Smith (anna.smith@example.com).');
+    });
+
+    it('should describe a switch between "Sie" and "du"', () => {
+      const message = buildSendWarningMessage([{
+        greetingName: '',
+        isValid: true,
+        confidence: 1,
+        warningType: 'register_mismatch',
+        registerMismatch: { greeting: 'formal', greetingText: 'Sehr geehrte Frau Weber', pronouns: ['du', 'dein', 'Du'] }
+      }]);
+
+      expect(message).toContain('"Sehr geehrte Frau Weber" is formal, but the text uses "du", "dein".');
+    });
+
+    it('should describe a group greeting to a single person', () => {
+      const message = buildSendWarningMessage([{
+        ...createResult('zusammen', true, createRecipient('anna.schmidt@example.com', ['anna', 'schmidt'], 'Anna Schmidt')),
+        warningType: 'group_greeting_single_recipient'
+      }]);
+
+      expect(message).toContain('"zusammen" addresses a group, but the mail only goes to Anna Schmidt (anna.schmidt@example.com).');
+      expect(message).not.toContain('no matching recipient');
+    });
+
+    it('should describe a full name that mixes two recipients', () => {
+      const message = buildSendWarningMessage([{
+        greetingName: 'john',
+        isValid: false,
+        confidence: 1,
+        warningType: 'split_full_name',
+        nameParts: [
+          { name: 'john', recipient: { email: 'john.smith@example.com', extractedNames: ['john', 'smith'], isGeneric: false } },
+          { name: 'miller', recipient: { email: 'p.miller@example.com', displayName: 'Peter Miller', extractedNames: ['peter', 'miller'], isGeneric: false } }
+        ]
+      }]);
+
+      expect(message).toContain('"john miller" mixes names of different recipients: "john" matches john.smith@example.com, "miller" matches Peter Miller (p.miller@example.com).');
+      expect(message).not.toContain('no matching recipient');
+    });
+
+    it('should stay within the Smart Alerts length limit', () => {
+      const results = Array.from({ length: 30 }, (_, i) => createResult(`Name${i}`, false));
+
+      const message = buildSendWarningMessage(results);
+
+      expect(message.length).toBeLessThanOrEqual(500);
+      expect(message.endsWith('...')).toBe(true);
+    });
+  });
+
+  describe('onMessageSendHandler', () => {
+    it('should run the orchestrator headlessly', async () => {
+      mockOrchestrator.validateCurrentEmail.mockResolvedValue([]);
+
+      await onMessageSendHandler(event as any);
+
+      expect(ValidationOrchestratorImpl).toHaveBeenCalledWith(undefined, { headless: true });
+      expect(mockOrchestrator.dispose).toHaveBeenCalled();
+    });
+
+    it('should allow sending when all names are valid', async () => {
+      mockOrchestrator.validateCurrentEmail.mockResolvedValue([createResult('John', true)]);
+
+      await onMessageSendHandler(event as any);
+
+      expect(event.completed).toHaveBeenCalledWith({ allowEvent: true });
+    });
+
+    it('should block sending with a Smart Alert when names mismatch', async () => {
+      mockOrchestrator.validateCurrentEmail.mockResolvedValue([
+        createResult('John', true),
+        createResult('Jon', false, createRecipient('john.smith@example.com', ['john', 'smith']))
+      ]);
+
+      await onMessageSendHandler(event as any);
+
+      const options = event.completed.mock.calls[0][0];
+      expect(options.allowEvent).toBe(false);
+      expect(options.errorMessage).toContain('"Jon"');
+      expect(options.errorMessage).not.toContain('"John"');
+    });
+
+    it('should block sending when a greeting is ambiguous', async () => {
+      const alexMeier = createRecipient('alex.meier@example.com', ['alex', 'meier']);
+      const alexSchulz = createRecipient('alex.schulz@example.com', ['alex', 'schulz']);
+      mockOrchestrator.validateCurrentEmail.mockResolvedValue([{
+        ...createResult('Alex', true, alexMeier),
+        warningType: 'ambiguous_greeting',
+        candidates: [
+          { recipient: alexMeier, matchType: 'exact', confidence: 1 },
+          { recipient: alexSchulz, matchType: 'exact', confidence: 1 }
+        ]
+      }]);
+
+      await onMessageSendHandler(event as any);
+
+      expect(event.completed.mock.calls[0][0].allowEvent).toBe(false);
+    });
+
+    it('should allow sending when validation fails', async () => {
+      mockOrchestrator.validateCurrentEmail.mockRejectedValue(new Error('Office API unavailable'));
+
+      await onMessageSendHandler(event as any);
+
+      expect(event.completed).toHaveBeenCalledWith({ allowEvent: true });
+      expect(mockOrchestrator.dispose).toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,106 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * Tests for applying the admin policy at send time, where commands.js runs in a JavaScript-only
+ * runtime without a window
+ */
+
+import { ConfigurationManager } from '../../models/configuration-manager';
+import { ContactsDirectory } from '../../models/contacts-directory';
+import { AliasStore } from '../../models/alias-store';
+import { LocalDistributionLists } from '../../integration/local-distribution-lists';
+import { globalValidationCache } from '../../models/memory-optimizer';
+
+const POLICY_URL = 'https://addin.example.com/admin-policy.json';
+
+const roamingData = new Map<string, string>();
+
+const succeeded = <T>(value: T) => ({ status: 'succeeded', value });
+
+// Mock the Office.js mailbox of a German message that greets formally but goes on with "du"
+(global as any).Office = {
+  onReady: jest.fn(),
+  actions: { associate: jest.fn() },
+  AsyncResultStatus: { Succeeded: 'succeeded', Failed: 'failed' },
+  CoercionType: { Html: 'html', Text: 'text' },
+  MailboxEnums: { ItemType: { Message: 'message' } },
+  context: {
+    roamingSettings: {
+      get: (key: string) => roamingData.get(key),
+      set: (key: string, value: string) => { roamingData.set(key, value); },
+      remove: (key: string) => { roamingData.delete(key); },
+      saveAsync: (callback: (result: any) => void) => callback({ status: 'succeeded' })
+    },
+    mailbox: {
+      userProfile: { displayName: 'Peter Schmidt', emailAddress: 'peter.schmidt@example.com' },
+      item: {
+        itemType: 'message',
+        to: { getAsync: (callback: (result: any) => void) => callback(succeeded([{ emailAddress: 'anna.weber@example.com', displayName: 'Anna Weber' }])) },
+        cc: { getAsync: (callback: (result: any) => void) => callback(succeeded([])) },
+        bcc: { getAsync: (callback: (result: any) => void) => callback(succeeded([])) },
+        body: {
+          getTypeAsync: (callback: (result: any) => void) => callback(succeeded('text')),
+          getAsync: (_type: string, callback: (result: any) => void) =>
+            callback(succeeded('Sehr geehrte Frau Weber,\n\nkannst du mir den Bericht bis Freitag schicken?\n\nViele Grüße\nPeter'))
+        }
+      }
+    }
+  }
+};
+
+import { onMessageSendHandler } from '../commands';
+
+describe('Send-time admin policy', () => {
+  let event: { completed: jest.Mock };
+
+  beforeEach(() => {
+    (ConfigurationManager as any).instance = undefined;
+    (ContactsDirectory as any).instance = undefined;
+    (AliasStore as any).instance = undefined;
+    (LocalDistributionLists as any).instance = undefined;
+    globalValidationCache.clear();
+    roamingData.clear();
+    // The user turned the register check on; the policy turns it off and locks it
+    roamingData.set('validationConfig', JSON.stringify({ language: 'de', checkRegister: true }));
+    (global as any).fetch = jest.fn().mockResolvedValue({
+      ok: true,
+      status: 200,
+      json: async () => ({ config: { checkRegister: false }, locked: ['checkRegister'] })
+    });
+    event = { completed: jest.fn() };
+  });
+
+  afterEach(() => {
+    delete (global as any).ADMIN_POLICY_URL;
+    delete (global as any).fetch;
+  });
+
+  afterAll(() => {
+    delete (global as any).Office;
+  });
+
+  it('should run without a window', () => {
+    expect(typeof window).toBe('undefined');
+  });
+
+  it('should load the policy from the URL fixed at build time and apply its locks', async () => {
+    (global as any).ADMIN_POLICY_URL = POLICY_URL;
+
+    await onMessageSendHandler(event as any);
+
+    expect((global as any).fetch).toHaveBeenCalledWith(POLICY_URL, { cache: 'no-cache' });
+    expect(event.completed).toHaveBeenCalledWith({ allowEvent: true });
+  });
+
+  it('should check the register when no policy turns the check off', async () => {
+    await onMessageSendHandler(event as any);
+
+    expect((global as any).fetch).not.toHaveBeenCalled();
+    expect(event.completed).toHaveBeenCalledWith({
+      allowEvent: false,
+      errorMessage: expect.stringContaining('Sehr geehrte Frau Weber')
+    });
+  });
+});
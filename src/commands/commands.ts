@@ -1,5 +1,26 @@
 /* global Office */
 
+import { ValidationOrchestratorImpl } from '../integration/validation-orchestrator';
+import { DiagnosticLogger } from '../integration/error-handler';
+import { ValidationResult } from '../models/interfaces';
+import {
+  describeAmbiguousGreeting,
+  describeCcOnlyGreeting,
+  describeGroupGreeting,
+  describeRegisterMismatch,
+  describeSalutationMismatch,
+  describeSignOffMismatch,
+  describeSplitFullName,
+  describeUngreetedRecipient,
+  getSuggestedName,
+  isValidationWarning
+} from '../models/notification-system';
+
+/**
+ * Smart Alerts truncates dialog messages longer than this
+ */
+const SMART_ALERT_MAX_LENGTH = 500;
+
 Office.onReady(() => {
   console.log('Commands module loaded');
 });
@@ -11,14 +32,93 @@ Office.onReady(() => {
 function showTaskpane(event: Office.AddinCommands.Event): void {
   // The showTaskpane command has been defined in the manifest.
   // This function will be called when the command is executed.
-  
+
   console.log('Show taskpane command executed');
-  
+
   // Complete the add-in command
   event.completed();
 }
 
-// Register the function with Office
-(Office as any).actions = {
-  showTaskpane: showTaskpane
-};
\ No newline at end of file
+/**
+ * Builds the Smart Alert dialog text with one line per warning
+ * @param results Validation results that need the user's attention
+ * @returns Message for the send dialog, limited to the Smart Alerts length
+ */
+export function buildSendWarningMessage(results: ValidationResult[]): string {
+  const greetingResults = results.filter(result => !result.warningType || result.warningType === 'greeting_mismatch');
+  const ambiguousResults = results.filter(result => result.warningType === 'ambiguous_greeting');
+  const splitNameResults = results.filter(result => result.warningType === 'split_full_name');
+  const ccOnlyResults = results.filter(result => result.warningType === 'cc_only_greeting');
+  const ungreetedResults = results.filter(result => result.warningType === 'recipient_not_greeted');
+  const salutationResults = results.filter(result => result.warningType === 'salutation_mismatch');
+  const registerResults = results.filter(result => result.warningType === 'register_mismatch');
+  const groupResults = results.filter(result => result.warningType === 'group_greeting_single_recipient');
+  const signOffResults = results.filter(result => result.warningType === 'sign_off_mismatch');
+
+  const lines = greetingResults.map(result => {
+    if (result.suggestedRecipient) {
+      const suggestedName = getSuggestedName(result.suggestedRecipient);
+      return `- "${result.greetingName}": did you mean "${suggestedName}" (${result.suggestedRecipient.email})?`;
+    }
+    return `- "${result.greetingName}": no matching recipient`;
+  });
+
+  const message = [
+    ...(lines.length > 0 ? ['The greeting doesn\'t seem to match the recipients of this message:', ...lines] : []),
+    ...ambiguousResults.map(describeAmbiguousGreeting),
+    ...splitNameResults.map(describeSplitFullName),
+    ...ccOnlyResults.map(describeCcOnlyGreeting),
+    ...ungreetedResults.map(describeUngreetedRecipient),
+    ...salutationResults.map(describeSalutationMismatch),
+    ...registerResults.map(describeRegisterMismatch),
+    ...groupResults.map(describeGroupGreeting),
+    ...signOffResults.map(describeSignOffMismatch),
+    signOffResults.length > 0
+      ? 'Send anyway, or go back and correct the message.'
+      : 'Send anyway, or go back and correct the greeting.'
+  ].join('\n');
+
+  if (message.length <= SMART_ALERT_MAX_LENGTH) {
+    return message;
+  }
+  return `${message.substring(0, SMART_ALERT_MAX_LENGTH - 3)}...`;
+}
+
+/**
+ * Handles the OnMessageSend launch event by running the validation pipeline headlessly.
+ * Blocks the send with a Smart Alert when a result needs the user's attention (see
+ * isValidationWarning); the manifest's SendMode decides whether the user may still send anyway.
+ * @param event {Office.MailboxEvent}
+ */
+export async function onMessageSendHandler(event: Office.MailboxEvent): Promise<void> {
+  let orchestrator: ValidationOrchestratorImpl | undefined;
+
+  try {
+    orchestrator = new ValidationOrchestratorImpl(undefined, { headless: true });
+    await orchestrator.initialize();
+
+    const results = await orchestrator.validateCurrentEmail();
+    const mismatches = results.filter(isValidationWarning);
+
+    if (mismatches.length === 0) {
+      event.completed({ allowEvent: true });
+      return;
+    }
+
+    DiagnosticLogger.info('Blocking send due to greeting mismatches', { mismatchCount: mismatches.length });
+    event.completed({
+      allowEvent: false,
+      errorMessage: buildSendWarningMessage(mismatches)
+    });
+  } catch (error) {
+    // Never keep the user from sending because the validator itself failed
+    DiagnosticLogger.error('Send-time validation failed, allowing send', error as Error);
+    event.completed({ allowEvent: true });
+  } finally {
+    orchestrator?.dispose();
+  }
+}
+
+// Register the functions with Office
+Office.actions.associate('showTaskpane', showTaskpane);
+Office.actions.associate('onMessageSendHandler', onMessageSendHandler);
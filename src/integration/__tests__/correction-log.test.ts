@@ -0,0 +1,61 @@
+/**
+ * Unit tests for the correction transaction log
+ */
+
+import { CorrectionLog } from '../correction-log';
+import { GreetingCorrector } from '../greeting-correction';
+import { EmailContentParserImpl } from '../../models/email-content-parser';
+import { EmailBodyContent } from '../office-integration';
+
+describe('CorrectionLog', () => {
+  const parser = new EmailContentParserImpl('auto');
+  const corrector = new GreetingCorrector(async text => parser.extractGreetings(text));
+  let log: CorrectionLog;
+
+  const correct = async (body: EmailBodyContent, originalName: string, correctedName: string) => {
+    const result = await corrector.correct(body, originalName, correctedName);
+    return { corrected: result.body!, id: log.record(originalName, correctedName, result.body!, result.edit!) };
+  };
+
+  beforeEach(() => {
+    log = new CorrectionLog();
+  });
+
+  it('should restore exactly the previous HTML body', async () => {
+    const html = '<p>Hi <b>Jon</b>,</p><p>Jon from <a href="https://example.com">sales</a> says hello.</p>';
+    const { corrected, id } = await correct({ format: 'html', content: html }, 'jon', 'john');
+
+    const result = log.undo(id, corrected);
+
+    expect(corrected.content).toContain('<b>John</b>');
+    expect(result.undone).toBe(true);
+    expect(result.body).toEqual({ format: 'html', content: html });
+  });
+
+  it('should find the edit again after the body changed around it', async () => {
+    const { corrected, id } = await correct({ format: 'text', content: 'Hi Jon,\n\nthanks for the call.' }, 'jon', 'john');
+    const edited = { format: 'text' as const, content: `Re: planning\n\n${corrected.content}\nBest, Anna` };
+
+    const result = log.undo(id, edited);
+
+    expect(result.body!.content).toBe('Re: planning\n\nHi Jon,\n\nthanks for the call.\nBest, Anna');
+  });
+
+  it('should leave the body alone when the corrected name was edited again', async () => {
+    const { corrected, id } = await correct({ format: 'text', content: 'Hi Jon,\n\nthanks for the call.' }, 'jon', 'john');
+
+    const result = log.undo(id, { format: 'text', content: corrected.content.replace('John', 'Johnny') });
+
+    expect(result.undone).toBe(false);
+    expect(result.failureReason).toBe('body_changed');
+  });
+
+  it('should undo each correction once and only known ones', async () => {
+    const { corrected, id } = await correct({ format: 'text', content: 'Dear Sarah,' }, 'sarah', 'sara');
+
+    expect(log.undo(id, corrected).undone).toBe(true);
+    expect(log.undo(id, corrected).failureReason).toBe('already_undone');
+    expect(log.undo('correction-99', corrected).failureReason).toBe('unknown_correction');
+    expect(log.getTransactions()[0]).toEqual(expect.objectContaining({ originalName: 'sarah', correctedName: 'sara', undone: true }));
+  });
+});
@@ -0,0 +1,64 @@
+/**
+ * Unit tests for distribution list expansion
+ */
+
+import { DistributionListMember, DistributionListMemberSource, DistributionListResolver } from '../distribution-list-resolver';
+import { ParsedRecipient } from '../../models/interfaces';
+
+const recipient = (email: string, extra: Partial<ParsedRecipient> = {}): ParsedRecipient =>
+  ({ email, extractedNames: [], isGeneric: false, ...extra });
+
+const sourceOf = (lists: Record<string, DistributionListMember[]>): DistributionListMemberSource => ({
+  getMembers: jest.fn(async (email: string) => lists[email])
+});
+
+describe('DistributionListResolver', () => {
+  it('should add the members of a list with the list\'s field', async () => {
+    const resolver = new DistributionListResolver([sourceOf({
+      'sales-emea@example.com': [{ email: 'Jana.Novak@example.com', displayName: 'Jana Novak' }, { email: 'p.meier@example.com' }]
+    })]);
+
+    const expanded = await resolver.expand([recipient('sales-emea@example.com', { field: 'to' }), recipient('anna@example.com', { field: 'cc' })]);
+
+    expect(expanded).toEqual([
+      recipient('sales-emea@example.com', { field: 'to', isDistributionList: true }),
+      recipient('anna@example.com', { field: 'cc' }),
+      recipient('jana.novak@example.com', { displayName: 'Jana Novak', field: 'to', expandedFrom: 'sales-emea@example.com' }),
+      recipient('p.meier@example.com', { field: 'to', expandedFrom: 'sales-emea@example.com' })
+    ]);
+  });
+
+  it('should expand nested lists once and skip addresses already among the recipients', async () => {
+    const resolver = new DistributionListResolver([sourceOf({
+      'sales@example.com': [{ email: 'sales-emea@example.com' }, { email: 'anna@example.com' }],
+      'sales-emea@example.com': [{ email: 'jana@example.com' }, { email: 'sales@example.com' }]
+    })]);
+
+    const expanded = await resolver.expand([recipient('sales@example.com'), recipient('anna@example.com')]);
+
+    expect(expanded.map(member => member.email)).toEqual(['sales@example.com', 'anna@example.com', 'jana@example.com']);
+    expect(expanded[2].expandedFrom).toBe('sales@example.com');
+  });
+
+  it('should keep lists Outlook reports without known members unexpanded', async () => {
+    const resolver = new DistributionListResolver([sourceOf({})]);
+
+    const expanded = await resolver.expand([recipient('all-staff@example.com', { isDistributionList: true })]);
+
+    expect(expanded).toEqual([recipient('all-staff@example.com', { isDistributionList: true })]);
+  });
+
+  it('should ask the next source when one fails and stop at the member limit', async () => {
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    const failing: DistributionListMemberSource = { getMembers: jest.fn().mockRejectedValue(new Error('directory offline')) };
+    const members = Array.from({ length: 5 }, (_, index) => ({ email: `member${index}@example.com` }));
+    const resolver = new DistributionListResolver([failing, sourceOf({ 'team@example.com': members })], { maxMembers: 3 });
+
+    const expanded = await resolver.expand([recipient('team@example.com')]);
+
+    expect(expanded.map(member => member.email)).toEqual([
+      'team@example.com', 'member0@example.com', 'member1@example.com', 'member2@example.com'
+    ]);
+    warn.mockRestore();
+  });
+});
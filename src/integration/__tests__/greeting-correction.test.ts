@@ -0,0 +1,97 @@
+/**
+ * Unit tests for formatting-preserving greeting corrections
+ */
+
+import { GreetingCorrector } from '../greeting-correction';
+import { EmailContentParserImpl } from '../../models/email-content-parser';
+
+describe('GreetingCorrector', () => {
+  const parser = new EmailContentParserImpl('auto');
+  let corrector: GreetingCorrector;
+
+  beforeEach(() => {
+    corrector = new GreetingCorrector(async text => parser.extractGreetings(text));
+  });
+
+  describe('HTML bodies', () => {
+    it('should replace only the greeting name and keep the rest byte-identical', async () => {
+      const html = '<html><head><style>p{margin:0}</style></head><body>' +
+        '<p>Hi <b>Jon</b>,</p><p>Jon from <a href="https://example.com">sales</a> says hello.</p>' +
+        '<div class="signature">Best regards,<br>Anna</div></body></html>';
+
+      const result = await corrector.correct({ format: 'html', content: html }, 'jon', 'john');
+
+      expect(result.applied).toBe(true);
+      expect(result.body!.format).toBe('html');
+      expect(result.body!.content).toBe(html.replace('<b>Jon</b>', '<b>John</b>'));
+    });
+
+    it('should keep entities around the name intact', async () => {
+      const html = '<p>Hallo&nbsp;Jorg,</p><p>vielen Dank f&uuml;r die Nachricht.</p>';
+
+      const result = await corrector.correct({ format: 'html', content: html }, 'jorg', 'jörg');
+
+      expect(result.body!.content).toBe('<p>Hallo&nbsp;Jörg,</p><p>vielen Dank f&uuml;r die Nachricht.</p>');
+    });
+
+    it('should escape markup in the corrected name', async () => {
+      const result = await corrector.correct({ format: 'html', content: '<p>Hi Tom,</p>' }, 'tom', 'T<m>');
+
+      expect(result.body!.content).toBe('<p>Hi T&lt;m&gt;,</p>');
+    });
+
+    it('should not edit a name split by formatting', async () => {
+      const result = await corrector.correct({ format: 'html', content: '<p>Dear Sa<i>rah</i>,</p>' }, 'sarah', 'sara');
+
+      expect(result.applied).toBe(false);
+      expect(result.failureReason).toBe('name_spans_formatting');
+    });
+  });
+
+  describe('plain text bodies', () => {
+    it('should replace the name inside the greeting only', async () => {
+      const text = 'Hi Jon,\n\nJon told me about the Jonathan project.';
+
+      const result = await corrector.correct({ format: 'text', content: text }, 'jon', 'john');
+
+      expect(result.body!.content).toBe('Hi John,\n\nJon told me about the Jonathan project.');
+    });
+
+    it('should leave the name alone where it appears before the greeting', async () => {
+      const text = 'Re: Jon\'s report\n\nHi Jon,\nthanks for the numbers.';
+
+      const result = await corrector.correct({ format: 'text', content: text }, 'jon', 'john');
+
+      expect(result.body!.content).toBe('Re: Jon\'s report\n\nHi John,\nthanks for the numbers.');
+      expect(result.edit).toEqual({ start: 21, previous: 'Jon', replacement: 'John' });
+    });
+
+    it('should match the capitalization of the original name', async () => {
+      const result = await corrector.correct({ format: 'text', content: 'DEAR SARAH,' }, 'sarah', 'sara');
+
+      expect(result.body!.content).toBe('DEAR SARA,');
+    });
+
+    it('should treat Cyrillic and Vietnamese letters as part of a word', async () => {
+      const greetings = [
+        { fullMatch: 'Hi Яна and Ян', extractedName: 'Ян', position: 0, confidence: 0.9 },
+        { fullMatch: 'Chào Hiếu and Hi', extractedName: 'Hi', position: 14, confidence: 0.9 }
+      ];
+      const cyrillic = new GreetingCorrector(async () => [greetings[0]]);
+      const vietnamese = new GreetingCorrector(async () => [greetings[1]]);
+
+      const yan = await cyrillic.correct({ format: 'text', content: 'Hi Яна and Ян,' }, 'ян', 'яна');
+      const hieu = await vietnamese.correct({ format: 'text', content: 'Hi Яна and Ян,Chào Hiếu and Hi' }, 'hi', 'hiếu');
+
+      expect(yan.edit).toEqual({ start: 11, previous: 'Ян', replacement: 'Яна' });
+      expect(hieu.edit).toEqual({ start: 28, previous: 'Hi', replacement: 'Hiếu' });
+    });
+
+    it('should report when the name is not in a greeting', async () => {
+      const result = await corrector.correct({ format: 'text', content: 'Hi John,\nPeter says hi.' }, 'peter', 'pete');
+
+      expect(result.applied).toBe(false);
+      expect(result.failureReason).toBe('greeting_not_found');
+    });
+  });
+});
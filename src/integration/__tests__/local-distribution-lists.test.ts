@@ -0,0 +1,168 @@
+/**
+ * Unit tests for the local distribution lists and their JSON and LDIF import
+ */
+
+import {
+  LocalDistributionLists,
+  parseDistributionListsFile,
+  parseDistributionListsJson,
+  parseDistributionListsLdif
+} from '../local-distribution-lists';
+
+describe('local-distribution-lists', () => {
+  describe('parseDistributionListsJson', () => {
+    it('should read an array of lists with addresses and member objects', () => {
+      const lists = parseDistributionListsJson(JSON.stringify([{
+        email: 'Sales-EMEA@example.com',
+        name: 'Sales EMEA',
+        members: ['jana.novak@example.com', { email: 'P.Meier@example.com', displayName: 'Peter Meier' }, 'jana.novak@example.com', '']
+      }]));
+
+      expect(lists).toEqual([{
+        email: 'sales-emea@example.com',
+        name: 'Sales EMEA',
+        members: [{ email: 'jana.novak@example.com' }, { email: 'p.meier@example.com', displayName: 'Peter Meier' }]
+      }]);
+    });
+
+    it('should read an object of members by list address', () => {
+      expect(parseDistributionListsJson('{ "team@example.com": ["anna@example.com"] }')).toEqual([
+        { email: 'team@example.com', members: [{ email: 'anna@example.com' }] }
+      ]);
+    });
+
+    it('should reject content that is no list of lists', () => {
+      expect(() => parseDistributionListsJson('"sales@example.com"')).toThrow('Distribution lists must be');
+    });
+  });
+
+  describe('parseDistributionListsLdif', () => {
+    it('should resolve member DNs to the entries they name', () => {
+      const lists = parseDistributionListsLdif([
+        'version: 1',
+        '',
+        'dn: CN=Jana Novak,OU=Sales,DC=example,DC=com',
+        'objectClass: user',
+        'cn: Jana Novak',
+        'mail: jana.novak@example.com',
+        '',
+        'dn: CN=Jürgen Müller,OU=Sales,DC=example,DC=com',
+        'objectClass: user',
+        'displayName:: SsO8cmdlbiBNw7xsbGVy',
+        'mail: j.mueller@example.com',
+        '',
+        'dn: CN=Sales EMEA,OU=Groups,DC=example,DC=com',
+        'objectClass: group',
+        'cn: Sales EMEA',
+        'mail: sales-emea@example.com',
+        'member: cn=Jana Novak, ou=Sales, dc=example, dc=com',
+        'member: CN=Jürgen Müller,OU=Sales,DC=example,DC=com',
+        'member: cn=Peter Meier,mail=p.meier@partner.com',
+        ''
+      ].join('\r\n'));
+
+      expect(lists).toEqual([{
+        email: 'sales-emea@example.com',
+        name: 'Sales EMEA',
+        members: [
+          { email: 'jana.novak@example.com', displayName: 'Jana Novak' },
+          { email: 'j.mueller@example.com', displayName: 'Jürgen Müller' },
+          { email: 'p.meier@partner.com', displayName: 'Peter Meier' }
+        ]
+      }]);
+    });
+
+    it('should read mailing list addresses and folded lines', () => {
+      const lists = parseDistributionListsLdif([
+        'dn: cn=Project Team',
+        'objectclass: groupOfNames',
+        'mail: project-team@example.',
+        ' com',
+        'rfc822MailMember: anna@example.com',
+        'mgrpRFC822MailMember: ben@example.com'
+      ].join('\n'));
+
+      expect(lists).toEqual([{
+        email: 'project-team@example.com',
+        name: 'Project Team',
+        members: [{ email: 'anna@example.com' }, { email: 'ben@example.com' }]
+      }]);
+    });
+  });
+
+  describe('parseDistributionListsFile', () => {
+    it('should tell LDIF from JSON by content and file name', () => {
+      expect(parseDistributionListsFile('dn: cn=Team\nmail: team@example.com\nmember: mail=anna@example.com')[0].email).toBe('team@example.com');
+      expect(parseDistributionListsFile('{ "team@example.com": [] }', 'lists.json')[0].email).toBe('team@example.com');
+    });
+  });
+
+  describe('LocalDistributionLists', () => {
+    const roamingData = new Map<string, string>();
+    const roamingSettings = {
+      get: jest.fn((key: string) => roamingData.get(key)),
+      set: jest.fn((key: string, value: string) => { roamingData.set(key, value); }),
+      remove: jest.fn((key: string) => { roamingData.delete(key); }),
+      saveAsync: jest.fn((callback: (result: any) => void) => callback({ status: 'succeeded' }))
+    };
+
+    beforeEach(() => {
+      (global as any).Office = {
+        context: { roamingSettings },
+        AsyncResultStatus: { Succeeded: 'succeeded', Failed: 'failed' }
+      };
+      (LocalDistributionLists as any).instance = undefined;
+      roamingData.clear();
+      window.localStorage.clear();
+      jest.clearAllMocks();
+    });
+
+    afterAll(() => {
+      delete (global as any).Office;
+    });
+
+    it('should know only imported lists, and replace a re-imported one', async () => {
+      const lists = LocalDistributionLists.getInstance();
+      await lists.initialize();
+
+      await lists.importLists('{ "sales@example.com": ["anna@example.com"], "team@example.com": ["ben@example.com"] }');
+      await lists.importLists('{ "Sales@Example.com": ["jana@example.com"] }');
+
+      expect(await lists.getMembers('SALES@example.com')).toEqual([{ email: 'jana@example.com' }]);
+      expect(await lists.getMembers('anna@example.com')).toBeUndefined();
+      expect(lists.getLists()).toHaveLength(2);
+    });
+
+    it('should keep lists in roaming settings across sessions', async () => {
+      await LocalDistributionLists.getInstance().importLists('{ "sales@example.com": ["anna@example.com"] }');
+      (LocalDistributionLists as any).instance = undefined;
+
+      const lists = LocalDistributionLists.getInstance();
+      await lists.initialize();
+
+      expect(roamingSettings.saveAsync).toHaveBeenCalled();
+      expect(await lists.getMembers('sales@example.com')).toEqual([{ email: 'anna@example.com' }]);
+    });
+
+    it('should keep lists in local storage when imported contacts fill roaming settings', async () => {
+      roamingData.set('contactsDirectory', JSON.stringify(['x'.repeat(24000)]));
+      const members = Array.from({ length: 100 }, (_, index) => `member${index}@example.com`);
+
+      await LocalDistributionLists.getInstance().importLists(JSON.stringify({ 'all@example.com': members }));
+
+      expect(roamingData.has('distributionLists')).toBe(false);
+      expect(window.localStorage.getItem('distributionLists')).toContain('member99@example.com');
+    });
+
+    it('should start empty when stored lists are unreadable', async () => {
+      roamingData.set('distributionLists', 'not json');
+      const warn = jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+
+      const lists = LocalDistributionLists.getInstance();
+      await lists.initialize();
+
+      expect(lists.getLists()).toEqual([]);
+      warn.mockRestore();
+    });
+  });
+});
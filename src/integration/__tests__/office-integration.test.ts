@@ -44,7 +44,8 @@ const mockOffice = {
     Failed: 'Failed'
   },
   CoercionType: {
-    Text: 'Text'
+    Text: 'Text',
+    Html: 'Html'
   },
   MailboxEnums: {
     ItemType: {
@@ -197,6 +198,47 @@ describe('OutlookIntegration', () => {
     });
   });
 
+  describe('getCurrentRecipientsByField', () => {
+    it('should keep To, CC and BCC recipients apart', async () => {
+      mockOffice.context.mailbox.item.to.getAsync.mockImplementation((callback) => {
+        callback({ status: mockOffice.AsyncResultStatus.Succeeded, value: [{ emailAddress: 'john@example.com' }] });
+      });
+      mockOffice.context.mailbox.item.cc.getAsync.mockImplementation((callback) => {
+        callback({ status: mockOffice.AsyncResultStatus.Succeeded, value: [{ emailAddress: 'jane@example.com' }] });
+      });
+      mockOffice.context.mailbox.item.bcc.getAsync.mockImplementation((callback) => {
+        callback({ status: mockOffice.AsyncResultStatus.Failed });
+      });
+
+      const fields = await integration.getCurrentRecipientsByField();
+
+      expect(fields.to.map(recipient => recipient.email)).toEqual(['john@example.com']);
+      expect(fields.cc.map(recipient => recipient.email)).toEqual(['jane@example.com']);
+      expect(fields.bcc).toEqual([]);
+      expect(fields.to[0].field).toBe('to');
+      expect(fields.cc[0].field).toBe('cc');
+    });
+
+    it('should mark addresses Outlook reports as distribution lists', async () => {
+      mockOffice.context.mailbox.item.to.getAsync.mockImplementation((callback) => {
+        callback({
+          status: mockOffice.AsyncResultStatus.Succeeded,
+          value: [
+            { emailAddress: 'sales-emea@example.com', displayName: 'Sales EMEA', recipientType: 'distributionList' },
+            { emailAddress: 'john@example.com', recipientType: 'user' }
+          ]
+        });
+      });
+      mockOffice.context.mailbox.item.cc.getAsync.mockImplementation((callback) => callback({ status: mockOffice.AsyncResultStatus.Failed }));
+      mockOffice.context.mailbox.item.bcc.getAsync.mockImplementation((callback) => callback({ status: mockOffice.AsyncResultStatus.Failed }));
+
+      const fields = await integration.getCurrentRecipientsByField();
+
+      expect(fields.to[0].isDistributionList).toBe(true);
+      expect(fields.to[1].isDistributionList).toBeUndefined();
+    });
+  });
+
   describe('getCurrentEmailBody', () => {
     it('should get email body content', async () => {
       const mockBody = 'Hi John,\n\nHow are you?\n\nBest regards,\nAlice';
@@ -240,6 +282,95 @@ describe('OutlookIntegration', () => {
 
       await expect(integration.getCurrentEmailBody()).rejects.toThrow('Failed to get email body: Access denied');
     });
+
+    describe('HTML bodies', () => {
+      const body = mockOffice.context.mailbox.item.body as any;
+
+      beforeEach(() => {
+        body.getTypeAsync = jest.fn((callback) => {
+          callback({ status: mockOffice.AsyncResultStatus.Succeeded, value: mockOffice.CoercionType.Html });
+        });
+        body.getAsync.mockImplementation((coercionType: string, callback: Function) => {
+          callback({
+            status: mockOffice.AsyncResultStatus.Succeeded,
+            value: '<html><body><p>Hi <b>John</b>,</p><p>How are you?</p></body></html>'
+          });
+        });
+      });
+
+      afterEach(() => {
+        delete body.getTypeAsync;
+      });
+
+      it('should read HTML bodies as HTML and return their text', async () => {
+        const text = await integration.getCurrentEmailBody();
+
+        expect(text).toBe('Hi John,\nHow are you?');
+        expect(body.getAsync).toHaveBeenCalledWith(mockOffice.CoercionType.Html, expect.any(Function));
+      });
+
+      it('should return the raw HTML with its format', async () => {
+        const content = await integration.getEmailBodyContent();
+
+        expect(content.format).toBe('html');
+        expect(content.content).toContain('<b>John</b>');
+      });
+    });
+  });
+
+  describe('getSenderProfile', () => {
+    afterEach(() => {
+      delete (mockOffice.context.mailbox as any).userProfile;
+    });
+
+    it('should return the signed-in user', () => {
+      (mockOffice.context.mailbox as any).userProfile = {
+        displayName: 'Anna Schmidt',
+        emailAddress: 'anna.schmidt@example.com'
+      };
+
+      expect(integration.getSenderProfile()).toEqual({
+        displayName: 'Anna Schmidt',
+        emailAddress: 'anna.schmidt@example.com'
+      });
+    });
+
+    it('should return null when the host has no user profile', () => {
+      expect(integration.getSenderProfile()).toBeNull();
+    });
+  });
+
+  describe('setEmailBodyContent', () => {
+    const body = mockOffice.context.mailbox.item.body as any;
+
+    beforeEach(() => {
+      body.setAsync = jest.fn((content, options, callback) => {
+        callback({ status: mockOffice.AsyncResultStatus.Succeeded });
+      });
+    });
+
+    afterEach(() => {
+      delete body.setAsync;
+    });
+
+    it('should write HTML bodies with HTML coercion', async () => {
+      await integration.setEmailBodyContent({ format: 'html', content: '<p>Hi John,</p>' });
+
+      expect(body.setAsync).toHaveBeenCalledWith(
+        '<p>Hi John,</p>',
+        { coercionType: mockOffice.CoercionType.Html },
+        expect.any(Function)
+      );
+    });
+
+    it('should reject when the body cannot be written', async () => {
+      body.setAsync.mockImplementation((content: string, options: any, callback: Function) => {
+        callback({ status: mockOffice.AsyncResultStatus.Failed, error: { message: 'Read only' } });
+      });
+
+      await expect(integration.setEmailBodyContent({ format: 'text', content: 'Hi' }))
+        .rejects.toThrow('Failed to set email body: Read only');
+    });
   });
 
   describe('event handling', () => {
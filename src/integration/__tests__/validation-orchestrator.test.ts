@@ -3,7 +3,7 @@
  */
 
 import { ValidationOrchestratorImpl, OrchestratorEventHandler } from '../validation-orchestrator';
-import { ValidationResult, ParsedRecipient } from '../../models/interfaces';
+import { GreetingAudience, ValidationResult, ParsedRecipient, RecipientField } from '../../models/interfaces';
 
 // Mock the dependencies
 jest.mock('../office-integration');
@@ -15,6 +15,7 @@ import { OutlookIntegration } from '../office-integration';
 import { EmailContentParserImpl } from '../../models/email-content-parser';
 import { RecipientParser } from '../../models/recipient-parser';
 import { NameMatchingEngine } from '../../models/name-matching-engine';
+import { AliasStore } from '../../models/alias-store';
 
 const MockOutlookIntegration = OutlookIntegration as jest.MockedClass<typeof OutlookIntegration>;
 const MockEmailContentParserImpl = EmailContentParserImpl as jest.MockedClass<typeof EmailContentParserImpl>;
@@ -63,7 +64,8 @@ describe('ValidationOrchestratorImpl', () => {
 
     mockRecipientParser = {
       parseEmailAddress: jest.fn(),
-      extractAllRecipients: jest.fn()
+      extractAllRecipients: jest.fn(),
+      applyDomainConventions: jest.fn((recipients: ParsedRecipient[]) => recipients)
     } as any;
 
     mockMatchingEngine = {
@@ -533,6 +535,289 @@ describe('ValidationOrchestratorImpl', () => {
     });
   });
 
+  describe('recipient coverage', () => {
+    const anna: ParsedRecipient = { email: 'anna@example.com', extractedNames: ['anna'], isGeneric: false };
+    const peter: ParsedRecipient = { email: 'peter@example.com', extractedNames: ['peter'], isGeneric: false };
+    const greeting = (name: string, audience: GreetingAudience = 'individual') => ({
+      fullMatch: `Hi ${name}`,
+      extractedName: name,
+      position: 0,
+      confidence: 0.9,
+      audience
+    });
+    const matched = (name: string, recipient: ParsedRecipient): ValidationResult => ({
+      greetingName: name,
+      isValid: true,
+      suggestedRecipient: recipient,
+      confidence: 1,
+      candidates: [{ recipient, matchType: 'exact', confidence: 1 }]
+    });
+    const inField = (recipient: ParsedRecipient, field: RecipientField): ParsedRecipient => ({ ...recipient, field });
+    const checkCoverage = (greetings: any[], results: ValidationResult[], recipients: ParsedRecipient[]): ValidationResult[] =>
+      (orchestrator as any).checkRecipientCoverageOf(greetings, results, recipients);
+
+    it('should report To recipients that no greeting covers', () => {
+      const recipients = [inField(anna, 'to'), inField(peter, 'to')];
+
+      const results = checkCoverage([greeting('anna')], [matched('anna', anna)], recipients);
+
+      expect(results).toHaveLength(2);
+      expect(results[1]).toEqual(expect.objectContaining({
+        isValid: false,
+        suggestedRecipient: recipients[1],
+        warningType: 'recipient_not_greeted'
+      }));
+    });
+
+    it('should flag greetings that only match CC recipients', () => {
+      const recipients = [inField(anna, 'to'), inField(peter, 'cc')];
+
+      const results = checkCoverage([greeting('peter')], [matched('peter', peter)], recipients);
+
+      expect(results[0].warningType).toBe('cc_only_greeting');
+      expect(results[1].warningType).toBe('recipient_not_greeted');
+      expect(results[1].suggestedRecipient).toBe(recipients[0]);
+    });
+
+    it('should count a misspelled greeting for the recipient it is corrected to', () => {
+      const mismatch: ValidationResult = { greetingName: 'ana', isValid: false, suggestedRecipient: anna, confidence: 0.5 };
+
+      const results = checkCoverage([greeting('ana')], [mismatch], [inField(anna, 'to'), inField(peter, 'cc')]);
+
+      expect(results).toEqual([mismatch]);
+    });
+
+    it('should skip the check when the greeting also addresses a group', () => {
+      const results = checkCoverage([greeting('anna', 'mixed')], [matched('anna', anna)], [inField(anna, 'to'), inField(peter, 'to')]);
+
+      expect(results).toHaveLength(1);
+    });
+
+    it('should warn about a group greeting to a single person', () => {
+      const checkGroups = (recipients: ParsedRecipient[]): ValidationResult[] =>
+        (orchestrator as any).checkGroupGreetingsOf([greeting('anna'), greeting('team', 'group')], recipients);
+      const teamMailbox: ParsedRecipient = { email: 'team@example.com', extractedNames: [], isGeneric: true };
+
+      expect(checkGroups([inField(anna, 'to')])).toEqual([expect.objectContaining({
+        greetingName: 'team',
+        suggestedRecipient: inField(anna, 'to'),
+        warningType: 'group_greeting_single_recipient'
+      })]);
+      expect(checkGroups([inField(anna, 'to'), inField(peter, 'cc')])).toEqual([]);
+      expect(checkGroups([teamMailbox])).toEqual([]);
+    });
+
+    it('should skip the check when the recipient fields are unknown', () => {
+      const results = checkCoverage([greeting('peter')], [matched('peter', peter)], [anna, peter]);
+
+      expect(results[0].warningType).toBeUndefined();
+    });
+
+    it('should not expect distribution lists or their other members to be greeted', () => {
+      const salesList: ParsedRecipient = { email: 'sales-emea@example.com', extractedNames: ['sales', 'emea'], isGeneric: false, field: 'to', isDistributionList: true };
+      const listMember = (recipient: ParsedRecipient) => ({ ...inField(recipient, 'to'), expandedFrom: salesList.email });
+
+      const results = checkCoverage([greeting('anna')], [matched('anna', listMember(anna))], [salesList, listMember(anna), listMember(peter)]);
+
+      expect(results).toEqual([matched('anna', listMember(anna))]);
+    });
+  });
+
+  describe('distribution lists', () => {
+    it('should match greetings against the members of distribution lists', async () => {
+      const source = {
+        getMembers: jest.fn(async (email: string) =>
+          email === 'sales-emea@example.com' ? [{ email: 'jana.novak@example.com', displayName: 'Jana Novak' }] : undefined)
+      };
+      orchestrator.dispose();
+      orchestrator = new ValidationOrchestratorImpl(mockEventHandler, { distributionListSources: [source] });
+      await (orchestrator as any).componentsReady;
+      mockOfficeIntegration.getCurrentRecipients.mockResolvedValue([
+        { email: 'sales-emea@example.com', displayName: 'Sales EMEA', extractedNames: [], isGeneric: false, field: 'to', isDistributionList: true }
+      ]);
+      mockOfficeIntegration.getCurrentEmailBody.mockResolvedValue('Hi Jana,\n\nthe offer is attached.');
+      mockEmailParser.parseEmailContent.mockReturnValue({
+        greetings: [{ fullMatch: 'Hi Jana', extractedName: 'jana', position: 0, confidence: 0.9 }],
+        hasValidContent: true
+      });
+      mockRecipientParser.parseEmailAddress.mockImplementation((email: string, displayName?: string) => ({
+        email,
+        displayName,
+        extractedNames: [email.split(/[.@-]/)[0]],
+        isGeneric: false
+      }));
+      mockMatchingEngine.validateNames.mockReturnValue([]);
+
+      await orchestrator.validateCurrentEmail();
+
+      expect(mockMatchingEngine.validateNames.mock.calls[0][1]).toEqual([
+        expect.objectContaining({ email: 'sales-emea@example.com', field: 'to', isDistributionList: true }),
+        expect.objectContaining({ email: 'jana.novak@example.com', displayName: 'Jana Novak', field: 'to', expandedFrom: 'sales-emea@example.com' })
+      ]);
+    });
+  });
+
+  describe('salutation check', () => {
+    const anna: ParsedRecipient = {
+      email: 'anna.mueller@example.com',
+      displayName: 'Frau Anna Müller',
+      extractedNames: ['anna', 'müller'],
+      isGeneric: false
+    };
+    const greeting = (name: string, salutation: any) => ({
+      fullMatch: `Sehr geehrter Herr ${name}`,
+      extractedName: name,
+      position: 0,
+      confidence: 0.8,
+      salutation
+    });
+    const matched = (name: string): ValidationResult => ({
+      greetingName: name,
+      isValid: true,
+      suggestedRecipient: anna,
+      confidence: 1
+    });
+
+    it('should flag a gendered form that contradicts the display name', () => {
+      const results = (orchestrator as any).checkSalutationsOf(
+        [greeting('müller', { titles: ['Herr'], gender: 'male' })],
+        [matched('müller')]
+      );
+
+      expect(results[0].warningType).toBe('salutation_mismatch');
+      expect(results[0].salutationIssue).toEqual({ kind: 'gender', expected: 'Frau' });
+    });
+
+    it('should flag one name per greeting only', () => {
+      const salutation = { titles: ['Herr'], gender: 'male' };
+
+      const results = (orchestrator as any).checkSalutationsOf(
+        [greeting('anna', salutation), greeting('müller', salutation)],
+        [matched('anna'), matched('müller')]
+      );
+
+      expect(results.map((result: ValidationResult) => result.warningType)).toEqual(['salutation_mismatch', undefined]);
+    });
+
+    it('should leave mismatched names to the mismatch warning', () => {
+      const mismatch: ValidationResult = { ...matched('müler'), isValid: false };
+
+      const results = (orchestrator as any).checkSalutationsOf(
+        [greeting('müler', { titles: ['Herr'], gender: 'male' })],
+        [mismatch]
+      );
+
+      expect(results).toEqual([mismatch]);
+    });
+  });
+
+  describe('register check', () => {
+    const usage = (greeting: 'formal' | 'informal', formalPronouns: string[], informalPronouns: string[]) => ({
+      greeting,
+      greetingText: greeting === 'formal' ? 'Sehr geehrte Frau Weber' : 'Hallo Jan',
+      formalPronouns,
+      informalPronouns
+    });
+
+    it('should warn when a formal greeting is followed by "du"', () => {
+      const results = (orchestrator as any).checkRegisterOf(usage('formal', ['Sie'], ['du', 'dein']));
+
+      expect(results).toEqual([expect.objectContaining({
+        warningType: 'register_mismatch',
+        registerMismatch: { greeting: 'formal', greetingText: 'Sehr geehrte Frau Weber', pronouns: ['du', 'dein'] }
+      })]);
+    });
+
+    it('should warn when an informal greeting is followed by "Sie"', () => {
+      const results = (orchestrator as any).checkRegisterOf(usage('informal', ['Ihnen'], []));
+
+      expect(results[0].registerMismatch.pronouns).toEqual(['Ihnen']);
+    });
+
+    it('should accept a consistent register', () => {
+      expect((orchestrator as any).checkRegisterOf(usage('informal', [], ['du']))).toEqual([]);
+      expect((orchestrator as any).checkRegisterOf(undefined)).toEqual([]);
+    });
+  });
+
+  describe('parseRecipientsWithCaching', () => {
+    it('should parse recipients Office hands over without names, keeping their field', async () => {
+      mockRecipientParser.parseEmailAddress.mockReturnValue({
+        email: 'anna@example.com',
+        extractedNames: ['anna'],
+        isGeneric: false
+      });
+      (orchestrator as any).recipientParser = mockRecipientParser;
+
+      const parsed = await (orchestrator as any).parseRecipientsWithCaching([
+        { email: 'anna@example.com', extractedNames: [], isGeneric: false, field: 'cc' }
+      ]);
+
+      expect(parsed).toEqual([{ email: 'anna@example.com', extractedNames: ['anna'], isGeneric: false, field: 'cc' }]);
+    });
+
+    it('should use the lazily loaded parser in lazy mode', async () => {
+      const lazyParser = {
+        parseEmailAddress: jest.fn().mockResolvedValue({ email: 'anna@example.com', extractedNames: ['anna'], isGeneric: false })
+      };
+      (orchestrator as any).useLazyLoading = true;
+      (orchestrator as any).lazyRecipientParser = lazyParser;
+
+      const parsed = await (orchestrator as any).parseRecipientsWithCaching([
+        { email: 'anna@example.com', extractedNames: [], isGeneric: false, field: 'to' }
+      ]);
+
+      expect(lazyParser.parseEmailAddress).toHaveBeenCalledWith('anna@example.com', undefined);
+      expect(parsed[0].extractedNames).toEqual(['anna']);
+      expect(parsed[0].field).toBe('to');
+    });
+  });
+
+  describe('applyDomainConventions', () => {
+    it('should let the recipient parser read initials mailboxes by their domain', async () => {
+      const recipients: ParsedRecipient[] = [
+        { email: 'jsmith@acme.com', displayName: 'Jane Smith', extractedNames: ['jane', 'smith'], isGeneric: false },
+        { email: 'jdoe@acme.com', extractedNames: ['jdoe'], isGeneric: false }
+      ];
+      (orchestrator as any).recipientParser = mockRecipientParser;
+
+      await (orchestrator as any).applyDomainConventions(recipients);
+
+      expect(mockRecipientParser.applyDomainConventions).toHaveBeenCalledWith(recipients);
+    });
+  });
+
+  describe('undoCorrection', () => {
+    it('should write back the content a logged correction replaced', async () => {
+      const corrected = { format: 'text' as const, content: 'Hi John,\nthanks.' };
+      const id = (orchestrator as any).correctionLog.record('jon', 'john', corrected, { start: 3, previous: 'Jon', replacement: 'John' });
+      (mockOfficeIntegration as any).getEmailBodyContent = jest.fn().mockResolvedValue(corrected);
+      (mockOfficeIntegration as any).setEmailBodyContent = jest.fn().mockResolvedValue(undefined);
+
+      const result = await orchestrator.undoCorrection(id);
+
+      expect(result.undone).toBe(true);
+      expect((mockOfficeIntegration as any).setEmailBodyContent).toHaveBeenCalledWith({ format: 'text', content: 'Hi Jon,\nthanks.' });
+      await expect(orchestrator.undoCorrection(id)).resolves.toEqual({ undone: false, failureReason: 'already_undone' });
+    });
+  });
+
+  describe('acceptAlias', () => {
+    it('should learn the alias and validate again without cached results', async () => {
+      const addAlias = jest.spyOn(AliasStore.prototype, 'addAlias').mockResolvedValue();
+      const results: ValidationResult[] = [];
+      orchestrator.validateCurrentEmail = jest.fn().mockResolvedValue(results);
+      (orchestrator as any).lastValidationTime = Date.now();
+
+      await expect(orchestrator.acceptAlias('Bob', 'robert.king@example.com')).resolves.toBe(results);
+
+      expect(addAlias).toHaveBeenCalledWith('robert.king@example.com', 'Bob');
+      expect(orchestrator.validateCurrentEmail).toHaveBeenCalled();
+      expect((orchestrator as any).lastValidationTime).toBe(0);
+      addAlias.mockRestore();
+    });
+  });
+
   describe('dispose', () => {
     it('should clean up resources including debounce timer', () => {
       // Set up a debounce timer
@@ -0,0 +1,137 @@
+/**
+ * Correction transaction log
+ * Records each applied greeting correction with a snapshot of the region it replaced, so the
+ * correction can be undone later in the session without touching anything else in the body
+ */
+
+import { CorrectionEdit } from './greeting-correction';
+import { EmailBodyContent } from './office-integration';
+
+/**
+ * Characters kept on each side of an edit to find it again after the body changed around it
+ */
+const CONTEXT_LENGTH = 32;
+
+/**
+ * An applied correction as recorded in the log
+ */
+export interface CorrectionTransaction {
+  /** Id to undo the correction with */
+  id: string;
+  /** Name the correction replaced, as reported by validation */
+  originalName: string;
+  /** Name the correction wrote */
+  correctedName: string;
+  /** Body format the edit applies to */
+  format: EmailBodyContent['format'];
+  /** The replaced region */
+  edit: CorrectionEdit;
+  /** Body text just before the edit */
+  contextBefore: string;
+  /** Body text just after the edit */
+  contextAfter: string;
+  /** Whether the correction was undone */
+  undone: boolean;
+}
+
+/**
+ * Why a correction could not be undone
+ */
+export type UndoFailureReason = 'unknown_correction' | 'already_undone' | 'body_changed';
+
+/**
+ * Outcome of undoing a correction
+ */
+export interface UndoCorrectionResult {
+  /** Whether the previous content was restored */
+  undone: boolean;
+  /** The restored body when undone */
+  body?: EmailBodyContent;
+  /** Reason the correction was not undone */
+  failureReason?: UndoFailureReason;
+}
+
+/**
+ * In-memory log of the corrections applied in this session
+ */
+export class CorrectionLog {
+  private transactions: CorrectionTransaction[] = [];
+  private transactionCounter = 0;
+
+  /**
+   * Record an applied correction
+   * @param originalName Name the correction replaced
+   * @param correctedName Name the correction wrote
+   * @param body The corrected body
+   * @param edit The replaced region of the corrected body
+   * @returns Id to undo the correction with
+   */
+  record(originalName: string, correctedName: string, body: EmailBodyContent, edit: CorrectionEdit): string {
+    const id = `correction-${++this.transactionCounter}`;
+    const end = edit.start + edit.replacement.length;
+
+    this.transactions.push({
+      id,
+      originalName,
+      correctedName,
+      format: body.format,
+      edit: { ...edit },
+      contextBefore: body.content.substring(Math.max(0, edit.start - CONTEXT_LENGTH), edit.start),
+      contextAfter: body.content.substring(end, end + CONTEXT_LENGTH),
+      undone: false
+    });
+    return id;
+  }
+
+  /**
+   * Restore the content a correction replaced. The edit is looked for where it was made, or
+   * else by its surrounding text when the body changed elsewhere; if it can't be found exactly
+   * once, for instance because the name was edited again, nothing is changed
+   * @param id Id returned by record
+   * @param body Current body
+   */
+  undo(id: string, body: EmailBodyContent): UndoCorrectionResult {
+    const transaction = this.transactions.find(candidate => candidate.id === id);
+    if (!transaction) {
+      return { undone: false, failureReason: 'unknown_correction' };
+    }
+    if (transaction.undone) {
+      return { undone: false, failureReason: 'already_undone' };
+    }
+
+    const start = body.format === transaction.format ? this.findEdit(transaction, body.content) : -1;
+    if (start === -1) {
+      return { undone: false, failureReason: 'body_changed' };
+    }
+
+    const { previous, replacement } = transaction.edit;
+    const content = body.content.substring(0, start) + previous + body.content.substring(start + replacement.length);
+    transaction.undone = true;
+    return { undone: true, body: { format: body.format, content } };
+  }
+
+  /**
+   * Corrections recorded in this session, oldest first
+   */
+  getTransactions(): CorrectionTransaction[] {
+    return this.transactions.map(transaction => ({ ...transaction, edit: { ...transaction.edit } }));
+  }
+
+  /**
+   * Offset of a recorded edit in the current content, or -1
+   */
+  private findEdit(transaction: CorrectionTransaction, content: string): number {
+    const { contextBefore, contextAfter, edit } = transaction;
+    const region = contextBefore + edit.replacement + contextAfter;
+
+    if (content.substring(edit.start - contextBefore.length, edit.start - contextBefore.length + region.length) === region) {
+      return edit.start;
+    }
+
+    const found = content.indexOf(region);
+    if (found === -1 || content.indexOf(region, found + 1) !== -1) {
+      return -1;
+    }
+    return found + contextBefore.length;
+  }
+}
@@ -0,0 +1,133 @@
+/**
+ * Distribution list expansion
+ * Adds the members of distribution lists among the recipients, so a greeting like "Hi Jana"
+ * in a mail to sales-emea@ is matched against the people on the list
+ */
+
+import { ParsedRecipient } from '../models/interfaces';
+import { DiagnosticLogger } from './error-handler';
+
+/**
+ * Office recipientType of an address Exchange knows as a distribution list
+ */
+export const DISTRIBUTION_LIST_RECIPIENT_TYPE = 'distributionList';
+
+/**
+ * A member of a distribution list as a member source reports it
+ */
+export interface DistributionListMember {
+  email: string;
+  displayName?: string;
+}
+
+/**
+ * Where the members of a distribution list come from (a directory service, a local file, ...)
+ */
+export interface DistributionListMemberSource {
+  /**
+   * The members of the list with this address
+   * @returns The members, or undefined when the source doesn't know the address as a list
+   */
+  getMembers(listEmail: string): Promise<DistributionListMember[] | undefined>;
+}
+
+/**
+ * Limits on how far lists are expanded
+ */
+export interface DistributionListResolverOptions {
+  /** Most members added over all lists of a mail (default 200) */
+  maxMembers?: number;
+  /** How many levels of lists within lists are expanded (default 3) */
+  maxDepth?: number;
+}
+
+/**
+ * Expands distribution lists among the recipients with the first member source that knows them
+ */
+export class DistributionListResolver {
+  private readonly maxMembers: number;
+  private readonly maxDepth: number;
+
+  /**
+   * @param sources Member sources, asked in order
+   */
+  constructor(private readonly sources: DistributionListMemberSource[], options: DistributionListResolverOptions = {}) {
+    this.maxMembers = options.maxMembers ?? 200;
+    this.maxDepth = options.maxDepth ?? 3;
+  }
+
+  /**
+   * Marks the recipients that are distribution lists and adds their members, nested lists
+   * included. Members take the list's field and remember the list in expandedFrom; addresses
+   * already among the recipients are not added again.
+   * @param recipients Recipients as Office reports them; isDistributionList is kept when set
+   * @returns The recipients followed by the members of their lists
+   */
+  async expand(recipients: ParsedRecipient[]): Promise<ParsedRecipient[]> {
+    const seen = new Set(recipients.map(recipient => recipient.email.toLowerCase()));
+    const members: ParsedRecipient[] = [];
+
+    const expanded: ParsedRecipient[] = [];
+    for (const recipient of recipients) {
+      const found = await this.expandList(recipient.email, recipient, 1, seen, members);
+      expanded.push(found || recipient.isDistributionList ? { ...recipient, isDistributionList: true } : recipient);
+    }
+    return [...expanded, ...members];
+  }
+
+  /**
+   * Adds the members of one list to members, descending into lists among them
+   * @returns Whether a source knows the address as a list
+   */
+  private async expandList(
+    listEmail: string,
+    listRecipient: ParsedRecipient,
+    depth: number,
+    seen: Set<string>,
+    members: ParsedRecipient[]
+  ): Promise<boolean> {
+    const listMembers = await this.getMembers(listEmail);
+    if (!listMembers) {
+      return false;
+    }
+
+    for (const member of listMembers) {
+      const email = (member.email || '').trim().toLowerCase();
+      if (!email || seen.has(email) || members.length >= this.maxMembers) {
+        continue;
+      }
+      seen.add(email);
+
+      const isList = depth < this.maxDepth && await this.expandList(email, listRecipient, depth + 1, seen, members);
+      if (isList) {
+        continue;
+      }
+      members.push({
+        email,
+        ...(member.displayName ? { displayName: member.displayName } : {}),
+        extractedNames: [],
+        isGeneric: false,
+        ...(listRecipient.field ? { field: listRecipient.field } : {}),
+        expandedFrom: listRecipient.email.toLowerCase()
+      });
+    }
+    return true;
+  }
+
+  /**
+   * Ask the sources in order; a failing source counts as not knowing the list
+   */
+  private async getMembers(listEmail: string): Promise<DistributionListMember[] | undefined> {
+    for (const source of this.sources) {
+      try {
+        const members = await source.getMembers(listEmail);
+        if (members) {
+          return members;
+        }
+      } catch (error) {
+        DiagnosticLogger.warn('Distribution list member source failed', { listEmail, error: (error as Error).message });
+      }
+    }
+    return undefined;
+  }
+}
@@ -0,0 +1,151 @@
+/**
+ * Formatting-preserving greeting corrections
+ * Locates a greeting name in the message body and replaces only that name, so the rest
+ * of the body (HTML markup, links, signatures) stays byte-identical
+ */
+
+import { GreetingMatch } from '../models/interfaces';
+import { HtmlSourceRange, escapeHtmlText, mapHtmlToText, mapTextRangeToHtml } from '../models/html-text-mapper';
+import { NAME_LETTERS } from '../models/name-normalizer';
+import { EmailBodyContent } from './office-integration';
+
+/**
+ * Extracts greetings from plain text, with positions relative to that text
+ */
+export type GreetingExtractor = (text: string) => Promise<GreetingMatch[]>;
+
+/**
+ * Why a correction could not be applied
+ */
+export type CorrectionFailureReason = 'greeting_not_found' | 'name_spans_formatting';
+
+/**
+ * The part of a body a correction replaced, in the body's native format
+ */
+export interface CorrectionEdit {
+  /** Offset of the edit in the corrected body */
+  start: number;
+  /** Source text before the edit (the misspelled name, as written in the body) */
+  previous: string;
+  /** Source text written instead */
+  replacement: string;
+}
+
+/**
+ * Outcome of correcting a greeting name in a message body
+ */
+export interface GreetingCorrectionResult {
+  /** Whether the name was replaced */
+  applied: boolean;
+  /** The corrected body when applied */
+  body?: EmailBodyContent;
+  /** The replaced region when applied */
+  edit?: CorrectionEdit;
+  /** Id to undo the correction with, once it is recorded in a correction log */
+  transactionId?: string;
+  /** Reason the correction was not applied */
+  failureReason?: CorrectionFailureReason;
+}
+
+/**
+ * Characters that count as part of a name when looking for word boundaries; the same letters
+ * the parser extracts names from
+ */
+const NAME_CHARACTER = new RegExp(`[${NAME_LETTERS}0-9'-]`);
+
+/**
+ * Applies greeting name corrections to message bodies
+ */
+export class GreetingCorrector {
+  constructor(private readonly extractGreetings: GreetingExtractor) {}
+
+  /**
+   * Replaces the greeting name in the body, touching nothing outside the name itself
+   * @param body Current message body in its native format
+   * @param originalName Name as reported by validation (ValidationResult.greetingName)
+   * @param correctedName Name to write instead; capitalized like the original text
+   */
+  async correct(body: EmailBodyContent, originalName: string, correctedName: string): Promise<GreetingCorrectionResult> {
+    const map = body.format === 'html' ? mapHtmlToText(body.content) : null;
+    const text = map ? map.text : body.content;
+
+    const textRange = await this.findGreetingNameRange(text, originalName);
+    if (!textRange) {
+      return { applied: false, failureReason: 'greeting_not_found' };
+    }
+
+    const sourceRange: HtmlSourceRange | null = map ? mapTextRangeToHtml(map, textRange.start, textRange.end) : textRange;
+    if (!sourceRange) {
+      return { applied: false, failureReason: 'name_spans_formatting' };
+    }
+
+    const corrected = matchCapitalization(text.substring(textRange.start, textRange.end), correctedName);
+    const replacement = map ? escapeHtmlText(corrected) : corrected;
+    const content = body.content.substring(0, sourceRange.start) + replacement + body.content.substring(sourceRange.end);
+
+    return {
+      applied: true,
+      body: { format: body.format, content },
+      edit: { start: sourceRange.start, previous: body.content.substring(sourceRange.start, sourceRange.end), replacement }
+    };
+  }
+
+  /**
+   * Finds the text range of a greeting name, searching only inside detected greetings
+   */
+  private async findGreetingNameRange(text: string, originalName: string): Promise<HtmlSourceRange | null> {
+    const target = originalName.trim().toLowerCase();
+    if (!target) {
+      return null;
+    }
+
+    const greetings = await this.extractGreetings(text);
+    for (const greeting of greetings) {
+      if (greeting.extractedName.toLowerCase() !== target) {
+        continue;
+      }
+
+      const greetingText = text.substring(greeting.position, greeting.position + greeting.fullMatch.length);
+      const offset = findWholeWord(greetingText, target);
+      if (offset !== -1) {
+        const start = greeting.position + offset;
+        return { start, end: start + target.length };
+      }
+    }
+
+    return null;
+  }
+}
+
+/**
+ * Finds a case-insensitive whole-word occurrence of a name
+ * @returns Offset of the name or -1
+ */
+function findWholeWord(text: string, lowerName: string): number {
+  const lowerText = text.toLowerCase();
+  let index = lowerText.indexOf(lowerName);
+
+  while (index !== -1) {
+    const before = index > 0 ? text[index - 1] : '';
+    const after = text[index + lowerName.length] || '';
+    if (!NAME_CHARACTER.test(before) && !NAME_CHARACTER.test(after)) {
+      return index;
+    }
+    index = lowerText.indexOf(lowerName, index + 1);
+  }
+
+  return -1;
+}
+
+/**
+ * Writes the corrected name in the same capitalization style as the name it replaces
+ */
+function matchCapitalization(original: string, corrected: string): string {
+  if (original.length > 1 && original === original.toUpperCase()) {
+    return corrected.toUpperCase();
+  }
+  if (original[0] && original[0] === original[0].toUpperCase()) {
+    return corrected.charAt(0).toUpperCase() + corrected.slice(1);
+  }
+  return corrected;
+}
@@ -5,15 +5,52 @@
 export { 
   OutlookIntegration, 
   OfficeIntegration, 
-  ValidationEventHandler 
+  OutlookIntegrationOptions,
+  ValidationEventHandler,
+  EmailBodyFormat,
+  EmailBodyContent,
+  SenderProfile,
+  RecipientsByField
 } from './office-integration';
 
 export { 
   ValidationOrchestratorImpl, 
   ValidationOrchestrator, 
-  OrchestratorEventHandler 
+  OrchestratorEventHandler,
+  OrchestratorOptions
 } from './validation-orchestrator';
 
+export {
+  GreetingCorrector,
+  GreetingExtractor,
+  GreetingCorrectionResult,
+  CorrectionFailureReason,
+  CorrectionEdit
+} from './greeting-correction';
+
+export {
+  CorrectionLog,
+  CorrectionTransaction,
+  UndoCorrectionResult,
+  UndoFailureReason
+} from './correction-log';
+
+export {
+  DistributionListResolver,
+  DistributionListResolverOptions,
+  DistributionListMember,
+  DistributionListMemberSource,
+  DISTRIBUTION_LIST_RECIPIENT_TYPE
+} from './distribution-list-resolver';
+
+export {
+  LocalDistributionLists,
+  DistributionList,
+  parseDistributionListsFile,
+  parseDistributionListsJson,
+  parseDistributionListsLdif
+} from './local-distribution-lists';
+
 export { 
   OfficeErrorHandler,
   OfficeIntegrationError,
@@ -0,0 +1,317 @@
+/**
+ * Local distribution lists
+ * Stand-in member source for when no directory service is available: imports list members
+ * from a JSON file or an LDIF directory export and keeps them on this machine or in the mailbox
+ */
+
+import { DistributionListMember, DistributionListMemberSource } from './distribution-list-resolver';
+import { loadImport, saveImport } from '../models/roaming-storage';
+
+/**
+ * Settings key the lists are stored under
+ */
+const LISTS_STORAGE_KEY = 'distributionLists';
+
+/**
+ * LDIF attributes holding member DNs (groupOfNames, groupOfUniqueNames, Active Directory groups)
+ */
+const LDIF_MEMBER_DN_ATTRIBUTES = ['member', 'uniquemember'];
+
+/**
+ * LDIF attributes holding member addresses directly (Netscape and Thunderbird mailing lists)
+ */
+const LDIF_MEMBER_ADDRESS_ATTRIBUTES = ['rfc822mailmember', 'mgrprfc822mailmember'];
+
+/**
+ * A distribution list and its members; addresses lowercase
+ */
+export interface DistributionList {
+  email: string;
+  name?: string;
+  members: DistributionListMember[];
+}
+
+/**
+ * One LDIF entry: its DN and attribute values by lowercase attribute name
+ */
+interface LdifEntry {
+  dn: string;
+  attributes: Record<string, string[]>;
+}
+
+/**
+ * Reads the distribution lists of a JSON or LDIF file
+ * @param text File content
+ * @param fileName File name, if known; an .ldif extension or a "dn:" line selects LDIF
+ * @returns Lists that have an address
+ * @throws Error if JSON content is not a list of distribution lists
+ */
+export function parseDistributionListsFile(text: string, fileName?: string): DistributionList[] {
+  const isLdif = /\.ldi?f$/i.test(fileName || '') || /^dn::?\s/im.test(text);
+  return isLdif ? parseDistributionListsLdif(text) : parseDistributionListsJson(text);
+}
+
+/**
+ * Reads distribution lists from JSON, either an array of lists or an object of member arrays
+ * by list address. Members are addresses or objects with an address and a display name:
+ *
+ *   [{ "email": "sales-emea@example.com", "members": ["jana.novak@example.com", { "email": "p.meier@example.com", "displayName": "Peter Meier" }] }]
+ *   { "sales-emea@example.com": ["jana.novak@example.com"] }
+ *
+ * @throws Error if the content is not in one of these shapes
+ */
+export function parseDistributionListsJson(text: string): DistributionList[] {
+  const parsed = JSON.parse(text.replace(/^\uFEFF/, ''));
+  const entries: Array<{ email?: unknown; name?: unknown; members?: unknown }> = Array.isArray(parsed)
+    ? parsed
+    : parsed && typeof parsed === 'object'
+      ? Object.keys(parsed).map(email => ({ email, members: parsed[email] }))
+      : [];
+
+  if (entries.length === 0 && !Array.isArray(parsed)) {
+    throw new Error('Distribution lists must be an array of lists or an object of members by list address');
+  }
+
+  return entries
+    .filter(entry => entry && typeof entry.email === 'string' && entry.email.trim().length > 0)
+    .map(entry => ({
+      email: (entry.email as string).trim().toLowerCase(),
+      ...(typeof entry.name === 'string' && entry.name ? { name: entry.name } : {}),
+      members: toMembers(Array.isArray(entry.members) ? entry.members : [])
+    }));
+}
+
+/**
+ * Reads the groups of an LDIF directory export (Active Directory, OpenLDAP, Thunderbird);
+ * member DNs are resolved to the address of the entry they name, or else read from its mail= part
+ * @returns Groups that have a mail address
+ */
+export function parseDistributionListsLdif(text: string): DistributionList[] {
+  const entries = readLdifEntries(text);
+  const byDn = new Map<string, LdifEntry>();
+  entries.forEach(entry => byDn.set(normalizeDn(entry.dn), entry));
+
+  const lists: DistributionList[] = [];
+  for (const entry of entries) {
+    const email = firstValue(entry, 'mail');
+    const memberDns = LDIF_MEMBER_DN_ATTRIBUTES.reduce((all: string[], name) => [...all, ...(entry.attributes[name] || [])], []);
+    const memberAddresses = LDIF_MEMBER_ADDRESS_ATTRIBUTES.reduce((all: string[], name) => [...all, ...(entry.attributes[name] || [])], []);
+    if (!email || (memberDns.length === 0 && memberAddresses.length === 0)) {
+      continue;
+    }
+
+    const members = toMembers([
+      ...memberDns.map(dn => {
+        const memberEntry = byDn.get(normalizeDn(dn));
+        return memberEntry
+          ? { email: firstValue(memberEntry, 'mail'), displayName: firstValue(memberEntry, 'displayname') || firstValue(memberEntry, 'cn') }
+          : { email: getDnValue(dn, 'mail'), displayName: getDnValue(dn, 'cn') };
+      }),
+      ...memberAddresses
+    ]);
+    const name = firstValue(entry, 'displayname') || firstValue(entry, 'cn') || getDnValue(entry.dn, 'cn');
+    lists.push({ email: email.toLowerCase(), ...(name ? { name } : {}), members });
+  }
+  return lists;
+}
+
+/**
+ * Distribution lists imported on this machine or roaming with the mailbox
+ */
+export class LocalDistributionLists implements DistributionListMemberSource {
+  private static instance: LocalDistributionLists;
+  private lists: DistributionList[] = [];
+  private byEmail = new Map<string, DistributionList>();
+  private isInitialized: boolean = false;
+
+  private constructor() {}
+
+  /**
+   * Get singleton instance of the local distribution lists
+   */
+  public static getInstance(): LocalDistributionLists {
+    if (!LocalDistributionLists.instance) {
+      LocalDistributionLists.instance = new LocalDistributionLists();
+    }
+    return LocalDistributionLists.instance;
+  }
+
+  /**
+   * Load the stored lists; starts empty when storage is unavailable
+   */
+  public async initialize(): Promise<void> {
+    if (this.isInitialized) {
+      return;
+    }
+
+    try {
+      this.setLists(this.loadLists());
+    } catch (error) {
+      console.warn('Failed to load distribution lists:', error);
+      this.setLists([]);
+    }
+    this.isInitialized = true;
+  }
+
+  /**
+   * The members of the list with this address, or undefined for addresses that aren't a known list
+   */
+  public async getMembers(listEmail: string): Promise<DistributionListMember[] | undefined> {
+    const list = this.byEmail.get((listEmail || '').trim().toLowerCase());
+    return list ? list.members.map(member => ({ ...member })) : undefined;
+  }
+
+  /**
+   * All stored lists
+   */
+  public getLists(): DistributionList[] {
+    return this.lists.map(list => ({ ...list, members: list.members.map(member => ({ ...member })) }));
+  }
+
+  /**
+   * Import a JSON or LDIF file; an imported list replaces the list with the same address
+   * @param text File content
+   * @param fileName File name, if known
+   * @returns Number of lists imported
+   */
+  public async importLists(text: string, fileName?: string): Promise<number> {
+    const imported = parseDistributionListsFile(text, fileName);
+    if (imported.length === 0) {
+      return 0;
+    }
+
+    const importedEmails = new Set(imported.map(list => list.email));
+    this.setLists([...this.lists.filter(list => !importedEmails.has(list.email)), ...imported]);
+    await this.saveLists();
+    return imported.length;
+  }
+
+  /**
+   * Remove all lists
+   */
+  public async clear(): Promise<void> {
+    this.setLists([]);
+    await this.saveLists();
+  }
+
+  /**
+   * Replace the lists and rebuild the address index
+   */
+  private setLists(lists: DistributionList[]): void {
+    this.lists = lists;
+    this.byEmail = new Map(lists.map(list => [list.email, list] as [string, DistributionList]));
+  }
+
+  /**
+   * Read the lists from roaming settings, or else from local storage
+   */
+  private loadLists(): DistributionList[] {
+    const saved = loadImport(LISTS_STORAGE_KEY);
+    if (!saved) {
+      return [];
+    }
+
+    const parsed = JSON.parse(saved);
+    if (!Array.isArray(parsed)) {
+      throw new Error('Stored distribution lists must be an array');
+    }
+    return parsed.filter((list: DistributionList) => list && typeof list.email === 'string' && Array.isArray(list.members));
+  }
+
+  /**
+   * Save the lists to roaming settings while they fit, otherwise to local storage
+   */
+  private async saveLists(): Promise<void> {
+    await saveImport(LISTS_STORAGE_KEY, JSON.stringify(this.lists), 'distribution lists');
+  }
+}
+
+/**
+ * Members from addresses or { email, displayName } objects, lowercase, without blanks and duplicates
+ */
+function toMembers(values: unknown[]): DistributionListMember[] {
+  const members: DistributionListMember[] = [];
+  const seen = new Set<string>();
+
+  for (const value of values) {
+    const member = value as { email?: unknown; displayName?: unknown; name?: unknown };
+    const email = typeof value === 'string' ? value : typeof member?.email === 'string' ? member.email : '';
+    const displayName = typeof member?.displayName === 'string' ? member.displayName
+      : typeof member?.name === 'string' ? member.name : undefined;
+    const key = email.trim().toLowerCase();
+    if (!key || seen.has(key)) {
+      continue;
+    }
+
+    seen.add(key);
+    members.push({ email: key, ...(displayName ? { displayName } : {}) });
+  }
+  return members;
+}
+
+/**
+ * Entries of an LDIF file with folded lines joined and base64 values decoded
+ */
+function readLdifEntries(text: string): LdifEntry[] {
+  const unfolded = text.replace(/^\uFEFF/, '').replace(/\r?\n /g, '');
+  const entries: LdifEntry[] = [];
+
+  for (const block of unfolded.split(/(?:\r?\n){2,}/)) {
+    const entry: LdifEntry = { dn: '', attributes: {} };
+    for (const line of block.split(/\r?\n/)) {
+      const match = /^([A-Za-z][\w;-]*)(::?)\s*(.*)$/.exec(line);
+      if (!match || line.charAt(0) === '#') {
+        continue;
+      }
+
+      const name = match[1].split(';')[0].toLowerCase();
+      const value = match[2] === '::' ? decodeBase64Utf8(match[3]) : match[3].trim();
+      if (name === 'dn') {
+        entry.dn = value;
+      } else {
+        entry.attributes[name] = [...(entry.attributes[name] || []), value];
+      }
+    }
+    if (entry.dn) {
+      entries.push(entry);
+    }
+  }
+  return entries;
+}
+
+/**
+ * Decodes a base64 LDIF value ("cn:: SsO8cmdlbg==") as UTF-8
+ */
+function decodeBase64Utf8(value: string): string {
+  try {
+    const binary = atob(value.trim());
+    return decodeURIComponent(binary.split('').map(char => `%${`0${char.charCodeAt(0).toString(16)}`.slice(-2)}`).join('')).trim();
+  } catch {
+    return value.trim();
+  }
+}
+
+function firstValue(entry: LdifEntry, name: string): string | undefined {
+  const values = entry.attributes[name];
+  return values && values.length > 0 ? values[0] : undefined;
+}
+
+/**
+ * DN in a form that compares equal however it is spaced or capitalized
+ */
+function normalizeDn(dn: string): string {
+  return dn.split(',').map(part => part.trim().toLowerCase()).join(',');
+}
+
+/**
+ * Value of one attribute in a DN ("cn=Jana Novak,mail=jana@example.com")
+ */
+function getDnValue(dn: string, name: string): string | undefined {
+  for (const part of dn.split(',')) {
+    const separator = part.indexOf('=');
+    if (separator > 0 && part.substring(0, separator).trim().toLowerCase() === name) {
+      return part.substring(separator + 1).trim();
+    }
+  }
+  return undefined;
+}
@@ -3,7 +3,9 @@
  * Handles email composition events, recipient changes, and content monitoring
  */
 
-import { ValidationResult, ValidationState, ParsedRecipient, GreetingMatch } from '../models/interfaces';
+import { ValidationResult, ValidationState, ParsedRecipient, GreetingMatch, RecipientField } from '../models/interfaces';
+import { mapHtmlToText } from '../models/html-text-mapper';
+import { DISTRIBUTION_LIST_RECIPIENT_TYPE } from './distribution-list-resolver';
 
 /**
  * Interface for Office.js integration functionality
@@ -18,6 +20,36 @@ export interface OfficeIntegration {
   isComposing(): boolean;
 }
 
+/**
+ * Format of the message body as stored by Outlook
+ */
+export type EmailBodyFormat = 'html' | 'text';
+
+/**
+ * Raw message body in its native format
+ */
+export interface EmailBodyContent {
+  format: EmailBodyFormat;
+  content: string;
+}
+
+/**
+ * The signed-in user composing the message
+ */
+export interface SenderProfile {
+  displayName: string;
+  emailAddress: string;
+}
+
+/**
+ * Current recipients grouped by field
+ */
+export interface RecipientsByField {
+  to: ParsedRecipient[];
+  cc: ParsedRecipient[];
+  bcc: ParsedRecipient[];
+}
+
 /**
  * Event handler interface for validation events
  */
@@ -28,6 +60,14 @@ export interface ValidationEventHandler {
   onContentChanged(content: string): void;
 }
 
+/**
+ * Options controlling how the integration attaches to the current item
+ */
+export interface OutlookIntegrationOptions {
+  /** Whether to register recipient/body change handlers (disable for event-based launches) */
+  monitorChanges?: boolean;
+}
+
 /**
  * Office.js integration implementation
  */
@@ -35,13 +75,15 @@ export class OutlookIntegration implements OfficeIntegration {
   private isInitialized = false;
   private validationState: ValidationState;
   private eventHandler?: ValidationEventHandler;
+  private readonly monitorChanges: boolean;
   private recipientChangeHandler?: () => void;
   private contentChangeHandler?: () => void;
   private debounceTimer?: number;
   private readonly debounceDelay = 500; // 500ms debounce
 
-  constructor(eventHandler?: ValidationEventHandler) {
+  constructor(eventHandler?: ValidationEventHandler, options: OutlookIntegrationOptions = {}) {
     this.eventHandler = eventHandler;
+    this.monitorChanges = options.monitorChanges ?? true;
     this.validationState = {
       lastValidationTime: new Date(),
       isEnabled: true
@@ -63,8 +105,10 @@ export class OutlookIntegration implements OfficeIntegration {
         throw new Error('Add-in must be used in email compose mode');
       }
 
-      // Set up event handlers
-      await this.setupEventHandlers();
+      // Set up event handlers (not needed when running inside a launch event)
+      if (this.monitorChanges) {
+        await this.setupEventHandlers();
+      }
       
       this.isInitialized = true;
       console.log('Office.js integration initialized successfully');
@@ -261,51 +305,41 @@ export class OutlookIntegration implements OfficeIntegration {
    * Get current recipients from all fields (To, CC, BCC)
    */
   async getCurrentRecipients(): Promise<ParsedRecipient[]> {
+    const fields = await this.getCurrentRecipientsByField();
+    return [...fields.to, ...fields.cc, ...fields.bcc];
+  }
+
+  /**
+   * Get current recipients grouped by the field they were entered in
+   */
+  async getCurrentRecipientsByField(): Promise<RecipientsByField> {
+    const item = Office.context.mailbox.item;
+    const [to, cc, bcc] = await Promise.all([
+      this.getFieldRecipients('to', item?.to),
+      this.getFieldRecipients('cc', item?.cc),
+      this.getFieldRecipients('bcc', item?.bcc)
+    ]);
+    return { to, cc, bcc };
+  }
+
+  /**
+   * Read the recipients of one field; a missing field or failed request yields no recipients
+   */
+  private getFieldRecipients(fieldName: RecipientField, field?: Office.Recipients): Promise<ParsedRecipient[]> {
     return new Promise((resolve, reject) => {
-      try {
-        const recipients: ParsedRecipient[] = [];
-        let pendingRequests = 0;
-        let completedRequests = 0;
-
-        const checkComplete = () => {
-          completedRequests++;
-          if (completedRequests === pendingRequests) {
-            resolve(recipients);
-          }
-        };
+      if (!field) {
+        resolve([]);
+        return;
+      }
 
-        const handleRecipientsResult = (result: Office.AsyncResult<Office.EmailAddressDetails[]>) => {
+      try {
+        field.getAsync((result: Office.AsyncResult<Office.EmailAddressDetails[]>) => {
           if (result.status === Office.AsyncResultStatus.Succeeded && result.value) {
-            result.value.forEach(recipient => {
-              recipients.push(this.convertToParsedRecipient(recipient));
-            });
+            resolve(result.value.map(recipient => this.convertToParsedRecipient(recipient, fieldName)));
+          } else {
+            resolve([]);
           }
-          checkComplete();
-        };
-
-        // Get TO recipients
-        if (Office.context.mailbox.item?.to) {
-          pendingRequests++;
-          Office.context.mailbox.item.to.getAsync(handleRecipientsResult);
-        }
-
-        // Get CC recipients
-        if (Office.context.mailbox.item?.cc) {
-          pendingRequests++;
-          Office.context.mailbox.item.cc.getAsync(handleRecipientsResult);
-        }
-
-        // Get BCC recipients
-        if (Office.context.mailbox.item?.bcc) {
-          pendingRequests++;
-          Office.context.mailbox.item.bcc.getAsync(handleRecipientsResult);
-        }
-
-        // If no recipients to fetch, resolve immediately
-        if (pendingRequests === 0) {
-          resolve(recipients);
-        }
-
+        });
       } catch (error) {
         reject(error);
       }
@@ -315,33 +349,47 @@ export class OutlookIntegration implements OfficeIntegration {
   /**
    * Convert Office.EmailAddressDetails to ParsedRecipient
    */
-  private convertToParsedRecipient(emailDetails: Office.EmailAddressDetails): ParsedRecipient {
+  private convertToParsedRecipient(emailDetails: Office.EmailAddressDetails, field: RecipientField): ParsedRecipient {
     // TODO: This will use the RecipientParser from previous tasks
     // For now, return a basic structure
     return {
       email: emailDetails.emailAddress,
       displayName: emailDetails.displayName,
       extractedNames: [], // Will be populated by RecipientParser
-      isGeneric: false // Will be determined by RecipientParser
+      isGeneric: false, // Will be determined by RecipientParser
+      field,
+      ...(emailDetails.recipientType === DISTRIBUTION_LIST_RECIPIENT_TYPE ? { isDistributionList: true } : {})
     };
   }
 
   /**
-   * Get current email body content
+   * Get current email body as plain text; HTML bodies are converted with the same
+   * mapping used for corrections so greeting positions line up with the HTML
    */
   async getCurrentEmailBody(): Promise<string> {
+    const body = await this.getEmailBodyContent();
+    return body.format === 'html' ? mapHtmlToText(body.content).text : body.content;
+  }
+
+  /**
+   * Get the raw email body in its native format (HTML or plain text)
+   */
+  async getEmailBodyContent(): Promise<EmailBodyContent> {
+    const body = Office.context.mailbox?.item?.body;
+    if (!body) {
+      return { format: 'text', content: '' };
+    }
+
+    const format = await this.getEmailBodyFormat();
+    const coercionType = format === 'html' ? Office.CoercionType.Html : Office.CoercionType.Text;
+
     return new Promise((resolve, reject) => {
       try {
-        if (!Office.context.mailbox.item?.body) {
-          resolve('');
-          return;
-        }
-
-        Office.context.mailbox.item.body.getAsync(
-          Office.CoercionType.Text,
-          (result) => {
+        body.getAsync(
+          coercionType,
+          (result: Office.AsyncResult<string>) => {
             if (result.status === Office.AsyncResultStatus.Succeeded) {
-              resolve(result.value || '');
+              resolve({ format, content: result.value || '' });
             } else {
               reject(new Error(`Failed to get email body: ${result.error?.message}`));
             }
@@ -353,6 +401,69 @@ export class OutlookIntegration implements OfficeIntegration {
     });
   }
 
+  /**
+   * Replace the email body, keeping its format
+   */
+  async setEmailBodyContent(bodyContent: EmailBodyContent): Promise<void> {
+    const body = Office.context.mailbox?.item?.body;
+    if (!body) {
+      throw new Error('Email body is not available');
+    }
+
+    const coercionType = bodyContent.format === 'html' ? Office.CoercionType.Html : Office.CoercionType.Text;
+
+    return new Promise((resolve, reject) => {
+      try {
+        body.setAsync(
+          bodyContent.content,
+          { coercionType },
+          (result: Office.AsyncResult<void>) => {
+            if (result.status === Office.AsyncResultStatus.Succeeded) {
+              resolve();
+            } else {
+              reject(new Error(`Failed to set email body: ${result.error?.message}`));
+            }
+          }
+        );
+      } catch (error) {
+        reject(error);
+      }
+    });
+  }
+
+  /**
+   * Determine whether the body is HTML; hosts without getTypeAsync are treated as plain text
+   */
+  private async getEmailBodyFormat(): Promise<EmailBodyFormat> {
+    const body = Office.context.mailbox?.item?.body;
+    if (!body || typeof body.getTypeAsync !== 'function') {
+      return 'text';
+    }
+
+    return new Promise((resolve) => {
+      try {
+        body.getTypeAsync((result: Office.AsyncResult<Office.CoercionType>) => {
+          const isHtml = result.status === Office.AsyncResultStatus.Succeeded &&
+            result.value === Office.CoercionType.Html;
+          resolve(isHtml ? 'html' : 'text');
+        });
+      } catch (error) {
+        resolve('text');
+      }
+    });
+  }
+
+  /**
+   * Get the signed-in user's name and address, or null if the host doesn't provide them
+   */
+  getSenderProfile(): SenderProfile | null {
+    const userProfile = Office.context.mailbox?.userProfile;
+    if (!userProfile || !userProfile.displayName || !userProfile.emailAddress) {
+      return null;
+    }
+    return { displayName: userProfile.displayName, emailAddress: userProfile.emailAddress };
+  }
+
   /**
    * Check if we're in compose mode
    */
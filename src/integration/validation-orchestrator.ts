@@ -4,11 +4,29 @@
  */
 
 import { OutlookIntegration, ValidationEventHandler } from './office-integration';
-import { ValidationResult, ValidationState, ParsedRecipient } from '../models/interfaces';
-import { EmailContentParserImpl, SupportedLanguage } from '../models/email-content-parser';
+import { GreetingCorrector, GreetingCorrectionResult } from './greeting-correction';
+import { CorrectionLog, UndoCorrectionResult } from './correction-log';
+import { DistributionListMemberSource, DistributionListResolver } from './distribution-list-resolver';
+import { LocalDistributionLists } from './local-distribution-lists';
+import {
+  ValidationResult,
+  ValidationState,
+  ParsedRecipient,
+  GreetingMatch,
+  SignOffBlock,
+  RegisterUsage
+} from '../models/interfaces';
+import { EmailContentParserImpl, EmailContentParserOptions, SupportedLanguage } from '../models/email-content-parser';
 import { ConfigurationManager } from '../models/configuration-manager';
+import { ContactsDirectory } from '../models/contacts-directory';
+import { AliasStore } from '../models/alias-store';
+import { findQuotedContentBoundary, getAuthoredContent } from '../models/quoted-content-detector';
+import { findSignOff, getContentBeforeSignOff } from '../models/sign-off-detector';
+import { foldName } from '../models/name-normalizer';
+import { findSalutationIssue, getRecipientSalutation } from '../models/salutation-checker';
 import { RecipientParser } from '../models/recipient-parser';
-import { NameMatchingEngine } from '../models/name-matching-engine';
+import { GenericMailboxClassifier, GenericMailboxSettings } from '../models/generic-mailbox-rules';
+import { NameMatchingEngine, NameMatchingOptions } from '../models/name-matching-engine';
 import { 
   OfficeErrorHandler, 
   DiagnosticLogger, 
@@ -46,6 +64,9 @@ export interface ValidationOrchestrator {
   validateCurrentEmail(): Promise<ValidationResult[]>;
   handleRecipientsChanged(): void;
   handleContentChanged(): void;
+  applyCorrection(originalName: string, correctedName: string): Promise<GreetingCorrectionResult>;
+  undoCorrection(transactionId: string): Promise<UndoCorrectionResult>;
+  acceptAlias(greetingName: string, email: string): Promise<ValidationResult[]>;
   dispose(): void;
 }
 
@@ -58,6 +79,16 @@ export interface OrchestratorEventHandler {
   onValidationStarted(): void;
 }
 
+/**
+ * Options for constructing a validation orchestrator
+ */
+export interface OrchestratorOptions {
+  /** Run without task pane change monitoring, e.g. from an OnMessageSend launch event */
+  headless?: boolean;
+  /** Where distribution list members come from (a directory service, ...); asked before the lists imported in settings */
+  distributionListSources?: DistributionListMemberSource[];
+}
+
 /**
  * Main validation orchestrator implementation
  */
@@ -88,13 +119,23 @@ export class ValidationOrchestratorImpl implements ValidationOrchestrator, Valid
   private useAsyncProcessing = true;
   private useWorkerProcessing = false;
   private currentMeasurement?: PerformanceMeasurement;
-
-  constructor(eventHandler?: OrchestratorEventHandler) {
+  private componentsReady: Promise<void>;
+  private checkSignOffName = true;
+  private checkRecipientCoverage = true;
+  private checkSalutations = true;
+  private checkRegister = true;
+  private checkGroupGreetings = true;
+  private readonly correctionLog = new CorrectionLog();
+  private readonly distributionListSources: DistributionListMemberSource[];
+  private distributionListResolver?: DistributionListResolver;
+
+  constructor(eventHandler?: OrchestratorEventHandler, options: OrchestratorOptions = {}) {
     this.eventHandler = eventHandler;
-    this.officeIntegration = new OutlookIntegration(this);
+    this.officeIntegration = new OutlookIntegration(this, { monitorChanges: !options.headless });
+    this.distributionListSources = options.distributionListSources || [];
     
     // Initialize components based on configuration
-    this.initializeComponents();
+    this.componentsReady = this.initializeComponents();
     
     // Register recovery strategies
     this.initializeRecoveryStrategies();
@@ -109,17 +150,44 @@ export class ValidationOrchestratorImpl implements ValidationOrchestrator, Valid
     await configManager.initialize();
     const config = configManager.getConfig();
     const language = config.language as SupportedLanguage;
+    const parserOptions: EmailContentParserOptions = {
+      customPatterns: config.enabledGreetingPatterns
+    };
+    const contacts = ContactsDirectory.getInstance();
+    await contacts.initialize();
+    // Plain settings rather than a classifier, so they are part of the lazy loader's cache key
+    const genericMailboxes: GenericMailboxSettings = {
+      genericMailboxRules: config.genericMailboxRules,
+      genericMailboxDomainOverrides: config.genericMailboxDomainOverrides,
+      personalMailboxes: config.personalMailboxes
+    };
+    const aliases = AliasStore.getInstance();
+    await aliases.initialize();
+    const localDistributionLists = LocalDistributionLists.getInstance();
+    await localDistributionLists.initialize();
+    this.distributionListResolver = new DistributionListResolver([...this.distributionListSources, localDistributionLists]);
+    const matchingOptions: NameMatchingOptions = {
+      customNicknames: config.customNicknames,
+      fieldWeights: config.recipientFieldWeights,
+      matchBccRecipients: config.matchBccRecipients,
+      aliases
+    };
+    this.checkSignOffName = config.checkSignOffName;
+    this.checkRecipientCoverage = config.checkRecipientCoverage;
+    this.checkSalutations = config.checkSalutations;
+    this.checkRegister = config.checkRegister;
+    this.checkGroupGreetings = config.checkGroupGreetings;
 
     if (this.useLazyLoading) {
       // Use lazy loading for better initial performance
-      this.lazyEmailParser = await globalLazyLoader.load('emailParser', language);
-      this.lazyRecipientParser = await globalLazyLoader.load('recipientParser');
-      this.lazyMatchingEngine = await globalLazyLoader.load('nameMatchingEngine');
+      this.lazyEmailParser = await globalLazyLoader.load('emailParser', language, parserOptions);
+      this.lazyRecipientParser = await globalLazyLoader.load('recipientParser', genericMailboxes);
+      this.lazyMatchingEngine = await globalLazyLoader.load('nameMatchingEngine', matchingOptions);
     } else {
       // Use eager loading for immediate availability
-      this.emailParser = new EmailContentParserImpl(language);
-      this.recipientParser = new RecipientParser();
-      this.matchingEngine = new NameMatchingEngine();
+      this.emailParser = new EmailContentParserImpl(language, parserOptions);
+      this.recipientParser = new RecipientParser(contacts, new GenericMailboxClassifier(genericMailboxes));
+      this.matchingEngine = new NameMatchingEngine(undefined, undefined, matchingOptions);
     }
   }
 
@@ -163,6 +231,9 @@ export class ValidationOrchestratorImpl implements ValidationOrchestrator, Valid
           
           // Initialize Office.js integration
           await this.officeIntegration.initialize();
+
+          // Make sure parsers and matching engine are loaded before the first validation
+          await this.componentsReady;
           
           DiagnosticLogger.info('Validation orchestrator initialized successfully', {
             degradedMode: this.degradedMode,
@@ -253,21 +324,36 @@ export class ValidationOrchestratorImpl implements ValidationOrchestrator, Valid
           this.currentMeasurement?.startParsing();
           const parsedContent = await this.parseContentWithErrorHandling(emailBody);
           this.currentMeasurement?.endParsing();
+
+          // The signed name is checked against the sender, independently of any greeting
+          const signOffResults = await this.validateSignOffWithErrorHandling(parsedContent.signOff);
           
           if (!parsedContent.hasValidContent || parsedContent.greetings.length === 0) {
             DiagnosticLogger.info('No greetings found in email content');
-            const emptyResults: ValidationResult[] = [];
-            this.updateValidationState(emptyResults);
+            this.updateValidationState(signOffResults);
+            if (signOffResults.length > 0 && this.eventHandler) {
+              this.eventHandler.onValidationComplete(signOffResults);
+            }
             this.currentMeasurement?.complete();
-            return emptyResults;
+            return signOffResults;
           }
 
-          // Parse recipients with error handling
-          const parsedRecipients = await this.parseRecipientsWithErrorHandling(recipients);
+          // Parse recipients with error handling, with the members of distribution lists added
+          const parsedRecipients = await this.parseRecipientsWithErrorHandling(await this.expandDistributionLists(recipients));
 
-          // Validate names with error handling
+          // Validate names with error handling; a greeting to a group only has no name to check
           this.currentMeasurement?.startMatching();
-          const validationResults = await this.validateNamesWithErrorHandling(parsedContent.greetings, parsedRecipients);
+          const namedGreetings = parsedContent.greetings.filter((greeting: GreetingMatch) => greeting.audience !== 'group');
+          const greetingResults = this.checkSalutationsOf(
+            namedGreetings,
+            await this.validateNamesWithErrorHandling(namedGreetings, parsedRecipients)
+          );
+          const validationResults = [
+            ...this.checkRecipientCoverageOf(parsedContent.greetings, greetingResults, parsedRecipients),
+            ...this.checkGroupGreetingsOf(parsedContent.greetings, parsedRecipients),
+            ...this.checkRegisterOf(parsedContent.register),
+            ...signOffResults
+          ];
           this.currentMeasurement?.endMatching();
 
           // Cache the validation results
@@ -340,6 +426,96 @@ export class ValidationOrchestratorImpl implements ValidationOrchestrator, Valid
     );
   }
 
+  /**
+   * Replace a mismatched greeting name in the message body, keeping all other content and formatting
+   */
+  async applyCorrection(originalName: string, correctedName: string): Promise<GreetingCorrectionResult> {
+    await this.componentsReady;
+
+    try {
+      const corrector = new GreetingCorrector(text => this.extractGreetingsForCorrection(text));
+      const body = await this.officeIntegration.getEmailBodyContent();
+      const result = await corrector.correct(body, originalName, correctedName);
+
+      if (result.applied && result.body) {
+        await this.officeIntegration.setEmailBodyContent(result.body);
+        this.invalidateContentCache();
+        if (result.edit) {
+          result.transactionId = this.correctionLog.record(originalName, correctedName, result.body, result.edit);
+        }
+        DiagnosticLogger.info('Greeting correction applied', { format: body.format });
+      } else {
+        DiagnosticLogger.warn('Greeting correction not applied', { reason: result.failureReason });
+      }
+
+      return result;
+    } catch (error) {
+      throw new ValidationError(
+        'Failed to apply greeting correction',
+        'correction',
+        error as Error
+      );
+    }
+  }
+
+  /**
+   * Undo a correction applied in this session, restoring exactly the content it replaced
+   * @param transactionId Id from the correction result
+   */
+  async undoCorrection(transactionId: string): Promise<UndoCorrectionResult> {
+    await this.componentsReady;
+
+    try {
+      const body = await this.officeIntegration.getEmailBodyContent();
+      const result = this.correctionLog.undo(transactionId, body);
+
+      if (result.undone && result.body) {
+        await this.officeIntegration.setEmailBodyContent(result.body);
+        this.invalidateContentCache();
+        DiagnosticLogger.info('Greeting correction undone', { format: body.format });
+      } else {
+        DiagnosticLogger.warn('Greeting correction not undone', { reason: result.failureReason });
+      }
+
+      return result;
+    } catch (error) {
+      throw new ValidationError(
+        'Failed to undo greeting correction',
+        'correction',
+        error as Error
+      );
+    }
+  }
+
+  /**
+   * Always accept a greeting name for a recipient from now on, then validate again
+   * @param greetingName The greeting name as flagged ("Bob")
+   * @param email The recipient it stands for
+   * @returns The new validation results
+   */
+  async acceptAlias(greetingName: string, email: string): Promise<ValidationResult[]> {
+    await this.componentsReady;
+    await AliasStore.getInstance().addAlias(email, greetingName);
+    DiagnosticLogger.info('Alias learned for recipient');
+
+    // Earlier results were computed without the alias
+    globalValidationCache.clear();
+    this.lastValidationTime = 0;
+    return this.validateCurrentEmail();
+  }
+
+  /**
+   * Extract greetings over the whole text (no chunking, so positions stay absolute)
+   */
+  private async extractGreetingsForCorrection(text: string): Promise<GreetingMatch[]> {
+    if (this.useLazyLoading && this.lazyEmailParser) {
+      return this.lazyEmailParser.extractGreetings(text);
+    } else if (this.emailParser) {
+      return this.emailParser.extractGreetings(text);
+    }
+    throw new Error('No email parser available');
+  }
+
   /**
    * Handle recipient changes from Office.js with debouncing
    */
@@ -494,16 +670,44 @@ export class ValidationOrchestratorImpl implements ValidationOrchestrator, Valid
   /**
    * Parse recipients with caching to avoid re-parsing the same data
    */
-  private parseRecipientsWithCaching(recipients: ParsedRecipient[]): ParsedRecipient[] {
-    // If recipients are already parsed (from cache), return them
-    if (recipients.length > 0 && recipients[0].extractedNames) {
+  private async parseRecipientsWithCaching(recipients: ParsedRecipient[]): Promise<ParsedRecipient[]> {
+    // If recipients are already parsed (from cache), return them; Office hands them over with no names yet
+    if (recipients.length > 0 && recipients.every(recipient => recipient.extractedNames && recipient.extractedNames.length > 0)) {
       return recipients;
     }
 
-    // Parse recipients using RecipientParser
-    return recipients.map(recipient => 
-      this.recipientParser.parseEmailAddress(recipient.email, recipient.displayName)
-    );
+    // Parse recipients with whichever RecipientParser is loaded (eager or lazy)
+    return Promise.all(recipients.map(async recipient => ({
+      ...await this.parseRecipient(recipient.email, recipient.displayName),
+      ...this.getRecipientContext(recipient)
+    })));
+  }
+
+  /**
+   * What Office and list expansion tell about a recipient that its address and display name don't
+   */
+  private getRecipientContext(recipient: ParsedRecipient): Partial<ParsedRecipient> {
+    return {
+      field: recipient.field,
+      ...(recipient.isDistributionList ? { isDistributionList: true } : {}),
+      ...(recipient.expandedFrom ? { expandedFrom: recipient.expandedFrom } : {})
+    };
+  }
+
+  /**
+   * Add the members of distribution lists among the recipients; on failure the lists stay unexpanded
+   */
+  private async expandDistributionLists(recipients: ParsedRecipient[]): Promise<ParsedRecipient[]> {
+    if (!this.distributionListResolver) {
+      return recipients;
+    }
+
+    try {
+      return await this.distributionListResolver.expand(recipients);
+    } catch (error) {
+      DiagnosticLogger.warn('Distribution list expansion failed', { error: (error as Error).message });
+      return recipients;
+    }
   }
 
   /**
@@ -579,10 +783,16 @@ export class ValidationOrchestratorImpl implements ValidationOrchestrator, Valid
     try {
       // Use appropriate parser based on configuration
       if (this.useLazyLoading && this.lazyEmailParser) {
-        if (this.useAsyncProcessing && emailBody.length > 10000) {
+        // Long replies are mostly quoted history and signatures; only the authored text before the sign-off is worth chunking
+        const quotedContent = findQuotedContentBoundary(emailBody);
+        const authoredContent = getAuthoredContent(emailBody, quotedContent);
+        const signOff = findSignOff(authoredContent);
+        const greetingContent = getContentBeforeSignOff(authoredContent, signOff);
+
+        if (this.useAsyncProcessing && greetingContent.length > 10000) {
           // Use async processing for large content
           const result = await globalAsyncProcessor.processEmailContent(
-            emailBody,
+            greetingContent,
             async (chunk) => {
               return await this.lazyEmailParser!.parseEmailContent(chunk);
             },
@@ -593,11 +803,15 @@ export class ValidationOrchestratorImpl implements ValidationOrchestrator, Valid
           const allGreetings = result.results.flatMap(r => r.greetings || []);
           return {
             greetings: allGreetings,
-            hasValidContent: allGreetings.length > 0
+            hasValidContent: allGreetings.length > 0,
+            quotedContent: quotedContent || undefined,
+            signOff: signOff || undefined,
+            // Only the opening chunk has the greeting the register is taken from
+            register: result.results.length > 0 ? result.results[0].register : undefined
           };
-        } else if (this.useWorkerProcessing && emailBody.length > 50000) {
+        } else if (this.useWorkerProcessing && greetingContent.length > 50000) {
           // Use web worker for very large content
-          return await globalWorkerProcessor.processInWorker('parseContent', emailBody);
+          return await globalWorkerProcessor.processInWorker('parseContent', greetingContent);
         } else {
           return await this.lazyEmailParser.parseEmailContent(emailBody);
         }
@@ -642,15 +856,10 @@ export class ValidationOrchestratorImpl implements ValidationOrchestrator, Valid
         // Use async processing for many recipients
         const result = await globalAsyncProcessor.processRecipients(
           recipients,
-          async (recipient) => {
-            if (this.useLazyLoading && this.lazyRecipientParser) {
-              return await this.lazyRecipientParser.parseEmailAddress(recipient.email, recipient.displayName);
-            } else if (this.recipientParser) {
-              return this.recipientParser.parseEmailAddress(recipient.email, recipient.displayName);
-            } else {
-              throw new Error('No recipient parser available');
-            }
-          },
+          async (recipient) => ({
+            ...await this.parseRecipient(recipient.email, recipient.displayName),
+            ...this.getRecipientContext(recipient)
+          }),
           { maxConcurrency: 5 }
         );
         parsedRecipients = result.results;
@@ -658,6 +867,7 @@ export class ValidationOrchestratorImpl implements ValidationOrchestrator, Valid
         // Use synchronous processing for fewer recipients
         parsedRecipients = await this.parseRecipientsWithCaching(recipients);
       }
+      parsedRecipients = await this.applyDomainConventions(parsedRecipients);
 
       // Cache the parsed recipients
       globalRecipientCache.cacheRecipients(recipients, parsedRecipients);
@@ -734,7 +944,7 @@ export class ValidationOrchestratorImpl implements ValidationOrchestrator, Valid
           greetingName: greeting.extractedName,
           isValid: recipients.some(r => 
             r.extractedNames.some(name => 
-              name.toLowerCase() === greeting.extractedName.toLowerCase()
+              foldName(name) === foldName(greeting.extractedName)
             )
           ),
           confidence: 0.5 // Low confidence for fallback
@@ -749,6 +959,219 @@ export class ValidationOrchestratorImpl implements ValidationOrchestrator, Valid
     }
   }
 
+  /**
+   * Check the name signed under the closing against the sender's display name.
+   * Catches messages drafted from a colleague's template; never fails validation.
+   */
+  private async validateSignOffWithErrorHandling(signOff?: SignOffBlock): Promise<ValidationResult[]> {
+    if (!this.checkSignOffName || !signOff || !signOff.signedName) {
+      return [];
+    }
+
+    try {
+      const profile = this.officeIntegration.getSenderProfile();
+      if (!profile) {
+        return [];
+      }
+
+      const sender: ParsedRecipient = {
+        ...await this.parseRecipient(profile.emailAddress, profile.displayName),
+        isGeneric: false // Shared mailboxes still sign with a person's name
+      };
+      const signedParts: GreetingMatch[] = signOff.signedName.split(/\s+/).map(part => ({
+        fullMatch: signOff.closing || signOff.signedName!,
+        extractedName: part.toLowerCase(),
+        position: signOff.position,
+        confidence: 1
+      }));
+
+      const results = await this.validateNamesWithErrorHandling(signedParts, [sender]);
+      if (results.some(result => result.isValid)) {
+        return [];
+      }
+
+      return [{
+        greetingName: signOff.signedName,
+        isValid: false,
+        suggestedRecipient: sender,
+        confidence: Math.max(0, ...results.map(result => result.confidence)),
+        warningType: 'sign_off_mismatch'
+      }];
+    } catch (error) {
+      DiagnosticLogger.warn('Sign-off validation failed, skipping', { error: (error as Error).message });
+      return [];
+    }
+  }
+
+  /**
+   * Flag greetings whose title or gendered form contradicts the matched recipient's display name
+   * ("Sehr geehrter Herr Müller" to "Frau Anna Müller", "Dear Mr. Smith" to "Dr. Anna Smith")
+   * @param greetingResults One result per greeting, in the same order
+   */
+  private checkSalutationsOf(greetings: GreetingMatch[], greetingResults: ValidationResult[]): ValidationResult[] {
+    if (!this.checkSalutations) {
+      return greetingResults;
+    }
+
+    // "Dear Mr. John Smith" yields two names; one warning per greeting is enough
+    const flaggedPositions = new Set<number>();
+
+    return greetingResults.map((result, index) => {
+      const greeting = greetings[index];
+      // Mismatches and ambiguous names already carry a warning of their own
+      if (!greeting || !greeting.salutation || greeting.extractedName !== result.greetingName ||
+          !result.isValid || result.warningType || !result.suggestedRecipient || flaggedPositions.has(greeting.position)) {
+        return result;
+      }
+
+      const issue = findSalutationIssue(greeting.salutation, getRecipientSalutation(result.suggestedRecipient.displayName));
+      if (!issue) {
+        return result;
+      }
+      flaggedPositions.add(greeting.position);
+      return { ...result, warningType: 'salutation_mismatch' as const, salutationIssue: issue };
+    });
+  }
+
+  /**
+   * Flag a German mail whose body uses the other form of address than its greeting
+   * ("Sehr geehrte Frau Weber, ... kannst du" or "Hallo Jan, ... können Sie")
+   * @returns A register warning, or no results
+   */
+  private checkRegisterOf(register?: RegisterUsage): ValidationResult[] {
+    if (!this.checkRegister || !register) {
+      return [];
+    }
+
+    const pronouns = register.greeting === 'formal' ? register.informalPronouns : register.formalPronouns;
+    if (pronouns.length === 0) {
+      return [];
+    }
+
+    return [{
+      greetingName: '',
+      isValid: true,
+      confidence: 1,
+      warningType: 'register_mismatch',
+      registerMismatch: { greeting: register.greeting, greetingText: register.greetingText, pronouns }
+    }];
+  }
+
+  /**
+   * Reverse check: flag greetings that only match CC/BCC recipients and To recipients no
+   * greeting covers. Skipped when a greeting addresses a group ("Hi team", "Hi Anna and team")
+   * or the recipients' fields are unknown.
+   * @returns The greeting results, with coverage warnings added
+   */
+  private checkRecipientCoverageOf(
+    greetings: GreetingMatch[],
+    greetingResults: ValidationResult[],
+    parsedRecipients: ParsedRecipient[]
+  ): ValidationResult[] {
+    const toRecipients = parsedRecipients.filter(recipient => recipient.field === 'to');
+    if (!this.checkRecipientCoverage || toRecipients.length === 0 ||
+        greetings.some(greeting => greeting.audience === 'group' || greeting.audience === 'mixed')) {
+      return greetingResults;
+    }
+
+    const toEmails = new Set(toRecipients.map(recipient => recipient.email.toLowerCase()));
+    const greetedEmails = new Set<string>();
+
+    const results = greetingResults.map(result => {
+      const matchedEmails = this.getMatchedEmails(result);
+      matchedEmails.forEach(email => greetedEmails.add(email));
+
+      // Mismatches and ambiguous names already carry a warning of their own
+      if (!result.isValid || result.warningType || matchedEmails.some(email => toEmails.has(email))) {
+        return result;
+      }
+      return { ...result, warningType: 'cc_only_greeting' as const };
+    });
+
+    const reported = new Set<string>();
+    for (const recipient of toRecipients) {
+      const email = recipient.email.toLowerCase();
+      // Nobody greets a list or each of its members by name
+      if (recipient.isGeneric || recipient.isDistributionList || recipient.expandedFrom ||
+          greetedEmails.has(email) || reported.has(email)) {
+        continue;
+      }
+
+      reported.add(email);
+      results.push({
+        greetingName: '',
+        isValid: false,
+        suggestedRecipient: recipient,
+        confidence: 1,
+        warningType: 'recipient_not_greeted'
+      });
+    }
+
+    return results;
+  }
+
+  /**
+   * Flag a greeting to a group only ("Hi all", "Hallo zusammen") in a mail that goes to a single
+   * person. A distribution list or a generic recipient (team@, info@) counts as a group, since it
+   * usually reaches several people.
+   * @returns A warning for the first group greeting, or no results
+   */
+  private checkGroupGreetingsOf(greetings: GreetingMatch[], parsedRecipients: ParsedRecipient[]): ValidationResult[] {
+    const groupGreeting = greetings.find(greeting => greeting.audience === 'group');
+    if (!this.checkGroupGreetings || !groupGreeting ||
+        parsedRecipients.some(recipient => recipient.isGeneric || recipient.isDistributionList)) {
+      return [];
+    }
+
+    const emails = new Set(parsedRecipients.map(recipient => recipient.email.toLowerCase()));
+    if (emails.size !== 1) {
+      return [];
+    }
+
+    return [{
+      greetingName: groupGreeting.extractedName,
+      isValid: true,
+      suggestedRecipient: parsedRecipients[0],
+      confidence: 1,
+      warningType: 'group_greeting_single_recipient'
+    }];
+  }
+
+  /**
+   * Addresses of the recipients a greeting result refers to; a misspelled name counts for
+   * the recipient it is corrected to, which the mismatch warning already points out
+   */
+  private getMatchedEmails(result: ValidationResult): string[] {
+    if (result.candidates) {
+      return result.candidates.map(candidate => candidate.recipient.email.toLowerCase());
+    }
+    return result.suggestedRecipient ? [result.suggestedRecipient.email.toLowerCase()] : [];
+  }
+
+  /**
+   * Parse a single address with whichever recipient parser is loaded
+   */
+  private async parseRecipient(email: string, displayName?: string): Promise<ParsedRecipient> {
+    if (this.useLazyLoading && this.lazyRecipientParser) {
+      return this.lazyRecipientParser.parseEmailAddress(email, displayName);
+    } else if (this.recipientParser) {
+      return this.recipientParser.parseEmailAddress(email, displayName);
+    }
+    throw new Error('No recipient parser available');
+  }
+
+  /**
+   * Let recipients of one domain tell each other's mailbox format (jdoe@ next to "Jane Smith" <jsmith@>)
+   */
+  private async applyDomainConventions(recipients: ParsedRecipient[]): Promise<ParsedRecipient[]> {
+    if (this.useLazyLoading && this.lazyRecipientParser) {
+      return this.lazyRecipientParser.applyDomainConventions(recipients);
+    } else if (this.recipientParser) {
+      return this.recipientParser.applyDomainConventions(recipients);
+    }
+    return recipients;
+  }
+
   /**
    * Get cached recipients with error handling
    */
@@ -0,0 +1,61 @@
+/**
+ * Unit tests for loading the administrator policy
+ */
+
+import { getAdminPolicyUrl, loadAdminPolicy, parseAdminPolicy } from '../admin-policy';
+
+describe('Admin policy', () => {
+  afterEach(() => {
+    delete (global as any).fetch;
+  });
+
+  it('should look for the policy next to the page unless the manifest names a URL', () => {
+    expect(getAdminPolicyUrl({ href: 'https://addin.example.com/validator/taskpane.html', search: '' }))
+      .toBe('https://addin.example.com/validator/admin-policy.json');
+    expect(getAdminPolicyUrl({
+      href: 'https://addin.example.com/taskpane.html?policy=https%3A%2F%2Fit.example.com%2Fvalidator.json',
+      search: '?policy=https%3A%2F%2Fit.example.com%2Fvalidator.json'
+    })).toBe('https://it.example.com/validator.json');
+    expect(getAdminPolicyUrl({ href: 'https://addin.example.com/taskpane.html?policy=policies/sales.json', search: '?policy=policies/sales.json' }))
+      .toBe('https://addin.example.com/policies/sales.json');
+  });
+
+  it('should prefer the URL fixed at build time, which needs no page', () => {
+    expect(getAdminPolicyUrl(undefined, 'https://it.example.com/validator.json')).toBe('https://it.example.com/validator.json');
+    expect(getAdminPolicyUrl({ href: 'https://addin.example.com/taskpane.html', search: '' }, 'https://it.example.com/validator.json'))
+      .toBe('https://it.example.com/validator.json');
+  });
+
+  it('should reject policies of the wrong shape', () => {
+    expect(() => parseAdminPolicy([])).toThrow('Admin policy must be a JSON object');
+    expect(() => parseAdminPolicy({ config: 'strict' })).toThrow('Admin policy config must be an object');
+    expect(() => parseAdminPolicy({ locked: 'checkRegister' })).toThrow('Admin policy locked must be an array of setting names');
+    expect(parseAdminPolicy({ config: { checkRegister: false }, locked: ['checkRegister'], message: 'Ask the IT desk.' }))
+      .toEqual({ config: { checkRegister: false }, locked: ['checkRegister'], message: 'Ask the IT desk.' });
+  });
+
+  it('should load the policy and treat a missing file as no policy', async () => {
+    (global as any).fetch = jest.fn()
+      .mockResolvedValueOnce({ ok: true, status: 200, json: async () => ({ preferences: { warningDisplayDuration: 8000 } }) })
+      .mockResolvedValueOnce({ ok: false, status: 404 });
+
+    await expect(loadAdminPolicy('https://addin.example.com/admin-policy.json'))
+      .resolves.toEqual({ preferences: { warningDisplayDuration: 8000 } });
+    await expect(loadAdminPolicy('https://addin.example.com/admin-policy.json')).resolves.toBeUndefined();
+    expect((global as any).fetch).toHaveBeenCalledWith('https://addin.example.com/admin-policy.json', { cache: 'no-cache' });
+  });
+
+  it('should go on without a policy that fails to load', async () => {
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    (global as any).fetch = jest.fn()
+      .mockResolvedValueOnce({ ok: false, status: 500 })
+      .mockResolvedValueOnce({ ok: true, status: 200, json: async () => { throw new SyntaxError('Unexpected token'); } })
+      .mockRejectedValueOnce(new TypeError('Failed to fetch'));
+
+    for (let attempt = 0; attempt < 3; attempt++) {
+      await expect(loadAdminPolicy('https://addin.example.com/admin-policy.json')).resolves.toBeUndefined();
+    }
+    expect(warn).toHaveBeenCalledTimes(3);
+    warn.mockRestore();
+  });
+});
@@ -0,0 +1,79 @@
+/**
+ * Unit tests for the learned alias store
+ */
+
+import { AliasStore } from '../alias-store';
+
+const roamingData = new Map<string, string>();
+const roamingSettings = {
+  get: jest.fn((key: string) => roamingData.get(key)),
+  set: jest.fn((key: string, value: string) => { roamingData.set(key, value); }),
+  saveAsync: jest.fn((callback: (result: any) => void) => callback({ status: 'succeeded' }))
+};
+
+describe('AliasStore', () => {
+  beforeEach(() => {
+    (global as any).Office = {
+      context: { roamingSettings },
+      AsyncResultStatus: { Succeeded: 'succeeded', Failed: 'failed' }
+    };
+    (AliasStore as any).instance = undefined;
+    roamingData.clear();
+    jest.clearAllMocks();
+  });
+
+  afterAll(() => {
+    delete (global as any).Office;
+  });
+
+  it('should learn aliases per address, ignoring case and duplicates', async () => {
+    const store = AliasStore.getInstance();
+    await store.initialize();
+
+    await store.addAlias('Robert.King@Example.com', 'Bob');
+    await store.addAlias('robert.king@example.com', ' bob ');
+    await store.addAlias('robert.king@example.com', 'Bobster');
+
+    expect(store.getAliases('ROBERT.KING@example.com')).toEqual(['bob', 'bobster']);
+    expect(store.getAliases('someone@example.com')).toEqual([]);
+  });
+
+  it('should keep aliases in roaming settings across sessions', async () => {
+    await AliasStore.getInstance().addAlias('robert.king@example.com', 'Bob');
+    (AliasStore as any).instance = undefined;
+
+    const store = AliasStore.getInstance();
+    await store.initialize();
+
+    expect(roamingSettings.saveAsync).toHaveBeenCalled();
+    expect(store.getAllAliases()).toEqual([{ email: 'robert.king@example.com', alias: 'bob' }]);
+  });
+
+  it('should forget removed aliases and addresses without aliases', async () => {
+    const store = AliasStore.getInstance();
+    await store.addAlias('robert.king@example.com', 'Bob');
+    await store.addAlias('anna.berg@example.com', 'Ännchen');
+
+    await store.removeAlias('robert.king@example.com', 'BOB');
+
+    expect(store.getAliases('robert.king@example.com')).toEqual([]);
+    expect(store.getAllAliases()).toEqual([{ email: 'anna.berg@example.com', alias: 'ännchen' }]);
+    expect(JSON.parse(roamingData.get('learnedAliases')!)).toEqual({ 'anna.berg@example.com': ['ännchen'] });
+  });
+
+  it('should reject aliases without an address or name', async () => {
+    await expect(AliasStore.getInstance().addAlias('', 'Bob')).rejects.toThrow('An address and a name are required');
+  });
+
+  it('should start empty when roaming settings are unavailable', async () => {
+    delete (global as any).Office;
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+
+    const store = AliasStore.getInstance();
+    await store.initialize();
+
+    expect(store.getAllAliases()).toEqual([]);
+    await expect(store.addAlias('robert.king@example.com', 'Bob')).rejects.toThrow('Office roaming settings not available');
+    warn.mockRestore();
+  });
+});
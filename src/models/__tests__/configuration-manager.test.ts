@@ -163,6 +163,65 @@ describe('ConfigurationManager', () => {
       );
     });
 
+    it('should require a capture group in greeting patterns', async () => {
+      const invalidConfig: Partial<ValidationConfig> = {
+        enabledGreetingPatterns: ['\\bHi\\s+([A-Za-z]+)', { pattern: '\\bHowdy\\s+[A-Za-z]+', language: 'en' }]
+      };
+
+      await expect(configManager.updateConfig(invalidConfig)).rejects.toThrow(
+        'Greeting pattern at index 1 must contain a capture group for the name'
+      );
+    });
+
+    it('should validate greeting pattern confidence', async () => {
+      const invalidConfig: Partial<ValidationConfig> = {
+        enabledGreetingPatterns: [{ pattern: '\\bHowdy\\s+([A-Za-z]+)', confidence: 1.5 }]
+      };
+
+      await expect(configManager.updateConfig(invalidConfig)).rejects.toThrow(
+        'Greeting pattern at index 0 must have a confidence between 0 and 1'
+      );
+    });
+
+    it('should validate custom nickname groups', async () => {
+      const invalidConfig: Partial<ValidationConfig> = {
+        customNicknames: [['Bob', '']]
+      };
+      
+      await expect(configManager.updateConfig(invalidConfig)).rejects.toThrow(
+        'customNicknames must be an array of name groups'
+      );
+    });
+
+    it('should validate generic mailbox rules and exceptions', async () => {
+      await expect(configManager.updateConfig({ genericMailboxRules: [{ kind: 'regex', pattern: '([' }] })).rejects.toThrow(
+        'Generic mailbox rule at index 0 is invalid'
+      );
+      await expect(configManager.updateConfig({
+        genericMailboxDomainOverrides: [{ domain: '', genericPrefixes: [], personalPrefixes: ['hr'] }]
+      })).rejects.toThrow('genericMailboxDomainOverrides must be an array of domains with generic and personal prefixes');
+      await expect(configManager.updateConfig({ personalMailboxes: ['hr'] })).rejects.toThrow(
+        'personalMailboxes must be an array of email addresses'
+      );
+
+      await configManager.updateConfig({
+        genericMailboxRules: [{ kind: 'domain', pattern: '*@noreply.github.com' }],
+        personalMailboxes: ['hr@smith-consulting.com']
+      });
+      expect(configManager.getConfig().genericMailboxRules).toEqual([{ kind: 'domain', pattern: '*@noreply.github.com' }]);
+    });
+
+    it('should accept every supported greeting language', async () => {
+      for (const language of ['fr', 'es', 'it', 'nl'] as const) {
+        await configManager.updateConfig({ language });
+        expect(configManager.getConfig().language).toBe(language);
+      }
+
+      await expect(configManager.updateConfig({ language: 'pt' as any })).rejects.toThrow(
+        'language must be one of: en, de, fr, es, it, nl, auto'
+      );
+    });
+
     it('should reset configuration to defaults', async () => {
       await configManager.updateConfig({ minimumConfidenceThreshold: 0.9 });
       await configManager.resetConfig();
@@ -235,6 +294,14 @@ describe('ConfigurationManager', () => {
         {
           config: { excludeGenericEmails: 'not a boolean' },
           error: 'excludeGenericEmails must be a boolean'
+        },
+        {
+          config: { recipientFieldWeights: { to: 1, cc: 1.5, bcc: 0.9 } },
+          error: 'recipientFieldWeights must have a number between 0 and 1 for to, cc and bcc'
+        },
+        {
+          config: { matchBccRecipients: 'not a boolean' },
+          error: 'matchBccRecipients must be a boolean'
         }
       ];
 
@@ -265,6 +332,71 @@ describe('ConfigurationManager', () => {
     });
   });
 
+  describe('Administrator Policy', () => {
+    const policy = {
+      config: { checkRegister: false, minimumConfidenceThreshold: 0.8 },
+      preferences: { warningDisplayDuration: 8000 },
+      locked: ['checkRegister', 'warningDisplayDuration'],
+      message: 'Contact the IT service desk.'
+    };
+
+    beforeEach(() => {
+      (global as any).fetch = jest.fn().mockResolvedValue({ ok: true, status: 200, json: async () => policy });
+      mockOfficeContext.roamingSettings.get.mockImplementation((key: string) => mockOfficeContext.roamingSettings.data.get(key));
+    });
+
+    afterEach(() => {
+      delete (global as any).fetch;
+    });
+
+    it('should layer defaults, policy and user settings, ignoring user values for locked settings', async () => {
+      mockOfficeContext.roamingSettings.data.set('validationConfig', JSON.stringify({ checkRegister: true, enableFuzzyMatching: false }));
+
+      await configManager.initialize();
+
+      const config = configManager.getConfig();
+      expect(config.checkRegister).toBe(false);
+      expect(config.minimumConfidenceThreshold).toBe(0.8);
+      expect(config.enableFuzzyMatching).toBe(false);
+      expect(configManager.getPreferences().warningDisplayDuration).toBe(8000);
+      expect(configManager.isLocked('checkRegister')).toBe(true);
+      expect(configManager.isLocked('minimumConfidenceThreshold')).toBe(false);
+      expect(configManager.getPolicyMessage()).toBe('Contact the IT service desk.');
+    });
+
+    it('should reject changes to locked settings and store only what differs from the policy', async () => {
+      await configManager.initialize();
+
+      await expect(configManager.updateConfig({ checkRegister: true })).rejects.toThrow(
+        "checkRegister is set by your administrator and can't be changed"
+      );
+      await expect(configManager.updatePreferences({ warningDisplayDuration: 3000 })).rejects.toThrow(
+        "warningDisplayDuration is set by your administrator and can't be changed"
+      );
+
+      await configManager.updateConfig({ ...configManager.getConfig(), checkSalutations: false });
+      expect(JSON.parse(mockOfficeContext.roamingSettings.data.get('validationConfig')!)).toEqual({ schemaVersion: 11, checkSalutations: false });
+
+      await configManager.resetConfig();
+      expect(configManager.getConfig()).toEqual({ ...DEFAULT_CONFIG, ...policy.config });
+    });
+
+    it('should ignore an invalid policy', async () => {
+      const warn = jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+      (global as any).fetch = jest.fn().mockResolvedValue({
+        ok: true,
+        status: 200,
+        json: async () => ({ config: { minimumConfidenceThreshold: 2 }, locked: ['minimumConfidenceThreshold'] })
+      });
+
+      await configManager.initialize();
+
+      expect(configManager.getConfig()).toEqual(DEFAULT_CONFIG);
+      expect(configManager.isLocked('minimumConfidenceThreshold')).toBe(false);
+      warn.mockRestore();
+    });
+  });
+
   describe('Storage Error Handling', () => {
     beforeEach(async () => {
       await configManager.initialize();
@@ -299,7 +431,7 @@ describe('ConfigurationManager', () => {
       
       // Validate all default patterns are valid regex
       DEFAULT_CONFIG.enabledGreetingPatterns.forEach((pattern, index) => {
-        expect(() => new RegExp(pattern)).not.toThrow();
+        expect(() => new RegExp(pattern as string)).not.toThrow();
       });
     });
 
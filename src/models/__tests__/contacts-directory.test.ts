@@ -0,0 +1,173 @@
+/**
+ * Unit tests for the contacts directory and its vCard and CSV import
+ */
+
+import { ContactsDirectory, parseContactsCsv, parseContactsFile, parseVCard } from '../contacts-directory';
+
+describe('contacts-directory', () => {
+  describe('parseVCard', () => {
+    it('should read names, nicknames and addresses of each card', () => {
+      const contacts = parseVCard([
+        'BEGIN:VCARD',
+        'VERSION:3.0',
+        'N:Smith;Robert;James;Mr.;',
+        'FN:Bob Smith',
+        'NICKNAME:Bobby,Rob',
+        'EMAIL;TYPE=WORK:Robert.Smith@Example.com',
+        'item1.EMAIL:bob@home.example',
+        'END:VCARD',
+        'BEGIN:VCARD',
+        'VERSION:4.0',
+        'FN:Anna Maria van der Berg',
+        'EMAIL:anna@partner.com',
+        'END:VCARD'
+      ].join('\r\n'));
+
+      expect(contacts).toEqual([
+        {
+          emails: ['robert.smith@example.com', 'bob@home.example'],
+          firstName: 'Robert',
+          middleNames: ['James'],
+          lastName: 'Smith',
+          preferredName: 'Bob',
+          nicknames: ['Bobby', 'Rob']
+        },
+        { emails: ['anna@partner.com'], firstName: 'Anna', middleNames: ['Maria'], lastName: 'van der Berg' }
+      ]);
+    });
+
+    it('should unfold continuation lines and decode quoted-printable names', () => {
+      const contacts = parseVCard([
+        'BEGIN:VCARD',
+        'VERSION:2.1',
+        'N;CHARSET=UTF-8;ENCODING=QUOTED-PRINTABLE:M=C3=BCller;J=C3=',
+        '=BCrgen',
+        'EMAIL;INTERNET:juergen.mueller@',
+        ' example.de',
+        'END:VCARD'
+      ].join('\n'));
+
+      expect(contacts).toEqual([{ emails: ['juergen.mueller@example.de'], firstName: 'Jürgen', lastName: 'Müller' }]);
+    });
+
+    it('should skip cards without an address', () => {
+      expect(parseVCard('BEGIN:VCARD\nFN:Jane Doe\nEND:VCARD')).toEqual([]);
+    });
+  });
+
+  describe('parseContactsCsv', () => {
+    it('should read Outlook exports with quoted cells', () => {
+      const contacts = parseContactsCsv([
+        'First Name,Middle Name,Last Name,E-mail Address,E-mail Type,E-mail Display Name,E-mail 2 Address',
+        'Robert,,"Smith, Jr.",robert@example.com,SMTP,"Robert Smith (robert@example.com)",bob@home.example'
+      ].join('\r\n'));
+
+      expect(contacts).toEqual([
+        { emails: ['robert@example.com', 'bob@home.example'], firstName: 'Robert', lastName: 'Smith, Jr.' }
+      ]);
+    });
+
+    it('should read semicolon-separated German exports', () => {
+      const contacts = parseContactsCsv('\uFEFFVorname;Nachname;Spitzname;E-Mail-Adresse\nJohannes;Weber;Hansi;j.weber@firma.de\n');
+
+      expect(contacts).toEqual([
+        { emails: ['j.weber@firma.de'], firstName: 'Johannes', lastName: 'Weber', nicknames: ['Hansi'] }
+      ]);
+    });
+
+    it('should read preferred names and fill names in from the display name', () => {
+      const contacts = parseContactsCsv([
+        'Display Name,Preferred Name,Primary Email',
+        'Katherine Jones,Kate,kjones@example.com',
+        'William Brown,,wbrown@example.com'
+      ].join('\n'));
+
+      expect(contacts[0]).toEqual({ emails: ['kjones@example.com'], firstName: 'Katherine', lastName: 'Jones', preferredName: 'Kate' });
+      expect(contacts[1]).toEqual({ emails: ['wbrown@example.com'], firstName: 'William', lastName: 'Brown' });
+    });
+  });
+
+  describe('parseContactsFile', () => {
+    it('should tell vCard from CSV by content and file name', () => {
+      expect(parseContactsFile('BEGIN:VCARD\nFN:Jane Doe\nEMAIL:jane@example.com\nEND:VCARD')[0].firstName).toBe('Jane');
+      expect(parseContactsFile('First Name,Email\nJane,jane@example.com', 'contacts.csv')[0].firstName).toBe('Jane');
+    });
+  });
+
+  describe('ContactsDirectory', () => {
+    const roamingData = new Map<string, string>();
+    const roamingSettings = {
+      get: jest.fn((key: string) => roamingData.get(key)),
+      set: jest.fn((key: string, value: string) => { roamingData.set(key, value); }),
+      remove: jest.fn((key: string) => { roamingData.delete(key); }),
+      saveAsync: jest.fn((callback: (result: any) => void) => callback({ status: 'succeeded' }))
+    };
+
+    beforeEach(() => {
+      (global as any).Office = {
+        context: { roamingSettings },
+        AsyncResultStatus: { Succeeded: 'succeeded', Failed: 'failed' }
+      };
+      (ContactsDirectory as any).instance = undefined;
+      roamingData.clear();
+      window.localStorage.clear();
+      jest.clearAllMocks();
+    });
+
+    afterAll(() => {
+      delete (global as any).Office;
+    });
+
+    it('should look up imported contacts by address, case-insensitively', async () => {
+      const directory = ContactsDirectory.getInstance();
+      await directory.initialize();
+
+      const imported = await directory.importContacts('First Name,Last Name,E-mail Address\nRobert,Smith,robert@example.com');
+
+      expect(imported).toBe(1);
+      expect(directory.getContact('Robert@Example.com')?.lastName).toBe('Smith');
+      expect(directory.getContact('someone@example.com')).toBeUndefined();
+    });
+
+    it('should keep contacts in roaming settings across sessions', async () => {
+      await ContactsDirectory.getInstance().importContacts('First Name,Last Name,E-mail Address\nRobert,Smith,robert@example.com');
+      (ContactsDirectory as any).instance = undefined;
+
+      const directory = ContactsDirectory.getInstance();
+      await directory.initialize();
+
+      expect(roamingSettings.saveAsync).toHaveBeenCalled();
+      expect(directory.getContact('robert@example.com')?.firstName).toBe('Robert');
+    });
+
+    it('should replace what was known about a re-imported address', async () => {
+      const directory = ContactsDirectory.getInstance();
+      await directory.importContacts('First Name,Last Name,E-mail Address,E-mail 2 Address\nRobert,Smith,robert@example.com,bob@example.com');
+      await directory.importContacts('First Name,Last Name,E-mail Address\nRoberta,Smith,robert@example.com');
+
+      expect(directory.getContact('robert@example.com')?.firstName).toBe('Roberta');
+      expect(directory.getContact('bob@example.com')?.firstName).toBe('Robert');
+      expect(directory.getContacts()).toHaveLength(2);
+    });
+
+    it('should move directories too large for roaming settings to local storage', async () => {
+      const rows = Array.from({ length: 600 }, (_, index) => `Person${index},Surname${index},person${index}@example.com`);
+      const directory = ContactsDirectory.getInstance();
+      await directory.importContacts(['First Name,Last Name,E-mail Address', ...rows].join('\n'));
+
+      expect(roamingData.has('contactsDirectory')).toBe(false);
+      expect(window.localStorage.getItem('contactsDirectory')).toContain('person599@example.com');
+    });
+
+    it('should start empty when stored contacts are unreadable', async () => {
+      roamingData.set('contactsDirectory', 'not json');
+      const warn = jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+
+      const directory = ContactsDirectory.getInstance();
+      await directory.initialize();
+
+      expect(directory.getContacts()).toEqual([]);
+      warn.mockRestore();
+    });
+  });
+});
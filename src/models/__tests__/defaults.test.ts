@@ -102,9 +102,9 @@ runner.test('DEFAULT_VALIDATION_CONFIG should exclude generic emails', () => {
 
 runner.test('DEFAULT_VALIDATION_CONFIG should have common greeting patterns', () => {
   const patterns = DEFAULT_VALIDATION_CONFIG.enabledGreetingPatterns;
-  runner.expect(patterns.some(p => p.includes('hi'))).toBeTruthy();
-  runner.expect(patterns.some(p => p.includes('hello'))).toBeTruthy();
-  runner.expect(patterns.some(p => p.includes('dear'))).toBeTruthy();
+  runner.expect(patterns.some(p => typeof p === 'string' && p.includes('hi'))).toBeTruthy();
+  runner.expect(patterns.some(p => typeof p === 'string' && p.includes('hello'))).toBeTruthy();
+  runner.expect(patterns.some(p => typeof p === 'string' && p.includes('dear'))).toBeTruthy();
 });
 
 // Default user preferences tests
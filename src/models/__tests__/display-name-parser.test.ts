@@ -0,0 +1,71 @@
+/**
+ * Unit tests for the display name grammar
+ */
+
+import { parseDisplayName } from '../display-name-parser';
+
+describe('display-name-parser', () => {
+  it('should read "First Middle Last" display names', () => {
+    const parsed = parseDisplayName('Anna Maria Schmidt');
+
+    expect(parsed.firstName).toBe('Anna');
+    expect(parsed.middleNames).toEqual(['Maria']);
+    expect(parsed.lastName).toBe('Schmidt');
+    expect(parsed.nameParts).toEqual(['Anna', 'Maria', 'Schmidt']);
+  });
+
+  it('should read "Last, First" display names with a department', () => {
+    const parsed = parseDisplayName('Müller, Hans (IT-SEC)');
+
+    expect(parsed.firstName).toBe('Hans');
+    expect(parsed.lastName).toBe('Müller');
+    expect(parsed.nameParts).toEqual(['Müller', 'Hans']);
+    expect(parsed.annotations).toEqual(['IT-SEC']);
+  });
+
+  it('should set apart roles after a dash and external tags', () => {
+    const contractor = parseDisplayName('Smith, John - Contractor');
+    const external = parseDisplayName('[EXT] Jane Doe');
+
+    expect(contractor.nameParts).toEqual(['Smith', 'John']);
+    expect(contractor.annotations).toEqual(['Contractor']);
+    expect(external.nameParts).toEqual(['Jane', 'Doe']);
+    expect(external.annotations).toEqual(['EXT']);
+  });
+
+  it('should keep hyphenated surnames whole', () => {
+    expect(parseDisplayName('Hans Müller-Lüdenscheidt').lastName).toBe('Müller-Lüdenscheidt');
+  });
+
+  it('should strip titles and suffixes', () => {
+    const parsed = parseDisplayName('Dr. John Smith Jr.');
+    const commaSuffix = parseDisplayName('Smith, John, III');
+
+    expect(parsed.titles).toEqual(['Dr.']);
+    expect(parsed.suffixes).toEqual(['Jr.']);
+    expect(parsed.nameParts).toEqual(['John', 'Smith']);
+    expect(commaSuffix.firstName).toBe('John');
+    expect(commaSuffix.suffixes).toEqual(['III']);
+  });
+
+  it('should keep surname particles with the surname', () => {
+    const parsed = parseDisplayName('Ludwig van Beethoven');
+
+    expect(parsed.firstName).toBe('Ludwig');
+    expect(parsed.lastName).toBe('van Beethoven');
+  });
+
+  it('should read a lone name after a title as the surname', () => {
+    const parsed = parseDisplayName('Frau Weber');
+
+    expect(parsed.firstName).toBeUndefined();
+    expect(parsed.lastName).toBe('Weber');
+    expect(parseDisplayName('Don Smith').firstName).toBe('Don');
+  });
+
+  it('should not read names from single words or addresses', () => {
+    expect(parseDisplayName('Anna').lastName).toBeUndefined();
+    expect(parseDisplayName('anna@example.com').nameParts).toEqual([]);
+    expect(parseDisplayName(undefined).nameParts).toEqual([]);
+  });
+});
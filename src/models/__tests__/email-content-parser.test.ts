@@ -240,8 +240,9 @@ runner.test('should ignore common words', () => {
   const content = 'Hi everyone and all,\n\nWelcome to the team.';
   const matches = parser.extractGreetings(content);
   
-  // Should not extract "everyone", "and", or "all" as names
-  runner.expect(matches).toHaveLength(0);
+  // Should not extract "everyone", "and", or "all" as names, only the greeting to the group
+  runner.expect(matches).toHaveLength(1);
+  runner.expect(matches[0].audience).toBe('group');
 });
 
 runner.test('should handle case insensitive matching', () => {
@@ -387,10 +388,9 @@ John`;
 
   const matches = parser.extractGreetings(content);
   
-  // Should find both "Robert" and "John" from the greetings
-  runner.expect(matches).toHaveLength(2);
-  const names = matches.map(m => m.extractedName).sort();
-  runner.expect(names).toEqual(['john', 'robert']);
+  // Only the newly authored greeting counts; "Hi John" is part of the quote
+  runner.expect(matches).toHaveLength(1);
+  runner.expect(matches[0].extractedName).toBe('robert');
 });
 
 runner.test('should handle greetings with punctuation variations', () => {
@@ -478,8 +478,9 @@ runner.test('should ignore German common words', () => {
   const content = 'Hallo alle und jeder,\n\nwillkommen im Team.';
   const matches = parser.extractGreetings(content);
   
-  // Should not extract "alle", "und", or "jeder" as names
-  runner.expect(matches).toHaveLength(0);
+  // Should not extract "alle", "und", or "jeder" as names, only the greeting to the group
+  runner.expect(matches).toHaveLength(1);
+  runner.expect(matches[0].audience).toBe('group');
 });
 
 runner.test('should auto-detect German language', () => {
@@ -509,6 +510,244 @@ runner.test('should handle mixed German and English content', () => {
   runner.expect(matches[0].extractedName).toBe('john');
 });
 
+// French, Spanish, Italian and Dutch support tests
+runner.test('should extract French greetings "Bonjour" and "Chère"', () => {
+  const parser = new EmailContentParserImpl('auto');
+
+  runner.expect(parser.extractGreetings('Bonjour Pierre,\n\nmerci pour votre message.')[0].extractedName).toBe('pierre');
+  runner.expect(parser.extractGreetings('Chère Madame Dubois,\n\nje vous remercie pour votre réponse.')[0].extractedName).toBe('dubois');
+});
+
+runner.test('should extract Spanish greetings "Hola" and "Estimada"', () => {
+  const parser = new EmailContentParserImpl('auto');
+
+  runner.expect(parser.extractGreetings('Hola Carlos,\n\ngracias por la información.')[0].extractedName).toBe('carlos');
+  runner.expect(parser.extractGreetings('Estimada Sra. Garcia,\n\nle escribo para confirmar la reunión.')[0].extractedName).toBe('garcia');
+});
+
+runner.test('should extract Italian greetings "Ciao" and "Gentile"', () => {
+  const parser = new EmailContentParserImpl('auto');
+
+  runner.expect(parser.extractGreetings('Ciao Marco,\n\ngrazie per la tua risposta.')[0].extractedName).toBe('marco');
+  runner.expect(parser.extractGreetings('Gentile Dott.ssa Rossi,\n\nle scrivo per la riunione di domani.')[0].extractedName).toBe('rossi');
+});
+
+runner.test('should extract Dutch greetings "Beste" and "Geachte"', () => {
+  const parser = new EmailContentParserImpl('auto');
+
+  runner.expect(parser.extractGreetings('Beste Jan,\n\nbedankt voor je bericht. Ik kom graag.')[0].extractedName).toBe('jan');
+  runner.expect(parser.extractGreetings('Geachte mevrouw Jansen,\n\nik schrijf u over de vergadering.')[0].extractedName).toBe('jansen');
+});
+
+runner.test('should split names joined by "et", "y", "e" and "en"', () => {
+  const parser = new EmailContentParserImpl('auto');
+
+  const names = ['Bonjour Marie et Paul,', 'Hola Ana y Luis, gracias.', 'Ciao Anna e Marco, grazie.', 'Hallo Els en Joost, bedankt.']
+    .map(content => parser.extractGreetings(content).map(match => match.extractedName));
+
+  runner.expect(names).toEqual([['marie', 'paul'], ['ana', 'luis'], ['anna', 'marco'], ['els', 'joost']]);
+});
+
+runner.test('should not read a Dutch sign-off as a greeting', () => {
+  const parser = new EmailContentParserImpl('nl');
+  const matches = parser.extractGreetings('Hoi Pieter,\n\ntot morgen.\n\nLieve groetjes,\nSanne');
+
+  runner.expect(matches).toHaveLength(1);
+  runner.expect(matches[0].extractedName).toBe('pieter');
+});
+
+// Custom greeting pattern tests
+runner.test('should extract names with custom greeting patterns', () => {
+  const parser = new EmailContentParserImpl('en', { customPatterns: ['\\bhowdy\\s+([a-z]+)'] });
+  const matches = parser.extractGreetings('Howdy Carl,\n\nsee you tomorrow.');
+
+  runner.expect(matches).toHaveLength(1);
+  runner.expect(matches[0].extractedName).toBe('carl');
+});
+
+runner.test('should prefer the named group "name" over group 1', () => {
+  const parser = new EmailContentParserImpl('en', {
+    customPatterns: ['\\b(yo|ahoy)\\s+(?<name>[a-z]+)']
+  });
+  const matches = parser.extractGreetings('Ahoy Carl,\n\nsee you tomorrow.');
+
+  runner.expect(matches).toHaveLength(1);
+  runner.expect(matches[0].extractedName).toBe('carl');
+});
+
+runner.test('should apply the confidence of a custom pattern', () => {
+  const parser = new EmailContentParserImpl('en', {
+    customPatterns: [{ pattern: '\\bhowdy\\s+([a-z]+)', confidence: 0.55 }]
+  });
+  const matches = parser.extractGreetings('Howdy Carl,\n\nsee you tomorrow.');
+
+  runner.expect(matches).toHaveLength(1);
+  runner.expect(matches[0].confidence).toBe(0.55);
+});
+
+runner.test('should only apply custom patterns tagged with the detected language', () => {
+  const parser = new EmailContentParserImpl('en', {
+    customPatterns: [{ pattern: '\\bservus\\s+([a-z]+)', language: 'de' }]
+  });
+  const matches = parser.extractGreetings('Servus Carl,\n\nsee you tomorrow.');
+
+  runner.expect(matches).toHaveLength(0);
+});
+
+runner.test('should let built-in patterns win at the same position', () => {
+  const parser = new EmailContentParserImpl('en', {
+    customPatterns: [{ pattern: '\\bdear\\s+([a-z]+)', confidence: 0.1 }]
+  });
+  const matches = parser.extractGreetings('Dear Sarah,\n\nthanks.');
+
+  runner.expect(matches).toHaveLength(1);
+  runner.expect(matches[0].confidence).toBeGreaterThan(0.5);
+});
+
+runner.test('should ignore custom patterns without a capture group', () => {
+  const parser = new EmailContentParserImpl('en', { customPatterns: ['\\bhowdy\\s+[a-z]+'] });
+  const matches = parser.extractGreetings('Howdy Carl,\n\nsee you tomorrow.');
+
+  runner.expect(matches).toHaveLength(0);
+});
+
+runner.test('should preview a single pattern with extractWithPattern', () => {
+  const matches = parser.extractWithPattern('\\bhowdy\\s+([a-z]+)', 'Hi John,\nHowdy Carl,');
+
+  runner.expect(matches).toHaveLength(1);
+  runner.expect(matches[0].extractedName).toBe('carl');
+});
+
+// Quoted reply/forward history tests
+runner.test('should ignore greetings in quoted reply history', () => {
+  const content = 'Hi John,\n\nsee below.\n\n-----Original Message-----\nFrom: Sarah\nSent: Monday\n\nHi Sarah,\nthe report is attached.';
+  const matches = parser.extractGreetings(content);
+
+  runner.expect(matches).toHaveLength(1);
+  runner.expect(matches[0].extractedName).toBe('john');
+});
+
+runner.test('should ignore greetings in ">" quoted lines', () => {
+  const matches = parser.extractGreetings('Hi John,\n\nagreed.\n\n> Hi Sarah,\n> can we meet?');
+
+  runner.expect(matches).toHaveLength(1);
+  runner.expect(matches[0].extractedName).toBe('john');
+});
+
+runner.test('should expose the quoted content boundary on ParsedContent', () => {
+  const content = 'Hallo Thomas,\n\ndanke.\n\nVon: Sarah\nGesendet: Montag\n\nHallo Sarah,';
+  const result = parser.parseEmailContent(content);
+
+  runner.expect(result.greetings).toHaveLength(1);
+  runner.expect(result.quotedContent?.marker).toBe('header');
+  runner.expect(result.quotedContent?.position).toBe(content.indexOf('Von:'));
+});
+
+// Sign-off tests
+runner.test('should not read a German sign-off as a greeting', () => {
+  const matches = parser.extractGreetings('Hallo Thomas,\n\nbis morgen.\n\nLiebe Grüße\nSabine');
+
+  runner.expect(matches).toHaveLength(1);
+  runner.expect(matches[0].extractedName).toBe('thomas');
+});
+
+runner.test('should expose the sign-off and signed name on ParsedContent', () => {
+  const content = 'Hi John,\n\nsee you tomorrow.\n\nBest regards,\nAnna Schmidt';
+  const result = parser.parseEmailContent(content);
+
+  runner.expect(result.signOff?.position).toBe(content.indexOf('Best regards'));
+  runner.expect(result.signOff?.signedName).toBe('Anna Schmidt');
+});
+
+runner.test('should keep accented and non-German Latin names intact', () => {
+  const content = 'Hi Zoë, José and Søren,\n\nthanks for the update.';
+  const matches = parser.extractGreetings(content);
+
+  runner.expect(matches.map(match => match.extractedName)).toEqual(['zoë', 'josé', 'søren']);
+});
+
+runner.test('should extract names with Latin Extended letters', () => {
+  const content = 'Dear Łukasz,\n\nplease find the report attached.';
+  const matches = parser.extractGreetings(content);
+
+  runner.expect(matches).toHaveLength(1);
+  runner.expect(matches[0].extractedName).toBe('łukasz');
+});
+
+runner.test('should keep names written with combining diacritics', () => {
+  const content = 'Hola Ñu\u0301n\u0303ez,\n\n¿cómo estás?';
+  const matches = new EmailContentParserImpl('es').extractGreetings(content);
+
+  runner.expect(matches).toHaveLength(1);
+  runner.expect(matches[0].extractedName).toBe('ñu\u0301n\u0303ez');
+});
+
+runner.test('should mark names from greetings that also address a group', () => {
+  const matches = parser.extractGreetings('Hi Anna and team,\n\nthe release is out.');
+
+  runner.expect(matches).toHaveLength(1);
+  runner.expect(matches[0].extractedName).toBe('anna');
+  runner.expect(matches[0].audience).toBe('mixed');
+  runner.expect(parser.extractGreetings('Hi Anna,\n\nthe release is out.')[0].audience).toBe('individual');
+});
+
+runner.test('should classify greetings that only address a group', () => {
+  const matches = parser.extractGreetings('Hi team, Hi Marketing folks,\n\nthe release is out.');
+  const german = new EmailContentParserImpl('de').extractGreetings('Hallo zusammen,\n\ndas Release ist draußen.');
+  const french = new EmailContentParserImpl('fr').extractGreetings('Bonjour à tous,\n\nla version est sortie.');
+
+  runner.expect(matches).toHaveLength(1);
+  runner.expect(matches[0].extractedName).toBe('team, marketing folks');
+  runner.expect(matches[0].audience).toBe('group');
+  runner.expect(german).toHaveLength(1);
+  runner.expect(german[0].extractedName).toBe('zusammen');
+  runner.expect(german[0].audience).toBe('group');
+  runner.expect(french[0].audience).toBe('group');
+});
+
+runner.test('should keep the titles and gendered form of a greeting', () => {
+  const german = new EmailContentParserImpl('de').extractGreetings('Sehr geehrter Herr Dr. Müller,\n\nvielen Dank.');
+  const english = parser.extractGreetings('Dear Mrs. Smith,\n\nthank you.');
+
+  runner.expect(german[0].extractedName).toBe('müller');
+  runner.expect(german[0].salutation).toEqual({ titles: ['Herr', 'Dr.'], gender: 'male' });
+  runner.expect(english[0].salutation).toEqual({ titles: ['Mrs.'], gender: 'female' });
+  runner.expect(parser.extractGreetings('Hi Anna,\n\nthanks.')[0].salutation).toBe(undefined);
+});
+
+runner.test('should give each addressed person their own salutation', () => {
+  const matches = parser.extractGreetings('Dear Mr. Smith and Ms Jones,\n\nthank you.');
+
+  runner.expect(matches.map(match => match.extractedName)).toEqual(['smith', 'jones']);
+  runner.expect(matches[0].salutation!.gender).toBe('male');
+  runner.expect(matches[1].salutation!.gender).toBe('female');
+});
+
+runner.test('should mark the parts of full names and surnames after a title', () => {
+  const fullName = parser.extractGreetings('Dear Mary Jane Watson,\n\nthank you.');
+  const surname = parser.extractGreetings('Dear Mr. Smith,\n\nthank you.');
+  const firstName = parser.extractGreetings('Hi Anna,\n\nthanks.');
+
+  runner.expect(fullName.map(match => match.nameRole)).toEqual(['first', 'middle', 'last']);
+  runner.expect(fullName[0].fullName).toBe('mary jane watson');
+  runner.expect(surname[0].nameRole).toBe('last');
+  runner.expect(surname[0].fullName).toBe(undefined);
+  runner.expect(firstName[0].nameRole).toBe(undefined);
+});
+
+runner.test('should classify the register of German mails and collect their pronouns', () => {
+  const germanParser = new EmailContentParserImpl('de');
+  const formal = germanParser.parseEmailContent('Sehr geehrte Frau Weber,\n\nkannst du mir die Unterlagen schicken?\n\nViele Grüße\nJan');
+  const informal = germanParser.parseEmailContent('Hallo Jan,\n\nkönnten Sie mir Ihre Unterlagen schicken?');
+
+  runner.expect(formal.register!.greeting).toBe('formal');
+  runner.expect(formal.register!.greetingText).toBe('Sehr geehrte Frau Weber');
+  runner.expect(formal.register!.informalPronouns).toEqual(['du']);
+  runner.expect(informal.register!.greeting).toBe('informal');
+  runner.expect(informal.register!.formalPronouns).toEqual(['Sie', 'Ihre']);
+  runner.expect(parser.parseEmailContent('Hi John,\n\ncan you send the files?').register).toBe(undefined);
+});
+
 // Export the test runner for manual execution
 export { runner };
 
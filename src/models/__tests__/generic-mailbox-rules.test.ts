@@ -0,0 +1,85 @@
+/**
+ * Unit tests for generic mailbox rules
+ */
+
+import {
+  GenericMailboxClassifier,
+  compileGenericMailboxRule,
+  formatGenericMailboxRule,
+  parseGenericMailboxRule
+} from '../generic-mailbox-rules';
+import { RecipientParser } from '../recipient-parser';
+import { GENERIC_EMAIL_PREFIXES } from '../defaults';
+
+describe('GenericMailboxClassifier', () => {
+  it('should apply the built-in prefixes by default, ignoring case and +tags', () => {
+    const classifier = new GenericMailboxClassifier();
+
+    expect(GENERIC_EMAIL_PREFIXES.every(prefix => classifier.isGeneric(`${prefix}@example.com`))).toBe(true);
+    expect(classifier.isGeneric('Support+EU@Example.com')).toBe(true);
+    expect(classifier.isGeneric('hrithik@example.com')).toBe(false);
+    expect(classifier.isGeneric('john.smith@example.com')).toBe(false);
+  });
+
+  it('should match prefix, regex and whole domain rules', () => {
+    const classifier = new GenericMailboxClassifier({
+      genericMailboxRules: [
+        { kind: 'prefix', pattern: 'Billing@' },
+        { kind: 'regex', pattern: '^it-[a-z]+@' },
+        { kind: 'domain', pattern: '*@noreply.github.com' }
+      ]
+    });
+
+    expect(classifier.isGeneric('billing@acme.com')).toBe(true);
+    expect(classifier.isGeneric('IT-Helpdesk@acme.com')).toBe(true);
+    expect(classifier.isGeneric('12345+octocat@noreply.github.com')).toBe(true);
+    expect(classifier.isGeneric('octocat@github.com')).toBe(false);
+    expect(classifier.isGeneric('info@acme.com')).toBe(false);
+  });
+
+  it('should let domain overrides and personal addresses win over the rules', () => {
+    const classifier = new GenericMailboxClassifier({
+      genericMailboxDomainOverrides: [
+        { domain: 'Smith-Consulting.com', genericPrefixes: ['kanzlei'], personalPrefixes: ['hr'] }
+      ],
+      personalMailboxes: [' Office@Mueller.de ']
+    });
+
+    expect(classifier.isGeneric('hr@smith-consulting.com')).toBe(false);
+    expect(classifier.isGeneric('kanzlei@smith-consulting.com')).toBe(true);
+    expect(classifier.isGeneric('kanzlei@acme.com')).toBe(false);
+    expect(classifier.isGeneric('hr@acme.com')).toBe(true);
+    expect(classifier.isGeneric('office@mueller.de')).toBe(false);
+  });
+
+  it('should skip rules that do not compile', () => {
+    const classifier = new GenericMailboxClassifier({
+      genericMailboxRules: [{ kind: 'regex', pattern: '([' }, { kind: 'prefix', pattern: 'orders' }]
+    });
+
+    expect(classifier.isGeneric('orders@shop.com')).toBe(true);
+    expect(() => compileGenericMailboxRule({ kind: 'regex', pattern: '([' })).toThrow();
+    expect(() => compileGenericMailboxRule({ kind: 'prefix', pattern: ' ' })).toThrow('Generic mailbox rule must have a pattern');
+  });
+
+  it('should read and write rules as written in the settings', () => {
+    expect(parseGenericMailboxRule(' Billing@ ')).toEqual({ kind: 'prefix', pattern: 'billing' });
+    expect(parseGenericMailboxRule('*@NoReply.GitHub.com')).toEqual({ kind: 'domain', pattern: 'noreply.github.com' });
+    expect(parseGenericMailboxRule('/^it-.+@/')).toEqual({ kind: 'regex', pattern: '^it-.+@' });
+
+    for (const text of ['billing', '*@noreply.github.com', '/^it-.+@/']) {
+      expect(formatGenericMailboxRule(parseGenericMailboxRule(text))).toBe(text);
+    }
+  });
+
+  it('should decide which recipients RecipientParser marks generic', () => {
+    const parser = new RecipientParser(undefined, new GenericMailboxClassifier({
+      genericMailboxRules: [{ kind: 'domain', pattern: 'noreply.github.com' }],
+      personalMailboxes: ['info@anna-berg.de']
+    }));
+
+    expect(parser.parseEmailAddress('notifications@noreply.github.com').isGeneric).toBe(true);
+    expect(parser.parseEmailAddress('info@anna-berg.de', 'Anna Berg').isGeneric).toBe(false);
+    expect(parser.parseEmailAddress('support@acme.com').isGeneric).toBe(false);
+  });
+});
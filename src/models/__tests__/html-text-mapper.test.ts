@@ -0,0 +1,101 @@
+/**
+ * Unit tests for HTML to text mapping
+ */
+
+import { mapHtmlToText, mapTextRangeToHtml, escapeHtmlText } from '../html-text-mapper';
+
+describe('html-text-mapper', () => {
+  describe('mapHtmlToText', () => {
+    it('should extract visible text with line breaks for blocks and <br>', () => {
+      const map = mapHtmlToText('<div>Hi <b>John</b>,</div><div><br></div><p>How are you?</p>');
+
+      expect(map.text).toBe('Hi John,\n\nHow are you?');
+    });
+
+    it('should skip head, style and comments', () => {
+      const html = '<html><head><style>p { color: red; }</style></head>' +
+        '<body><!--[if mso]>ignored<![endif]--><p>Dear Anna,</p></body></html>';
+
+      expect(mapHtmlToText(html).text).toBe('Dear Anna,');
+    });
+
+    it('should collapse whitespace like a browser', () => {
+      const map = mapHtmlToText('<p>\n  Hello   Jane,\n</p>');
+
+      expect(map.text).toBe('Hello Jane,');
+    });
+
+    it('should decode entities', () => {
+      const map = mapHtmlToText('<p>Hallo J&ouml;rg&nbsp;&amp; M&#252;ller &lt;3</p>');
+
+      expect(map.text).toBe('Hallo Jörg & Müller <3');
+    });
+
+    it('should keep attributes containing ">" out of the text', () => {
+      const map = mapHtmlToText('<a title="a > b" href="x">Hi Tom</a>');
+
+      expect(map.text).toBe('Hi Tom');
+    });
+
+    it('should map every character back to its source', () => {
+      const html = '<p>Hi <b>John</b></p>';
+      const map = mapHtmlToText(html);
+      const nameStart = map.text.indexOf('John');
+
+      expect(html.substring(map.sourceStarts[nameStart], map.sourceEnds[nameStart + 3])).toBe('John');
+    });
+
+    it('should prefix blockquote lines with ">"', () => {
+      const map = mapHtmlToText('<p>Hi John,</p><blockquote><p>Hi Sarah,</p><p>thanks</p></blockquote>');
+
+      expect(map.text).toBe('Hi John,\n> Hi Sarah,\n> thanks');
+    });
+
+    it('should return empty text for empty input', () => {
+      expect(mapHtmlToText('').text).toBe('');
+    });
+  });
+
+  describe('mapTextRangeToHtml', () => {
+    it('should map a range inside one text node', () => {
+      const html = '<p>Hi <b>John</b>, welcome</p>';
+      const map = mapHtmlToText(html);
+      const start = map.text.indexOf('John');
+
+      const range = mapTextRangeToHtml(map, start, start + 4);
+
+      expect(range).not.toBeNull();
+      expect(html.substring(range!.start, range!.end)).toBe('John');
+    });
+
+    it('should cover whole entities', () => {
+      const html = '<p>Hallo J&ouml;rg,</p>';
+      const map = mapHtmlToText(html);
+      const start = map.text.indexOf('Jörg');
+
+      const range = mapTextRangeToHtml(map, start, start + 4);
+
+      expect(html.substring(range!.start, range!.end)).toBe('J&ouml;rg');
+    });
+
+    it('should refuse ranges that cross markup', () => {
+      const map = mapHtmlToText('<p>Hi Jo<b>hn</b></p>');
+      const start = map.text.indexOf('John');
+
+      expect(mapTextRangeToHtml(map, start, start + 4)).toBeNull();
+    });
+
+    it('should refuse empty or out-of-bounds ranges', () => {
+      const map = mapHtmlToText('<p>Hi</p>');
+
+      expect(mapTextRangeToHtml(map, 1, 1)).toBeNull();
+      expect(mapTextRangeToHtml(map, 0, 10)).toBeNull();
+    });
+  });
+
+  describe('escapeHtmlText', () => {
+    it('should escape markup characters', () => {
+      expect(escapeHtmlText('A & <B>')).toBe('A &amp; &lt;B&gt;');
+    });
+  });
+});
@@ -8,6 +8,7 @@ import { ParsedRecipient } from "../interfaces";
 
 // Import statements for Node.js environment
 import { NameMatchingEngine } from '../name-matching-engine';
+import { foldName } from '../name-normalizer';
 // Note: interfaces are TypeScript compile-time only, so we don't need to import them for runtime
 
 // Simple test runner for basic validation
@@ -152,11 +153,11 @@ runner.test('should perform fuzzy matching for misspellings', () => {
     createMockRecipient('john.doe@example.com', ['john', 'doe'], 'John Doe')
   ];
   
-  const result = engine.findBestMatch('jhon', recipients); // Misspelled 'john'
+  const results = engine.validateNames([createMockGreeting('jhon')], recipients); // Misspelled 'john'
   
-  runner.expect(result.matchType).toBe('fuzzy');
-  runner.expect(result.confidence).toBeGreaterThan(0);
-  runner.expect(result.confidence).toBeLessThanOrEqual(0.6);
+  runner.expect(results[0].isValid).toBe(false);
+  runner.expect(results[0].suggestedRecipient!.email).toBe('john.doe@example.com');
+  runner.expect(results[0].confidence).toBeGreaterThan(0);
 });
 
 // Test no match scenario
@@ -261,20 +262,369 @@ runner.test('should calculate Levenshtein distance correctly', () => {
   runner.expect(distance2).toBe(2);
 });
 
-// Test name normalization
-runner.test('should normalize names correctly', () => {
+// Test nickname matching
+runner.test('should match nicknames and diminutives', () => {
   const engine = new NameMatchingEngine();
+  const recipients = [
+    createMockRecipient('robert.smith@example.com', ['robert', 'smith'])
+  ];
   
-  // Access private method through any cast for testing
-  const engineAny = engine as any;
+  const result = engine.findBestMatch('Bob', recipients);
+  
+  runner.expect(result.matchType).toBe('nickname');
+  runner.expect(result.confidence).toBe(0.9);
+  runner.expect(result.recipient.email).toBe('robert.smith@example.com');
+});
+
+runner.test('should match German diminutives', () => {
+  const engine = new NameMatchingEngine();
+  const recipients = [
+    createMockRecipient('josef.huber@example.de', ['josef', 'huber'])
+  ];
+  
+  const result = engine.findBestMatch('Sepp', recipients);
+  
+  runner.expect(result.matchType).toBe('nickname');
+});
+
+runner.test('should use custom nickname equivalences', () => {
+  const withoutCustom = new NameMatchingEngine();
+  const withCustom = new NameMatchingEngine(true, 0.6, { customNicknames: [['Jojo', 'Joachim']] });
+  const recipients = [
+    createMockRecipient('joachim.meier@example.de', ['joachim', 'meier'])
+  ];
   
-  const normalized1 = engineAny.normalizeName('  John-Michael  ');
-  const normalized2 = engineAny.normalizeName('O\'Connor');
+  runner.expect(withoutCustom.findBestMatch('Jojo', recipients).matchType).toBe('none');
+  runner.expect(withCustom.findBestMatch('Jojo', recipients).matchType).toBe('nickname');
+});
+
+runner.test('should prefer exact matches over nicknames', () => {
+  const engine = new NameMatchingEngine();
+  const recipients = [
+    createMockRecipient('robert.smith@example.com', ['robert', 'smith']),
+    createMockRecipient('bob.jones@example.com', ['bob', 'jones'])
+  ];
+  
+  const result = engine.findBestMatch('Bob', recipients);
+  
+  runner.expect(result.matchType).toBe('exact');
+  runner.expect(result.recipient.email).toBe('bob.jones@example.com');
+});
+
+// Test name normalization
+runner.test('should normalize names correctly', () => {
+  const normalized1 = foldName('  John-Michael  ');
+  const normalized2 = foldName('O\'Connor');
   
   runner.expect(normalized1).toBe('johnmichael');
   runner.expect(normalized2).toBe('oconnor');
 });
 
+// Test Unicode names on both sides
+runner.test('should match accented greeting names against plain mailboxes', () => {
+  const engine = new NameMatchingEngine();
+  const recipients: ParsedRecipient[] = [
+    { email: 'jose.nunez@example.com', extractedNames: ['jose', 'nunez'], isGeneric: false },
+    { email: 'lukasz@example.com', extractedNames: ['lukasz'], isGeneric: false }
+  ];
+  
+  runner.expect(engine.findBestMatch('José', recipients).matchType).toBe('exact');
+  runner.expect(engine.findBestMatch('Ñúñez', recipients).matchType).toBe('exact');
+  runner.expect(engine.findBestMatch('Łukasz', recipients).recipient.email).toBe('lukasz@example.com');
+});
+
+runner.test('should match transliterated mailbox spellings', () => {
+  const engine = new NameMatchingEngine();
+  const recipients: ParsedRecipient[] = [
+    { email: 'soeren.mueller@example.com', extractedNames: ['soeren', 'mueller'], isGeneric: false }
+  ];
+  
+  runner.expect(engine.findBestMatch('Søren', recipients).matchType).toBe('exact');
+  runner.expect(engine.findBestMatch('Müller', recipients).matchType).toBe('exact');
+});
+
+runner.test('should match plain greetings against accented display names', () => {
+  const engine = new NameMatchingEngine();
+  const recipients: ParsedRecipient[] = [
+    { email: 'z.smith@example.com', displayName: 'Zoë Smith', extractedNames: ['zoë', 'smith'], isGeneric: false }
+  ];
+  
+  const result = engine.findBestMatch('Zoe', recipients);
+  
+  runner.expect(result.matchType).toBe('exact');
+  runner.expect(result.confidence).toBe(1.0);
+});
+
+// Test ambiguity detection
+runner.test('should flag a greeting that matches several recipients equally well', () => {
+  const engine = new NameMatchingEngine();
+  const recipients = [
+    createMockRecipient('alex.meier@example.com', ['alex', 'meier'], 'Alex Meier'),
+    createMockRecipient('alex.schulz@example.com', ['alex', 'schulz'], 'Alex Schulz')
+  ];
+  
+  const results = engine.validateNames([createMockGreeting('alex')], recipients);
+  
+  runner.expect(results[0].isValid).toBe(true);
+  runner.expect(results[0].warningType).toBe('ambiguous_greeting');
+  runner.expect(results[0].candidates!.map(candidate => candidate.recipient.email))
+    .toEqual(['alex.meier@example.com', 'alex.schulz@example.com']);
+});
+
+runner.test('should not flag a greeting when one recipient matches better', () => {
+  const engine = new NameMatchingEngine();
+  const recipients = [
+    createMockRecipient('alexander.schulz@example.com', ['alexander', 'schulz'], 'Alexander Schulz'),
+    createMockRecipient('alex.meier@example.com', ['alex', 'meier'], 'Alex Meier')
+  ];
+  
+  const results = engine.validateNames([createMockGreeting('alex')], recipients);
+  
+  runner.expect(results[0].warningType).toBe(undefined);
+  runner.expect(results[0].suggestedRecipient!.email).toBe('alex.meier@example.com');
+  runner.expect(results[0].candidates!.length).toBe(2);
+});
+
+runner.test('should count a recipient listed twice only once', () => {
+  const engine = new NameMatchingEngine();
+  const recipients = [
+    createMockRecipient('alex.meier@example.com', ['alex', 'meier']),
+    createMockRecipient('Alex.Meier@example.com', ['alex', 'meier'])
+  ];
+  
+  const results = engine.validateNames([createMockGreeting('alex')], recipients);
+  
+  runner.expect(results[0].warningType).toBe(undefined);
+  runner.expect(results[0].candidates!.length).toBe(1);
+});
+
+// Test recipient field weighting
+runner.test('should prefer the To recipient when the same name is in CC', () => {
+  const engine = new NameMatchingEngine(true, 0.6, { fieldWeights: { to: 1, cc: 0.9, bcc: 0.9 } });
+  const recipients = [
+    { ...createMockRecipient('alex.meier@example.com', ['alex', 'meier']), field: 'cc' as const },
+    { ...createMockRecipient('alex.schulz@example.com', ['alex', 'schulz']), field: 'to' as const }
+  ];
+  
+  const results = engine.validateNames([createMockGreeting('alex')], recipients);
+  
+  runner.expect(results[0].warningType).toBe(undefined);
+  runner.expect(results[0].suggestedRecipient!.email).toBe('alex.schulz@example.com');
+  runner.expect(results[0].confidence).toBe(1.0);
+});
+
+runner.test('should leave BCC recipients out of matching unless enabled', () => {
+  const recipients = [
+    { ...createMockRecipient('john@example.com', ['john']), field: 'to' as const },
+    { ...createMockRecipient('sarah@example.com', ['sarah']), field: 'bcc' as const }
+  ];
+  
+  const excluded = new NameMatchingEngine().validateNames([createMockGreeting('sarah')], recipients);
+  const included = new NameMatchingEngine(true, 0.6, { matchBccRecipients: true })
+    .validateNames([createMockGreeting('sarah')], recipients);
+  
+  runner.expect(excluded[0].isValid).toBe(false);
+  runner.expect(included[0].isValid).toBe(true);
+  runner.expect(included[0].suggestedRecipient!.email).toBe('sarah@example.com');
+});
+
+runner.test('should match custom nicknames in any script', () => {
+  const engine = new NameMatchingEngine(true, 0.7, { customNicknames: [['Александр', 'Саша']] });
+  const recipients = [createMockRecipient('a.petrov@example.com', ['александр', 'петров'], 'Александр Петров')];
+  
+  const result = engine.findBestMatch('Саша', recipients);
+  
+  runner.expect(result.matchType).toBe('nickname');
+  runner.expect(result.recipient.email).toBe('a.petrov@example.com');
+});
+
+runner.test('should match sound-alike spellings phonetically', () => {
+  const engine = new NameMatchingEngine();
+  const recipients = [
+    createMockRecipient('j.miller@example.com', ['jeffrey', 'miller'], 'Jeffrey Miller'),
+    createMockRecipient('j.meyer@example.com', ['jonas', 'meyer'], 'Jonas Meyer')
+  ];
+  
+  const english = engine.findBestMatch('geoffrey', recipients, 'en');
+  const german = engine.findBestMatch('maier', recipients, 'de');
+  
+  runner.expect(english.matchType).toBe('phonetic');
+  runner.expect(english.recipient.email).toBe('j.miller@example.com');
+  runner.expect(english.confidence).toBe(0.75);
+  runner.expect(german.matchType).toBe('phonetic');
+  runner.expect(german.recipient.email).toBe('j.meyer@example.com');
+});
+
+runner.test('should use the greeting language for phonetic matching', () => {
+  const engine = new NameMatchingEngine();
+  const recipients = [createMockRecipient('schmitt@example.com', ['schmitt'])];
+  const greeting = { ...createMockGreeting('schmidt'), language: 'de' as const };
+  
+  const german = engine.findBestMatch(greeting.extractedName, recipients, 'de');
+  const results = engine.validateNames([greeting], recipients);
+  
+  runner.expect(german.matchType).toBe('phonetic');
+  runner.expect(results[0].isValid).toBe(false);
+  runner.expect(results[0].suggestedRecipient!.email).toBe('schmitt@example.com');
+});
+
+runner.test('should only suggest recipients whose names sound alike', () => {
+  const engine = new NameMatchingEngine(true, 0.7);
+  const pairs: Array<[string, ParsedRecipient]> = [
+    ['jan', createMockRecipient('jon.smith@example.com', ['jon', 'smith'], 'Jon Smith')],
+    ['karl', createMockRecipient('carla.weber@example.com', ['carla', 'weber'], 'Carla Weber')],
+    ['dan', createMockRecipient('don.lee@example.com', ['don', 'lee'], 'Don Lee')],
+    ['lena', createMockRecipient('lina.berg@example.com', ['lina', 'berg'], 'Lina Berg')]
+  ];
+  
+  for (const [greetingName, recipient] of pairs) {
+    const results = engine.validateNames([createMockGreeting(greetingName)], [recipient]);
+    runner.expect(results[0].isValid).toBe(false);
+    runner.expect(results[0].suggestedRecipient!.email).toBe(recipient.email);
+    runner.expect(results[0].candidates).toBe(undefined);
+  }
+});
+
+runner.test('should not match names that only share their consonants', () => {
+  const engine = new NameMatchingEngine();
+  
+  runner.expect(engine.findBestMatch('jane', [createMockRecipient('john@example.com', ['john'])], 'en').matchType).toBe('none');
+  runner.expect(engine.findBestMatch('maria', [createMockRecipient('mario@example.com', ['mario'])], 'de').matchType).toBe('fuzzy');
+  runner.expect(new NameMatchingEngine(false).findBestMatch('maier', [createMockRecipient('meyer@example.com', ['meyer'])]).matchType).toBe('none');
+});
+
+const createFullNameGreeting = (fullName: string): GreetingMatch[] => {
+  const names = fullName.split(' ');
+  return names.map((extractedName, index) => ({
+    ...createMockGreeting(extractedName),
+    fullMatch: `Hi ${fullName}`,
+    nameRole: index === 0 ? 'first' as const : 'last' as const,
+    fullName
+  }));
+};
+
+runner.test('should match a surname after a title only against surnames', () => {
+  const engine = new NameMatchingEngine();
+  const recipients = [createMockRecipient('john.smith@example.com', ['john', 'smith'], 'John Smith')];
+  
+  runner.expect(engine.findBestMatch('smith', recipients, 'en', 'last').matchType).toBe('exact');
+  runner.expect(engine.findBestMatch('john', recipients, 'en', 'last').matchType).toBe('none');
+  runner.expect(engine.findBestMatch('john', recipients).matchType).toBe('exact');
+});
+
+runner.test('should read surnames from "Last, First" display names and first.last mailboxes', () => {
+  const engine = new NameMatchingEngine();
+  
+  runner.expect(engine.findBestMatch('weber', [createMockRecipient('aw@example.com', ['weber', 'anna'], 'Weber, Anna')], 'de', 'last').matchType).toBe('exact');
+  runner.expect(engine.findBestMatch('weber', [createMockRecipient('aw@example.com', ['weber', 'anna'], 'Weber, Anna')], 'de', 'first').matchType).toBe('none');
+  runner.expect(engine.findBestMatch('smith', [createMockRecipient('john.smith@example.com', ['john', 'smith'])], 'en', 'last').matchType).toBe('exact');
+});
+
+runner.test('should resolve both parts of a full name to the same recipient', () => {
+  const engine = new NameMatchingEngine();
+  const recipients = [
+    createMockRecipient('alex.meier@example.com', ['alex', 'meier'], 'Alex Meier'),
+    createMockRecipient('alex.schulz@example.com', ['alex', 'schulz'], 'Alex Schulz')
+  ];
+  
+  const results = engine.validateNames(createFullNameGreeting('alex schulz'), recipients);
+  
+  runner.expect(results[0].isValid).toBe(true);
+  runner.expect(results[0].warningType).toBe(undefined);
+  runner.expect(results[0].suggestedRecipient!.email).toBe('alex.schulz@example.com');
+  runner.expect(results[0].candidates).toHaveLength(1);
+  runner.expect(results[1].suggestedRecipient!.email).toBe('alex.schulz@example.com');
+});
+
+runner.test('should flag a full name whose parts match different recipients', () => {
+  const engine = new NameMatchingEngine();
+  const recipients = [
+    createMockRecipient('john.smith@example.com', ['john', 'smith'], 'John Smith'),
+    createMockRecipient('peter.miller@example.com', ['peter', 'miller'], 'Peter Miller')
+  ];
+  
+  const results = engine.validateNames(createFullNameGreeting('john miller'), recipients);
+  
+  runner.expect(results[0].isValid).toBe(false);
+  runner.expect(results[0].warningType).toBe('split_full_name');
+  runner.expect(results[0].nameParts!.map(part => part.recipient.email)).toEqual(['john.smith@example.com', 'peter.miller@example.com']);
+  runner.expect(results[1].warningType).toBe(undefined);
+});
+
+runner.test('should use the structured names of a directory-style display name', () => {
+  const engine = new NameMatchingEngine();
+  const recipient = {
+    ...createMockRecipient('hm4711@example.com', ['müller', 'hans'], 'Müller, Hans (IT-SEC)'),
+    firstName: 'hans',
+    middleNames: [],
+    lastName: 'müller'
+  };
+  
+  runner.expect(engine.findBestMatch('müller', [recipient], 'de', 'last').matchType).toBe('exact');
+  runner.expect(engine.findBestMatch('hans', [recipient], 'de', 'last').matchType).toBe('none');
+  runner.expect(engine.findBestMatch('sec', [createMockRecipient('hm4711@example.com', [], 'Müller, Hans (IT-SEC)')]).matchType).toBe('none');
+});
+
+runner.test('should match a first name against the initial of an initials mailbox', () => {
+  const engine = new NameMatchingEngine();
+  const separated = { ...createMockRecipient('j.doe@acme.com', ['doe']), firstInitial: 'j', lastName: 'doe', mailboxFormat: 'f.last' as const };
+  const learned = { ...createMockRecipient('jdoe@acme.com', ['jdoe', 'doe']), firstInitial: 'j', lastName: 'doe', mailboxFormat: 'flast' as const };
+  
+  const john = engine.validateNames([createMockGreeting('john')], [separated]);
+  const mark = engine.validateNames([createMockGreeting('mark')], [learned]);
+  
+  runner.expect(john[0].isValid).toBe(true);
+  runner.expect(john[0].candidates![0].matchType).toBe('initial');
+  runner.expect(john[0].confidence).toBe(0.7);
+  runner.expect(engine.findBestMatch('john', [learned]).confidence).toBe(0.65);
+  runner.expect(mark[0].isValid).toBe(false);
+  runner.expect(engine.findBestMatch('john', [learned], 'en', 'last').matchType).toBe('none');
+});
+
+runner.test('should match the preferred name and nicknames of a contact as first names', () => {
+  const engine = new NameMatchingEngine();
+  const recipient = {
+    ...createMockRecipient('rsmith@partner.com', ['bob', 'robert', 'smith', 'bobby', 'rsmith']),
+    firstName: 'robert',
+    middleNames: [],
+    lastName: 'smith',
+    preferredName: 'bob',
+    nicknames: ['bobby']
+  };
+  
+  const results = engine.validateNames(createFullNameGreeting('bob smith'), [recipient]);
+  
+  runner.expect(results.every(result => result.isValid)).toBe(true);
+  runner.expect(engine.findBestMatch('bobby', [recipient], 'en', 'first').matchType).toBe('exact');
+  runner.expect(engine.findBestMatch('bob', [recipient], 'en', 'last').matchType).toBe('none');
+});
+
+runner.test('should match learned aliases exactly, for their recipient only', () => {
+  const aliases = { getAliases: (email: string) => email === 'robert.king@example.com' ? ['bobster'] : [] };
+  const engine = new NameMatchingEngine(true, 0.7, { aliases });
+  const robert = createMockRecipient('robert.king@example.com', ['robert', 'king']);
+  const anna = createMockRecipient('anna.berg@example.com', ['anna', 'berg']);
+  
+  const results = engine.validateNames([createMockGreeting('Bobster')], [anna, robert]);
+  
+  runner.expect(results[0].isValid).toBe(true);
+  runner.expect(results[0].suggestedRecipient?.email).toBe('robert.king@example.com');
+  runner.expect(results[0].confidence).toBe(1.0);
+  runner.expect(new NameMatchingEngine().findBestMatch('bobster', [robert]).matchType).toBe('none');
+});
+
+runner.test('should list the recipients a name that matches nobody may stand for', () => {
+  const robert = createMockRecipient('robert.king@example.com', ['robert', 'king']);
+  const anna = createMockRecipient('anna.berg@example.com', ['anna', 'berg']);
+  const info = { ...createMockRecipient('info@example.com', []), isGeneric: true };
+  
+  const results = new NameMatchingEngine().validateNames([createMockGreeting('Bobster'), createMockGreeting('Anna')], [robert, anna, info]);
+  
+  runner.expect(results[0].suggestedRecipient).toBe(undefined);
+  runner.expect(results[0].possibleRecipients!.map(recipient => recipient.email)).toEqual(['robert.king@example.com', 'anna.berg@example.com']);
+  runner.expect(results[1].possibleRecipients).toBe(undefined);
+});
+
 // Run all tests
 try {
   runner.run();
@@ -0,0 +1,60 @@
+/**
+ * Unit tests for Unicode name normalization
+ */
+
+import { foldName, getNameMatchKeys, removeNonNameCharacters } from '../name-normalizer';
+
+describe('name-normalizer', () => {
+  describe('removeNonNameCharacters', () => {
+    it('should keep letters of any script, hyphens and apostrophes', () => {
+      expect(removeNonNameCharacters('Zoë!')).toBe('Zoë');
+      expect(removeNonNameCharacters("O'Brien-Łukasz?")).toBe("O'Brien-Łukasz");
+      expect(removeNonNameCharacters('Дмитрий.')).toBe('Дмитрий');
+    });
+
+    it('should return an empty string for invalid input', () => {
+      expect(removeNonNameCharacters(null as any)).toBe('');
+    });
+  });
+
+  describe('foldName', () => {
+    it('should strip diacritics', () => {
+      expect(foldName('José')).toBe('jose');
+      expect(foldName('Ñúñez')).toBe('nunez');
+      expect(foldName('Zoë')).toBe('zoe');
+    });
+
+    it('should fold letters NFD does not decompose', () => {
+      expect(foldName('Łukasz')).toBe('lukasz');
+      expect(foldName('Søren')).toBe('soren');
+      expect(foldName('Strauß')).toBe('strauss');
+      expect(foldName('Ægir')).toBe('aegir');
+    });
+
+    it('should treat composed and decomposed input alike', () => {
+      expect(foldName('\u00d1\u00fa\u00f1ez')).toBe('nunez');
+      expect(foldName('N\u0303u\u0301n\u0303ez')).toBe('nunez');
+    });
+
+    it('should transliterate umlauts and Scandinavian letters on request', () => {
+      expect(foldName('Müller', 'transliterate')).toBe('mueller');
+      expect(foldName('Søren', 'transliterate')).toBe('soeren');
+      expect(foldName('Åse', 'transliterate')).toBe('aase');
+    });
+
+    it('should drop spaces and punctuation', () => {
+      expect(foldName(" O'Connor-Smith ")).toBe('oconnorsmith');
+    });
+  });
+
+  describe('getNameMatchKeys', () => {
+    it('should return both spellings for names with umlauts', () => {
+      expect(getNameMatchKeys('Müller')).toEqual(['muller', 'mueller']);
+    });
+
+    it('should return a single key for names without them', () => {
+      expect(getNameMatchKeys('José')).toEqual(['jose']);
+      expect(getNameMatchKeys('')).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,78 @@
+/**
+ * Unit tests for NicknameDictionary
+ */
+
+import { NicknameDictionary, BUNDLED_NICKNAME_GROUPS } from '../nickname-dictionary';
+
+describe('NicknameDictionary', () => {
+  let dictionary: NicknameDictionary;
+
+  beforeEach(() => {
+    dictionary = new NicknameDictionary();
+  });
+
+  describe('Bundled equivalences', () => {
+    it('should recognise English nicknames', () => {
+      expect(dictionary.areEquivalent('Bob', 'Robert')).toBe(true);
+      expect(dictionary.areEquivalent('bill', 'william')).toBe(true);
+      expect(dictionary.areEquivalent('Kate', 'Katherine')).toBe(true);
+    });
+
+    it('should recognise German diminutives', () => {
+      expect(dictionary.areEquivalent('Hansi', 'Johannes')).toBe(true);
+      expect(dictionary.areEquivalent('Sepp', 'Josef')).toBe(true);
+      expect(dictionary.areEquivalent('Jörg', 'Georg')).toBe(true);
+    });
+
+    it('should treat nicknames within one group as equivalent', () => {
+      expect(dictionary.areEquivalent('Bobby', 'Rob')).toBe(true);
+    });
+
+    it('should not link names that only share a nickname', () => {
+      expect(dictionary.areEquivalent('Alex', 'Alexander')).toBe(true);
+      expect(dictionary.areEquivalent('Alex', 'Alexandra')).toBe(true);
+      expect(dictionary.areEquivalent('Alexander', 'Alexandra')).toBe(false);
+    });
+
+    it('should not treat identical or unknown names as nickname equivalents', () => {
+      expect(dictionary.areEquivalent('Robert', 'robert')).toBe(false);
+      expect(dictionary.areEquivalent('Bob', 'Peter')).toBe(false);
+      expect(dictionary.areEquivalent('Zorro', 'Robert')).toBe(false);
+    });
+
+    it('should only contain groups with at least two names', () => {
+      BUNDLED_NICKNAME_GROUPS.forEach(group => {
+        expect(group.length).toBeGreaterThanOrEqual(2);
+      });
+    });
+  });
+
+  describe('Custom equivalences', () => {
+    it('should add user-defined groups', () => {
+      const custom = new NicknameDictionary([['Jojo', 'Joachim']]);
+
+      expect(custom.areEquivalent('Jojo', 'Joachim')).toBe(true);
+      expect(dictionary.areEquivalent('Jojo', 'Joachim')).toBe(false);
+    });
+
+    it('should ignore groups with fewer than two distinct names', () => {
+      const custom = new NicknameDictionary([['Solo'], ['Same', 'same']], false);
+
+      expect(custom.areEquivalent('Solo', 'Same')).toBe(false);
+    });
+
+    it('should key names in any script the way the matching engine does', () => {
+      const custom = new NicknameDictionary([['Александр', 'Саша'], ['Γιώργος', 'Γιωργάκης']], false);
+
+      expect(custom.areEquivalent('саша', 'АЛЕКСАНДР')).toBe(true);
+      expect(custom.areEquivalent('Γιωργος', 'γιωργακης')).toBe(true);
+      expect(custom.areEquivalent('Саша', 'Γιώργος')).toBe(false);
+    });
+
+    it('should allow disabling the bundled table', () => {
+      const customOnly = new NicknameDictionary([], false);
+
+      expect(customOnly.areEquivalent('Bob', 'Robert')).toBe(false);
+    });
+  });
+});
@@ -316,6 +316,91 @@ testRunner.test('should escape HTML in warning messages', () => {
   expect(warningId).toBeDefined();
 });
 
+testRunner.test('should render ambiguous greetings without a correction', () => {
+  setupTest();
+  const alexMeier: ParsedRecipient = {
+    email: 'alex.meier@example.com',
+    displayName: 'Alex Meier',
+    extractedNames: ['alex', 'meier'],
+    isGeneric: false
+  };
+  const alexSchulz: ParsedRecipient = {
+    email: 'alex.schulz@example.com',
+    displayName: 'Alex Schulz',
+    extractedNames: ['alex', 'schulz'],
+    isGeneric: false
+  };
+  const validationResult: ValidationResult = {
+    greetingName: 'alex',
+    isValid: true,
+    confidence: 1,
+    suggestedRecipient: alexMeier,
+    warningType: 'ambiguous_greeting',
+    candidates: [
+      { recipient: alexMeier, matchType: 'exact', confidence: 1 },
+      { recipient: alexSchulz, matchType: 'exact', confidence: 1 }
+    ]
+  };
+
+  const warningId = notificationSystem.showWarning(validationResult);
+  const element = (notificationSystem as any).activeWarnings.get(warningId) as MockElement;
+
+  expect(element.className).toBe('validation-warning ambiguous-greeting');
+  expect(element.innerHTML.includes('Matches 2 recipients')).toBe(true);
+  expect(element.innerHTML.includes('apply-correction')).toBe(false);
+});
+
+testRunner.test('should ask on dismissal whether to always accept the name when aliases can be learned', () => {
+  setupTest();
+  const robert: ParsedRecipient = {
+    email: 'robert.king@example.com',
+    displayName: 'Robert King',
+    extractedNames: ['robert', 'king'],
+    isGeneric: false
+  };
+  const validationResult: ValidationResult = {
+    greetingName: 'Bobster',
+    isValid: false,
+    confidence: 0.4,
+    suggestedRecipient: robert
+  };
+  const learningSystem = new NotificationSystem(mockConfig, { ...mockCallbacks, onAliasAccepted: createMockFunction() });
+
+  const withAliases = (learningSystem as any).activeWarnings.get(learningSystem.showWarning(validationResult)) as MockElement;
+  const withoutAliases = (notificationSystem as any).activeWarnings.get(notificationSystem.showWarning(validationResult)) as MockElement;
+
+  expect(withAliases.innerHTML.includes('<div class="dismiss-prompt" hidden>')).toBe(true);
+  expect(withAliases.innerHTML.split('class="accept-alias"').length - 1).toBe(1);
+  expect(withoutAliases.innerHTML.includes('accept-alias')).toBe(false);
+});
+
+testRunner.test('should offer every recipient when a name that matches nobody is dismissed', () => {
+  setupTest();
+  const recipients: ParsedRecipient[] = [
+    { email: 'robert.king@example.com', displayName: 'Robert King', extractedNames: ['robert', 'king'], isGeneric: false },
+    { email: 'anna.berg@example.com', extractedNames: ['anna', 'berg'], isGeneric: false }
+  ];
+  const learningSystem = new NotificationSystem(mockConfig, { ...mockCallbacks, onAliasAccepted: createMockFunction() });
+
+  const unmatched = (learningSystem as any).activeWarnings.get(learningSystem.showWarning({
+    greetingName: 'Bob',
+    isValid: false,
+    confidence: 0,
+    possibleRecipients: recipients
+  })) as MockElement;
+  const signOff = (learningSystem as any).activeWarnings.get(learningSystem.showWarning({
+    greetingName: 'Bob',
+    isValid: false,
+    confidence: 0,
+    warningType: 'sign_off_mismatch',
+    possibleRecipients: recipients
+  })) as MockElement;
+
+  expect(unmatched.innerHTML.split('class="accept-alias"').length - 1).toBe(2);
+  expect(unmatched.innerHTML.includes('dismiss-only')).toBe(true);
+  expect(signOff.innerHTML.includes('dismiss-prompt')).toBe(false);
+});
+
 // Warning Dismissal tests
 testRunner.test('should dismiss warning by ID', () => {
   setupTest();
@@ -392,6 +477,29 @@ testRunner.test('should not show success notification when disabled', () => {
   expect(true).toBe(true);
 });
 
+testRunner.test('should offer an action with the success message even when success messages are off', () => {
+  const configWithoutSuccess = { ...mockConfig, showSuccessNotifications: false };
+  const systemWithoutSuccess = new NotificationSystem(configWithoutSuccess, mockCallbacks);
+  const created: MockElement[] = [];
+  const createElement = mockDocument.createElement;
+  mockDocument.createElement = (tagName: string) => {
+    const element = createElement(tagName);
+    created.push(element);
+    return element;
+  };
+
+  try {
+    systemWithoutSuccess.showSuccess('Corrected "jon" to "john"', { label: 'Undo', onAction: createMockFunction() });
+  } finally {
+    mockDocument.createElement = createElement;
+  }
+
+  const notice = created.find(element => element.id === 'action-notice');
+  expect(notice !== undefined).toBe(true);
+  expect(notice!.innerHTML.includes('action-notice-button')).toBe(true);
+  expect(notice!.getAttribute('role')).toBe('status');
+});
+
 // Configuration Updates tests
 testRunner.test('should update configuration', () => {
   setupTest();
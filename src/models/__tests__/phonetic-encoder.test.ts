@@ -0,0 +1,66 @@
+/**
+ * Unit tests for phonetic name encoding
+ */
+
+import { colognePhonetic, doubleMetaphone, getPhoneticAlgorithms, soundsAlike } from '../phonetic-encoder';
+
+describe('phonetic-encoder', () => {
+  describe('colognePhonetic', () => {
+    it('should encode German spelling variants alike', () => {
+      expect(colognePhonetic('Maier')).toBe('67');
+      expect(colognePhonetic('Meyer')).toBe('67');
+      expect(colognePhonetic('Mayer')).toBe('67');
+      expect(colognePhonetic('Schmidt')).toBe(colognePhonetic('Schmitt'));
+    });
+
+    it('should treat umlauts and their transliteration alike', () => {
+      expect(colognePhonetic('Müller')).toBe('657');
+      expect(colognePhonetic('Mueller')).toBe('657');
+    });
+
+    it('should code C and X by their context', () => {
+      expect(colognePhonetic('Christa')).toBe('4782');
+      expect(colognePhonetic('Cecilie')).toBe('885');
+      expect(colognePhonetic('Alex')).toBe('0548');
+    });
+
+    it('should return an empty code for empty input', () => {
+      expect(colognePhonetic('')).toBe('');
+    });
+  });
+
+  describe('doubleMetaphone', () => {
+    it('should encode English spelling variants alike', () => {
+      expect(doubleMetaphone('Catherine')).toEqual(doubleMetaphone('Kathryn'));
+      expect(doubleMetaphone('Stephen')).toEqual(['STFN', 'STFN']);
+      expect(doubleMetaphone('Steven')).toEqual(['STFN', 'STFN']);
+      expect(doubleMetaphone('Philipp')[0]).toBe(doubleMetaphone('Filip')[0]);
+    });
+
+    it('should give an alternate code for names of varying origin', () => {
+      expect(doubleMetaphone('Michael')).toEqual(['MKL', 'MXL']);
+      expect(doubleMetaphone('Jose')).toEqual(['HS', 'HS']);
+      expect(doubleMetaphone('Smith')).toEqual(['SM0', 'XMT']);
+    });
+  });
+
+  describe('getPhoneticAlgorithms', () => {
+    it('should choose the encoding by language', () => {
+      expect(getPhoneticAlgorithms('de')).toEqual(['cologne']);
+      expect(getPhoneticAlgorithms('en')).toEqual(['double_metaphone']);
+      expect(getPhoneticAlgorithms()).toEqual(['cologne', 'double_metaphone']);
+    });
+  });
+
+  describe('soundsAlike', () => {
+    it('should compare names with the given algorithms', () => {
+      expect(soundsAlike('Catherine', 'Kathryn', ['double_metaphone'])).toBe(true);
+      expect(soundsAlike('Maier', 'Meyer', ['cologne'])).toBe(true);
+    });
+
+    it('should keep names apart whose first or last vowel differs', () => {
+      expect(soundsAlike('Anna', 'Ina', ['cologne', 'double_metaphone'])).toBe(false);
+      expect(soundsAlike('Maria', 'Mario', ['cologne', 'double_metaphone'])).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,81 @@
+/**
+ * Unit tests for quoted reply/forward detection
+ */
+
+import { findQuotedContentBoundary, getAuthoredContent } from '../quoted-content-detector';
+
+describe('quoted-content-detector', () => {
+  describe('findQuotedContentBoundary', () => {
+    it('should return null for content without a quote', () => {
+      expect(findQuotedContentBoundary('Hi John,\n\nSee you tomorrow.\n\nBest,\nAnna')).toBeNull();
+      expect(findQuotedContentBoundary('')).toBeNull();
+    });
+
+    it('should detect the Outlook "Original Message" separator', () => {
+      const content = 'Hi John,\n\nThanks!\n\n-----Original Message-----\nFrom: Sarah\nHi Sarah,';
+
+      const boundary = findQuotedContentBoundary(content);
+
+      expect(boundary).toEqual({ position: content.indexOf('-----Original'), marker: 'separator' });
+    });
+
+    it('should detect Outlook From:/Sent: header blocks and the rule above them', () => {
+      const content = 'Hi John,\n\nThanks!\n\n________________________________\n' +
+        'From: Sarah Miller <sarah@example.com>\nSent: Monday, June 3, 2024 9:14 AM\nTo: Anna\n\nHi Sarah,';
+
+      const boundary = findQuotedContentBoundary(content);
+
+      expect(boundary!.marker).toBe('header');
+      expect(boundary!.position).toBe(content.indexOf('____'));
+    });
+
+    it('should detect German Von:/Gesendet: header blocks', () => {
+      const content = 'Hallo Jörg,\n\ndanke!\n\nVon: Sarah Müller\nGesendet: Montag, 3. Juni 2024 09:14\nAn: Anna\n\nHallo Sarah,';
+
+      const boundary = findQuotedContentBoundary(content);
+
+      expect(boundary).toEqual({ position: content.indexOf('Von:'), marker: 'header' });
+    });
+
+    it('should detect French, Spanish, Italian and Dutch quote markers', () => {
+      const contents = [
+        'Bonjour,\n\nLe lun. 3 juin 2024, Sarah a écrit :\n> Bonjour Pierre,',
+        'Hola,\n\nDe: Sarah\nEnviado: lunes\nPara: Carlos\n\nHola Carlos,',
+        'Ciao,\n\n-----Messaggio originale-----\nDa: Sarah',
+        'Hoi,\n\nVan: Sarah\nVerzonden: maandag\nAan: Jan\n\nBeste Jan,'
+      ];
+
+      expect(contents.map(content => findQuotedContentBoundary(content)?.marker))
+        .toEqual(['attribution', 'header', 'separator', 'header']);
+    });
+
+    it('should not treat a lone "From:" line as a quote header', () => {
+      expect(findQuotedContentBoundary('Hi John,\n\nFrom: the marketing team, with love.\n\nAnna')).toBeNull();
+    });
+
+    it('should detect "On ... wrote:" attribution lines', () => {
+      const content = 'Hi John,\n\nSounds good.\n\nOn Mon, Jun 3, 2024 at 9:14 AM Sarah Miller wrote:\n> Hi Sarah,';
+
+      const boundary = findQuotedContentBoundary(content);
+
+      expect(boundary).toEqual({ position: content.indexOf('On Mon'), marker: 'attribution' });
+    });
+
+    it('should detect ">" prefixed lines', () => {
+      const content = 'Hi John,\n\nSounds good.\n\n> Hi Sarah,\n> see below.';
+
+      const boundary = findQuotedContentBoundary(content);
+
+      expect(boundary).toEqual({ position: content.indexOf('> Hi Sarah'), marker: 'quote_prefix' });
+    });
+  });
+
+  describe('getAuthoredContent', () => {
+    it('should cut the content at the boundary', () => {
+      const content = 'Hi John,\n> Hi Sarah,';
+
+      expect(getAuthoredContent(content, findQuotedContentBoundary(content))).toBe('Hi John,\n');
+      expect(getAuthoredContent('Hi John,', null)).toBe('Hi John,');
+    });
+  });
+});
@@ -258,6 +258,92 @@ function runRecipientParserTests(): boolean {
     runner.expect(result.extractedNames).toEqual(['doe', 'john']);
   });
 
+  runner.test('should keep accented names from the display name', () => {
+    const result = parser.parseEmailAddress('jose.nunez@company.com', 'José Núñez');
+    runner.expect(result.extractedNames).toEqual(['josé', 'núñez']);
+  });
+
+  runner.test('should not repeat transliterated mailbox spellings', () => {
+    const result = parser.parseEmailAddress('soeren.mueller@company.com', 'Søren Müller');
+    runner.expect(result.extractedNames).toEqual(['søren', 'müller']);
+  });
+
+  runner.test('should read first and last names from "Last, First" display names', () => {
+    const result = parser.parseEmailAddress('hans.mueller@company.com', 'Müller, Hans (IT-SEC)');
+    runner.expect(result.firstName).toBe('hans');
+    runner.expect(result.lastName).toBe('müller');
+    runner.expect(result.extractedNames).toEqual(['müller', 'hans']);
+  });
+
+  runner.test('should leave roles, suffixes and external tags out of the names', () => {
+    const contractor = parser.parseEmailAddress('john.smith@company.com', 'Smith, John - Contractor');
+    const external = parser.parseEmailAddress('anna.berg@partner.com', '[EXT] Dr. Anna Maria van der Berg, MBA');
+
+    runner.expect(contractor.extractedNames).toEqual(['smith', 'john']);
+    runner.expect(external.firstName).toBe('anna');
+    runner.expect(external.middleNames).toEqual(['maria']);
+    runner.expect(external.lastName).toBe('van der berg');
+  });
+
+  runner.test('should not guess name roles without a display name', () => {
+    const result = parser.parseEmailAddress('john.doe@company.com');
+    runner.expect(result.firstName).toBeUndefined();
+    runner.expect(result.lastName).toBeUndefined();
+  });
+
+  runner.test('should read the initial and surname of j.doe@ and doe.j@ mailboxes', () => {
+    const initialFirst = parser.parseEmailAddress('j.doe@acme.com');
+    const initialLast = parser.parseEmailAddress('doe.j@acme.com');
+
+    runner.expect(initialFirst.firstInitial).toBe('j');
+    runner.expect(initialFirst.lastName).toBe('doe');
+    runner.expect(initialFirst.mailboxFormat).toBe('f.last');
+    runner.expect(initialLast.firstInitial).toBe('j');
+    runner.expect(initialLast.mailboxFormat).toBe('last.f');
+  });
+
+  runner.test('should only read jdoe@ as initials when the domain uses that format', () => {
+    const alone = parser.extractAllRecipients([{ emailAddress: 'jdoe@acme.com' }]);
+    const withColleague = parser.extractAllRecipients([
+      { emailAddress: 'jsmith@acme.com', displayName: 'Jane Smith' },
+      { emailAddress: 'jdoe@acme.com' },
+      { emailAddress: 'mark@other.com' }
+    ]);
+
+    runner.expect(alone[0].firstInitial).toBeUndefined();
+    runner.expect(withColleague[0].mailboxFormat).toBe('flast');
+    runner.expect(withColleague[1].firstInitial).toBe('j');
+    runner.expect(withColleague[1].lastName).toBe('doe');
+    runner.expect(withColleague[1].extractedNames).toEqual(['jdoe', 'doe']);
+    runner.expect(withColleague[2].firstInitial).toBeUndefined();
+  });
+
+  runner.test('should take names from the contacts directory when the display name is missing', () => {
+    const contactParser = new RecipientParser({
+      getContact: email => email === 'rsmith@partner.com'
+        ? { emails: [email], firstName: 'Robert', lastName: 'Smith', preferredName: 'Bob', nicknames: ['Bobby'] }
+        : undefined
+    });
+    const result = contactParser.parseEmailAddress('RSmith@partner.com');
+
+    runner.expect(result.firstName).toBe('robert');
+    runner.expect(result.lastName).toBe('smith');
+    runner.expect(result.preferredName).toBe('bob');
+    runner.expect(result.nicknames).toEqual(['bobby']);
+    runner.expect(result.mailboxFormat).toBe('flast');
+    runner.expect(result.extractedNames).toEqual(['bob', 'robert', 'smith', 'bobby', 'rsmith']);
+  });
+
+  runner.test('should prefer the display name over the contacts directory', () => {
+    const contactParser = new RecipientParser({
+      getContact: email => ({ emails: [email], firstName: 'Robert', lastName: 'Smith' })
+    });
+    const result = contactParser.parseEmailAddress('rsmith@partner.com', 'Smith, Rob');
+
+    runner.expect(result.firstName).toBe('rob');
+    runner.expect(result.extractedNames).toEqual(['smith', 'rob', 'robert', 'rsmith']);
+  });
+
   return runner.run();
 }
 
@@ -0,0 +1,53 @@
+/**
+ * Unit tests for German form-of-address detection
+ */
+
+import { classifyGreetingRegister, findRegisterPronouns } from '../register-detector';
+import { GreetingMatch } from '../interfaces';
+
+const greeting = (fullMatch: string, titles: string[] = []): GreetingMatch => ({
+  fullMatch,
+  extractedName: 'x',
+  position: 0,
+  confidence: 0.8,
+  ...(titles.length > 0 ? { salutation: { titles } } : {})
+});
+
+describe('register-detector', () => {
+  describe('classifyGreetingRegister', () => {
+    it('should classify "Sehr geehrte" and Herr/Frau as formal', () => {
+      expect(classifyGreetingRegister(greeting('Sehr geehrte Frau Weber', ['Frau']))).toBe('formal');
+      expect(classifyGreetingRegister(greeting('Hallo Herr Müller', ['Herr']))).toBe('formal');
+    });
+
+    it('should classify first-name greetings as informal', () => {
+      expect(classifyGreetingRegister(greeting('Hallo Jan'))).toBe('informal');
+      expect(classifyGreetingRegister(greeting('Liebe Anna'))).toBe('informal');
+    });
+
+    it('should leave neutral greetings unclassified', () => {
+      expect(classifyGreetingRegister(greeting('Guten Tag Anna'))).toBeUndefined();
+    });
+  });
+
+  describe('findRegisterPronouns', () => {
+    it('should find informal pronouns in any case', () => {
+      expect(findRegisterPronouns('kannst du mir Deine Unterlagen schicken?').informal).toEqual(['du', 'Deine']);
+    });
+
+    it('should find capitalized formal pronouns within a sentence', () => {
+      expect(findRegisterPronouns('könnten Sie mir Ihre Unterlagen schicken?').formal).toEqual(['Sie', 'Ihre']);
+    });
+
+    it('should ignore lowercase and sentence-initial forms of sie/ihr', () => {
+      const pronouns = findRegisterPronouns('ich habe sie gestern gesehen. Sie kommt morgen.\nIhr Zug ist spät.');
+
+      expect(pronouns.formal).toEqual([]);
+      expect(pronouns.informal).toEqual([]);
+    });
+
+    it('should not match pronouns inside other words', () => {
+      expect(findRegisterPronouns('durch die Dusche').informal).toEqual([]);
+    });
+  });
+});
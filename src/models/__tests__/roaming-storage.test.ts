@@ -0,0 +1,69 @@
+/**
+ * Unit tests for storing imports in roaming settings or local storage
+ */
+
+import { ROAMING_SETTINGS_LIMIT, ROAMING_SETTINGS_RESERVE, loadImport, saveImport } from '../roaming-storage';
+
+describe('Roaming storage', () => {
+  const roamingData = new Map<string, string>();
+  const roamingSettings = {
+    get: jest.fn((key: string) => roamingData.get(key)),
+    set: jest.fn((key: string, value: string) => { roamingData.set(key, value); }),
+    remove: jest.fn((key: string) => { roamingData.delete(key); }),
+    saveAsync: jest.fn((callback: (result: any) => void) => callback({ status: 'succeeded' }))
+  };
+
+  beforeEach(() => {
+    (global as any).Office = {
+      context: { roamingSettings },
+      AsyncResultStatus: { Succeeded: 'succeeded', Failed: 'failed' }
+    };
+    roamingData.clear();
+    window.localStorage.clear();
+    jest.clearAllMocks();
+  });
+
+  afterAll(() => {
+    delete (global as any).Office;
+  });
+
+  it('should keep an import in roaming settings while it fits', async () => {
+    await saveImport('contactsDirectory', '[{"emails":["anna@example.com"]}]', 'contacts');
+
+    expect(roamingData.get('contactsDirectory')).toBe('[{"emails":["anna@example.com"]}]');
+    expect(window.localStorage.getItem('contactsDirectory')).toBeNull();
+    expect(loadImport('contactsDirectory')).toBe('[{"emails":["anna@example.com"]}]');
+  });
+
+  it('should count what the other settings already take up', async () => {
+    const budget = ROAMING_SETTINGS_LIMIT - ROAMING_SETTINGS_RESERVE;
+    const lists = JSON.stringify(['x'.repeat(budget / 2)]);
+    roamingData.set('distributionLists', lists);
+    roamingData.set('contactsDirectory', '[]');
+
+    const contacts = JSON.stringify(['y'.repeat(budget / 2)]);
+    await saveImport('contactsDirectory', contacts, 'contacts');
+
+    expect(roamingData.has('contactsDirectory')).toBe(false);
+    expect(roamingData.get('distributionLists')).toBe(lists);
+    expect(window.localStorage.getItem('contactsDirectory')).toBe(contacts);
+    expect(loadImport('contactsDirectory')).toBe(contacts);
+    expect(roamingSettings.saveAsync).toHaveBeenCalled();
+  });
+
+  it('should use local storage without Office', async () => {
+    delete (global as any).Office;
+
+    await saveImport('distributionLists', '[]', 'distribution lists');
+
+    expect(window.localStorage.getItem('distributionLists')).toBe('[]');
+    expect(loadImport('contactsDirectory')).toBeUndefined();
+  });
+
+  it('should report a failed save', async () => {
+    roamingSettings.saveAsync.mockImplementationOnce(callback => callback({ status: 'failed', error: { message: 'Quota exceeded' } }));
+
+    await expect(saveImport('distributionLists', '[]', 'distribution lists'))
+      .rejects.toThrow('Failed to save distribution lists: Quota exceeded');
+  });
+});
@@ -0,0 +1,96 @@
+/**
+ * Unit tests for salutation consistency
+ */
+
+import {
+  addressesBySurname,
+  findSalutationIssue,
+  findTitles,
+  getGreetingSalutation,
+  getRecipientSalutation
+} from '../salutation-checker';
+
+describe('salutation-checker', () => {
+  describe('findTitles', () => {
+    it('should find honorifics and academic titles as written', () => {
+      expect(findTitles('Sehr geehrter Herr Dr.')).toEqual(['Herr', 'Dr.']);
+      expect(findTitles('Gentile Sig.ra')).toEqual(['Sig.ra']);
+    });
+
+    it('should not read names as titles', () => {
+      expect(findTitles('Don', ['don'])).toEqual([]);
+    });
+  });
+
+  describe('getGreetingSalutation', () => {
+    it('should take the gender from the honorific', () => {
+      expect(getGreetingSalutation(['Mrs.'], 'Dear ')).toEqual({ titles: ['Mrs.'], gender: 'female' });
+    });
+
+    it('should take the gender from the greeting form when there is no honorific', () => {
+      expect(getGreetingSalutation([], 'Lieber ')).toEqual({ titles: [], gender: 'male' });
+      expect(getGreetingSalutation(['Dr.'], 'Sehr geehrte ')).toEqual({ titles: ['Dr.'], gender: 'female' });
+    });
+
+    it('should leave the gender out when the titles disagree', () => {
+      expect(getGreetingSalutation(['Mr.', 'Mrs.'], 'Dear ')).toEqual({ titles: ['Mr.', 'Mrs.'] });
+    });
+
+    it('should return undefined for neutral greetings', () => {
+      expect(getGreetingSalutation([], 'Hi ')).toBeUndefined();
+    });
+  });
+
+  describe('getRecipientSalutation', () => {
+    it('should read leading titles of the display name', () => {
+      expect(getRecipientSalutation('Frau Dr. Anna Müller')).toEqual({ titles: ['Frau', 'Dr.'], gender: 'female' });
+      expect(getRecipientSalutation('Smith, Dr. Anna')).toEqual({ titles: ['Dr.'] });
+    });
+
+    it('should ignore display names without titles', () => {
+      expect(getRecipientSalutation('Anna Smith')).toEqual({ titles: [] });
+      expect(getRecipientSalutation(undefined)).toEqual({ titles: [] });
+    });
+  });
+
+  describe('findSalutationIssue', () => {
+    it('should report a gendered form that contradicts the display name', () => {
+      const greeting = getGreetingSalutation(['Herr'], 'Sehr geehrter ')!;
+
+      expect(findSalutationIssue(greeting, getRecipientSalutation('Frau Anna Müller')))
+        .toEqual({ kind: 'gender', expected: 'Frau' });
+    });
+
+    it('should report a formal greeting that leaves out an academic title', () => {
+      const greeting = getGreetingSalutation(['Mr.'], 'Dear ')!;
+
+      expect(findSalutationIssue(greeting, getRecipientSalutation('Dr. Anna Smith')))
+        .toEqual({ kind: 'missing_title', expected: 'Dr.' });
+    });
+
+    it('should accept a greeting that uses the title', () => {
+      const greeting = getGreetingSalutation(['Professor'], 'Dear ')!;
+
+      expect(findSalutationIssue(greeting, getRecipientSalutation('Prof. Anna Smith'))).toBeNull();
+    });
+
+    it('should accept informal greetings to titled recipients', () => {
+      const greeting = getGreetingSalutation([], 'Liebe ')!;
+
+      expect(findSalutationIssue(greeting, getRecipientSalutation('Dr. Anna Smith'))).toBeNull();
+    });
+  });
+
+  describe('addressesBySurname', () => {
+    it('should read a lone name after most titles as a surname', () => {
+      expect(addressesBySurname(['Mr.'])).toBe(true);
+      expect(addressesBySurname(['Herr', 'Dr.'])).toBe(true);
+    });
+
+    it('should not for titles used with first names', () => {
+      expect(addressesBySurname(['Sir'])).toBe(false);
+      expect(addressesBySurname(['Don'])).toBe(false);
+      expect(addressesBySurname([])).toBe(false);
+    });
+  });
+});
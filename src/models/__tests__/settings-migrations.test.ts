@@ -0,0 +1,148 @@
+/**
+ * Unit tests for migrating stored settings, with fixtures of the roaming settings saved by every
+ * historical version of the add-in
+ */
+
+import { ConfigurationManager, DEFAULT_CONFIG, DEFAULT_PREFERENCES } from '../configuration-manager';
+import { CONFIG_SCHEMA_VERSION, migrateConfig, migratePreferences } from '../settings-migrations';
+import { DEFAULT_GENERIC_MAILBOX_RULES } from '../defaults';
+
+const roamingData = new Map<string, string>();
+const roamingSettings = {
+  get: jest.fn((key: string) => roamingData.get(key)),
+  set: jest.fn((key: string, value: string) => { roamingData.set(key, value); }),
+  saveAsync: jest.fn((callback: (result: any) => void) => callback({ status: 'succeeded' }))
+};
+
+// Version 1: string patterns without \b, one of them without a capture group
+const VERSION_1 = {
+  enabledGreetingPatterns: [
+    'Hi\\s+([A-Za-z]+)',
+    'Hello\\s+([A-Za-z]+)',
+    'Dear\\s+([A-Za-z]+)',
+    'Hey\\s+([A-Za-z]+)',
+    'Good\\s+morning\\s+([A-Za-z]+)',
+    'Good\\s+afternoon\\s+([A-Za-z]+)',
+    'Good\\s+evening\\s+([A-Za-z]+)',
+    'Moin\\s+[A-Za-z]+'
+  ],
+  minimumConfidenceThreshold: 0.8,
+  enableFuzzyMatching: false,
+  excludeGenericEmails: true,
+  language: 'de'
+};
+
+// Version 2: customNicknames
+const VERSION_2 = { ...VERSION_1, customNicknames: [['Hansi', 'Johannes']] };
+
+// Version 3: patterns with \b and pattern definitions
+const VERSION_3 = {
+  ...VERSION_2,
+  enabledGreetingPatterns: [
+    ...DEFAULT_CONFIG.enabledGreetingPatterns,
+    { pattern: '\\bServus\\s+(?<name>[A-Za-z]+)', language: 'de', confidence: 0.85 }
+  ]
+};
+
+// Versions 4 to 9: one check or matching option each
+const VERSION_4 = { ...VERSION_3, checkSignOffName: false };
+const VERSION_5 = { ...VERSION_4, checkRecipientCoverage: false };
+const VERSION_6 = { ...VERSION_5, recipientFieldWeights: { to: 1, cc: 0.8, bcc: 0.5 }, matchBccRecipients: true };
+const VERSION_7 = { ...VERSION_6, checkSalutations: false };
+const VERSION_8 = { ...VERSION_7, checkRegister: false };
+const VERSION_9 = { ...VERSION_8, checkGroupGreetings: false };
+
+// Version 10: generic mailbox rules
+const VERSION_10 = {
+  ...VERSION_9,
+  genericMailboxRules: [...DEFAULT_GENERIC_MAILBOX_RULES, { kind: 'domain', pattern: 'noreply.github.com' }],
+  genericMailboxDomainOverrides: [],
+  personalMailboxes: ['hr@smith-consulting.com']
+};
+
+// Version 11 before versions were stored: only the settings that differ from the defaults
+const VERSION_11 = { language: 'de', checkRegister: false, personalMailboxes: ['hr@smith-consulting.com'] };
+
+describe('Settings migrations', () => {
+  beforeEach(() => {
+    (global as any).Office = {
+      context: { roamingSettings },
+      AsyncResultStatus: { Succeeded: 'succeeded', Failed: 'failed' }
+    };
+    (ConfigurationManager as any).instance = undefined;
+    roamingData.clear();
+    jest.clearAllMocks();
+  });
+
+  afterAll(() => {
+    delete (global as any).Office;
+  });
+
+  const loadConfig = async (stored: object) => {
+    roamingData.set('validationConfig', JSON.stringify(stored));
+    const configManager = ConfigurationManager.getInstance();
+    await configManager.initialize();
+    return configManager.getConfig();
+  };
+
+  it.each([
+    ['1', VERSION_1, { ...VERSION_1, enabledGreetingPatterns: DEFAULT_CONFIG.enabledGreetingPatterns }],
+    ['2', VERSION_2, { ...VERSION_2, enabledGreetingPatterns: DEFAULT_CONFIG.enabledGreetingPatterns }],
+    ['3', VERSION_3, VERSION_3],
+    ['4', VERSION_4, VERSION_4],
+    ['5', VERSION_5, VERSION_5],
+    ['6', VERSION_6, VERSION_6],
+    ['7', VERSION_7, VERSION_7],
+    ['8', VERSION_8, VERSION_8],
+    ['9', VERSION_9, VERSION_9],
+    ['10', VERSION_10, VERSION_10],
+    ['11', VERSION_11, VERSION_11]
+  ])('should keep the settings saved by version %s', async (_version, stored, expected) => {
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+
+    const config = await loadConfig(stored);
+
+    expect(config).toEqual({ ...DEFAULT_CONFIG, ...expected });
+    expect(warn).not.toHaveBeenCalled();
+    warn.mockRestore();
+  });
+
+  it('should upgrade version 1 patterns and fill in every later field', () => {
+    const { settings, fromVersion } = migrateConfig(VERSION_1, DEFAULT_CONFIG);
+
+    expect(fromVersion).toBe(1);
+    expect(settings).toEqual({ minimumConfidenceThreshold: 0.8, enableFuzzyMatching: false, language: 'de' });
+  });
+
+  it('should store the schema version and read it back without migrating again', async () => {
+    const configManager = ConfigurationManager.getInstance();
+    await configManager.initialize();
+    await configManager.updateConfig({ checkRegister: false });
+
+    const stored = JSON.parse(roamingData.get('validationConfig')!);
+    expect(stored).toEqual({ schemaVersion: CONFIG_SCHEMA_VERSION, checkRegister: false });
+    expect(migrateConfig(stored, DEFAULT_CONFIG)).toEqual({ settings: { checkRegister: false }, fromVersion: CONFIG_SCHEMA_VERSION });
+  });
+
+  it('should drop only the stored fields that are still invalid', async () => {
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+
+    const config = await loadConfig({ ...VERSION_8, minimumConfidenceThreshold: 5, removedSetting: true });
+
+    expect(config.minimumConfidenceThreshold).toBe(DEFAULT_CONFIG.minimumConfidenceThreshold);
+    expect(config.checkRegister).toBe(false);
+    expect(config.customNicknames).toEqual([['Hansi', 'Johannes']]);
+    expect(config).not.toHaveProperty('removedSetting');
+    expect(warn).toHaveBeenCalledWith('Discarding invalid stored setting minimumConfidenceThreshold:', expect.any(Error));
+    warn.mockRestore();
+  });
+
+  it('should keep preferences saved before versions were stored', async () => {
+    roamingData.set('userPreferences', JSON.stringify({ ...DEFAULT_PREFERENCES, showSuccessNotifications: true }));
+    const configManager = ConfigurationManager.getInstance();
+    await configManager.initialize();
+
+    expect(configManager.getPreferences()).toEqual({ ...DEFAULT_PREFERENCES, showSuccessNotifications: true });
+    expect(migratePreferences({ warningDisplayDuration: 5000 }, DEFAULT_PREFERENCES).settings).toEqual({});
+  });
+});
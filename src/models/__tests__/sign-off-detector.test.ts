@@ -0,0 +1,86 @@
+/**
+ * Unit tests for sign-off and signature detection
+ */
+
+import { findSignOff, getContentBeforeSignOff } from '../sign-off-detector';
+
+describe('sign-off-detector', () => {
+  describe('findSignOff', () => {
+    it('should return null for content without a sign-off', () => {
+      expect(findSignOff('Hi John,\n\nSee you tomorrow.')).toBeNull();
+      expect(findSignOff('')).toBeNull();
+    });
+
+    it('should detect an English closing with the name on the next line', () => {
+      const content = 'Hi John,\n\nSee you tomorrow.\n\nBest regards,\nAnna Schmidt\nSales Manager';
+
+      expect(findSignOff(content)).toEqual({
+        position: content.indexOf('Best regards'),
+        closing: 'Best regards',
+        signedName: 'Anna Schmidt'
+      });
+    });
+
+    it('should detect a German closing with the name on the same line', () => {
+      const content = 'Hallo Jörg,\n\nbis morgen.\n\nViele Grüße, Hans';
+
+      expect(findSignOff(content)).toEqual({
+        position: content.indexOf('Viele Grüße'),
+        closing: 'Viele Grüße',
+        signedName: 'Hans'
+      });
+    });
+
+    it('should detect French, Spanish, Italian and Dutch closings', () => {
+      const contents = [
+        'Bonjour Pierre,\n\nCordialement,\nMarie',
+        'Hola Carlos,\n\nUn saludo,\nAna',
+        'Ciao Marco,\n\nCordiali saluti\nGiulia',
+        'Beste Jan,\n\nMet vriendelijke groet,\nSanne'
+      ];
+
+      expect(contents.map(content => findSignOff(content)?.signedName)).toEqual(['Marie', 'Ana', 'Giulia', 'Sanne']);
+    });
+
+    it('should read signed names in Greek and Cyrillic', () => {
+      expect(findSignOff('Hi Nikos,\n\nBest regards,\nΓιώργος Παπαδόπουλος')?.signedName).toBe('Γιώργος Παπαδόπουλος');
+      expect(findSignOff('Hi Irina,\n\nThanks,\nИрина Петрова')?.signedName).toBe('Ирина Петрова');
+      expect(findSignOff('Hi Irina,\n\nThanks,\nсм. ниже')).toEqual({ position: 'Hi Irina,\n\n'.length, closing: 'Thanks' });
+    });
+
+    it('should use the last closing, not a "Thanks!" inside the body', () => {
+      const content = 'Hi John,\n\nThanks!\n\nCan we meet on Monday?\n\nCheers,\nAnna';
+
+      const signOff = findSignOff(content);
+
+      expect(signOff!.position).toBe(content.indexOf('Cheers'));
+      expect(signOff!.signedName).toBe('Anna');
+    });
+
+    it('should not treat body sentences starting with a closing word as a sign-off', () => {
+      expect(findSignOff('Hi John,\n\nThanks for the update.\nBest to call me later.')).toBeNull();
+      expect(findSignOff('Hi team,\n\nThanks John!\n\nThe report is attached.')).toBeNull();
+    });
+
+    it('should leave the signed name empty when the next line is not a name', () => {
+      const content = 'Hi John,\n\nKind regards,\n+49 30 123456';
+
+      expect(findSignOff(content)).toEqual({ position: content.indexOf('Kind regards'), closing: 'Kind regards' });
+    });
+
+    it('should stop at a "-- " signature delimiter', () => {
+      const content = 'Hi John,\n\nSee you.\n\n-- \nAnna Schmidt\nBest regards from the sales team';
+
+      expect(findSignOff(content)).toEqual({ position: content.indexOf('-- ') });
+    });
+  });
+
+  describe('getContentBeforeSignOff', () => {
+    it('should cut the content at the sign-off', () => {
+      const content = 'Hi John,\n\nLiebe Grüße\nHans';
+
+      expect(getContentBeforeSignOff(content, findSignOff(content))).toBe('Hi John,\n\n');
+      expect(getContentBeforeSignOff('Hi John,', null)).toBe('Hi John,');
+    });
+  });
+});
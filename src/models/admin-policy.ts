@@ -0,0 +1,133 @@
+/**
+ * Administrator policy
+ * An organization-wide configuration layer between the built-in defaults and each user's settings,
+ * loaded as JSON from the add-in's own origin or from a URL the manifest points to
+ */
+
+import { UserPreferences, ValidationConfig } from './interfaces';
+
+/**
+ * Policy file looked for next to the add-in's pages when the manifest names none
+ */
+export const DEFAULT_ADMIN_POLICY_PATH = 'admin-policy.json';
+
+/**
+ * Query parameter of the add-in's page URL (SourceLocation in the manifest) that names the policy URL
+ */
+export const ADMIN_POLICY_URL_PARAMETER = 'policy';
+
+/**
+ * Policy URL fixed at build time (see webpack.config.js). Send-time validation runs in a
+ * JavaScript-only runtime without a page location, so it can only find the policy this way.
+ */
+declare const ADMIN_POLICY_URL: string | undefined;
+
+/**
+ * How long to wait for the policy before going on without it
+ */
+const POLICY_TIMEOUT_MS = 5000;
+
+/**
+ * A configuration or preference setting a policy can set and lock
+ */
+export type PolicySetting = keyof ValidationConfig | keyof UserPreferences;
+
+/**
+ * Settings an administrator rolls out to every user
+ */
+export interface AdminPolicy {
+  /** Configuration values that replace the built-in defaults */
+  config?: Partial<ValidationConfig>;
+  /** Preference values that replace the built-in defaults */
+  preferences?: Partial<UserPreferences>;
+  /** Settings users can't change; they keep the policy's value, or the default when the policy sets none */
+  locked?: PolicySetting[];
+  /** Shown with locked settings, e.g. whom to ask for a change */
+  message?: string;
+}
+
+/**
+ * URL of the policy: the one fixed at build time, else the page's ?policy= parameter, else
+ * admin-policy.json next to the page
+ * @param location Location of the add-in's page
+ * @param configuredUrl Policy URL fixed at build time
+ * @returns The URL, or undefined without either
+ */
+export function getAdminPolicyUrl(
+  location: Pick<Location, 'href' | 'search'> | undefined = typeof window !== 'undefined' ? window.location : undefined,
+  configuredUrl: string | undefined = typeof ADMIN_POLICY_URL !== 'undefined' ? ADMIN_POLICY_URL : undefined
+): string | undefined {
+  if (configuredUrl) {
+    return configuredUrl;
+  }
+  if (!location) {
+    return undefined;
+  }
+
+  const configured = new URLSearchParams(location.search).get(ADMIN_POLICY_URL_PARAMETER);
+  return new URL(configured || DEFAULT_ADMIN_POLICY_PATH, location.href).href;
+}
+
+/**
+ * Check the shape of a parsed policy file; the values themselves are validated by ConfigurationManager
+ * @throws Error when the policy or one of its sections has the wrong type
+ */
+export function parseAdminPolicy(json: unknown): AdminPolicy {
+  const isObject = (value: unknown): value is Record<string, unknown> =>
+    typeof value === 'object' && value !== null && !Array.isArray(value);
+
+  if (!isObject(json)) {
+    throw new Error('Admin policy must be a JSON object');
+  }
+  if (json.config !== undefined && !isObject(json.config)) {
+    throw new Error('Admin policy config must be an object');
+  }
+  if (json.preferences !== undefined && !isObject(json.preferences)) {
+    throw new Error('Admin policy preferences must be an object');
+  }
+  if (json.locked !== undefined && !(Array.isArray(json.locked) && json.locked.every(setting => typeof setting === 'string'))) {
+    throw new Error('Admin policy locked must be an array of setting names');
+  }
+  if (json.message !== undefined && typeof json.message !== 'string') {
+    throw new Error('Admin policy message must be a string');
+  }
+
+  return {
+    ...(json.config ? { config: json.config as Partial<ValidationConfig> } : {}),
+    ...(json.preferences ? { preferences: json.preferences as Partial<UserPreferences> } : {}),
+    ...(json.locked ? { locked: json.locked as PolicySetting[] } : {}),
+    ...(json.message ? { message: json.message as string } : {})
+  };
+}
+
+/**
+ * Fetch and parse the policy. A missing policy file is the normal case without one; other
+ * failures are logged and the add-in goes on without a policy
+ * @param url Policy URL (see getAdminPolicyUrl)
+ * @returns The policy, or undefined when there is none or it can't be loaded
+ */
+export async function loadAdminPolicy(url: string | undefined = getAdminPolicyUrl()): Promise<AdminPolicy | undefined> {
+  if (!url || typeof fetch === 'undefined') {
+    return undefined;
+  }
+
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  try {
+    const timeout = new Promise<never>((_resolve, reject) => {
+      timer = setTimeout(() => reject(new Error(`No response within ${POLICY_TIMEOUT_MS} ms`)), POLICY_TIMEOUT_MS);
+    });
+    const response = await Promise.race([fetch(url, { cache: 'no-cache' }), timeout]);
+    if (response.status === 404) {
+      return undefined;
+    }
+    if (!response.ok) {
+      throw new Error(`HTTP ${response.status}`);
+    }
+    return parseAdminPolicy(await response.json());
+  } catch (error) {
+    console.warn('Failed to load admin policy:', error);
+    return undefined;
+  } finally {
+    clearTimeout(timer);
+  }
+}
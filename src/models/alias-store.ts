@@ -0,0 +1,167 @@
+/**
+ * Learned aliases
+ * Remembers greeting names the user chose to always accept for a recipient ("Bob" for
+ * robert.king@), so the same greeting isn't flagged again in later mails
+ */
+
+import { AliasLookup, LearnedAlias } from './interfaces';
+
+/**
+ * Roaming settings key the aliases are stored under
+ */
+const ALIASES_STORAGE_KEY = 'learnedAliases';
+
+/**
+ * Per-address store of accepted greeting names, roaming with the mailbox
+ */
+export class AliasStore implements AliasLookup {
+  private static instance: AliasStore;
+  /** Aliases by lowercase address, lowercase and in the order they were learned */
+  private aliases: Record<string, string[]> = {};
+  private isInitialized: boolean = false;
+
+  private constructor() {}
+
+  /**
+   * Get singleton instance of the alias store
+   */
+  public static getInstance(): AliasStore {
+    if (!AliasStore.instance) {
+      AliasStore.instance = new AliasStore();
+    }
+    return AliasStore.instance;
+  }
+
+  /**
+   * Load the learned aliases; starts empty when roaming settings are unavailable
+   */
+  public async initialize(): Promise<void> {
+    if (this.isInitialized) {
+      return;
+    }
+
+    try {
+      this.aliases = this.loadAliases();
+    } catch (error) {
+      console.warn('Failed to load learned aliases:', error);
+      this.aliases = {};
+    }
+    this.isInitialized = true;
+  }
+
+  /**
+   * Greeting names accepted for this address
+   */
+  public getAliases(email: string): string[] {
+    return [...(this.aliases[this.normalizeEmail(email)] || [])];
+  }
+
+  /**
+   * All learned aliases, sorted by address
+   */
+  public getAllAliases(): LearnedAlias[] {
+    return Object.keys(this.aliases)
+      .sort()
+      .reduce((all: LearnedAlias[], email) => [...all, ...this.aliases[email].map(alias => ({ email, alias }))], []);
+  }
+
+  /**
+   * Always accept a greeting name for an address
+   */
+  public async addAlias(email: string, alias: string): Promise<void> {
+    const key = this.normalizeEmail(email);
+    const name = this.normalizeAlias(alias);
+    if (!key || !name) {
+      throw new Error('An address and a name are required to learn an alias');
+    }
+
+    const known = this.aliases[key] || [];
+    if (known.indexOf(name) !== -1) {
+      return;
+    }
+
+    this.aliases = { ...this.aliases, [key]: [...known, name] };
+    await this.saveAliases();
+  }
+
+  /**
+   * Stop accepting a greeting name for an address
+   */
+  public async removeAlias(email: string, alias: string): Promise<void> {
+    const key = this.normalizeEmail(email);
+    const name = this.normalizeAlias(alias);
+    const known = this.aliases[key] || [];
+    if (known.indexOf(name) === -1) {
+      return;
+    }
+
+    const { [key]: _removed, ...others } = this.aliases;
+    const remaining = known.filter(other => other !== name);
+    this.aliases = remaining.length > 0 ? { ...others, [key]: remaining } : others;
+    await this.saveAliases();
+  }
+
+  /**
+   * Forget all learned aliases
+   */
+  public async clear(): Promise<void> {
+    this.aliases = {};
+    await this.saveAliases();
+  }
+
+  /**
+   * Read the aliases from Office roaming settings
+   */
+  private loadAliases(): Record<string, string[]> {
+    if (typeof Office === 'undefined' || !Office?.context?.roamingSettings) {
+      throw new Error('Office roaming settings not available');
+    }
+
+    const saved = Office.context.roamingSettings.get(ALIASES_STORAGE_KEY);
+    if (!saved) {
+      return {};
+    }
+
+    const parsed = JSON.parse(saved);
+    const aliases: Record<string, string[]> = {};
+    Object.keys(parsed || {}).forEach(email => {
+      if (Array.isArray(parsed[email])) {
+        aliases[email] = parsed[email].filter((alias: unknown) => typeof alias === 'string' && alias.length > 0);
+      }
+    });
+    return aliases;
+  }
+
+  /**
+   * Save the aliases to Office roaming settings
+   */
+  private async saveAliases(): Promise<void> {
+    return new Promise((resolve, reject) => {
+      if (typeof Office === 'undefined' || !Office?.context?.roamingSettings) {
+        reject(new Error('Office roaming settings not available'));
+        return;
+      }
+
+      try {
+        Office.context.roamingSettings.set(ALIASES_STORAGE_KEY, JSON.stringify(this.aliases));
+        Office.context.roamingSettings.saveAsync((result) => {
+          if (result.status === Office.AsyncResultStatus.Succeeded) {
+            resolve();
+          } else {
+            reject(new Error(`Failed to save learned aliases: ${result.error?.message}`));
+          }
+        });
+      } catch (error) {
+        reject(new Error(`Failed to save learned aliases: ${error}`));
+      }
+    });
+  }
+
+  private normalizeEmail(email: string): string {
+    return (email || '').trim().toLowerCase();
+  }
+
+  private normalizeAlias(alias: string): string {
+    return (alias || '').trim().replace(/\s+/g, ' ').toLowerCase();
+  }
+}
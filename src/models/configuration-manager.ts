@@ -1,27 +1,44 @@
 /**
  * Configuration and user preferences management for Outlook Name Validator
- * Handles storage, retrieval, and validation of user settings using Office settings API
+ * Handles storage, retrieval, and validation of user settings using Office settings API.
+ * Settings are layered: built-in defaults, then the administrator policy, then the user's own settings
  */
 
-import { ValidationConfig, UserPreferences } from './interfaces';
+import { RecipientField, ValidationConfig, UserPreferences } from './interfaces';
+import { GREETING_LANGUAGES, compileGreetingPattern, toGreetingPatternDefinition } from './email-content-parser';
+import { DEFAULT_GENERIC_MAILBOX_RULES } from './defaults';
+import { compileGenericMailboxRule } from './generic-mailbox-rules';
+import { AdminPolicy, PolicySetting, loadAdminPolicy } from './admin-policy';
+import { CONFIG_SCHEMA_VERSION, PREFERENCES_SCHEMA_VERSION, migrateConfig, migratePreferences } from './settings-migrations';
 
 /**
  * Default configuration values
  */
 export const DEFAULT_CONFIG: ValidationConfig = {
   enabledGreetingPatterns: [
-    'Hi\\s+([A-Za-z]+)',
-    'Hello\\s+([A-Za-z]+)',
-    'Dear\\s+([A-Za-z]+)',
-    'Hey\\s+([A-Za-z]+)',
-    'Good\\s+morning\\s+([A-Za-z]+)',
-    'Good\\s+afternoon\\s+([A-Za-z]+)',
-    'Good\\s+evening\\s+([A-Za-z]+)'
+    '\\bHi\\s+([A-Za-z]+)',
+    '\\bHello\\s+([A-Za-z]+)',
+    '\\bDear\\s+([A-Za-z]+)',
+    '\\bHey\\s+([A-Za-z]+)',
+    '\\bGood\\s+morning\\s+([A-Za-z]+)',
+    '\\bGood\\s+afternoon\\s+([A-Za-z]+)',
+    '\\bGood\\s+evening\\s+([A-Za-z]+)'
   ],
   minimumConfidenceThreshold: 0.7,
   enableFuzzyMatching: true,
   excludeGenericEmails: true,
-  language: 'auto'
+  language: 'auto',
+  customNicknames: [],
+  checkSignOffName: true,
+  checkRecipientCoverage: true,
+  recipientFieldWeights: { to: 1, cc: 0.9, bcc: 0.9 },
+  matchBccRecipients: false,
+  checkSalutations: true,
+  checkRegister: true,
+  checkGroupGreetings: true,
+  genericMailboxRules: DEFAULT_GENERIC_MAILBOX_RULES,
+  genericMailboxDomainOverrides: [],
+  personalMailboxes: []
 };
 
 /**
@@ -41,6 +58,11 @@ export class ConfigurationManager {
   private config: ValidationConfig;
   private preferences: UserPreferences;
   private isInitialized: boolean = false;
+  /** Administrator policy layer */
+  private policy: AdminPolicy = {};
+  /** The user's own settings: only those that differ from the defaults and policy */
+  private userConfig: Partial<ValidationConfig> = {};
+  private userPreferences: Partial<UserPreferences> = {};
 
   private constructor() {
     this.config = { ...DEFAULT_CONFIG };
@@ -58,24 +80,28 @@ export class ConfigurationManager {
   }
 
   /**
-   * Initialize configuration manager and load settings from Office storage
+   * Initialize configuration manager: load the administrator policy and the settings from Office storage
    */
   public async initialize(): Promise<void> {
     if (this.isInitialized) {
       return;
     }
 
+    this.policy = this.checkPolicy(await loadAdminPolicy());
+
     try {
       await this.loadConfiguration();
       await this.loadPreferences();
-      this.isInitialized = true;
     } catch (error) {
       console.warn('Failed to initialize configuration manager:', error);
-      // Use defaults if loading fails
-      this.config = { ...DEFAULT_CONFIG };
-      this.preferences = { ...DEFAULT_PREFERENCES };
-      this.isInitialized = true;
+      // Use defaults and policy if loading fails
+      this.userConfig = {};
+      this.userPreferences = {};
     }
+
+    this.config = this.layerConfig();
+    this.preferences = this.layerPreferences();
+    this.isInitialized = true;
   }
 
   /**
@@ -92,48 +118,190 @@ export class ConfigurationManager {
     return { ...this.preferences };
   }
 
+  /**
+   * Whether the administrator policy locks a setting, so users can't change it
+   */
+  public isLocked(setting: PolicySetting): boolean {
+    return (this.policy.locked || []).indexOf(setting) !== -1;
+  }
+
+  /**
+   * The administrator's explanation for locked settings, if the policy gives one
+   */
+  public getPolicyMessage(): string | undefined {
+    return this.policy.message;
+  }
+
   /**
    * Update validation configuration
+   * @throws Error when the configuration is invalid or changes a locked setting
    */
   public async updateConfig(newConfig: Partial<ValidationConfig>): Promise<void> {
+    this.assertUnlocked(newConfig, this.config);
     const updatedConfig = { ...this.config, ...newConfig };
     
     // Validate configuration before saving
     this.validateConfig(updatedConfig);
     
     this.config = updatedConfig;
+    this.userConfig = this.getOverrides(updatedConfig, this.getConfigBase());
     await this.saveConfiguration();
   }
 
   /**
    * Update user preferences
+   * @throws Error when the preferences are invalid or change a locked setting
    */
   public async updatePreferences(newPreferences: Partial<UserPreferences>): Promise<void> {
+    this.assertUnlocked(newPreferences, this.preferences);
     const updatedPreferences = { ...this.preferences, ...newPreferences };
     
     // Validate preferences before saving
     this.validatePreferences(updatedPreferences);
     
     this.preferences = updatedPreferences;
+    this.userPreferences = this.getOverrides(updatedPreferences, this.getPreferencesBase());
     await this.savePreferences();
   }
 
   /**
-   * Reset configuration to defaults
+   * Reset configuration to defaults (and the administrator policy's values)
    */
   public async resetConfig(): Promise<void> {
-    this.config = { ...DEFAULT_CONFIG };
+    this.userConfig = {};
+    this.config = this.layerConfig();
     await this.saveConfiguration();
   }
 
   /**
-   * Reset preferences to defaults
+   * Reset preferences to defaults (and the administrator policy's values)
    */
   public async resetPreferences(): Promise<void> {
-    this.preferences = { ...DEFAULT_PREFERENCES };
+    this.userPreferences = {};
+    this.preferences = this.layerPreferences();
     await this.savePreferences();
   }
 
+  /**
+   * Defaults with the policy's configuration values applied
+   */
+  private getConfigBase(): ValidationConfig {
+    return { ...DEFAULT_CONFIG, ...this.policy.config };
+  }
+
+  /**
+   * Defaults with the policy's preference values applied
+   */
+  private getPreferencesBase(): UserPreferences {
+    return { ...DEFAULT_PREFERENCES, ...this.policy.preferences };
+  }
+
+  /**
+   * Effective configuration: defaults, then policy, then the user's settings that aren't locked
+   */
+  private layerConfig(): ValidationConfig {
+    return { ...this.getConfigBase(), ...this.withoutLocked(this.userConfig) };
+  }
+
+  /**
+   * Effective preferences: defaults, then policy, then the user's preferences that aren't locked
+   */
+  private layerPreferences(): UserPreferences {
+    return { ...this.getPreferencesBase(), ...this.withoutLocked(this.userPreferences) };
+  }
+
+  /**
+   * Settings without the ones the policy locks
+   */
+  private withoutLocked<T extends object>(settings: Partial<T>): Partial<T> {
+    const unlocked: Partial<T> = {};
+    (Object.keys(settings) as (keyof T & string)[]).forEach(key => {
+      if (!this.isLocked(key as PolicySetting)) {
+        unlocked[key] = settings[key];
+      }
+    });
+    return unlocked;
+  }
+
+  /**
+   * The settings whose value differs from the layers below, so later policy changes still
+   * reach users who never changed a setting
+   */
+  private getOverrides<T extends object>(settings: T, base: T): Partial<T> {
+    const overrides: Partial<T> = {};
+    (Object.keys(settings) as (keyof T)[]).forEach(key => {
+      if (JSON.stringify(settings[key]) !== JSON.stringify(base[key])) {
+        overrides[key] = settings[key];
+      }
+    });
+    return overrides;
+  }
+
+  /**
+   * Reject changes to locked settings; passing a locked setting's current value is fine
+   */
+  private assertUnlocked<T extends object>(changes: Partial<T>, current: T): void {
+    (Object.keys(changes) as (keyof T & string)[]).forEach(key => {
+      if (this.isLocked(key as PolicySetting) && JSON.stringify(changes[key]) !== JSON.stringify(current[key])) {
+        throw new Error(`${key} is set by your administrator and can't be changed`);
+      }
+    });
+  }
+
+  /**
+   * Stored settings without unknown and invalid fields; a field that fails validation is dropped
+   * on its own instead of resetting all settings
+   */
+  private keepValidSettings<T extends object>(settings: Partial<T>, base: T, validate: (values: T) => void): Partial<T> {
+    const known: Partial<T> = {};
+    (Object.keys(settings) as (keyof T)[]).forEach(key => {
+      if (key in base) {
+        known[key] = settings[key];
+      }
+    });
+
+    try {
+      validate({ ...base, ...known });
+      return known;
+    } catch {
+      const valid: Partial<T> = {};
+      (Object.keys(known) as (keyof T)[]).forEach(key => {
+        try {
+          validate({ ...base, [key]: known[key] });
+          valid[key] = known[key];
+        } catch (error) {
+          console.warn(`Discarding invalid stored setting ${String(key)}:`, error);
+        }
+      });
+      return valid;
+    }
+  }
+
+  /**
+   * Check a loaded policy against the same rules as user settings
+   * @returns The policy, or no policy when it is invalid
+   */
+  private checkPolicy(policy: AdminPolicy | undefined): AdminPolicy {
+    if (!policy) {
+      return {};
+    }
+
+    try {
+      this.validateConfig({ ...DEFAULT_CONFIG, ...policy.config });
+      this.validatePreferences({ ...DEFAULT_PREFERENCES, ...policy.preferences });
+      const settings = [...Object.keys(DEFAULT_CONFIG), ...Object.keys(DEFAULT_PREFERENCES)];
+      (policy.locked || []).forEach(setting => {
+        if (settings.indexOf(setting) === -1) {
+          throw new Error(`Unknown locked setting: ${setting}`);
+        }
+      });
+      return policy;
+    } catch (error) {
+      console.warn('Ignoring invalid admin policy:', error);
+      return {};
+    }
+  }
+
   /**
    * Load configuration from Office settings
    */
@@ -147,9 +315,9 @@ export class ConfigurationManager {
       try {
         const savedConfig = Office.context.roamingSettings.get('validationConfig');
         if (savedConfig) {
-          const parsedConfig = JSON.parse(savedConfig);
-          this.validateConfig(parsedConfig);
-          this.config = { ...DEFAULT_CONFIG, ...parsedConfig };
+          // Settings saved by older versions are upgraded; fields they lack pick up their default or policy value
+          const { settings } = migrateConfig(JSON.parse(savedConfig), DEFAULT_CONFIG);
+          this.userConfig = this.keepValidSettings(settings, this.getConfigBase(), config => this.validateConfig(config));
         }
         resolve();
       } catch (error) {
@@ -171,9 +339,9 @@ export class ConfigurationManager {
       try {
         const savedPreferences = Office.context.roamingSettings.get('userPreferences');
         if (savedPreferences) {
-          const parsedPreferences = JSON.parse(savedPreferences);
-          this.validatePreferences(parsedPreferences);
-          this.preferences = { ...DEFAULT_PREFERENCES, ...parsedPreferences };
+          const { settings } = migratePreferences(JSON.parse(savedPreferences), DEFAULT_PREFERENCES);
+          this.userPreferences = this.keepValidSettings(settings, this.getPreferencesBase(),
+            preferences => this.validatePreferences(preferences));
         }
         resolve();
       } catch (error) {
@@ -193,7 +361,8 @@ export class ConfigurationManager {
       }
 
       try {
-        Office.context.roamingSettings.set('validationConfig', JSON.stringify(this.config));
+        Office.context.roamingSettings.set('validationConfig',
+          JSON.stringify({ schemaVersion: CONFIG_SCHEMA_VERSION, ...this.userConfig }));
         Office.context.roamingSettings.saveAsync((result) => {
           if (result.status === Office.AsyncResultStatus.Succeeded) {
             resolve();
@@ -218,7 +387,8 @@ export class ConfigurationManager {
       }
 
       try {
-        Office.context.roamingSettings.set('userPreferences', JSON.stringify(this.preferences));
+        Office.context.roamingSettings.set('userPreferences',
+          JSON.stringify({ schemaVersion: PREFERENCES_SCHEMA_VERSION, ...this.userPreferences }));
         Office.context.roamingSettings.saveAsync((result) => {
           if (result.status === Office.AsyncResultStatus.Succeeded) {
             resolve();
@@ -254,16 +424,98 @@ export class ConfigurationManager {
       throw new Error('excludeGenericEmails must be a boolean');
     }
 
-    if (!['en', 'de', 'auto'].includes(config.language)) {
-      throw new Error('language must be one of: en, de, auto');
+    const languages: string[] = [...GREETING_LANGUAGES, 'auto'];
+    if (!languages.includes(config.language)) {
+      throw new Error(`language must be one of: ${languages.join(', ')}`);
+    }
+
+    if (!Array.isArray(config.customNicknames) ||
+        !config.customNicknames.every(group =>
+          Array.isArray(group) && group.every(name => typeof name === 'string' && name.trim().length > 0))) {
+      throw new Error('customNicknames must be an array of name groups');
     }
 
-    // Validate regex patterns
-    config.enabledGreetingPatterns.forEach((pattern, index) => {
+    if (typeof config.checkSignOffName !== 'boolean') {
+      throw new Error('checkSignOffName must be a boolean');
+    }
+
+    if (typeof config.checkRecipientCoverage !== 'boolean') {
+      throw new Error('checkRecipientCoverage must be a boolean');
+    }
+
+    const weights = config.recipientFieldWeights;
+    if (!weights || typeof weights !== 'object' ||
+        !(['to', 'cc', 'bcc'] as RecipientField[]).every(field =>
+          typeof weights[field] === 'number' && weights[field] >= 0 && weights[field] <= 1)) {
+      throw new Error('recipientFieldWeights must have a number between 0 and 1 for to, cc and bcc');
+    }
+
+    if (typeof config.matchBccRecipients !== 'boolean') {
+      throw new Error('matchBccRecipients must be a boolean');
+    }
+
+    if (typeof config.checkSalutations !== 'boolean') {
+      throw new Error('checkSalutations must be a boolean');
+    }
+
+    if (typeof config.checkRegister !== 'boolean') {
+      throw new Error('checkRegister must be a boolean');
+    }
+
+    if (typeof config.checkGroupGreetings !== 'boolean') {
+      throw new Error('checkGroupGreetings must be a boolean');
+    }
+
+    if (!Array.isArray(config.genericMailboxRules)) {
+      throw new Error('genericMailboxRules must be an array');
+    }
+    config.genericMailboxRules.forEach((rule, index) => {
       try {
-        new RegExp(pattern);
+        compileGenericMailboxRule(rule);
       } catch (error) {
-        throw new Error(`Invalid regex pattern at index ${index}: ${pattern}`);
+        throw new Error(`Generic mailbox rule at index ${index} is invalid: ${(error as Error).message}`);
+      }
+    });
+
+    const isStringArray = (value: unknown): value is string[] =>
+      Array.isArray(value) && value.every(item => typeof item === 'string' && item.trim().length > 0);
+    if (!Array.isArray(config.genericMailboxDomainOverrides) ||
+        !config.genericMailboxDomainOverrides.every(override =>
+          override && typeof override.domain === 'string' && override.domain.trim().length > 0 &&
+          isStringArray(override.genericPrefixes) && isStringArray(override.personalPrefixes))) {
+      throw new Error('genericMailboxDomainOverrides must be an array of domains with generic and personal prefixes');
+    }
+
+    if (!isStringArray(config.personalMailboxes) || !config.personalMailboxes.every(email => email.indexOf('@') > 0)) {
+      throw new Error('personalMailboxes must be an array of email addresses');
+    }
+
+    // Validate greeting patterns against the parser's capture-group contract
+    config.enabledGreetingPatterns.forEach((setting, index) => {
+      const definition = toGreetingPatternDefinition(setting);
+      if (!definition || typeof definition.pattern !== 'string') {
+        throw new Error(`Greeting pattern at index ${index} must be a string or have a pattern`);
+      }
+
+      try {
+        new RegExp(definition.pattern);
+      } catch (error) {
+        throw new Error(`Invalid regex pattern at index ${index}: ${definition.pattern}`);
+      }
+
+      try {
+        compileGreetingPattern(definition);
+      } catch (error) {
+        throw new Error(`Greeting pattern at index ${index} must contain a capture group for the name: ${definition.pattern}`);
+      }
+
+      if (definition.language !== undefined && !([...GREETING_LANGUAGES, 'any'] as string[]).includes(definition.language)) {
+        throw new Error(`Greeting pattern at index ${index} has an invalid language: ${definition.language}`);
+      }
+
+      if (definition.confidence !== undefined &&
+          (typeof definition.confidence !== 'number' || definition.confidence < 0 || definition.confidence > 1)) {
+        throw new Error(`Greeting pattern at index ${index} must have a confidence between 0 and 1`);
       }
     });
   }
@@ -0,0 +1,452 @@
+/**
+ * Local contacts directory
+ * Imports vCard (.vcf) and CSV address book exports and keeps what they say about people's
+ * names, so recipients that arrive without a display name can still be matched by name
+ */
+
+import { Contact, ContactLookup } from './interfaces';
+import { parseDisplayName } from './display-name-parser';
+import { loadImport, saveImport } from './roaming-storage';
+
+/**
+ * Settings key the directory is stored under
+ */
+const CONTACTS_STORAGE_KEY = 'contactsDirectory';
+
+/**
+ * Name fields read from a vCard or CSV row before they are turned into a contact
+ */
+interface ContactFields {
+  emails: string[];
+  firstName?: string;
+  middleNames: string[];
+  lastName?: string;
+  /** Full name as the address book shows it (vCard FN, CSV "Display Name") */
+  formattedName?: string;
+  preferredName?: string;
+  nicknames: string[];
+}
+
+type CsvNameField = 'firstName' | 'middleNames' | 'lastName' | 'formattedName' | 'preferredName' | 'nicknames';
+
+/**
+ * CSV column headers, lowercase without spaces and punctuation, of Outlook (English and German),
+ * Google and Thunderbird exports
+ */
+const CSV_COLUMNS: Record<string, CsvNameField> = {
+  firstname: 'firstName',
+  givenname: 'firstName',
+  vorname: 'firstName',
+  middlename: 'middleNames',
+  additionalname: 'middleNames',
+  weiterevornamen: 'middleNames',
+  lastname: 'lastName',
+  familyname: 'lastName',
+  surname: 'lastName',
+  nachname: 'lastName',
+  displayname: 'formattedName',
+  fullname: 'formattedName',
+  name: 'formattedName',
+  preferredname: 'preferredName',
+  preferredfirstname: 'preferredName',
+  nickname: 'nicknames',
+  spitzname: 'nicknames'
+};
+
+/**
+ * Address columns: "E-mail Address", "E-mail 2 Address", "E-mail 1 - Value", "Primary Email",
+ * "E-Mail-Adresse" (but not "E-mail Type" or "E-mail Display Name")
+ */
+const CSV_EMAIL_COLUMN = /^(primary|secondary|work|home|other)?e?mail\d*(address|adresse|value)?\d*$/;
+
+/**
+ * Reads the contacts of a vCard (.vcf) or CSV export
+ * @param text File content
+ * @param fileName File name, if known; a .vcf extension or a BEGIN:VCARD line selects vCard
+ * @returns Contacts that have at least one address
+ */
+export function parseContactsFile(text: string, fileName?: string): Contact[] {
+  const isVCard = /\.(vcf|vcard)$/i.test(fileName || '') || /^\s*BEGIN:VCARD/im.test(text);
+  return isVCard ? parseVCard(text) : parseContactsCsv(text);
+}
+
+/**
+ * Reads the contacts of a vCard file (versions 2.1 to 4.0): N, FN, NICKNAME and EMAIL
+ * @param text File content, one or more cards
+ * @returns Contacts that have at least one address
+ */
+export function parseVCard(text: string): Contact[] {
+  const contacts: Contact[] = [];
+  let fields: ContactFields | undefined;
+
+  for (const line of unfoldVCardLines(text)) {
+    const colon = line.indexOf(':');
+    if (colon === -1) {
+      continue;
+    }
+
+    const [head, ...parameters] = line.substring(0, colon).split(';');
+    // "item1.EMAIL" → EMAIL
+    const property = head.substring(head.lastIndexOf('.') + 1).toUpperCase();
+    const value = decodeVCardValue(line.substring(colon + 1), parameters);
+
+    if (property === 'BEGIN' && value.toUpperCase() === 'VCARD') {
+      fields = { emails: [], middleNames: [], nicknames: [] };
+    } else if (property === 'END' && fields) {
+      addContact(contacts, fields);
+      fields = undefined;
+    } else if (fields) {
+      readVCardProperty(fields, property, value);
+    }
+  }
+
+  return contacts;
+}
+
+/**
+ * Reads the contacts of a CSV address book export; the delimiter (comma, semicolon or tab) is
+ * taken from the header row
+ * @param text File content with a header row
+ * @returns Contacts that have at least one address
+ */
+export function parseContactsCsv(text: string): Contact[] {
+  const content = text.replace(/^\uFEFF/, '');
+  const headerLine = content.split(/\r?\n/, 1)[0] || '';
+  const delimiter = [',', ';', '\t'].reduce((best, candidate) =>
+    headerLine.split(candidate).length > headerLine.split(best).length ? candidate : best);
+
+  const [header, ...rows] = parseCsvRows(content, delimiter);
+  if (!header) {
+    return [];
+  }
+
+  const columns = header.map(column => column.toLowerCase().replace(/[^a-z0-9]/g, ''));
+  const contacts: Contact[] = [];
+
+  for (const row of rows) {
+    const fields: ContactFields = { emails: [], middleNames: [], nicknames: [] };
+    row.forEach((cell, index) => {
+      const value = cell.trim();
+      const column = columns[index] || '';
+      if (!value) {
+        return;
+      }
+
+      if (CSV_EMAIL_COLUMN.test(column)) {
+        // Google joins several addresses of one type with " ::: ", which is dropped as no address
+        fields.emails.push(...value.split(/[\s,;]+/));
+        return;
+      }
+
+      const field = CSV_COLUMNS[column];
+      if (field === 'middleNames') {
+        fields.middleNames.push(...value.split(/\s+/));
+      } else if (field === 'nicknames') {
+        fields.nicknames.push(...value.split(/\s*[,;]\s*/));
+      } else if (field) {
+        fields[field] = value;
+      }
+    });
+    addContact(contacts, fields);
+  }
+
+  return contacts;
+}
+
+/**
+ * Contacts imported on this machine or roaming with the mailbox, looked up by address
+ */
+export class ContactsDirectory implements ContactLookup {
+  private static instance: ContactsDirectory;
+  private contacts: Contact[] = [];
+  private byEmail = new Map<string, Contact>();
+  private isInitialized: boolean = false;
+
+  private constructor() {}
+
+  /**
+   * Get singleton instance of the contacts directory
+   */
+  public static getInstance(): ContactsDirectory {
+    if (!ContactsDirectory.instance) {
+      ContactsDirectory.instance = new ContactsDirectory();
+    }
+    return ContactsDirectory.instance;
+  }
+
+  /**
+   * Load the stored contacts; starts empty when storage is unavailable
+   */
+  public async initialize(): Promise<void> {
+    if (this.isInitialized) {
+      return;
+    }
+
+    try {
+      this.setContacts(this.loadContacts());
+    } catch (error) {
+      console.warn('Failed to load contacts directory:', error);
+      this.setContacts([]);
+    }
+    this.isInitialized = true;
+  }
+
+  /**
+   * The contact with this address, if any
+   */
+  public getContact(email: string): Contact | undefined {
+    return this.byEmail.get((email || '').trim().toLowerCase());
+  }
+
+  /**
+   * All stored contacts
+   */
+  public getContacts(): Contact[] {
+    return this.contacts.map(contact => ({ ...contact }));
+  }
+
+  /**
+   * Import a vCard or CSV export; an imported address replaces what was known about it
+   * @param text File content
+   * @param fileName File name, if known
+   * @returns Number of contacts imported
+   */
+  public async importContacts(text: string, fileName?: string): Promise<number> {
+    const imported = parseContactsFile(text, fileName);
+    if (imported.length === 0) {
+      return 0;
+    }
+
+    const importedEmails = new Set<string>();
+    imported.forEach(contact => contact.emails.forEach(email => importedEmails.add(email)));
+    const kept = this.contacts
+      .map(contact => ({ ...contact, emails: contact.emails.filter(email => !importedEmails.has(email)) }))
+      .filter(contact => contact.emails.length > 0);
+
+    this.setContacts([...kept, ...imported]);
+    await this.saveContacts();
+    return imported.length;
+  }
+
+  /**
+   * Remove the contact with this address
+   */
+  public async removeContact(email: string): Promise<void> {
+    const contact = this.getContact(email);
+    if (!contact) {
+      return;
+    }
+
+    this.setContacts(this.contacts.filter(other => other !== contact));
+    await this.saveContacts();
+  }
+
+  /**
+   * Remove all contacts
+   */
+  public async clear(): Promise<void> {
+    this.setContacts([]);
+    await this.saveContacts();
+  }
+
+  /**
+   * Replace the contacts and rebuild the address index
+   */
+  private setContacts(contacts: Contact[]): void {
+    this.contacts = contacts;
+    this.byEmail = new Map<string, Contact>();
+    for (const contact of contacts) {
+      contact.emails.forEach(email => this.byEmail.set(email, contact));
+    }
+  }
+
+  /**
+   * Read the contacts from roaming settings, or else from local storage
+   */
+  private loadContacts(): Contact[] {
+    const saved = loadImport(CONTACTS_STORAGE_KEY);
+    if (!saved) {
+      return [];
+    }
+
+    const parsed = JSON.parse(saved);
+    if (!Array.isArray(parsed)) {
+      throw new Error('Stored contacts must be an array');
+    }
+    return parsed.filter((contact: Contact) => contact && Array.isArray(contact.emails));
+  }
+
+  /**
+   * Save the contacts to roaming settings while they fit, otherwise to local storage
+   */
+  private async saveContacts(): Promise<void> {
+    await saveImport(CONTACTS_STORAGE_KEY, JSON.stringify(this.contacts), 'contacts');
+  }
+}
+
+/**
+ * Reads one vCard property into the fields of the current card
+ */
+function readVCardProperty(fields: ContactFields, property: string, value: string): void {
+  switch (property) {
+    case 'EMAIL':
+      fields.emails.push(value);
+      break;
+    case 'FN':
+      fields.formattedName = unescapeVCardText(value);
+      break;
+    case 'N': {
+      // Family;Given;Additional;Prefixes;Suffixes
+      const [family, given, additional] = splitVCardText(value, ';').map(part => splitVCardText(part, ','));
+      fields.lastName = (family || []).join(' ') || undefined;
+      fields.firstName = (given || [])[0];
+      fields.middleNames = [...(given || []).slice(1), ...(additional || [])];
+      break;
+    }
+    case 'NICKNAME':
+      fields.nicknames.push(...splitVCardText(value, ','));
+      break;
+  }
+}
+
+/**
+ * Turns the fields of a card or row into a contact; the full name fills in missing names,
+ * and a first name there that differs from the given name is the name the person goes by
+ * ("Bob Smith" for N:Smith;Robert)
+ */
+function addContact(contacts: Contact[], fields: ContactFields): void {
+  const emails = fields.emails
+    .map(email => email.trim().replace(/^mailto:/i, '').toLowerCase())
+    .filter((email, index, all) => email.indexOf('@') > 0 && all.indexOf(email) === index);
+  if (emails.length === 0) {
+    return;
+  }
+
+  const formatted = parseDisplayName(fields.formattedName);
+  const firstName = fields.firstName || formatted.firstName;
+  const lastName = fields.lastName || formatted.lastName;
+  const middleNames = fields.firstName ? fields.middleNames : formatted.middleNames;
+
+  let preferredName = fields.preferredName;
+  if (!preferredName && formatted.firstName && firstName && lastName &&
+      [firstName.toLowerCase(), lastName.toLowerCase()].indexOf(formatted.firstName.toLowerCase()) === -1) {
+    preferredName = formatted.firstName;
+  }
+
+  const contact: Contact = { emails };
+  if (firstName) contact.firstName = firstName;
+  if (middleNames.length > 0) contact.middleNames = middleNames;
+  if (lastName) contact.lastName = lastName;
+  if (preferredName) contact.preferredName = preferredName;
+  const nicknames = fields.nicknames.map(nickname => nickname.trim()).filter(nickname => nickname.length > 0);
+  if (nicknames.length > 0) contact.nicknames = nicknames;
+
+  contacts.push(contact);
+}
+
+/**
+ * Lines of a vCard file with folded continuation lines joined, including quoted-printable
+ * soft line breaks of vCard 2.1
+ */
+function unfoldVCardLines(text: string): string[] {
+  const lines: string[] = [];
+  for (const line of text.replace(/^\uFEFF/, '').split(/\r?\n/)) {
+    const previous = lines.length - 1;
+    if (previous >= 0 && /^[ \t]/.test(line)) {
+      lines[previous] += line.substring(1);
+    } else if (previous >= 0 && /QUOTED-PRINTABLE/i.test(lines[previous]) && /=$/.test(lines[previous])) {
+      lines[previous] = lines[previous].slice(0, -1) + line;
+    } else {
+      lines.push(line);
+    }
+  }
+  return lines.filter(line => line.trim().length > 0);
+}
+
+/**
+ * Decodes a quoted-printable value (vCard 2.1 "ENCODING=QUOTED-PRINTABLE;CHARSET=UTF-8")
+ */
+function decodeVCardValue(value: string, parameters: string[]): string {
+  if (!parameters.some(parameter => /QUOTED-PRINTABLE/i.test(parameter))) {
+    return value.trim();
+  }
+
+  try {
+    return decodeURIComponent(value.replace(/%/g, '%25').replace(/=([0-9A-F]{2})/gi, '%$1')).trim();
+  } catch {
+    return value.trim();
+  }
+}
+
+/**
+ * Splits a vCard text value at unescaped separators and unescapes the parts
+ */
+function splitVCardText(value: string, separator: string): string[] {
+  const parts: string[] = [];
+  let current = '';
+  for (let index = 0; index < value.length; index++) {
+    const char = value[index];
+    if (char === '\\' && index + 1 < value.length) {
+      current += char + value[++index];
+    } else if (char === separator) {
+      parts.push(current);
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  parts.push(current);
+  return parts.map(part => unescapeVCardText(part).trim()).filter(part => part.length > 0);
+}
+
+/**
+ * Unescapes "\," "\;" "\\" and "\n" in a vCard text value
+ */
+function unescapeVCardText(value: string): string {
+  return value.replace(/\\([nN]|.)/g, (_match: string, char: string) => (char === 'n' || char === 'N' ? '\n' : char)).trim();
+}
+
+/**
+ * Splits CSV text into rows of cells, honoring quoted cells with delimiters, quotes and line breaks
+ */
+function parseCsvRows(text: string, delimiter: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let quoted = false;
+
+  for (let index = 0; index < text.length; index++) {
+    const char = text[index];
+    if (quoted) {
+      if (char === '"' && text[index + 1] === '"') {
+        cell += '"';
+        index++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[index + 1] === '\n') {
+        index++;
+      }
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+
+  if (cell || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+  return rows.filter(cells => cells.some(value => value.trim().length > 0));
+}
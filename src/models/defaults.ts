@@ -2,25 +2,104 @@
  * Default configurations and constants for the Outlook Name Validator
  */
 
-import { ValidationConfig, UserPreferences, ValidationState } from './interfaces';
+import { GenericMailboxRule, ValidationConfig, UserPreferences, ValidationState } from './interfaces';
+
+/**
+ * Common generic email prefixes (the part before the @) of role and system mailboxes
+ */
+export const GENERIC_EMAIL_PREFIXES = [
+  'info',
+  'support',
+  'help',
+  'contact',
+  'admin',
+  'noreply',
+  'no-reply',
+  'donotreply',
+  'do-not-reply',
+  'sales',
+  'marketing',
+  'service',
+  'team',
+  'office',
+  'hello',
+  'hi',
+  'mail',
+  'webmaster',
+  'postmaster',
+  'abuse',
+  'security',
+  'privacy',
+  'legal',
+  'billing',
+  'accounts',
+  'hr',
+  'jobs',
+  'careers',
+  'press',
+  'media',
+  'news',
+  'newsletter',
+  'notifications',
+  'alerts',
+  'updates',
+  'feedback',
+  'suggestions',
+  'complaints',
+  'orders',
+  'shipping',
+  'returns',
+  'invoices',
+  'payments',
+  'api',
+  'dev',
+  'developer',
+  'tech',
+  'technical',
+  'it',
+  'system',
+  'root',
+  'www',
+  'ftp',
+  'smtp',
+  'pop',
+  'imap'
+];
+
+/**
+ * Built-in generic mailbox rules: one prefix rule per GENERIC_EMAIL_PREFIXES entry
+ */
+export const DEFAULT_GENERIC_MAILBOX_RULES: GenericMailboxRule[] =
+  GENERIC_EMAIL_PREFIXES.map(prefix => ({ kind: 'prefix' as const, pattern: prefix }));
 
 /**
  * Default validation configuration
  */
 export const DEFAULT_VALIDATION_CONFIG: ValidationConfig = {
   enabledGreetingPatterns: [
-    'hi\\s+([a-zA-Z]+)',
-    'hello\\s+([a-zA-Z]+)',
-    'dear\\s+([a-zA-Z]+)',
-    'hey\\s+([a-zA-Z]+)',
-    'good\\s+morning\\s+([a-zA-Z]+)',
-    'good\\s+afternoon\\s+([a-zA-Z]+)',
-    'good\\s+evening\\s+([a-zA-Z]+)'
+    '\\bhi\\s+([a-zA-Z]+)',
+    '\\bhello\\s+([a-zA-Z]+)',
+    '\\bdear\\s+([a-zA-Z]+)',
+    '\\bhey\\s+([a-zA-Z]+)',
+    '\\bgood\\s+morning\\s+([a-zA-Z]+)',
+    '\\bgood\\s+afternoon\\s+([a-zA-Z]+)',
+    '\\bgood\\s+evening\\s+([a-zA-Z]+)'
   ],
   minimumConfidenceThreshold: 0.7,
   enableFuzzyMatching: true,
   excludeGenericEmails: true,
-  language: 'auto'
+  language: 'auto',
+  customNicknames: [],
+  checkSignOffName: true,
+  checkRecipientCoverage: true,
+  recipientFieldWeights: { to: 1, cc: 0.9, bcc: 0.9 },
+  matchBccRecipients: false,
+  checkSalutations: true,
+  checkRegister: true,
+  checkGroupGreetings: true,
+  genericMailboxRules: DEFAULT_GENERIC_MAILBOX_RULES,
+  genericMailboxDomainOverrides: [],
+  personalMailboxes: []
 };
 
 /**
@@ -41,26 +120,6 @@ export const INITIAL_VALIDATION_STATE: ValidationState = {
   isEnabled: true
 };
 
-/**
- * Common generic email prefixes to exclude from validation
- */
-export const GENERIC_EMAIL_PREFIXES = [
-  'info',
-  'support',
-  'help',
-  'contact',
-  'admin',
-  'noreply',
-  'no-reply',
-  'donotreply',
-  'do-not-reply',
-  'sales',
-  'marketing',
-  'hr',
-  'jobs',
-  'careers'
-];
-
 /**
  * Common email domain separators for name extraction
  */
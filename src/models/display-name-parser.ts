@@ -0,0 +1,173 @@
+/**
+ * Display name grammar
+ * Reads directory-style display names ("Müller, Hans (IT-SEC)", "Smith, John - Contractor",
+ * "[EXT] Dr. Anna van der Berg, MBA") into given names and surname, setting aside titles,
+ * suffixes, departments and external tags
+ */
+
+import { addressesBySurname, findTitles } from './salutation-checker';
+
+/**
+ * A display name split into its parts; names are returned as written
+ */
+export interface ParsedDisplayName {
+  /** First given name; absent when the display name has a single name ("Frau Weber") */
+  firstName?: string;
+  /** Further given names ("Anna Maria Schmidt" → Maria) */
+  middleNames: string[];
+  /** Surname, with its particles ("van der Berg") */
+  lastName?: string;
+  /** Every name word in written order, without titles, suffixes and annotations */
+  nameParts: string[];
+  /** Leading titles ("Dr.", "Frau") */
+  titles: string[];
+  /** Generational and degree suffixes ("Jr.", "III", "MBA") */
+  suffixes: string[];
+  /** Departments, roles and tags set apart by brackets or a dash ("IT-SEC", "Contractor", "EXT") */
+  annotations: string[];
+}
+
+/**
+ * Generational and degree suffixes, lowercase and without dots
+ */
+const SUFFIXES = [
+  'jr', 'sr', 'jun', 'sen', 'ii', 'iii', 'iv',
+  'phd', 'md', 'mba', 'msc', 'bsc', 'llm', 'esq', 'cpa', 'pmp'
+];
+
+/**
+ * Particles that start a surname ("Ludwig van Beethoven", "Maria de la Cruz")
+ */
+const SURNAME_PARTICLES = [
+  'van', 'von', 'der', 'den', 'de', 'del', 'della', 'di', 'da', 'du', 'la', 'le', 'ten', 'ter', 'zu', 'dos', 'das'
+];
+
+/**
+ * Text in brackets, parentheses or braces: "[EXT]", "(IT-SEC)", "{Sales}"
+ */
+const BRACKETED = /\[([^\]]*)\]|\(([^)]*)\)|\{([^}]*)\}/g;
+
+/**
+ * A spaced dash, slash or bar that sets a role or company apart ("Smith, John - Contractor")
+ */
+const QUALIFIER_SEPARATOR = /\s+[-–—|/]\s+/;
+
+/**
+ * Parses a display name into given names and surname
+ * @param displayName Display name as shown by the mail client
+ * @returns The parsed name; without first and last name when the display name is empty,
+ * an address, or a single word without a title
+ */
+export function parseDisplayName(displayName?: string): ParsedDisplayName {
+  const parsed: ParsedDisplayName = { middleNames: [], nameParts: [], titles: [], suffixes: [], annotations: [] };
+  if (!displayName || typeof displayName !== 'string' || displayName.indexOf('@') !== -1) {
+    return parsed;
+  }
+
+  let text = displayName.trim().replace(/^["']+|["']+$/g, '');
+  text = text.replace(BRACKETED, (_match: string, square?: string, round?: string, curly?: string) => {
+    addAnnotation(parsed, square || round || curly || '');
+    return ' ';
+  });
+
+  const qualifiers = text.split(QUALIFIER_SEPARATOR);
+  qualifiers.slice(1).forEach(qualifier => addAnnotation(parsed, qualifier));
+
+  // "Smith, John, Jr." → surname and given-name segments; suffix-only segments are set aside
+  const segments = qualifiers[0]
+    .split(',')
+    .map(segment => segment.split(/\s+/).filter(word => word.length > 0))
+    .filter(words => words.length > 0)
+    .filter(words => {
+      if (words.every(isSuffix)) {
+        parsed.suffixes.push(...words);
+        return false;
+      }
+      return true;
+    })
+    .map(words => stripTitlesAndSuffixes(words, parsed));
+
+  if (segments.length === 0) {
+    return parsed;
+  }
+
+  let givenNames: string[];
+  let surname: string[];
+  if (segments.length > 1) {
+    // "Last, First": anything after the given names is a role ("Smith, John, Sales")
+    surname = segments[0];
+    givenNames = segments[1];
+    segments.slice(2).forEach(words => addAnnotation(parsed, words.join(' ')));
+    parsed.nameParts = [...surname, ...givenNames];
+  } else {
+    const words = segments[0];
+    const surnameStart = findSurnameStart(words);
+    givenNames = words.slice(0, surnameStart);
+    surname = words.slice(surnameStart);
+    parsed.nameParts = words;
+  }
+
+  if (givenNames.length > 0 && surname.length > 0) {
+    parsed.firstName = givenNames[0];
+    parsed.middleNames = givenNames.slice(1);
+    parsed.lastName = surname.join(' ');
+  } else if (addressesBySurname(parsed.titles)) {
+    // "Frau Weber": a lone name after a title is the surname
+    parsed.lastName = surname.join(' ');
+  }
+
+  return parsed;
+}
+
+/**
+ * Index where the surname starts in "First [Middle] Last": at the first particle after the
+ * first name, otherwise at the last word
+ */
+function findSurnameStart(words: string[]): number {
+  for (let index = 1; index < words.length - 1; index++) {
+    if (SURNAME_PARTICLES.indexOf(words[index].toLowerCase()) !== -1) {
+      return index;
+    }
+  }
+  return words.length - 1;
+}
+
+/**
+ * Removes leading titles and trailing suffixes from the words of a name segment, noting them
+ */
+function stripTitlesAndSuffixes(words: string[], parsed: ParsedDisplayName): string[] {
+  let start = 0;
+  while (start < words.length - 1 && findTitles(words[start]).length > 0) {
+    // "Don Smith" is more likely a first name than Spanish "Don"
+    if (start === words.length - 2 && !addressesBySurname([words[start]])) {
+      break;
+    }
+    parsed.titles.push(words[start]);
+    start++;
+  }
+
+  let end = words.length;
+  while (end > start + 1 && isSuffix(words[end - 1])) {
+    end--;
+  }
+  parsed.suffixes.push(...words.slice(end));
+
+  return words.slice(start, end);
+}
+
+/**
+ * Whether a word is a generational or degree suffix ("Jr.", "III", "Ph.D.")
+ */
+function isSuffix(word: string): boolean {
+  return SUFFIXES.indexOf(word.toLowerCase().replace(/\./g, '')) !== -1;
+}
+
+/**
+ * Notes a department, role or tag, ignoring empty ones
+ */
+function addAnnotation(parsed: ParsedDisplayName, annotation: string): void {
+  const trimmed = annotation.trim();
+  if (trimmed) {
+    parsed.annotations.push(trimmed);
+  }
+}
@@ -3,12 +3,33 @@
  * Supports multiple languages including English and German
  */
 
-import { GreetingMatch, ParsedContent } from './interfaces';
+import {
+  GreetingAudience,
+  GreetingLanguage,
+  GreetingMatch,
+  GreetingPatternDefinition,
+  GreetingPatternLanguage,
+  GreetingPatternSetting,
+  NameRole,
+  ParsedContent,
+  RegisterUsage,
+  Salutation
+} from './interfaces';
+import { findQuotedContentBoundary, getAuthoredContent } from './quoted-content-detector';
+import { findSignOff, getContentBeforeSignOff } from './sign-off-detector';
+import { NAME_LETTERS, removeNonNameCharacters } from './name-normalizer';
+import { addressesBySurname, findTitles, getGreetingSalutation } from './salutation-checker';
+import { classifyGreetingRegister, findRegisterPronouns } from './register-detector';
 
 /**
  * Supported languages for greeting detection
  */
-export type SupportedLanguage = 'en' | 'de' | 'auto';
+export type SupportedLanguage = GreetingLanguage | 'auto';
+
+/**
+ * Languages with built-in greeting patterns, in auto-detection tie-break order
+ */
+export const GREETING_LANGUAGES: GreetingLanguage[] = ['en', 'de', 'fr', 'es', 'it', 'nl'];
 
 /**
  * Language-specific greeting patterns
@@ -17,6 +38,102 @@ interface LanguagePatterns {
   greetingPatterns: RegExp[];
   titlePatterns: RegExp;
   commonWords: Set<string>;
+  /** Words that address a group rather than a person; a part of the greeting containing one names the group ("Marketing folks") */
+  groupWords: Set<string>;
+  /** Words typical for the language; auto-detection picks the language with the most hits */
+  indicators: RegExp[];
+}
+
+/**
+ * What a greeting captures as the name: name letters, and the spaces, commas, apostrophes and
+ * hyphens between names ("Anna-Lena, Peter and O'Brien")
+ */
+const NAME_CHARS = `[${NAME_LETTERS}\\s,'-]`;
+
+/**
+ * Where a captured name ends by default: punctuation, the end of the text or of the line
+ */
+const NAME_END = /(?=\s*[,.!?;:]|\s*$|\s*\n)/;
+
+/**
+ * A built-in greeting pattern: the greeting words, then the name up to where it ends
+ * @param greeting Greeting words and titles before the name
+ * @param end Lookahead for the end of the name
+ */
+function greetingPattern(greeting: RegExp, end: RegExp = NAME_END): RegExp {
+  return new RegExp(`${greeting.source}(${NAME_CHARS}+?)${end.source}`, 'gi');
+}
+
+/**
+ * Words joining several names in one greeting ("Anna and Peter", "Hans und Maria", "Marie et Paul")
+ */
+const NAME_CONJUNCTION = /\s+(?:and|und|et|y|e|en)\s+/;
+
+/**
+ * One person a greeting addresses, with the titles or gendered form used for them
+ */
+interface AddressedPerson {
+  names: string[];
+  salutation?: Salutation;
+}
+
+/**
+ * Whom the names part of a greeting addresses: the people named in it and the groups, as written
+ */
+interface AddressedAudience {
+  people: AddressedPerson[];
+  groups: string[];
+}
+
+/**
+ * A user-defined greeting pattern compiled for matching
+ */
+export interface CompiledGreetingPattern {
+  regex: RegExp;
+  language: GreetingPatternLanguage;
+  confidence?: number;
+}
+
+/**
+ * Options for EmailContentParserImpl
+ */
+export interface EmailContentParserOptions {
+  /** User-defined greeting patterns merged into the built-in language patterns */
+  customPatterns?: GreetingPatternSetting[];
+}
+
+/**
+ * Converts a configured greeting pattern into its full definition form
+ */
+export function toGreetingPatternDefinition(setting: GreetingPatternSetting): GreetingPatternDefinition {
+  return typeof setting === 'string' ? { pattern: setting } : setting;
+}
+
+/**
+ * Compiles a configured greeting pattern, enforcing the capture-group contract
+ * @throws Error if the regex is invalid or has no group to take the name from
+ */
+export function compileGreetingPattern(setting: GreetingPatternSetting): CompiledGreetingPattern {
+  const definition = toGreetingPatternDefinition(setting);
+
+  let regex: RegExp;
+  try {
+    regex = new RegExp(definition.pattern, 'gi');
+  } catch (error) {
+    throw new Error(`Invalid regex: ${(error as Error).message}`);
+  }
+
+  // An alternation with the empty string always matches, exposing the group count
+  const groupCount = new RegExp(`${definition.pattern}|`).exec('')!.length - 1;
+  if (groupCount === 0) {
+    throw new Error('Pattern must contain a capture group for the name');
+  }
+
+  return {
+    regex,
+    language: definition.language || 'any',
+    confidence: definition.confidence
+  };
 }
 
 /**
@@ -33,10 +150,27 @@ export interface EmailContentParser {
 export class EmailContentParserImpl implements EmailContentParser {
   private readonly language: SupportedLanguage;
   private readonly languagePatterns: Map<string, LanguagePatterns>;
+  private readonly customPatterns: CompiledGreetingPattern[];
 
-  constructor(language: SupportedLanguage = 'auto') {
+  constructor(language: SupportedLanguage = 'auto', options: EmailContentParserOptions = {}) {
     this.language = language;
     this.languagePatterns = this.initializeLanguagePatterns();
+    this.customPatterns = this.compileCustomPatterns(options.customPatterns || []);
+  }
+
+  /**
+   * Compiles user-defined patterns, skipping any that break the capture-group contract
+   */
+  private compileCustomPatterns(settings: GreetingPatternSetting[]): CompiledGreetingPattern[] {
+    const compiled: CompiledGreetingPattern[] = [];
+    for (const setting of settings) {
+      try {
+        compiled.push(compileGreetingPattern(setting));
+      } catch (error) {
+        // Invalid patterns are rejected by ConfigurationManager; ignore any that slip through
+      }
+    }
+    return compiled;
   }
 
   /**
@@ -49,53 +183,159 @@ export class EmailContentParserImpl implements EmailContentParser {
     patterns.set('en', {
       greetingPatterns: [
         // Hi/Hello with names - capture until end punctuation (but not comma followed by name), end of line, or common sentence starters
-        /\b(?:hi|hello|hey)\s+([a-zA-ZäöüßÄÖÜ\s,'-]+?)(?=\s*[.!?;:]|\s*,\s*$|\s*$|\s*\n|\s+(?:how|hope|i|thank|please|let|can|would|will|the|this|that)\s)/gi,
+        greetingPattern(/\b(?:hi|hello|hey)\s+/, /(?=\s*[.!?;:]|\s*,\s*$|\s*$|\s*\n|\s+(?:how|hope|i|thank|please|let|can|would|will|the|this|that)\s)/),
         
         // Dear with name (with optional titles) - separate pattern for titles
-        /\bdear\s+(?:mr\.?|mrs\.?|ms\.?|miss|dr\.?|prof\.?|professor|sir|madam|lord|lady)\s+([a-zA-ZäöüßÄÖÜ\s,'-]+?)(?=\s*[,.!?;:]|\s*$|\s*\n)/gi,
+        greetingPattern(/\bdear\s+(?:mr\.?|mrs\.?|ms\.?|miss|dr\.?|prof\.?|professor|sir|madam|lord|lady)\s+/),
         
         // Dear without title (but avoid matching the title patterns)
-        /\bdear\s+(?!(?:mr\.?|mrs\.?|ms\.?|miss|dr\.?|prof\.?|professor|sir|madam|lord|lady)\s)([a-zA-ZäöüßÄÖÜ\s,'-]+?)(?=\s*[,.!?;:]|\s*$|\s*\n)/gi,
+        greetingPattern(/\bdear\s+(?!(?:mr\.?|mrs\.?|ms\.?|miss|dr\.?|prof\.?|professor|sir|madam|lord|lady)\s)/),
         
         // Good morning/afternoon/evening with name
-        /\bgood\s+(?:morning|afternoon|evening)\s+([a-zA-ZäöüßÄÖÜ\s,'-]+?)(?=\s*[,.!?;:]|\s*$|\s*\n)/gi,
+        greetingPattern(/\bgood\s+(?:morning|afternoon|evening)\s+/),
         
         // Greetings with name
-        /\bgreetings\s+([a-zA-ZäöüßÄÖÜ\s,'-]+?)(?=\s*[,.!?;:]|\s*$|\s*\n)/gi
+        greetingPattern(/\bgreetings\s+/)
       ],
-      titlePatterns: /\b(?:mr\.?|mrs\.?|ms\.?|miss|dr\.?|prof\.?|professor|sir|madam|lord|lady)\s*/gi,
+      titlePatterns: /\b(?:mr|mrs|ms|miss|dr|prof|professor|sir|madam|lord|lady)\b\.?\s*/gi,
       commonWords: new Set([
         'and', 'or', 'the', 'a', 'an', 'to', 'from', 'with', 'by', 'for',
         'all', 'everyone', 'team', 'folks', 'guys', 'there', 'you'
-      ])
+      ]),
+      groupWords: new Set(['all', 'everyone', 'everybody', 'team', 'folks', 'guys', 'y\'all', 'people', 'colleagues']),
+      indicators: [
+        /\b(?:hi|hello|dear|good\s+(?:morning|afternoon|evening)|greetings|thank|please|best\s+regards)\b/gi,
+        /\b(?:and|or|the|a|an|to|from|with|by|for|all|everyone)\b/gi
+      ]
     });
 
     // German patterns
     patterns.set('de', {
       greetingPatterns: [
         // Hallo/Hi with names
-        /\b(?:hallo|hi|hey)\s+([a-zA-ZäöüßÄÖÜ\s,'-]+?)(?=\s*[.!?;:,]|\s*$|\s*\n|\s+(?:wie|ich|danke|bitte|lass|kann|würde|wird|der|die|das|dies)\s)/gi,
+        greetingPattern(/\b(?:hallo|hi|hey)\s+/, /(?=\s*[.!?;:,]|\s*$|\s*\n|\s+(?:wie|ich|danke|bitte|lass|kann|würde|wird|der|die|das|dies)\s)/),
         
         // Liebe/Lieber with names (German equivalent of "Dear")
-        /\b(?:liebe[rs]?)\s+(?:herr|frau|dr\.?|prof\.?|professor)\s+([a-zA-ZäöüßÄÖÜ\s,'-]+?)(?=\s*[,.!?;:]|\s*$|\s*\n)/gi,
+        greetingPattern(/\b(?:liebe[rs]?)\s+(?:(?:herr|frau|dr|prof|professor)\b\.?\s*)+/),
         
         // Liebe/Lieber without title
-        /\b(?:liebe[rs]?)\s+(?!(?:herr|frau|dr\.?|prof\.?|professor)\s)([a-zA-ZäöüßÄÖÜ\s,'-]+?)(?=\s*[,.!?;:]|\s*$|\s*\n)/gi,
+        greetingPattern(/\b(?:liebe[rs]?)\s+(?!(?:herr|frau|dr\.?|prof\.?|professor)\s)/),
         
         // Sehr geehrte/geehrter (formal German greeting)
-        /\bsehr\s+geehrte[rs]?\s+(?:herr|frau|dr\.?|prof\.?|professor)?\s*([a-zA-ZäöüßÄÖÜ\s,'-]+?)(?=\s*[,.!?;:]|\s*$|\s*\n)/gi,
+        greetingPattern(/\bsehr\s+geehrte[rs]?\s+(?:(?:herr|frau|dr|prof|professor)\b\.?\s*)*/),
         
         // Guten Morgen/Tag/Abend with name
-        /\bguten\s+(?:morgen|tag|abend)\s+([a-zA-ZäöüßÄÖÜ\s,'-]+?)(?=\s*[,.!?;:]|\s*$|\s*\n)/gi,
+        greetingPattern(/\bguten\s+(?:morgen|tag|abend)\s+/),
         
         // Moin (Northern German greeting)
-        /\bmoin\s+([a-zA-ZäöüßÄÖÜ\s,'-]+?)(?=\s*[,.!?;:]|\s*$|\s*\n)/gi
+        greetingPattern(/\bmoin\s+/)
       ],
-      titlePatterns: /\b(?:herr|frau|dr\.?|prof\.?|professor)\s*/gi,
+      titlePatterns: /\b(?:herr|frau|dr|prof|professor)\b\.?\s*/gi,
       commonWords: new Set([
         'und', 'oder', 'der', 'die', 'das', 'ein', 'eine', 'zu', 'von', 'mit', 'durch', 'für',
         'alle', 'jeder', 'team', 'leute', 'ihr', 'sie', 'du'
-      ])
+      ]),
+      groupWords: new Set(['alle', 'allerseits', 'zusammen', 'miteinander', 'team', 'leute', 'lieben', 'kollegen', 'kolleginnen']),
+      indicators: [
+        /\b(?:hallo|liebe[rs]?|sehr\s+geehrte[rs]?|guten\s+(?:morgen|tag|abend)|moin|danke|bitte|mit\s+freundlichen\s+grüßen)\b/gi,
+        /\b(?:und|oder|der|die|das|ein|eine|zu|von|mit|durch|für|alle|jeder)\b/gi
+      ]
+    });
+
+    // French patterns
+    patterns.set('fr', {
+      greetingPatterns: [
+        // Bonjour/Salut with names
+        greetingPattern(/\b(?:bonjour|bonsoir|salut|coucou)\s+/, /(?=\s*[.!?;:,]|\s*$|\s*\n|\s+(?:comment|je|merci|pourriez|pouvez|voici|suite)\s)/),
+
+        // Cher/Chère with title
+        greetingPattern(/\bch(?:er|ère|ers|ères)\s+(?:monsieur|madame|mademoiselle|m\.|mme\.?|mlle\.?|dr\.?|docteur|professeur|maître)\s+/),
+
+        // Cher/Chère without title
+        greetingPattern(/\bch(?:er|ère|ers|ères)\s+(?!(?:monsieur|madame|mademoiselle|m\.|mme\.?|mlle\.?|dr\.?|docteur|professeur|maître)\s)/)
+      ],
+      titlePatterns: /\b(?:monsieur|madame|mademoiselle|mme|mlle|docteur|professeur|maître)\b\.?\s*|\b(?:m|dr)\.\s*/gi,
+      commonWords: new Set([
+        'et', 'ou', 'le', 'la', 'les', 'un', 'une', 'à', 'de', 'du', 'des', 'avec', 'pour',
+        'tous', 'toutes', 'tout', 'équipe', 'vous', 'toi', 'collègues', 'monsieur', 'madame'
+      ]),
+      groupWords: new Set(['tous', 'toutes', 'monde', 'équipe', 'collègues']),
+      indicators: [
+        /\b(?:bonjour|bonsoir|salut|coucou|ch(?:er|ère)s?|merci|cordialement|bien\s+à\s+vous|s'il\s+vous\s+plaît)(?![a-zà-ÿ])/gi,
+        /\b(?:et|ou|le|les|des|du|une|avec|pour|vous|nous|est|je|que|pas|dans)\b/gi
+      ]
+    });
+
+    // Spanish patterns
+    patterns.set('es', {
+      greetingPatterns: [
+        // Hola/Buenos días with names
+        greetingPattern(/\b(?:hola|buenos\s+días|buenas\s+(?:tardes|noches))\s+/, /(?=\s*[.!?;:,]|\s*$|\s*\n|\s+(?:cómo|como|espero|te|le|les|gracias|por)\s)/),
+
+        // Estimado/Querido with title
+        greetingPattern(/\b(?:estimad|querid)[oa]s?\s+(?:señor|señora|señorita|sr\.?|sra\.?|srta\.?|don|doña|dr\.?|dra\.?)\s+/),
+
+        // Estimado/Querido without title
+        greetingPattern(/\b(?:estimad|querid)[oa]s?\s+(?!(?:señor|señora|señorita|sr\.?|sra\.?|srta\.?|don|doña|dr\.?|dra\.?)\s)/)
+      ],
+      titlePatterns: /\b(?:señor|señora|señorita|don|doña)(?![a-zà-ÿ])\s*|\b(?:sr|sra|srta|dr|dra)\.\s*/gi,
+      commonWords: new Set([
+        'y', 'o', 'el', 'la', 'los', 'las', 'un', 'una', 'a', 'de', 'con', 'para',
+        'todos', 'todas', 'equipo', 'usted', 'ustedes', 'compañeros'
+      ]),
+      groupWords: new Set(['todos', 'todas', 'equipo', 'compañeros', 'compañeras', 'colegas']),
+      indicators: [
+        /\b(?:hola|buenos\s+días|buenas\s+(?:tardes|noches)|estimad[oa]s?|querid[oa]s?|gracias|saludos|por\s+favor|atentamente)(?![a-zà-ÿ])/gi,
+        /\b(?:y|el|los|las|una|con|para|usted|es|está|que|por|muy|pero|del)(?![a-zà-ÿ])/gi
+      ]
+    });
+
+    // Italian patterns
+    patterns.set('it', {
+      greetingPatterns: [
+        // Ciao/Buongiorno with names
+        greetingPattern(/\b(?:ciao|salve|buongiorno|buonasera)\s+/, /(?=\s*[.!?;:,]|\s*$|\s*\n|\s+(?:come|spero|ti|vi|grazie|volevo)\s)/),
+
+        // Gentile/Egregio/Caro with title
+        greetingPattern(/\b(?:gentil(?:e|issim[oa])|egregi[oa]|car[oaie])\s+(?:(?:signorina|signor[ae]?|dottoressa|dottore?|professoressa|professore?)\s+|(?:sig\.ra|dott\.ssa|prof\.ssa|sig\.|dott\.|ing\.|avv\.|prof\.)\s*)/),
+
+        // Gentile/Egregio/Caro without title
+        greetingPattern(/\b(?:gentil(?:e|issim[oa])|egregi[oa]|car[oaie])\s+(?!(?:signorina|signor[ae]?|dottoressa|dottore?|professoressa|professore?)\s|(?:sig|dott|ing|avv|prof)\.)/)
+      ],
+      titlePatterns: /\b(?:signorina|signor[ae]?|dottoressa|dottore?|professoressa|professore?)\b\s*|\b(?:sig\.ra|dott\.ssa|prof\.ssa)\s*|\b(?:sig|dott|ing|avv|prof)\.\s*/gi,
+      commonWords: new Set([
+        'e', 'o', 'il', 'lo', 'la', 'i', 'gli', 'le', 'un', 'una', 'a', 'di', 'da', 'con', 'per',
+        'tutti', 'tutte', 'squadra', 'team', 'voi', 'colleghi'
+      ]),
+      groupWords: new Set(['tutti', 'tutte', 'squadra', 'team', 'colleghi', 'ragazzi']),
+      indicators: [
+        /\b(?:ciao|salve|buongiorno|buonasera|gentil(?:e|issim[oa])|egregi[oa]|grazie|cordiali\s+saluti|per\s+favore)\b/gi,
+        /\b(?:e|il|lo|gli|della|delle|una|con|per|sono|che|non|di|ti|mi)\b/gi
+      ]
+    });
+
+    // Dutch patterns
+    patterns.set('nl', {
+      greetingPatterns: [
+        // Hallo/Hoi/Goedemorgen with names
+        greetingPattern(/\b(?:hallo|hoi|hey|goedemorgen|goedemiddag|goedenavond)\s+/, /(?=\s*[.!?;:,]|\s*$|\s*\n|\s+(?:hoe|ik|bedankt|alvast|kun|kunt|zou)\s)/),
+
+        // Beste/Geachte with title
+        greetingPattern(/\b(?:beste|geachte|lieve)\s+(?:(?:de\s+)?heer|mevrouw|dhr\.?|mevr\.?|mw\.?|dr\.?|prof\.?|ir\.?)\s+/),
+
+        // Beste/Geachte without title
+        greetingPattern(/\b(?:beste|geachte|lieve)\s+(?!(?:(?:de\s+)?heer|mevrouw|dhr\.?|mevr\.?|mw\.?|dr\.?|prof\.?|ir\.?)\s)/)
+      ],
+      titlePatterns: /\b(?:de\s+heer|heer|mevrouw)\b\s*|\b(?:dhr|mevr|mw|dr|prof|ir)\.\s*/gi,
+      commonWords: new Set([
+        'en', 'of', 'de', 'het', 'een', 'aan', 'van', 'met', 'voor',
+        'allen', 'allemaal', 'iedereen', 'team', 'jullie', 'u', 'collega', 'collega\'s'
+      ]),
+      groupWords: new Set(['allen', 'allemaal', 'iedereen', 'team', 'jullie', 'collega\'s']),
+      indicators: [
+        /\b(?:hallo|hoi|goedemorgen|goedemiddag|goedenavond|beste|geachte|lieve|bedankt|dank\s+je|groeten|met\s+vriendelijke\s+groet)\b/gi,
+        /\b(?:en|het|een|van|met|voor|ik|je|jij|niet|is|dat|op|zijn|wij|u)\b/gi
+      ]
     });
 
     return patterns;
@@ -109,94 +349,232 @@ export class EmailContentParserImpl implements EmailContentParser {
       return this.language;
     }
 
-    // Simple language detection based on common words and patterns
-    const germanIndicators = [
-      /\b(?:hallo|liebe[rs]?|sehr\s+geehrte[rs]?|guten\s+(?:morgen|tag|abend)|moin|danke|bitte|mit\s+freundlichen\s+grüßen)\b/gi,
-      /\b(?:und|oder|der|die|das|ein|eine|zu|von|mit|durch|für|alle|jeder)\b/gi
-    ];
+    // Score every language by its indicator words; ties go to the earlier language (English first)
+    let detectedLanguage: string = 'en';
+    let bestScore = 0;
 
-    const englishIndicators = [
-      /\b(?:hi|hello|dear|good\s+(?:morning|afternoon|evening)|greetings|thank|please|best\s+regards)\b/gi,
-      /\b(?:and|or|the|a|an|to|from|with|by|for|all|everyone)\b/gi
-    ];
-
-    let germanScore = 0;
-    let englishScore = 0;
-
-    for (const pattern of germanIndicators) {
-      const matches = emailBody.match(pattern);
-      if (matches) germanScore += matches.length;
-    }
+    for (const [language, patterns] of this.languagePatterns) {
+      let score = 0;
+      for (const pattern of patterns.indicators) {
+        const matches = emailBody.match(pattern);
+        if (matches) score += matches.length;
+      }
 
-    for (const pattern of englishIndicators) {
-      const matches = emailBody.match(pattern);
-      if (matches) englishScore += matches.length;
+      if (score > bestScore) {
+        bestScore = score;
+        detectedLanguage = language;
+      }
     }
 
-    return germanScore > englishScore ? 'de' : 'en';
+    return detectedLanguage;
   }
 
   /**
    * Gets the appropriate language patterns for processing
    */
-  private getLanguagePatterns(emailBody: string): LanguagePatterns {
-    const detectedLanguage = this.detectLanguage(emailBody);
+  private getLanguagePatterns(detectedLanguage: string): LanguagePatterns {
     return this.languagePatterns.get(detectedLanguage) || this.languagePatterns.get('en')!;
   }
 
   /**
-   * Extracts greetings and names from email body content
+   * Extracts greetings and names from email body content, ignoring quoted reply/forward
+   * history and the sign-off block
    */
   public extractGreetings(emailBody: string): GreetingMatch[] {
     if (!emailBody || typeof emailBody !== 'string') {
       return [];
     }
 
+    const authored = getAuthoredContent(emailBody, findQuotedContentBoundary(emailBody));
+    return this.extractGreetingsFromText(getContentBeforeSignOff(authored, findSignOff(authored)));
+  }
+
+  /**
+   * Extracts greetings from text that is known to be newly authored
+   */
+  private extractGreetingsFromText(emailBody: string): GreetingMatch[] {
     const matches: GreetingMatch[] = [];
     const processedPositions = new Set<number>();
-    const langPatterns = this.getLanguagePatterns(emailBody);
+    const detectedLanguage = this.detectLanguage(emailBody);
+    const langPatterns = this.getLanguagePatterns(detectedLanguage);
 
-    // Process each greeting pattern
+    // Built-in patterns first, so they win over custom patterns matching at the same position
     for (const pattern of langPatterns.greetingPatterns) {
-      // Reset regex lastIndex to ensure proper matching
-      pattern.lastIndex = 0;
-      
-      let match;
-      while ((match = pattern.exec(emailBody)) !== null) {
-        const position = match.index;
-        
-        // Skip if we've already processed a match at this position
-        if (processedPositions.has(position)) {
+      this.collectMatches(pattern, emailBody, langPatterns, detectedLanguage, matches, processedPositions);
+    }
+
+    for (const customPattern of this.customPatterns) {
+      if (customPattern.language === 'any' || customPattern.language === detectedLanguage) {
+        this.collectMatches(customPattern.regex, emailBody, langPatterns, detectedLanguage, matches, processedPositions, customPattern.confidence);
+      }
+    }
+
+    // Sort matches by position and remove duplicates
+    return this.deduplicateMatches(matches);
+  }
+
+  /**
+   * Extracts greetings using a single configured pattern only, e.g. to preview it in settings
+   * @throws Error if the pattern is invalid or has no capture group
+   */
+  public extractWithPattern(setting: GreetingPatternSetting, text: string): GreetingMatch[] {
+    if (!text || typeof text !== 'string') {
+      return [];
+    }
+
+    const compiled = compileGreetingPattern(setting);
+    const language = compiled.language === 'any' ? this.detectLanguage(text) : compiled.language;
+    const matches: GreetingMatch[] = [];
+    this.collectMatches(compiled.regex, text, this.getLanguagePatterns(language), language, matches, new Set<number>(), compiled.confidence);
+    return this.deduplicateMatches(matches);
+  }
+
+  /**
+   * Runs one greeting pattern over the text and appends the names it captures.
+   * The names come from the named group "name" if present, otherwise from capture group 1.
+   */
+  private collectMatches(
+    pattern: RegExp,
+    emailBody: string,
+    langPatterns: LanguagePatterns,
+    language: string,
+    matches: GreetingMatch[],
+    processedPositions: Set<number>,
+    fixedConfidence?: number
+  ): void {
+    // Reset regex lastIndex to ensure proper matching
+    pattern.lastIndex = 0;
+
+    let match: RegExpExecArray | null;
+    while ((match = pattern.exec(emailBody)) !== null) {
+      // Guard against patterns that can match the empty string
+      if (match[0].length === 0) {
+        pattern.lastIndex++;
+        continue;
+      }
+
+      const position = match.index;
+
+      // Skip if we've already processed a match at this position
+      if (processedPositions.has(position)) {
+        continue;
+      }
+
+      const fullMatch = match[0].replace(/[,.!?;:]+$/, ''); // Remove trailing punctuation
+      const groups = (match as RegExpExecArray & { groups?: Record<string, string | undefined> }).groups;
+      const namesPart = groups && groups.name !== undefined ? groups.name : match[1];
+
+      if (namesPart) {
+        // Extract individual names from the names part, keeping the titles used for each person
+        const greetingText = match[0].substring(0, Math.max(0, match[0].indexOf(namesPart)));
+        const { people, groups } = this.extractAudienceFromText(greetingText, namesPart, langPatterns);
+        const audience: GreetingAudience = groups.length === 0 ? 'individual' : people.length === 0 ? 'group' : 'mixed';
+
+        for (const person of people) {
+          const names = person.names.map(name => name.trim()).filter(name => name.length > 0);
+          names.forEach((name, index) => {
+            const nameRole = this.getNameRole(index, names.length, person.salutation);
+            const confidence = fixedConfidence !== undefined
+              ? fixedConfidence
+              : this.calculateConfidence(fullMatch, name);
+
+            matches.push({
+              fullMatch,
+              extractedName: name,
+              position,
+              confidence,
+              language: language as GreetingLanguage,
+              audience,
+              ...(person.salutation ? { salutation: person.salutation } : {}),
+              ...(nameRole ? { nameRole } : {}),
+              ...(names.length > 1 ? { fullName: names.join(' ') } : {})
+            });
+          });
+        }
+
+        // A greeting to a group only has no names, but is still a greeting ("Hi team", "Hallo zusammen")
+        if (audience === 'group') {
+          const group = groups.join(', ');
+          matches.push({
+            fullMatch,
+            extractedName: group,
+            position,
+            confidence: fixedConfidence !== undefined ? fixedConfidence : this.calculateConfidence(fullMatch, group),
+            language: language as GreetingLanguage,
+            audience
+          });
+        }
+
+        processedPositions.add(position);
+      }
+    }
+  }
+
+  /**
+   * Role of a person's name at index: first/middle/last for full names, and last for a lone name
+   * after a title ("Mr. Smith", "Frau Weber"); undefined when a lone name may be either
+   */
+  private getNameRole(index: number, count: number, salutation?: Salutation): NameRole | undefined {
+    if (count > 1) {
+      return index === 0 ? 'first' : index === count - 1 ? 'last' : 'middle';
+    }
+    return salutation && addressesBySurname(salutation.titles) ? 'last' : undefined;
+  }
+
+  /**
+   * Splits the names part of a greeting into the people it addresses ("Mr. and Mrs. Smith",
+   * "Anna, Peter und Maria") and reads the titles and gendered greeting form used for each.
+   * Parts addressing a group ("team", "Marketing folks") are returned as groups, not names.
+   * @param greetingText The greeting before the names, e.g. "Sehr geehrter Herr"
+   */
+  private extractAudienceFromText(greetingText: string, text: string, langPatterns: LanguagePatterns): AddressedAudience {
+    const people: Array<{ names: string[]; titles: string[] }> = [];
+    const groups: string[] = [];
+    let pendingTitles = findTitles(greetingText);
+    const greetingWord = greetingText.trim().split(/\s+/)[0].toLowerCase();
+
+    for (const part of text.split(NAME_CONJUNCTION)) {
+      for (const written of part.split(',')) {
+        // "Hi team, hi Marketing folks" repeats the greeting before the next addressee
+        const words = written.trim().split(/\s+/);
+        const segment = words.length > 1 && words[0].toLowerCase() === greetingWord ? words.slice(1).join(' ') : written;
+
+        if (this.isGroupSegment(segment, langPatterns)) {
+          groups.push(segment.trim().replace(/\s+/g, ' ').toLowerCase());
+          pendingTitles = [];
           continue;
         }
 
-        const fullMatch = match[0].replace(/[,.!?;:]+$/, ''); // Remove trailing punctuation
-        const namesPart = match[1];
-        
-        if (namesPart) {
-          // Extract individual names from the names part
-          const extractedNames = this.extractNamesFromText(namesPart, langPatterns);
-          
-          for (const name of extractedNames) {
-            if (name.trim().length > 0) {
-              const confidence = this.calculateConfidence(fullMatch, name);
-              
-              matches.push({
-                fullMatch,
-                extractedName: name.trim(),
-                position,
-                confidence
-              });
-            }
-          }
-          
-          processedPositions.add(position);
+        const names = this.extractNamesFromText(segment, langPatterns);
+        const titles = [...pendingTitles, ...findTitles(segment, names)];
+
+        // A title on its own belongs to the next person ("Mr. and Mrs. Smith")
+        if (names.length === 0) {
+          pendingTitles = titles;
+          continue;
         }
+        pendingTitles = [];
+        people.push({ names, titles });
       }
     }
 
-    // Sort matches by position and remove duplicates
-    return this.deduplicateMatches(matches);
+    // A gendered greeting form only tells the gender when it addresses a single person
+    const greetingForm = people.length === 1 ? greetingText : '';
+    return {
+      people: people.map(person => ({
+        names: person.names,
+        salutation: getGreetingSalutation(person.titles, greetingForm)
+      })),
+      groups
+    };
+  }
+
+  /**
+   * Whether a part of the names addresses a group: any of its words is a group word
+   */
+  private isGroupSegment(segment: string, langPatterns: LanguagePatterns): boolean {
+    return this.splitNamePart(segment.replace(langPatterns.titlePatterns, ' '))
+      .some(word => langPatterns.groupWords.has(this.normalizeName(word)));
   }
 
   /**
@@ -210,10 +588,9 @@ export class EmailContentParserImpl implements EmailContentParser {
     
     const names: string[] = [];
     
-    // Handle "and"/"und" separator (John and Jane / Hans und Maria)
-    const andPattern = cleanText.includes(' und ') ? ' und ' : ' and ';
-    if (cleanText.includes(andPattern)) {
-      const andSplit = cleanText.split(andPattern);
+    // Handle "and" separators (John and Jane / Hans und Maria / Marie et Paul)
+    if (NAME_CONJUNCTION.test(cleanText)) {
+      const andSplit = cleanText.split(NAME_CONJUNCTION);
       for (const part of andSplit) {
         names.push(...this.splitNamePart(part.trim()));
       }
@@ -262,8 +639,7 @@ export class EmailContentParserImpl implements EmailContentParser {
    * Normalizes a name for consistent processing
    */
   private normalizeName(name: string): string {
-    return name.trim()
-      .replace(/[^\w\s\-']/g, '') // Remove special characters except hyphens and apostrophes
+    return removeNonNameCharacters(name.trim()) // Keep letters of any script, hyphens and apostrophes
       .replace(/\s+/g, '') // Remove all whitespace for single name tokens
       .toLowerCase(); // Convert to lowercase for case-insensitive matching
   }
@@ -326,11 +702,52 @@ export class EmailContentParserImpl implements EmailContentParser {
       };
     }
 
-    const greetings = this.extractGreetings(content);
+    const quotedContent = findQuotedContentBoundary(content);
+    const authored = getAuthoredContent(content, quotedContent);
+    const signOff = findSignOff(authored);
+    const greetingContent = getContentBeforeSignOff(authored, signOff);
+    const greetings = this.extractGreetingsFromText(greetingContent);
+    const register = this.analyzeRegister(greetingContent, greetings);
     
-    return {
+    const parsed: ParsedContent = {
       greetings,
       hasValidContent: content.trim().length > 0
     };
+    if (quotedContent) {
+      parsed.quotedContent = quotedContent;
+    }
+    if (signOff) {
+      parsed.signOff = signOff;
+    }
+    if (register) {
+      parsed.register = register;
+    }
+    return parsed;
+  }
+
+  /**
+   * Classifies the form of address of a German mail by its first greeting and collects the
+   * "Sie"/"du" pronouns in the text after it
+   * @param text Authored text without quoted history or sign-off
+   * @returns The register usage, or undefined for other languages and neutral greetings
+   */
+  private analyzeRegister(text: string, greetings: GreetingMatch[]): RegisterUsage | undefined {
+    if (greetings.length === 0 || this.detectLanguage(text) !== 'de') {
+      return undefined;
+    }
+
+    const greeting = greetings[0];
+    const register = classifyGreetingRegister(greeting);
+    if (!register) {
+      return undefined;
+    }
+
+    const pronouns = findRegisterPronouns(text.substring(greeting.position + greeting.fullMatch.length));
+    return {
+      greeting: register,
+      greetingText: greeting.fullMatch,
+      formalPronouns: pronouns.formal,
+      informalPronouns: pronouns.informal
+    };
   }
 }
\ No newline at end of file
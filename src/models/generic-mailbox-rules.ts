@@ -0,0 +1,155 @@
+/**
+ * Generic mailbox rules
+ * Decides which addresses are role, system or no-reply mailboxes (info@, *@noreply.github.com)
+ * rather than people, from user-editable rules with per-domain overrides and personal exceptions
+ */
+
+import { DEFAULT_GENERIC_MAILBOX_RULES } from './defaults';
+import { GenericMailboxDomainOverride, GenericMailboxRule, ValidationConfig } from './interfaces';
+
+/**
+ * The settings a GenericMailboxClassifier is built from; omitted ones fall back to the defaults
+ */
+export type GenericMailboxSettings =
+  Partial<Pick<ValidationConfig, 'genericMailboxRules' | 'genericMailboxDomainOverrides' | 'personalMailboxes'>>;
+
+/**
+ * Tests an address split into its parts (lowercased address, part before the @ without a +tag, domain)
+ */
+export type GenericMailboxMatcher = (address: string, localPart: string, domain: string) => boolean;
+
+/**
+ * Normalized prefixes of one domain override
+ */
+interface DomainPrefixes {
+  generic: Set<string>;
+  personal: Set<string>;
+}
+
+/**
+ * Normalize a prefix as users write it ("Info", "info@")
+ */
+function normalizePrefix(prefix: string): string {
+  return prefix.trim().toLowerCase().replace(/@$/, '');
+}
+
+/**
+ * Normalize a domain as users write it ("*@noreply.github.com", "@acme.com", "Acme.com")
+ */
+function normalizeDomain(domain: string): string {
+  return domain.trim().toLowerCase().replace(/^\*?@/, '');
+}
+
+/**
+ * Compile a rule into a matcher
+ * @throws Error when the kind is unknown, the pattern is empty or the regex is invalid
+ */
+export function compileGenericMailboxRule(rule: GenericMailboxRule): GenericMailboxMatcher {
+  if (!rule || typeof rule.pattern !== 'string' || rule.pattern.trim().length === 0) {
+    throw new Error('Generic mailbox rule must have a pattern');
+  }
+
+  switch (rule.kind) {
+    case 'prefix': {
+      const prefix = normalizePrefix(rule.pattern);
+      return (_address, localPart) => localPart === prefix;
+    }
+    case 'domain': {
+      const domain = normalizeDomain(rule.pattern);
+      return (_address, _localPart, addressDomain) => addressDomain === domain;
+    }
+    case 'regex': {
+      const regex = new RegExp(rule.pattern, 'i');
+      return address => regex.test(address);
+    }
+    default:
+      throw new Error(`Unknown generic mailbox rule kind: ${(rule as GenericMailboxRule).kind}`);
+  }
+}
+
+/**
+ * Read a rule as written in the settings: "/.../" is a regex, "*@domain" or "@domain" a whole
+ * domain and anything else a prefix ("billing" or "billing@")
+ */
+export function parseGenericMailboxRule(text: string): GenericMailboxRule {
+  const pattern = text.trim();
+  if (pattern.length > 2 && pattern.startsWith('/') && pattern.endsWith('/')) {
+    return { kind: 'regex', pattern: pattern.slice(1, -1) };
+  }
+  if (/^\*?@/.test(pattern)) {
+    return { kind: 'domain', pattern: normalizeDomain(pattern) };
+  }
+  return { kind: 'prefix', pattern: normalizePrefix(pattern) };
+}
+
+/**
+ * Write a rule the way parseGenericMailboxRule reads it
+ */
+export function formatGenericMailboxRule(rule: GenericMailboxRule): string {
+  switch (rule.kind) {
+    case 'regex':
+      return `/${rule.pattern}/`;
+    case 'domain':
+      return `*@${normalizeDomain(rule.pattern)}`;
+    default:
+      return rule.pattern;
+  }
+}
+
+/**
+ * Classifies addresses as generic mailboxes. Personal addresses win over everything, then the
+ * override for the address's domain, then the rules.
+ */
+export class GenericMailboxClassifier {
+  private readonly matchers: GenericMailboxMatcher[];
+  private readonly domainOverrides = new Map<string, DomainPrefixes>();
+  private readonly personalMailboxes: Set<string>;
+
+  constructor(settings: GenericMailboxSettings = {}) {
+    // Rules that don't compile are skipped here; ConfigurationManager rejects them when they are saved
+    this.matchers = (settings.genericMailboxRules || DEFAULT_GENERIC_MAILBOX_RULES).reduce<GenericMailboxMatcher[]>((matchers, rule) => {
+      try {
+        matchers.push(compileGenericMailboxRule(rule));
+      } catch {
+        // Invalid rule
+      }
+      return matchers;
+    }, []);
+
+    for (const override of settings.genericMailboxDomainOverrides || []) {
+      this.domainOverrides.set(normalizeDomain(override.domain), this.toDomainPrefixes(override));
+    }
+    this.personalMailboxes = new Set((settings.personalMailboxes || []).map(email => email.trim().toLowerCase()));
+  }
+
+  /**
+   * Whether an address is a generic mailbox rather than a person
+   * @param email The address; case and surrounding whitespace are ignored
+   */
+  isGeneric(email: string): boolean {
+    const address = email.trim().toLowerCase();
+    if (this.personalMailboxes.has(address)) {
+      return false;
+    }
+
+    const at = address.lastIndexOf('@');
+    const localPart = (at === -1 ? address : address.substring(0, at)).split('+')[0];
+    const domain = at === -1 ? '' : address.substring(at + 1);
+
+    const override = this.domainOverrides.get(domain);
+    if (override?.personal.has(localPart)) {
+      return false;
+    }
+    if (override?.generic.has(localPart)) {
+      return true;
+    }
+    return this.matchers.some(matches => matches(address, localPart, domain));
+  }
+
+  private toDomainPrefixes(override: GenericMailboxDomainOverride): DomainPrefixes {
+    return {
+      generic: new Set((override.genericPrefixes || []).map(normalizePrefix)),
+      personal: new Set((override.personalPrefixes || []).map(normalizePrefix))
+    };
+  }
+}
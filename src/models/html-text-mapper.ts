@@ -0,0 +1,307 @@
+/**
+ * HTML to plain text mapping for email bodies
+ * Extracts the visible text of an HTML body and keeps, for every text character, the range
+ * of HTML source it came from so text positions can be mapped back for targeted edits
+ */
+
+/**
+ * Plain text extracted from HTML with a per-character map back into the source
+ */
+export interface HtmlTextMap {
+  /** Visible text, with block elements and <br> turned into line breaks and blockquote lines prefixed with "> " */
+  text: string;
+  /** Start offset in the HTML source of each text character */
+  sourceStarts: number[];
+  /** End offset (exclusive) in the HTML source of each text character; equals the start for inserted line breaks */
+  sourceEnds: number[];
+}
+
+/**
+ * Range of HTML source offsets
+ */
+export interface HtmlSourceRange {
+  start: number;
+  end: number;
+}
+
+/**
+ * Elements that start a new line in the extracted text
+ */
+const BLOCK_TAGS = new Set([
+  'address', 'article', 'aside', 'blockquote', 'dd', 'div', 'dl', 'dt', 'footer', 'form',
+  'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'header', 'hr', 'li', 'main', 'nav', 'ol', 'p', 'pre',
+  'section', 'table', 'tbody', 'td', 'tfoot', 'th', 'thead', 'tr', 'ul'
+]);
+
+/**
+ * Elements whose content is never visible text
+ */
+const SKIPPED_CONTENT_TAGS = new Set(['head', 'script', 'style', 'template', 'title']);
+
+/**
+ * Whitespace that collapses in HTML (a literal non-breaking space does not)
+ */
+const HTML_WHITESPACE = /[ \t\n\r\f]/;
+
+/**
+ * Named entities commonly produced by Outlook and other mail editors
+ */
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: '&', lt: '<', gt: '>', quot: '"', apos: '\'', nbsp: ' ',
+  ndash: '–', mdash: '—', lsquo: '‘', rsquo: '’', ldquo: '“', rdquo: '”',
+  hellip: '…', shy: '',
+  auml: 'ä', ouml: 'ö', uuml: 'ü', Auml: 'Ä', Ouml: 'Ö', Uuml: 'Ü', szlig: 'ß',
+  aacute: 'á', eacute: 'é', iacute: 'í', oacute: 'ó', uacute: 'ú',
+  Aacute: 'Á', Eacute: 'É', Iacute: 'Í', Oacute: 'Ó', Uacute: 'Ú',
+  agrave: 'à', egrave: 'è', igrave: 'ì', ograve: 'ò', ugrave: 'ù',
+  Agrave: 'À', Egrave: 'È', Igrave: 'Ì', Ograve: 'Ò', Ugrave: 'Ù',
+  acirc: 'â', ecirc: 'ê', icirc: 'î', ocirc: 'ô', ucirc: 'û',
+  Acirc: 'Â', Ecirc: 'Ê', Icirc: 'Î', Ocirc: 'Ô', Ucirc: 'Û',
+  euml: 'ë', iuml: 'ï', Euml: 'Ë', Iuml: 'Ï',
+  ccedil: 'ç', Ccedil: 'Ç', ntilde: 'ñ', Ntilde: 'Ñ',
+  oslash: 'ø', Oslash: 'Ø', aring: 'å', Aring: 'Å', aelig: 'æ', AElig: 'Æ'
+};
+
+/**
+ * Accumulates text characters together with their source ranges
+ */
+class TextMapBuilder {
+  private chars: string[] = [];
+  private starts: number[] = [];
+  private ends: number[] = [];
+
+  /** Nesting depth of <blockquote> elements at the current position */
+  quoteDepth = 0;
+
+  append(text: string, start: number, end: number): void {
+    for (const char of text.split('')) {
+      if (char !== '\n' && this.quoteDepth > 0 && this.isAtLineStart()) {
+        // Mark quoted lines the way plain-text replies do; the marker maps to no source
+        for (const markerChar of `${'>'.repeat(this.quoteDepth)} `.split('')) {
+          this.push(markerChar, start, start);
+        }
+      }
+      this.push(char, start, end);
+    }
+  }
+
+  /**
+   * Appends a collapsed whitespace run as a single space
+   */
+  appendWhitespace(start: number, end: number): void {
+    const last = this.lastChar();
+    if (last === undefined || last === ' ' || last === '\n') {
+      return;
+    }
+    this.append(' ', start, end);
+  }
+
+  /**
+   * Appends a line break; block boundaries never produce empty lines on their own
+   */
+  appendLineBreak(position: number, isBlockBoundary: boolean): void {
+    this.trimTrailingSpace();
+    const last = this.lastChar();
+    if (isBlockBoundary && (last === undefined || last === '\n')) {
+      return;
+    }
+    this.append('\n', position, position);
+  }
+
+  build(): HtmlTextMap {
+    while (this.lastChar() === ' ' || this.lastChar() === '\n') {
+      this.chars.pop();
+      this.starts.pop();
+      this.ends.pop();
+    }
+    return {
+      text: this.chars.join(''),
+      sourceStarts: this.starts,
+      sourceEnds: this.ends
+    };
+  }
+
+  private push(char: string, start: number, end: number): void {
+    this.chars.push(char);
+    this.starts.push(start);
+    this.ends.push(end);
+  }
+
+  private isAtLineStart(): boolean {
+    const last = this.lastChar();
+    return last === undefined || last === '\n';
+  }
+
+  private lastChar(): string | undefined {
+    return this.chars[this.chars.length - 1];
+  }
+
+  private trimTrailingSpace(): void {
+    while (this.lastChar() === ' ') {
+      this.chars.pop();
+      this.starts.pop();
+      this.ends.pop();
+    }
+  }
+}
+
+/**
+ * Finds the closing '>' of a tag starting at the given '<', honouring quoted attribute values
+ * @returns Index of '>' or -1 if the tag is not terminated
+ */
+function findTagEnd(html: string, tagStart: number): number {
+  let quote: string | null = null;
+  for (let i = tagStart + 1; i < html.length; i++) {
+    const char = html[i];
+    if (quote) {
+      if (char === quote) quote = null;
+    } else if (char === '"' || char === '\'') {
+      quote = char;
+    } else if (char === '>') {
+      return i;
+    }
+  }
+  return -1;
+}
+
+/**
+ * Decodes the entity starting at the given '&'
+ * @returns The decoded text and the index after the entity, or null if it isn't a known entity
+ */
+function decodeEntity(html: string, entityStart: number): { text: string; end: number } | null {
+  const match = /^&(#x[0-9a-f]+|#[0-9]+|[a-z][a-z0-9]*);/i.exec(html.substring(entityStart, entityStart + 12));
+  if (!match) {
+    return null;
+  }
+
+  const body = match[1];
+  const end = entityStart + match[0].length;
+
+  if (body[0] === '#') {
+    const codePoint = body[1] === 'x' || body[1] === 'X'
+      ? parseInt(body.substring(2), 16)
+      : parseInt(body.substring(1), 10);
+    if (!isFinite(codePoint) || codePoint <= 0 || codePoint > 0x10ffff) {
+      return null;
+    }
+    return { text: codePoint === 0xa0 ? ' ' : String.fromCodePoint(codePoint), end };
+  }
+
+  const decoded = NAMED_ENTITIES[body];
+  return decoded === undefined ? null : { text: decoded, end };
+}
+
+/**
+ * Extracts the visible text of an HTML document with a map back into the source
+ */
+export function mapHtmlToText(html: string): HtmlTextMap {
+  const builder = new TextMapBuilder();
+  if (!html || typeof html !== 'string') {
+    return builder.build();
+  }
+
+  const lowerHtml = html.toLowerCase();
+  let i = 0;
+
+  while (i < html.length) {
+    const char = html[i];
+
+    if (char === '<') {
+      // Comments, including Outlook's conditional comments
+      if (html.startsWith('<!--', i)) {
+        const commentEnd = html.indexOf('-->', i + 4);
+        i = commentEnd === -1 ? html.length : commentEnd + 3;
+        continue;
+      }
+
+      const tagMatch = /^<(\/?)([a-z][a-z0-9:-]*)/i.exec(html.substring(i, i + 40));
+      const tagEnd = tagMatch || html[i + 1] === '!' || html[i + 1] === '?' ? findTagEnd(html, i) : -1;
+      if (tagEnd === -1) {
+        // A bare '<' is text
+        builder.append(char, i, i + 1);
+        i++;
+        continue;
+      }
+
+      if (tagMatch) {
+        const isClosing = tagMatch[1] === '/';
+        const tagName = tagMatch[2].toLowerCase();
+
+        if (!isClosing && SKIPPED_CONTENT_TAGS.has(tagName) && html[tagEnd - 1] !== '/') {
+          const closeStart = lowerHtml.indexOf(`</${tagName}`, tagEnd + 1);
+          const closeEnd = closeStart === -1 ? -1 : findTagEnd(html, closeStart);
+          i = closeEnd === -1 ? html.length : closeEnd + 1;
+          continue;
+        }
+
+        if (tagName === 'blockquote') {
+          builder.quoteDepth = Math.max(0, builder.quoteDepth + (isClosing ? -1 : 1));
+        }
+
+        if (tagName === 'br') {
+          builder.appendLineBreak(i, false);
+        } else if (BLOCK_TAGS.has(tagName)) {
+          builder.appendLineBreak(i, true);
+        }
+      }
+
+      i = tagEnd + 1;
+      continue;
+    }
+
+    if (char === '&') {
+      const entity = decodeEntity(html, i);
+      if (entity) {
+        builder.append(entity.text, i, entity.end);
+        i = entity.end;
+        continue;
+      }
+    }
+
+    if (HTML_WHITESPACE.test(char)) {
+      let runEnd = i + 1;
+      while (runEnd < html.length && HTML_WHITESPACE.test(html[runEnd])) {
+        runEnd++;
+      }
+      builder.appendWhitespace(i, runEnd);
+      i = runEnd;
+      continue;
+    }
+
+    builder.append(char, i, i + 1);
+    i++;
+  }
+
+  return builder.build();
+}
+
+/**
+ * Maps a range of extracted text back to the HTML source it came from
+ * @returns The source range, or null if the text range crosses markup (e.g. "Jo<b>hn</b>")
+ */
+export function mapTextRangeToHtml(map: HtmlTextMap, textStart: number, textEnd: number): HtmlSourceRange | null {
+  if (textStart < 0 || textEnd > map.text.length || textStart >= textEnd) {
+    return null;
+  }
+
+  for (let k = textStart; k < textEnd - 1; k++) {
+    if (map.sourceEnds[k] !== map.sourceStarts[k + 1]) {
+      return null;
+    }
+  }
+
+  return {
+    start: map.sourceStarts[textStart],
+    end: map.sourceEnds[textEnd - 1]
+  };
+}
+
+/**
+ * Escapes text for insertion into HTML content
+ */
+export function escapeHtmlText(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;');
+}
@@ -14,14 +14,44 @@ export * from './validators';
 // Email content parsing
 export * from './email-content-parser';
 
+// Quoted history and sign-off detection
+export * from './quoted-content-detector';
+export * from './sign-off-detector';
+
+// HTML body text mapping
+export * from './html-text-mapper';
+
+// Unicode name normalization
+export * from './name-normalizer';
+
+// Salutation consistency
+export * from './salutation-checker';
+
+// Sie/du register detection
+export * from './register-detector';
+
 // Recipient parsing
+export * from './display-name-parser';
+export * from './contacts-directory';
+export * from './generic-mailbox-rules';
 export * from './recipient-parser';
 
 // Name matching engine
 export * from './name-matching-engine';
 
+// Nickname dictionary
+export * from './nickname-dictionary';
+
+// Learned aliases
+export * from './alias-store';
+
+// Phonetic name encoding
+export * from './phonetic-encoder';
+
 // Notification system
 export * from './notification-system';
 
 // Configuration management
+export * from './admin-policy';
+export * from './settings-migrations';
 export * from './configuration-manager';
\ No newline at end of file
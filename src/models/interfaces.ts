@@ -14,8 +14,65 @@ export interface GreetingMatch {
   position: number;
   /** Confidence score of the extraction (0-1) */
   confidence: number;
+  /** Whom the greeting addresses: named people, a group or both; absent counts as 'individual' */
+  audience?: GreetingAudience;
+  /** Titles and gendered forms the greeting uses for this name ("Sehr geehrter Herr Dr. Müller") */
+  salutation?: Salutation;
+  /** Language the greeting was read in; decides which phonetic encoding the name is compared with */
+  language?: GreetingLanguage;
+  /** Part of the person's name this is; absent when a lone name may be a first name or a surname */
+  nameRole?: NameRole;
+  /** All names of the person when greeted with more than one ("john smith"), shared by each of them */
+  fullName?: string;
 }
 
+/**
+ * Whom a greeting addresses: people by name ("Hi Anna"), only a group ("Hi team", "Hallo zusammen"),
+ * or both ("Hi Anna and team"). A group greeting's extractedName is the group as written ("marketing folks")
+ */
+export type GreetingAudience = 'individual' | 'group' | 'mixed';
+
+/**
+ * Part of a person's name a greeting name stands for: a full name's first, middle or last part,
+ * or a surname after a title ("Dear Mr. Smith")
+ */
+export type NameRole = 'first' | 'middle' | 'last';
+
+/**
+ * Gender a salutation implies
+ */
+export type SalutationGender = 'male' | 'female';
+
+/**
+ * Titles and honorifics used for a person, in a greeting or a display name
+ */
+export interface Salutation {
+  /** Honorifics and academic titles as written (e.g. ["Herr", "Dr."]) */
+  titles: string[];
+  /** Gender implied by the honorific or the greeting form ("Lieber", "Chère"); absent when neutral or mixed */
+  gender?: SalutationGender;
+}
+
+/**
+ * How a greeting's salutation contradicts the recipient's display name: 'gender' when the
+ * honorific or greeting form has the other gender, 'missing_title' when an academic title is left out
+ */
+export interface SalutationIssue {
+  kind: 'gender' | 'missing_title';
+  /** What the display name calls for, e.g. "Frau" or "Dr." */
+  expected: string;
+}
+
+/**
+ * Recipient field an address was entered in
+ */
+export type RecipientField = 'to' | 'cc' | 'bcc';
+
+/**
+ * Relative weight of a match per recipient field (0-1), applied to the match confidence
+ */
+export type RecipientFieldWeights = Record<RecipientField, number>;
+
 /**
  * Represents a parsed recipient from email addresses
  */
@@ -28,36 +85,226 @@ export interface ParsedRecipient {
   extractedNames: string[];
   /** Whether this is a generic email address (info@, support@, etc.) */
   isGeneric: boolean;
+  /** Field the address was entered in; absent when unknown */
+  field?: RecipientField;
+  /** Given name from the display name ("Müller, Hans (IT-SEC)" → hans), normalized */
+  firstName?: string;
+  /** Further given names from the display name, normalized */
+  middleNames?: string[];
+  /** Surname from the display name, with its particles ("van der berg"), or from an initials mailbox; normalized */
+  lastName?: string;
+  /** First letter of the given name when the mailbox only has the initial (jdoe@, j.doe@, doe.j@) */
+  firstInitial?: string;
+  /** How the mailbox is built from the name, where known */
+  mailboxFormat?: MailboxFormat;
+  /** Name the recipient goes by, from the contacts directory ("Bob" for Robert), normalized */
+  preferredName?: string;
+  /** Nicknames from the contacts directory, normalized */
+  nicknames?: string[];
+  /** Set when the address is a distribution list, as Outlook reports it or a member source knows it */
+  isDistributionList?: boolean;
+  /** Address of the distribution list this recipient is a member of, when added by expanding it */
+  expandedFrom?: string;
+}
+
+/**
+ * A person imported into the local contacts directory; names are kept as written
+ */
+export interface Contact {
+  /** Addresses of the contact, lowercase */
+  emails: string[];
+  /** Given name */
+  firstName?: string;
+  /** Further given names */
+  middleNames?: string[];
+  /** Surname, with its particles */
+  lastName?: string;
+  /** Name the contact goes by when it differs from the given name ("Bob" for Robert) */
+  preferredName?: string;
+  /** Nicknames */
+  nicknames?: string[];
+}
+
+/**
+ * A greeting name the user chose to always accept for an address
+ */
+export interface LearnedAlias {
+  /** Recipient address, lowercase */
+  email: string;
+  /** Accepted greeting name, lowercase */
+  alias: string;
 }
 
+/**
+ * Looks up the greeting names accepted for an address
+ */
+export interface AliasLookup {
+  /** Accepted names for this address, lowercase; empty when none were learned */
+  getAliases(email: string): string[];
+}
+
+/**
+ * Looks up what the contacts directory knows about an address
+ */
+export interface ContactLookup {
+  /** The contact with this address, if any */
+  getContact(email: string): Contact | undefined;
+}
+
+/**
+ * How a mailbox's local part is built from a person's name: john.doe@, j.doe@, doe.j@ or jdoe@
+ */
+export type MailboxFormat = 'first.last' | 'f.last' | 'last.f' | 'flast';
+
+/**
+ * What a validation result checked: the greeting against the recipients, or the
+ * signed name against the sender. 'ambiguous_greeting' marks a greeting name that
+ * matches several recipients equally well, 'cc_only_greeting' one that only matches
+ * CC/BCC recipients, 'recipient_not_greeted' a To recipient no greeting covers and
+ * 'salutation_mismatch' a title or gendered form that contradicts the recipient's display name,
+ * 'register_mismatch' a German body that uses "du" after a formal greeting or "Sie" after an informal one,
+ * 'split_full_name' a full name whose parts belong to different recipients ("Hi John Miller")
+ * and 'group_greeting_single_recipient' a greeting to a group ("Hi all") in a mail to a single person
+ */
+export type ValidationWarningType =
+  | 'greeting_mismatch'
+  | 'sign_off_mismatch'
+  | 'ambiguous_greeting'
+  | 'cc_only_greeting'
+  | 'recipient_not_greeted'
+  | 'salutation_mismatch'
+  | 'register_mismatch'
+  | 'split_full_name'
+  | 'group_greeting_single_recipient';
+
 /**
  * Result of name validation comparing greeting names with recipients
  */
 export interface ValidationResult {
-  /** The name found in the greeting */
+  /** The name found in the greeting (the signed name for sign-off checks, empty for recipients nobody greets and register checks) */
   greetingName: string;
   /** Whether the name matches any recipient */
   isValid: boolean;
-  /** Suggested recipient if mismatch detected */
+  /** Suggested recipient if mismatch detected (the sender for sign-off checks, the ungreeted To recipient) */
   suggestedRecipient?: ParsedRecipient;
   /** Confidence score of the validation (0-1) */
   confidence: number;
+  /** What was checked; absent means a greeting name checked against the recipients */
+  warningType?: ValidationWarningType;
+  /** Every recipient the name matches at or above the confidence threshold, best first */
+  candidates?: MatchResult[];
+  /** For a name that matches nobody: the recipients it may stand for, to choose from when always accepting it */
+  possibleRecipients?: ParsedRecipient[];
+  /** For 'salutation_mismatch': what the greeting got wrong */
+  salutationIssue?: SalutationIssue;
+  /** For 'register_mismatch': the greeting and the pronouns that don't fit it */
+  registerMismatch?: RegisterMismatch;
+  /** For 'split_full_name': each part of the full name and the recipient it matches */
+  nameParts?: NamePartMatch[];
+}
+
+/**
+ * A part of a greeted full name and the recipient it matches
+ */
+export interface NamePartMatch {
+  name: string;
+  recipient: ParsedRecipient;
+}
+
+/**
+ * Languages with built-in greeting patterns
+ */
+export type GreetingLanguage = 'en' | 'de' | 'fr' | 'es' | 'it' | 'nl';
+
+/**
+ * Language a custom greeting pattern applies to ('any' applies it regardless of detected language)
+ */
+export type GreetingPatternLanguage = GreetingLanguage | 'any';
+
+/**
+ * User-defined greeting pattern. The name is taken from the named group "name"
+ * when present, otherwise from capture group 1; patterns are matched case-insensitively.
+ */
+export interface GreetingPatternDefinition {
+  /** Regular expression source */
+  pattern: string;
+  /** Language the pattern applies to (defaults to 'any') */
+  language?: GreetingPatternLanguage;
+  /** Fixed confidence for greetings found by this pattern (0-1); computed like built-in patterns when omitted */
+  confidence?: number;
+}
+
+/**
+ * A configured greeting pattern: a plain regex source or a full definition
+ */
+export type GreetingPatternSetting = string | GreetingPatternDefinition;
+
+/**
+ * How a generic mailbox rule matches an address
+ */
+export type GenericMailboxRuleKind = 'prefix' | 'regex' | 'domain';
+
+/**
+ * A rule marking addresses as generic mailboxes (role, system or no-reply addresses nobody greets by name)
+ */
+export interface GenericMailboxRule {
+  /**
+   * 'prefix' matches the part before the @ ("info" for info@ and info+eu@), 'regex' tests a pattern
+   * against the whole address and 'domain' matches every address at a domain ("noreply.github.com")
+   */
+  kind: GenericMailboxRuleKind;
+  /** The prefix, regex source or domain */
+  pattern: string;
+}
+
+/**
+ * Generic mailbox prefixes that differ at one domain
+ */
+export interface GenericMailboxDomainOverride {
+  /** Domain the override applies to */
+  domain: string;
+  /** Prefixes that are generic mailboxes at this domain in addition to the rules */
+  genericPrefixes: string[];
+  /** Prefixes that are people at this domain although a rule marks them generic */
+  personalPrefixes: string[];
 }
 
 /**
  * Configuration settings for validation behavior
  */
 export interface ValidationConfig {
-  /** Array of greeting patterns to recognize */
-  enabledGreetingPatterns: string[];
+  /** Custom greeting patterns recognized in addition to the built-in language patterns */
+  enabledGreetingPatterns: GreetingPatternSetting[];
   /** Minimum confidence threshold for matches (0-1) */
   minimumConfidenceThreshold: number;
   /** Whether to enable fuzzy matching for misspellings */
   enableFuzzyMatching: boolean;
   /** Whether to exclude generic emails from validation */
   excludeGenericEmails: boolean;
-  /** Language for greeting detection ('en', 'de', 'auto') */
-  language: 'en' | 'de' | 'auto';
+  /** Language for greeting detection ('en', 'de', 'fr', 'es', 'it', 'nl' or 'auto') */
+  language: GreetingLanguage | 'auto';
+  /** Additional nickname equivalence groups, e.g. [['Hansi', 'Johannes']] */
+  customNicknames: string[][];
+  /** Whether to warn when the name in the sign-off doesn't match the sender's display name */
+  checkSignOffName: boolean;
+  /** Whether to warn about To recipients nobody greets and greetings that only match CC/BCC recipients */
+  checkRecipientCoverage: boolean;
+  /** Weight of a match per recipient field, so "Hi Alex" prefers the Alex on the To line */
+  recipientFieldWeights: RecipientFieldWeights;
+  /** Whether greeting names may match BCC recipients (greeting them by name reveals that they were copied) */
+  matchBccRecipients: boolean;
+  /** Whether to warn when a greeting's title or gendered form contradicts the recipient's display name */
+  checkSalutations: boolean;
+  /** Whether to warn when a German body switches between "Sie" and "du" relative to the greeting */
+  checkRegister: boolean;
+  /** Whether to warn when a greeting addresses a group but the mail goes to a single person */
+  checkGroupGreetings: boolean;
+  /** Rules marking addresses as generic mailboxes; the defaults cover info@, support@, noreply@ and the like */
+  genericMailboxRules: GenericMailboxRule[];
+  /** Per-domain additions to and exceptions from the generic mailbox rules */
+  genericMailboxDomainOverrides: GenericMailboxDomainOverride[];
+  /** Addresses that are people although a generic mailbox rule matches them */
+  personalMailboxes: string[];
 }
 
 /**
@@ -84,6 +331,33 @@ export interface ValidationState {
   isEnabled: boolean;
 }
 
+/**
+ * What marked the start of quoted reply/forward history
+ */
+export type QuoteMarker = 'separator' | 'header' | 'attribution' | 'quote_prefix';
+
+/**
+ * Start of the quoted history in a reply or forward
+ */
+export interface QuotedContentBoundary {
+  /** Offset in the content where the quoted history starts; text before it is newly authored */
+  position: number;
+  /** Marker that identified the quote */
+  marker: QuoteMarker;
+}
+
+/**
+ * Closing block at the end of the newly authored text ("Best regards,\nJohn")
+ */
+export interface SignOffBlock {
+  /** Offset where the sign-off or signature starts; greetings are only taken from before it */
+  position: number;
+  /** The closing phrase as written (e.g. "Best regards", "Viele Grüße"); absent for a bare "-- " signature */
+  closing?: string;
+  /** Name signed after the closing, when one was found */
+  signedName?: string;
+}
+
 /**
  * Parsed email content structure
  */
@@ -92,6 +366,43 @@ export interface ParsedContent {
   greetings: GreetingMatch[];
   /** Whether the content contains valid parseable content */
   hasValidContent: boolean;
+  /** Start of quoted reply/forward history, if any; greetings are only taken from before it */
+  quotedContent?: QuotedContentBoundary;
+  /** Sign-off and signature block, if any; greetings are only taken from before it */
+  signOff?: SignOffBlock;
+  /** Form of address of a German mail whose greeting is formal or informal */
+  register?: RegisterUsage;
+}
+
+/**
+ * Formal ("Sie") or informal ("du") form of address
+ */
+export type Register = 'formal' | 'informal';
+
+/**
+ * Form of address a German mail uses: in the greeting and in the pronouns of the body
+ */
+export interface RegisterUsage {
+  /** Register the first greeting implies */
+  greeting: Register;
+  /** That greeting as written, e.g. "Sehr geehrte Frau Weber" */
+  greetingText: string;
+  /** Formal pronouns in the authored body, as written ("Sie", "Ihnen") */
+  formalPronouns: string[];
+  /** Informal pronouns in the authored body, as written ("du", "dein") */
+  informalPronouns: string[];
+}
+
+/**
+ * A body that switches to the other form of address than the greeting
+ */
+export interface RegisterMismatch {
+  /** Register the greeting implies */
+  greeting: Register;
+  /** The greeting as written */
+  greetingText: string;
+  /** Pronouns of the other register, as written */
+  pronouns: string[];
 }
 
 /**
@@ -101,7 +412,7 @@ export interface MatchResult {
   /** The recipient that matched */
   recipient: ParsedRecipient;
   /** Type of match found */
-  matchType: 'exact' | 'partial' | 'fuzzy' | 'none';
+  matchType: 'exact' | 'nickname' | 'phonetic' | 'initial' | 'partial' | 'fuzzy' | 'none';
   /** Confidence score of the match (0-1) */
   confidence: number;
 }
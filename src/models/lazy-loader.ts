@@ -3,7 +3,11 @@
  * Loads validation logic only when needed to improve initial load performance
  */
 
-import { SupportedLanguage } from './email-content-parser';
+import { EmailContentParserOptions, SupportedLanguage } from './email-content-parser';
+import { NameMatchingOptions } from './name-matching-engine';
+import { ContactLookup } from './interfaces';
+import { GenericMailboxSettings } from './generic-mailbox-rules';
+import { ContactsDirectory } from './contacts-directory';
 
 export interface LazyLoadableComponent {
   isLoaded(): boolean;
@@ -116,9 +120,11 @@ export class LazyEmailContentParser implements LazyLoadableComponent {
   private parser?: any;
   private loaded = false;
   private language?: SupportedLanguage;
+  private options?: EmailContentParserOptions;
 
-  constructor(language?: SupportedLanguage) {
+  constructor(language?: SupportedLanguage, options?: EmailContentParserOptions) {
     this.language = language;
+    this.options = options;
   }
 
   async load(): Promise<void> {
@@ -126,7 +132,7 @@ export class LazyEmailContentParser implements LazyLoadableComponent {
 
     // Dynamically import the parser
     const { EmailContentParserImpl } = await import('./email-content-parser');
-    this.parser = new EmailContentParserImpl(this.language);
+    this.parser = new EmailContentParserImpl(this.language, this.options);
     this.loaded = true;
   }
 
@@ -160,12 +166,20 @@ export class LazyEmailContentParser implements LazyLoadableComponent {
 export class LazyRecipientParser implements LazyLoadableComponent {
   private parser?: any;
   private loaded = false;
+  private contacts?: ContactLookup;
+  private genericMailboxes?: GenericMailboxSettings;
+
+  constructor(contacts?: ContactLookup, genericMailboxes?: GenericMailboxSettings) {
+    this.contacts = contacts;
+    this.genericMailboxes = genericMailboxes;
+  }
 
   async load(): Promise<void> {
     if (this.loaded) return;
 
     const { RecipientParser } = await import('./recipient-parser');
-    this.parser = new RecipientParser();
+    const { GenericMailboxClassifier } = await import('./generic-mailbox-rules');
+    this.parser = new RecipientParser(this.contacts, new GenericMailboxClassifier(this.genericMailboxes));
     this.loaded = true;
   }
 
@@ -191,6 +205,13 @@ export class LazyRecipientParser implements LazyLoadableComponent {
     }
     return this.parser.extractAllRecipients(recipients);
   }
+
+  async applyDomainConventions(recipients: any[]): Promise<any[]> {
+    if (!this.loaded) {
+      await this.load();
+    }
+    return this.parser.applyDomainConventions(recipients);
+  }
 }
 
 /**
@@ -199,12 +220,17 @@ export class LazyRecipientParser implements LazyLoadableComponent {
 export class LazyNameMatchingEngine implements LazyLoadableComponent {
   private engine?: any;
   private loaded = false;
+  private options?: NameMatchingOptions;
+
+  constructor(options?: NameMatchingOptions) {
+    this.options = options;
+  }
 
   async load(): Promise<void> {
     if (this.loaded) return;
 
     const { NameMatchingEngine } = await import('./name-matching-engine');
-    this.engine = new NameMatchingEngine();
+    this.engine = new NameMatchingEngine(undefined, undefined, this.options);
     this.loaded = true;
   }
 
@@ -237,13 +263,16 @@ export class LazyNameMatchingEngine implements LazyLoadableComponent {
  */
 export const componentFactories = {
   emailParser: {
-    create: async (language?: SupportedLanguage): Promise<LazyEmailContentParser> => new LazyEmailContentParser(language)
+    create: async (language?: SupportedLanguage, options?: EmailContentParserOptions): Promise<LazyEmailContentParser> =>
+      new LazyEmailContentParser(language, options)
   },
   recipientParser: {
-    create: async (): Promise<LazyRecipientParser> => new LazyRecipientParser()
+    // The contacts directory is a singleton, so it is looked up here instead of being part of the cache key
+    create: async (genericMailboxes?: GenericMailboxSettings): Promise<LazyRecipientParser> =>
+      new LazyRecipientParser(ContactsDirectory.getInstance(), genericMailboxes)
   },
   nameMatchingEngine: {
-    create: async (): Promise<LazyNameMatchingEngine> => new LazyNameMatchingEngine()
+    create: async (options?: NameMatchingOptions): Promise<LazyNameMatchingEngine> => new LazyNameMatchingEngine(options)
   }
 };
 
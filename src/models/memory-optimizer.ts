@@ -3,7 +3,7 @@
  * Implements intelligent caching strategies and memory cleanup
  */
 
-import { ParsedRecipient, ValidationResult } from './interfaces';
+import { ParsedRecipient, RecipientField, ValidationResult } from './interfaces';
 
 export interface CacheEntry<T> {
   data: T;
@@ -43,7 +43,7 @@ export class OptimizedCache<T> {
     misses: 0,
     evictions: 0
   };
-  private cleanupTimer?: number;
+  private cleanupTimer?: ReturnType<typeof setInterval>;
 
   constructor(config: Partial<MemoryOptimizationConfig> = {}) {
     this.config = {
@@ -294,13 +294,20 @@ export class OptimizedCache<T> {
    * Start cleanup timer
    */
   private startCleanupTimer(): void {
-    this.cleanupTimer = window.setInterval(() => {
+    this.cleanupTimer = setInterval(() => {
       this.cleanup();
       this.optimize();
     }, this.config.cleanupIntervalMs);
   }
 }
 
+/**
+ * Cache key part for one recipient; moving an address between To and CC changes the key
+ */
+function describeRecipientForKey(email: string, field?: RecipientField): string {
+  return field ? `${field}:${email}` : email;
+}
+
 /**
  * Memory-optimized recipient cache
  */
@@ -318,7 +325,7 @@ export class RecipientCache extends OptimizedCache<ParsedRecipient[]> {
    * Generate cache key for recipients
    */
   generateKey(recipients: any[]): string {
-    const emails = recipients.map(r => r.email || r.emailAddress).sort();
+    const emails = recipients.map(r => describeRecipientForKey(r.email || r.emailAddress, r.field)).sort();
     return `recipients:${emails.join(',')}`;
   }
 
@@ -357,7 +364,7 @@ export class ValidationResultsCache extends OptimizedCache<ValidationResult[]> {
    */
   generateKey(content: string, recipients: ParsedRecipient[]): string {
     const contentHash = this.simpleHash(content.substring(0, 500)); // First 500 chars
-    const recipientEmails = recipients.map(r => r.email).sort().join(',');
+    const recipientEmails = recipients.map(r => describeRecipientForKey(r.email, r.field)).sort().join(',');
     return `validation:${contentHash}:${this.simpleHash(recipientEmails)}`;
   }
 
@@ -478,7 +485,8 @@ export class MemoryMonitor {
    */
   private estimateMemoryUsage(): number {
     // Very rough estimation based on DOM elements and known objects
-    const domElements = document.querySelectorAll('*').length;
+    // (event-based runtimes have no DOM at all)
+    const domElements = typeof document !== 'undefined' ? document.querySelectorAll('*').length : 0;
     const estimatedDomMemory = domElements * 100; // ~100 bytes per element
     
     // Add some base memory for scripts and other objects
@@ -1,23 +1,85 @@
 /**
  * Name Matching Engine for validating greeting names against recipient email addresses
- * Implements exact, partial, and fuzzy matching algorithms with confidence scoring
+ * Implements exact, nickname, phonetic, initial, partial, and fuzzy matching algorithms with confidence scoring
  */
 
-import { GreetingMatch, ParsedRecipient, ValidationResult, MatchResult } from './interfaces';
+import {
+  GreetingMatch,
+  ParsedRecipient,
+  ValidationResult,
+  MatchResult,
+  RecipientFieldWeights,
+  GreetingLanguage,
+  NameRole,
+  AliasLookup
+} from './interfaces';
+import { NicknameDictionary } from './nickname-dictionary';
+import { getNameMatchKeys } from './name-normalizer';
+import { getPhoneticAlgorithms, soundsAlike } from './phonetic-encoder';
+import { parseDisplayName } from './display-name-parser';
+
+/**
+ * Comparison keys of a recipient's given names and surname
+ */
+interface RecipientNameRoles {
+  first: string[];
+  last: string[];
+}
+
+/**
+ * Additional options for the name matching engine
+ */
+export interface NameMatchingOptions {
+  /** User-defined nickname equivalence groups added to the bundled dictionary */
+  customNicknames?: string[][];
+  /** Weight of a match per recipient field; recipients without a known field count fully */
+  fieldWeights?: Partial<RecipientFieldWeights>;
+  /** Whether greeting names may match BCC recipients (off by default) */
+  matchBccRecipients?: boolean;
+  /** Greeting names the user chose to always accept per recipient; they match exactly */
+  aliases?: AliasLookup;
+}
 
 /**
  * Main engine for matching names from greetings with recipient names
  */
 export class NameMatchingEngine {
+  /** Confidence for a known nickname/diminutive: below exact, above any partial or fuzzy match */
+  private static readonly NICKNAME_MATCH_CONFIDENCE = 0.9;
+  /**
+   * Confidence for a sound-alike spelling ("Meyer" for "Maier"): below nicknames, above any fuzzy match.
+   * Different people's names sound alike too ("Jan" and "Jon"), so such a match only suggests the
+   * recipient and never makes a greeting valid (see isAccepted)
+   */
+  private static readonly PHONETIC_MATCH_CONFIDENCE = 0.75;
+  /** Minimum spelling similarity for a phonetic match, so short codes don't pair "Jane" with "John" */
+  private static readonly PHONETIC_MIN_SIMILARITY = 0.5;
+  /**
+   * Confidence for a first name whose initial fits a j.doe@ or doe.j@ mailbox: other first names
+   * share the initial, so it stays just above the default threshold
+   */
+  private static readonly INITIAL_MATCH_CONFIDENCE = 0.7;
+  /** Confidence for the same with a jdoe@ mailbox, which is only read as initials from the domain's format */
+  private static readonly LEARNED_INITIAL_MATCH_CONFIDENCE = 0.65;
+
   private readonly fuzzyMatchingEnabled: boolean;
   private readonly minimumConfidenceThreshold: number;
+  private readonly nicknameDictionary: NicknameDictionary;
+  private readonly fieldWeights: Partial<RecipientFieldWeights>;
+  private readonly matchBccRecipients: boolean;
+  private readonly aliases?: AliasLookup;
 
   constructor(
     fuzzyMatchingEnabled: boolean = true,
-    minimumConfidenceThreshold: number = 0.6
+    minimumConfidenceThreshold: number = 0.6,
+    options: NameMatchingOptions = {}
   ) {
     this.fuzzyMatchingEnabled = fuzzyMatchingEnabled;
     this.minimumConfidenceThreshold = minimumConfidenceThreshold;
+    this.nicknameDictionary = new NicknameDictionary(options.customNicknames);
+    this.fieldWeights = options.fieldWeights || {};
+    this.matchBccRecipients = options.matchBccRecipients ?? false;
+    this.aliases = options.aliases;
   }
 
   /**
@@ -29,58 +91,216 @@ export class NameMatchingEngine {
   public validateNames(greetings: GreetingMatch[], recipients: ParsedRecipient[]): ValidationResult[] {
     const results: ValidationResult[] = [];
     
-    // Filter out generic recipients if needed
-    const validRecipients = recipients.filter(recipient => !recipient.isGeneric);
+    // Filter out generic recipients, and BCC recipients unless greeting them is allowed
+    const validRecipients = recipients.filter(recipient =>
+      !recipient.isGeneric && (this.matchBccRecipients || recipient.field !== 'bcc'));
     
     for (const greeting of greetings) {
-      const matchResult = this.findBestMatch(greeting.extractedName, validRecipients);
+      const candidates = this.findCandidateMatches(greeting.extractedName, validRecipients, greeting.language, greeting.nameRole);
+      const matchResult = candidates[0] ||
+        this.findBestMatch(greeting.extractedName, validRecipients, greeting.language, greeting.nameRole);
       
       const validationResult: ValidationResult = {
         greetingName: greeting.extractedName,
-        isValid: matchResult.matchType !== 'none' && matchResult.confidence >= this.minimumConfidenceThreshold,
+        isValid: this.isAccepted(matchResult),
         suggestedRecipient: matchResult.matchType !== 'none' ? matchResult.recipient : undefined,
         confidence: matchResult.confidence
       };
+
+      if (candidates.length > 0) {
+        validationResult.candidates = candidates;
+      }
+      if (matchResult.matchType === 'none' && validRecipients.length > 0) {
+        validationResult.possibleRecipients = validRecipients;
+      }
+      if (this.isAmbiguous(candidates)) {
+        validationResult.warningType = 'ambiguous_greeting';
+      }
       
       results.push(validationResult);
     }
     
+    this.resolveFullNames(greetings, results);
     return results;
   }
 
+  /**
+   * Matches the parts of each greeted full name against one recipient: the parts take the recipient
+   * they all match, or the first part is flagged when they match different recipients ("Hi John Miller")
+   */
+  private resolveFullNames(greetings: GreetingMatch[], results: ValidationResult[]): void {
+    const people = new Map<string, number[]>();
+    greetings.forEach((greeting, index) => {
+      if (greeting.fullName) {
+        const key = `${greeting.position}:${greeting.fullName}`;
+        people.set(key, [...(people.get(key) || []), index]);
+      }
+    });
+
+    people.forEach(indices => {
+      // Parts nobody matches (an unknown middle name) keep their own result
+      const matched = indices.filter(index => results[index].candidates !== undefined);
+      if (matched.length < 2) {
+        return;
+      }
+
+      const shared = this.findSharedRecipient(matched.map(index => results[index].candidates!));
+      if (shared) {
+        for (const index of matched) {
+          const match = results[index].candidates!.filter(candidate => candidate.recipient.email.toLowerCase() === shared)[0];
+          // "Alex" in "Hi Alex Meier" no longer stands for every Alex
+          results[index].suggestedRecipient = match.recipient;
+          results[index].confidence = match.confidence;
+          results[index].candidates = [match];
+          if (results[index].warningType === 'ambiguous_greeting') {
+            delete results[index].warningType;
+          }
+        }
+        return;
+      }
+
+      const first = results[matched[0]];
+      results[matched[0]] = {
+        ...first,
+        isValid: false,
+        warningType: 'split_full_name',
+        nameParts: matched.map(index => ({
+          name: results[index].greetingName,
+          recipient: results[index].candidates![0].recipient
+        }))
+      };
+    });
+  }
+
+  /**
+   * Address of the recipient every part of a full name matches, best combined confidence first
+   */
+  private findSharedRecipient(partCandidates: MatchResult[][]): string | undefined {
+    let best: string | undefined;
+    let bestConfidence = 0;
+
+    for (const candidate of partCandidates[0]) {
+      const email = candidate.recipient.email.toLowerCase();
+      const matches = partCandidates.map(candidates =>
+        candidates.filter(other => other.recipient.email.toLowerCase() === email)[0]);
+      if (matches.some(match => match === undefined)) {
+        continue;
+      }
+
+      const confidence = matches.reduce((sum, match) => sum + match.confidence, 0);
+      if (confidence > bestConfidence) {
+        best = email;
+        bestConfidence = confidence;
+      }
+    }
+
+    return best;
+  }
+
+  /**
+   * Finds every recipient the greeting name matches well enough to make it valid (see isAccepted)
+   * @param greetingName Name extracted from greeting
+   * @param recipients Array of recipients to match against
+   * @param language Language of the greeting, which selects the phonetic encoding
+   * @param nameRole Part of the name the greeting name stands for; a surname only matches surnames
+   * @returns One match per distinct recipient address, best first
+   */
+  public findCandidateMatches(
+    greetingName: string,
+    recipients: ParsedRecipient[],
+    language?: GreetingLanguage,
+    nameRole?: NameRole
+  ): MatchResult[] {
+    const candidates: MatchResult[] = [];
+    const seenEmails = new Set<string>();
+
+    for (const recipient of recipients) {
+      const email = recipient.email.toLowerCase();
+      if (seenEmails.has(email)) {
+        continue;
+      }
+
+      const match = this.findBestMatch(greetingName, [recipient], language, nameRole);
+      if (this.isAccepted(match)) {
+        seenEmails.add(email);
+        candidates.push(match);
+      }
+    }
+
+    // Array.prototype.sort is stable, so equally good candidates keep the recipient order
+    return candidates.sort((a, b) => b.confidence - a.confidence);
+  }
+
+  /**
+   * Whether a match makes the greeting valid: it reaches the threshold and isn't only a sound-alike
+   */
+  private isAccepted(match: MatchResult): boolean {
+    return match.matchType !== 'none' && match.matchType !== 'phonetic' && match.confidence >= this.minimumConfidenceThreshold;
+  }
+
+  /**
+   * Weight of a match against this recipient, by the field it was entered in
+   */
+  private getFieldWeight(recipient: ParsedRecipient): number {
+    const weight = recipient.field ? this.fieldWeights[recipient.field] : undefined;
+    return weight ?? 1;
+  }
+
+  /**
+   * A greeting is ambiguous when several recipients match it equally well ("Hi Alex" with two Alexes)
+   */
+  private isAmbiguous(candidates: MatchResult[]): boolean {
+    return candidates.length > 1 && candidates[1].confidence === candidates[0].confidence;
+  }
+
   /**
    * Finds the best matching recipient for a given greeting name
    * @param greetingName Name extracted from greeting
    * @param recipients Array of recipients to match against
+   * @param language Language of the greeting, which selects the phonetic encoding
+   * @param nameRole Part of the name the greeting name stands for; a surname only matches surnames
    * @returns Best match result
    */
-  public findBestMatch(greetingName: string, recipients: ParsedRecipient[]): MatchResult {
+  public findBestMatch(
+    greetingName: string,
+    recipients: ParsedRecipient[],
+    language?: GreetingLanguage,
+    nameRole?: NameRole
+  ): MatchResult {
     let bestMatch: MatchResult = {
       recipient: recipients[0] || { email: '', extractedNames: [], isGeneric: false },
       matchType: 'none',
       confidence: 0
     };
 
-    const normalizedGreeting = this.normalizeName(greetingName);
+    // "Müller" is tried both as "muller" and "mueller" so it matches either mailbox spelling
+    const greetingKeys = getNameMatchKeys(greetingName);
 
     for (const recipient of recipients) {
-      // Try exact matching first
-      const exactMatch = this.tryExactMatch(normalizedGreeting, recipient);
-      if (exactMatch.confidence > bestMatch.confidence) {
-        bestMatch = exactMatch;
-      }
+      const recipientNames = this.getRecipientNameKeys(recipient, nameRole);
+      const weight = this.getFieldWeight(recipient);
 
-      // Try partial matching
-      const partialMatch = this.tryPartialMatch(normalizedGreeting, recipient);
-      if (partialMatch.confidence > bestMatch.confidence) {
-        bestMatch = partialMatch;
-      }
+      for (const normalizedGreeting of greetingKeys) {
+        const matches = [
+          // Try learned aliases and exact matching first, then nicknames/diminutives, then partial matching
+          this.tryAliasMatch(normalizedGreeting, recipient),
+          this.tryExactMatch(normalizedGreeting, recipient, recipientNames),
+          this.tryNicknameMatch(normalizedGreeting, recipient, recipientNames),
+          this.tryPartialMatch(normalizedGreeting, recipient, recipientNames),
+          this.tryInitialMatch(normalizedGreeting, recipient, nameRole),
+          // Try sound-alike and fuzzy matching if enabled
+          ...(this.fuzzyMatchingEnabled ? [
+            this.tryPhoneticMatch(normalizedGreeting, recipient, recipientNames, language),
+            this.tryFuzzyMatch(normalizedGreeting, recipient, recipientNames)
+          ] : [])
+        ];
 
-      // Try fuzzy matching if enabled
-      if (this.fuzzyMatchingEnabled) {
-        const fuzzyMatch = this.tryFuzzyMatch(normalizedGreeting, recipient);
-        if (fuzzyMatch.confidence > bestMatch.confidence) {
-          bestMatch = fuzzyMatch;
+        for (const match of matches) {
+          // A CC recipient with the same name ranks below the one on the To line
+          const confidence = match.confidence * weight;
+          if (confidence > bestMatch.confidence) {
+            bestMatch = { ...match, confidence };
+          }
         }
       }
     }
@@ -89,17 +309,29 @@ export class NameMatchingEngine {
   }
 
   /**
-   * Attempts exact matching between greeting name and recipient names
+   * Attempts matching against the names the user chose to always accept for the recipient
    */
-  private tryExactMatch(greetingName: string, recipient: ParsedRecipient): MatchResult {
-    const normalizedRecipientNames = recipient.extractedNames.map(name => this.normalizeName(name));
-    
-    // Check display name if available
-    if (recipient.displayName) {
-      const displayNameParts = this.extractNameParts(recipient.displayName);
-      normalizedRecipientNames.push(...displayNameParts.map(name => this.normalizeName(name)));
+  private tryAliasMatch(greetingName: string, recipient: ParsedRecipient): MatchResult {
+    const aliases = this.aliases ? this.toNameKeys(this.aliases.getAliases(recipient.email)) : [];
+    if (aliases.indexOf(greetingName) !== -1) {
+      return {
+        recipient,
+        matchType: 'exact',
+        confidence: 1.0
+      };
     }
 
+    return {
+      recipient,
+      matchType: 'none',
+      confidence: 0
+    };
+  }
+
+  /**
+   * Attempts exact matching between greeting name and recipient names
+   */
+  private tryExactMatch(greetingName: string, recipient: ParsedRecipient, normalizedRecipientNames: string[]): MatchResult {
     for (const recipientName of normalizedRecipientNames) {
       if (greetingName === recipientName) {
         return {
@@ -118,17 +350,53 @@ export class NameMatchingEngine {
   }
 
   /**
-   * Attempts partial matching for first/last name components
+   * Attempts matching through known nicknames and diminutives (Bob/Robert, Sepp/Josef)
    */
-  private tryPartialMatch(greetingName: string, recipient: ParsedRecipient): MatchResult {
-    const normalizedRecipientNames = recipient.extractedNames.map(name => this.normalizeName(name));
-    
-    // Check display name if available
-    if (recipient.displayName) {
-      const displayNameParts = this.extractNameParts(recipient.displayName);
-      normalizedRecipientNames.push(...displayNameParts.map(name => this.normalizeName(name)));
+  private tryNicknameMatch(greetingName: string, recipient: ParsedRecipient, normalizedRecipientNames: string[]): MatchResult {
+    for (const recipientName of normalizedRecipientNames) {
+      if (this.nicknameDictionary.areEquivalent(greetingName, recipientName)) {
+        return {
+          recipient,
+          matchType: 'nickname',
+          confidence: NameMatchingEngine.NICKNAME_MATCH_CONFIDENCE
+        };
+      }
     }
 
+    return {
+      recipient,
+      matchType: 'none',
+      confidence: 0
+    };
+  }
+
+  /**
+   * Attempts matching a first name against the initial of an initials mailbox ("John" for jdoe@);
+   * only when the recipient's first name is unknown and the greeting name may be a first name
+   */
+  private tryInitialMatch(greetingName: string, recipient: ParsedRecipient, nameRole?: NameRole): MatchResult {
+    if (recipient.firstInitial && !recipient.firstName && (nameRole === undefined || nameRole === 'first') &&
+        greetingName.length > 1 && greetingName.charAt(0) === recipient.firstInitial) {
+      return {
+        recipient,
+        matchType: 'initial',
+        confidence: recipient.mailboxFormat === 'flast'
+          ? NameMatchingEngine.LEARNED_INITIAL_MATCH_CONFIDENCE
+          : NameMatchingEngine.INITIAL_MATCH_CONFIDENCE
+      };
+    }
+
+    return {
+      recipient,
+      matchType: 'none',
+      confidence: 0
+    };
+  }
+
+  /**
+   * Attempts partial matching for first/last name components
+   */
+  private tryPartialMatch(greetingName: string, recipient: ParsedRecipient, normalizedRecipientNames: string[]): MatchResult {
     let bestConfidence = 0;
 
     for (const recipientName of normalizedRecipientNames) {
@@ -148,17 +416,39 @@ export class NameMatchingEngine {
   }
 
   /**
-   * Attempts fuzzy matching for common misspellings
+   * Attempts phonetic matching for sound-alike spellings ("Maier/Meyer", "Catherine/Kathryn"),
+   * using Cologne phonetics for German greetings and Double Metaphone otherwise
    */
-  private tryFuzzyMatch(greetingName: string, recipient: ParsedRecipient): MatchResult {
-    const normalizedRecipientNames = recipient.extractedNames.map(name => this.normalizeName(name));
-    
-    // Check display name if available
-    if (recipient.displayName) {
-      const displayNameParts = this.extractNameParts(recipient.displayName);
-      normalizedRecipientNames.push(...displayNameParts.map(name => this.normalizeName(name)));
+  private tryPhoneticMatch(
+    greetingName: string,
+    recipient: ParsedRecipient,
+    normalizedRecipientNames: string[],
+    language?: GreetingLanguage
+  ): MatchResult {
+    const algorithms = getPhoneticAlgorithms(language);
+
+    for (const recipientName of normalizedRecipientNames) {
+      if (this.calculateLevenshteinSimilarity(greetingName, recipientName) >= NameMatchingEngine.PHONETIC_MIN_SIMILARITY &&
+          soundsAlike(greetingName, recipientName, algorithms)) {
+        return {
+          recipient,
+          matchType: 'phonetic',
+          confidence: NameMatchingEngine.PHONETIC_MATCH_CONFIDENCE
+        };
+      }
     }
 
+    return {
+      recipient,
+      matchType: 'none',
+      confidence: 0
+    };
+  }
+
+  /**
+   * Attempts fuzzy matching for common misspellings
+   */
+  private tryFuzzyMatch(greetingName: string, recipient: ParsedRecipient, normalizedRecipientNames: string[]): MatchResult {
     let bestConfidence = 0;
 
     for (const recipientName of normalizedRecipientNames) {
@@ -178,25 +468,77 @@ export class NameMatchingEngine {
   }
 
   /**
-   * Normalizes a name for comparison (lowercase, trim, handle German characters)
+   * Folds the recipient's extracted names and display name parts to comparable keys
+   * @param nameRole Restricts the keys to the recipient's given names or surname, where they are known
    */
-  private normalizeName(name: string): string {
-    return name
-      .toLowerCase()
-      .trim()
-      // Normalize German umlauts for better matching
-      .replace(/ä/g, 'ae')
-      .replace(/ö/g, 'oe')
-      .replace(/ü/g, 'ue')
-      .replace(/ß/g, 'ss')
-      .replace(/[^a-z0-9]/g, ''); // Remove non-alphanumeric characters
+  private getRecipientNameKeys(recipient: ParsedRecipient, nameRole?: NameRole): string[] {
+    const roles = nameRole && nameRole !== 'middle' ? this.getRecipientNameRoles(recipient) : undefined;
+    if (roles) {
+      return nameRole === 'first' ? roles.first : roles.last;
+    }
+
+    const names = [...recipient.extractedNames];
+
+    // Check display name if available
+    if (recipient.displayName) {
+      names.push(...this.extractNameParts(recipient.displayName));
+    }
+
+    return this.toNameKeys(names);
+  }
+
+  /**
+   * Tells a recipient's given names from the surname, by the parsed display name ("Anna Maria Schmidt",
+   * "Schmidt, Anna (IT)"), the contacts directory or else a first.last mailbox
+   * @returns The keys of each, or undefined when the surname is unknown
+   */
+  private getRecipientNameRoles(recipient: ParsedRecipient): RecipientNameRoles | undefined {
+    const name = recipient.lastName
+      ? { firstName: recipient.firstName, middleNames: recipient.middleNames || [], lastName: recipient.lastName }
+      : parseDisplayName(recipient.displayName);
+
+    if (name.lastName) {
+      // The name a contact goes by and their nicknames stand in for the first name
+      const aliases = [...(recipient.preferredName ? [recipient.preferredName] : []), ...(recipient.nicknames || [])];
+      const givenNames = name.firstName ? [name.firstName, ...name.middleNames, ...aliases] : [];
+      return {
+        // "Frau Weber" says nothing about the first name, so any name part may be it
+        first: givenNames.length > 0 ? this.toNameKeys(givenNames) : this.getRecipientNameKeys(recipient),
+        last: this.toNameKeys([name.lastName, ...name.lastName.split(/\s+/)])
+      };
+    }
+
+    const parts = recipient.email.split('@')[0].split(/[._-]+/).filter(part => part.length > 1 && !/\d/.test(part));
+    if (parts.length < 2) {
+      return undefined;
+    }
+
+    return {
+      first: this.toNameKeys(parts.slice(0, -1)),
+      last: this.toNameKeys(parts.slice(-1))
+    };
+  }
+
+  /**
+   * Folds names to their distinct comparison keys
+   */
+  private toNameKeys(names: string[]): string[] {
+    const keys: string[] = [];
+    for (const name of names) {
+      for (const key of getNameMatchKeys(name)) {
+        if (keys.indexOf(key) === -1) {
+          keys.push(key);
+        }
+      }
+    }
+    return keys;
   }
 
   /**
-   * Extracts name parts from a display name string
+   * Extracts name parts from a display name string, leaving out departments and tags ("(IT-SEC)", "[EXT]")
    */
   private extractNameParts(displayName: string): string[] {
-    return displayName
+    return parseDisplayName(displayName).nameParts.join(' ')
       .split(/[\s,.-]+/) // Split on common separators
       .filter(part => part.length > 1) // Filter out single characters
       .map(part => part.trim());
@@ -0,0 +1,115 @@
+/**
+ * Unicode-aware name normalization
+ * Keeps names like "Zoë", "José", "Łukasz" or "Søren" intact during extraction and folds them
+ * to comparable keys for matching, so "Søren" matches both soren@ and soeren@ mailboxes
+ */
+
+/**
+ * Letters that may appear in a name, for use inside a regex character class:
+ * Latin (including Latin-1, Extended-A/B and Extended Additional), combining marks
+ * for decomposed input, Greek and Cyrillic
+ */
+export const NAME_LETTERS = 'a-zA-ZÀ-ÖØ-öø-ɏḀ-ỿ\\u0300-\\u036fͰ-ͳͶ-ͷͻ-ͽΆΈ-ώЀ-ӿ';
+
+/**
+ * Everything that is neither a name letter, a digit, whitespace, a hyphen nor an apostrophe
+ */
+const NON_NAME_CHARACTERS = new RegExp(`[^${NAME_LETTERS}0-9\\s'-]`, 'g');
+
+/**
+ * Everything that cannot be part of a folded name key
+ */
+const NON_KEY_CHARACTERS = new RegExp(`[^${NAME_LETTERS}0-9]`, 'g');
+
+/**
+ * Combining diacritical marks left over after NFD decomposition
+ */
+const COMBINING_MARKS = /[\u0300-\u036f]/g;
+
+/**
+ * Letters that NFD does not decompose, with their usual ASCII spelling
+ */
+const BASE_LETTERS: Record<string, string> = {
+  'ß': 'ss',
+  'ẞ': 'ss',
+  'æ': 'ae',
+  'œ': 'oe',
+  'ø': 'o',
+  'ł': 'l',
+  'đ': 'd',
+  'ð': 'd',
+  'þ': 'th',
+  'ı': 'i',
+  'ħ': 'h',
+  'ŋ': 'ng'
+};
+
+/**
+ * Language-specific transliterations used in mailbox names (Müller → mueller, Søren → soeren, Åse → aase)
+ */
+const TRANSLITERATIONS: Record<string, string> = {
+  'ä': 'ae',
+  'ö': 'oe',
+  'ü': 'ue',
+  'ø': 'oe',
+  'å': 'aa'
+};
+
+const BASE_LETTER_PATTERN = new RegExp(`[${Object.keys(BASE_LETTERS).join('')}]`, 'g');
+const TRANSLITERATION_PATTERN = new RegExp(`[${Object.keys(TRANSLITERATIONS).join('')}]`, 'g');
+
+/**
+ * How letters with diacritics are folded:
+ * - 'strip' drops the marks (Müller → muller, Søren → soren)
+ * - 'transliterate' spells them out first (Müller → mueller, Søren → soeren)
+ */
+export type NameFoldingStyle = 'strip' | 'transliterate';
+
+/**
+ * Removes punctuation and symbols from a name while keeping letters of any supported script
+ * @returns The cleaned name; case, accents and whitespace are left untouched
+ */
+export function removeNonNameCharacters(name: string): string {
+  if (!name || typeof name !== 'string') {
+    return '';
+  }
+  return name.replace(NON_NAME_CHARACTERS, '');
+}
+
+/**
+ * Folds a name to a lowercase comparison key without diacritics, spaces or punctuation
+ * @param name The name to fold
+ * @param style Whether umlauts and similar letters are stripped or transliterated
+ * @returns The folded key, e.g. "Ñúñez" → "nunez", "Łukasz" → "lukasz"
+ */
+export function foldName(name: string, style: NameFoldingStyle = 'strip'): string {
+  if (!name || typeof name !== 'string') {
+    return '';
+  }
+
+  let folded = name.normalize('NFC').toLowerCase();
+  if (style === 'transliterate') {
+    folded = folded.replace(TRANSLITERATION_PATTERN, letter => TRANSLITERATIONS[letter]);
+  }
+
+  return folded
+    .replace(BASE_LETTER_PATTERN, letter => BASE_LETTERS[letter])
+    .normalize('NFD')
+    .replace(COMBINING_MARKS, '')
+    .replace(NON_KEY_CHARACTERS, '');
+}
+
+/**
+ * Returns every key a name may be written as, so both folding styles can be compared
+ * @returns One key for names without umlauts, two for names like "Müller" (muller, mueller)
+ */
+export function getNameMatchKeys(name: string): string[] {
+  const keys: string[] = [];
+  for (const style of ['strip', 'transliterate'] as NameFoldingStyle[]) {
+    const key = foldName(name, style);
+    if (key && keys.indexOf(key) === -1) {
+      keys.push(key);
+    }
+  }
+  return keys;
+}
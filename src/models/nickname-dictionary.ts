@@ -0,0 +1,190 @@
+/**
+ * Nickname and diminutive dictionary for name matching
+ * Bundles common English and German equivalences (Bob/Robert, Sepp/Josef) and accepts user-defined groups
+ */
+
+import { getNameMatchKeys } from './name-normalizer';
+
+/**
+ * Bundled equivalence groups. Every name in a group is considered the same person's name;
+ * a name may appear in several groups (e.g. "Alex" for Alexander and Alexandra) without
+ * making those groups equivalent to each other.
+ */
+export const BUNDLED_NICKNAME_GROUPS: readonly string[][] = [
+  // English
+  ['robert', 'bob', 'bobby', 'rob', 'robbie', 'bert'],
+  ['william', 'bill', 'billy', 'will', 'willy', 'liam'],
+  ['richard', 'dick', 'rick', 'ricky', 'rich', 'richie'],
+  ['james', 'jim', 'jimmy', 'jamie'],
+  ['john', 'jack', 'johnny'],
+  ['jonathan', 'jon', 'jonny'],
+  ['michael', 'mike', 'mikey', 'mick', 'micky', 'michi', 'micha'],
+  ['thomas', 'tom', 'tommy'],
+  ['christopher', 'chris', 'kit'],
+  ['christian', 'chris', 'christl'],
+  ['christina', 'christine', 'chris', 'chrissy', 'tina', 'christl'],
+  ['elizabeth', 'elisabeth', 'liz', 'lizzy', 'beth', 'betty', 'eliza', 'libby', 'lisa', 'liesl', 'sissi', 'elli'],
+  ['margaret', 'maggie', 'meg', 'peggy', 'marge'],
+  ['katherine', 'catherine', 'kathryn', 'kate', 'katie', 'kathy', 'cathy', 'kat', 'kitty'],
+  ['alexander', 'alex', 'sandy', 'xander', 'sascha'],
+  ['alexandra', 'alex', 'sasha', 'lexi'],
+  ['andrew', 'andy', 'drew'],
+  ['anthony', 'tony'],
+  ['benjamin', 'ben', 'benny'],
+  ['charles', 'charlie', 'chuck', 'chas'],
+  ['daniel', 'dan', 'danny'],
+  ['david', 'dave', 'davy'],
+  ['edward', 'ed', 'eddie', 'ted', 'ned'],
+  ['frederick', 'fred', 'freddie'],
+  ['gregory', 'greg'],
+  ['jennifer', 'jen', 'jenny'],
+  ['jessica', 'jess', 'jessie'],
+  ['joseph', 'josef', 'joe', 'joey', 'sepp', 'seppl', 'beppo', 'jupp'],
+  ['joshua', 'josh'],
+  ['kenneth', 'ken', 'kenny'],
+  ['lawrence', 'larry'],
+  ['matthew', 'matt'],
+  ['nicholas', 'nick', 'nicky'],
+  ['patricia', 'pat', 'patty', 'trish'],
+  ['patrick', 'pat', 'paddy'],
+  ['peter', 'pete'],
+  ['rebecca', 'becky', 'becca'],
+  ['samuel', 'sam', 'sammy'],
+  ['samantha', 'sam', 'sammy'],
+  ['stephen', 'steven', 'steve'],
+  ['susan', 'sue', 'susie'],
+  ['theodore', 'theo', 'ted', 'teddy'],
+  ['timothy', 'tim', 'timmy'],
+  ['victoria', 'vicky', 'tori'],
+  ['zachary', 'zach', 'zack'],
+  ['abigail', 'abby'],
+  ['deborah', 'deb', 'debbie'],
+  ['henry', 'hank', 'harry'],
+  ['harold', 'harry', 'hal'],
+  ['jacqueline', 'jackie'],
+  ['judith', 'judy'],
+  ['pamela', 'pam'],
+  ['ronald', 'ron', 'ronnie'],
+  ['donald', 'don', 'donnie'],
+  ['douglas', 'doug'],
+  ['gerald', 'gerry', 'jerry'],
+  ['jeffrey', 'jeff'],
+  ['leonard', 'leo', 'len', 'lenny'],
+  ['nathaniel', 'nathan', 'nate', 'nat'],
+  ['philip', 'phillip', 'phil'],
+  ['raymond', 'ray'],
+  ['walter', 'walt', 'wally'],
+  ['albert', 'al', 'bert'],
+  ['eleanor', 'ellie', 'nell', 'nora'],
+
+  // German
+  ['johannes', 'johann', 'hans', 'hansi', 'hannes'],
+  ['franz', 'franzi'],
+  ['franziska', 'franzi'],
+  ['wolfgang', 'wolf', 'wolfi'],
+  ['andreas', 'andi', 'andy', 'anderl'],
+  ['maximilian', 'max', 'maxi'],
+  ['matthias', 'matze', 'hias'],
+  ['stefan', 'stephan', 'steff'],
+  ['tobias', 'tobi'],
+  ['sebastian', 'basti', 'wastl'],
+  ['friedrich', 'fritz', 'fritzi'],
+  ['margarete', 'gretel', 'grete', 'margit'],
+  ['katharina', 'kathi', 'kati', 'katja'],
+  ['barbara', 'babsi', 'bärbel'],
+  ['magdalena', 'lena', 'leni'],
+  ['susanne', 'susi', 'sanne'],
+  ['anna', 'anni', 'annerl'],
+  ['theresa', 'therese', 'resi', 'thesi'],
+  ['ulrich', 'uli'],
+  ['wilhelm', 'willi', 'wim'],
+  ['georg', 'schorsch', 'jörg'],
+  ['heinrich', 'heinz', 'heiner', 'hein'],
+  ['bernhard', 'bernd', 'berni'],
+  ['gerhard', 'gerd'],
+  ['leopold', 'poldi', 'leo'],
+  ['nikolaus', 'klaus', 'niko'],
+  ['rudolf', 'rudi'],
+  ['dominik', 'domi'],
+  ['benedikt', 'bene', 'benni'],
+  ['manfred', 'manni'],
+  ['reinhard', 'reini']
+];
+
+/**
+ * Lookup of nickname equivalences between first names
+ */
+export class NicknameDictionary {
+  private readonly groupsByName = new Map<string, Set<number>>();
+  private groupCount = 0;
+
+  /**
+   * @param customGroups Additional equivalence groups configured by the user
+   * @param includeBundled Whether to load the bundled English/German table
+   */
+  constructor(customGroups: string[][] = [], includeBundled: boolean = true) {
+    if (includeBundled) {
+      BUNDLED_NICKNAME_GROUPS.forEach(group => this.addGroup(group));
+    }
+    customGroups.forEach(group => this.addGroup(group));
+  }
+
+  /**
+   * Adds an equivalence group; groups with fewer than two distinct names are ignored.
+   * Every spelling of a name is indexed with the matching engine's keys, so "Jörg" is found as both
+   * "jorg" and "joerg", and "Jörg, Joerg" is one name rather than a group
+   */
+  public addGroup(names: string[]): void {
+    const distinctNames: string[][] = [];
+    for (const name of names) {
+      const keys = getNameMatchKeys(name);
+      if (keys.length > 0 && !distinctNames.some(other => other.some(key => keys.indexOf(key) !== -1))) {
+        distinctNames.push(keys);
+      }
+    }
+    if (distinctNames.length < 2) {
+      return;
+    }
+
+    const groupId = this.groupCount++;
+    for (const name of names) {
+      for (const key of getNameMatchKeys(name)) {
+        const groups = this.groupsByName.get(key) || new Set<number>();
+        groups.add(groupId);
+        this.groupsByName.set(key, groups);
+      }
+    }
+  }
+
+  /**
+   * Checks whether two different names are nickname equivalents of each other
+   */
+  public areEquivalent(name1: string, name2: string): boolean {
+    const firstKeys = getNameMatchKeys(name1);
+    const secondKeys = getNameMatchKeys(name2);
+    if (firstKeys.length === 0 || secondKeys.length === 0 || firstKeys.some(key => secondKeys.indexOf(key) !== -1)) {
+      return false;
+    }
+
+    for (const first of firstKeys) {
+      const firstGroups = this.groupsByName.get(first);
+      if (!firstGroups) {
+        continue;
+      }
+
+      for (const second of secondKeys) {
+        const secondGroups = this.groupsByName.get(second);
+        if (!secondGroups) {
+          continue;
+        }
+
+        for (const groupId of firstGroups) {
+          if (secondGroups.has(groupId)) {
+            return true;
+          }
+        }
+      }
+    }
+    return false;
+  }
+}
@@ -3,7 +3,7 @@
  * Implements non-intrusive warning display with suggested corrections and dismissible UI
  */
 
-import { ValidationResult, ValidationStatus } from './interfaces';
+import { ValidationResult, ValidationStatus, ParsedRecipient } from './interfaces';
 import { BaseValidationError, DiagnosticLogger, OfficeErrorHandler } from '../integration/error-handler';
 
 export interface NotificationSystemConfig {
@@ -22,12 +22,24 @@ export interface NotificationCallbacks {
   onWarningDismissed?: (warningId: string) => void;
   /** Called when a correction is applied */
   onCorrectionApplied?: (originalName: string, correctedName: string) => void;
+  /** Called when the user chooses to always accept a greeting name for a recipient; offered only when set */
+  onAliasAccepted?: (greetingName: string, recipient: ParsedRecipient) => void;
   /** Called when settings are requested */
   onSettingsRequested?: () => void;
   /** Called when retry is requested for an error */
   onRetryRequested?: (errorId: string, error: Error) => void;
 }
 
+/**
+ * A follow-up the user can take on a notification, such as undoing what was just done
+ */
+export interface NotificationAction {
+  /** Button label, e.g. "Undo" */
+  label: string;
+  /** Called when the button is clicked; the notice closes first */
+  onAction: () => void;
+}
+
 /**
  * Main notification system class
  */
@@ -139,7 +151,12 @@ export class NotificationSystem {
   /**
    * Show a success notification
    */
-  public showSuccess(message: string = 'All names validated successfully'): void {
+  public showSuccess(message: string = 'All names validated successfully', action?: NotificationAction): void {
+    // An action can't wait for the next validation to clear it, so it is offered even when success messages are off
+    if (action) {
+      this.showActionNotice(message, action);
+    }
+
     if (!this.config.showSuccessNotifications) {
       return;
     }
@@ -156,6 +173,38 @@ export class NotificationSystem {
     }, 3000);
   }
 
+  /**
+   * Show a notice with an action button above the warnings; it stays until used, dismissed or
+   * replaced by the next action, so later validations don't take the action away
+   */
+  private showActionNotice(message: string, action: NotificationAction): void {
+    document.getElementById('action-notice')?.remove();
+
+    const notice = document.createElement('div');
+    notice.id = 'action-notice';
+    notice.className = 'action-notice';
+    notice.setAttribute('role', 'status');
+    notice.innerHTML = `
+      <span class="action-notice-message">${this.escapeHtml(message)}</span>
+      <button class="action-notice-button">${this.escapeHtml(action.label)}</button>
+      <button class="dismiss-action-notice" aria-label="Dismiss" title="Dismiss">×</button>
+    `;
+
+    notice.querySelector('.action-notice-button')?.addEventListener('click', () => {
+      notice.remove();
+      action.onAction();
+    });
+    notice.querySelector('.dismiss-action-notice')?.addEventListener('click', () => notice.remove());
+
+    const warningsContainer = document.getElementById('warnings-container');
+    const appBody = document.getElementById('app-body');
+    if (warningsContainer?.parentElement) {
+      warningsContainer.parentElement.insertBefore(notice, warningsContainer);
+    } else if (appBody) {
+      appBody.insertBefore(notice, appBody.firstChild);
+    }
+  }
+
   /**
    * Clear all notifications
    */
@@ -272,11 +321,31 @@ export class NotificationSystem {
 
     let suggestionText = '';
     let correctionButton = '';
-    
-    if (validation.suggestedRecipient) {
-      const suggestedName = validation.suggestedRecipient.extractedNames[0] || 
-                           validation.suggestedRecipient.displayName || 
-                           validation.suggestedRecipient.email.split('@')[0];
+    let messageHtml = `Name "<strong>${this.escapeHtml(validation.greetingName)}</strong>" doesn't match any recipient.`;
+
+    if (validation.warningType === 'sign_off_mismatch') {
+      // The greeting corrector can't rewrite sign-offs, so there is no correction to offer
+      messageHtml = this.escapeHtml(describeSignOffMismatch(validation));
+    } else if (validation.warningType === 'recipient_not_greeted') {
+      messageHtml = this.escapeHtml(describeUngreetedRecipient(validation));
+    } else if (validation.warningType === 'cc_only_greeting') {
+      messageHtml = this.escapeHtml(describeCcOnlyGreeting(validation));
+    } else if (validation.warningType === 'register_mismatch') {
+      messageHtml = this.escapeHtml(describeRegisterMismatch(validation));
+    } else if (validation.warningType === 'group_greeting_single_recipient') {
+      messageHtml = this.escapeHtml(describeGroupGreeting(validation));
+    } else if (validation.warningType === 'salutation_mismatch') {
+      // The name is right, so replacing it wouldn't help; the title has to be fixed by hand
+      messageHtml = this.escapeHtml(describeSalutationMismatch(validation));
+    } else if (validation.warningType === 'split_full_name') {
+      // Either part may be the wrong one, so there is no single correction to offer
+      messageHtml = this.escapeHtml(describeSplitFullName(validation));
+    } else if (validation.warningType === 'ambiguous_greeting') {
+      // The name is right for several recipients; only the author can say which one was meant
+      warningElement.className += ' ambiguous-greeting';
+      messageHtml = `${this.escapeHtml(describeAmbiguousGreeting(validation))} Consider adding a surname.`;
+    } else if (validation.suggestedRecipient) {
+      const suggestedName = getSuggestedName(validation.suggestedRecipient);
       suggestionText = ` Did you mean "${suggestedName}"?`;
       
       correctionButton = `
@@ -286,16 +355,49 @@ export class NotificationSystem {
       `;
     }
 
+    // The name may be right after all (a nickname the dictionary doesn't know); dismissing it asks
+    // whether to always accept it for the recipient it stands for
+    const aliasRecipients = this.getAliasRecipients(validation);
+    const dismissPrompt = aliasRecipients.length === 0 ? '' : `
+        <div class="dismiss-prompt" hidden>
+          <span class="dismiss-prompt-message">Always accept "${this.escapeHtml(validation.greetingName)}" for</span>
+          ${aliasRecipients.map(recipient => `
+          <button class="accept-alias" data-email="${this.escapeHtml(recipient.email)}" title="${this.escapeHtml(recipient.email)}">
+            ${this.escapeHtml(recipient.displayName || recipient.email)}
+          </button>`).join('')}
+          <button class="dismiss-only">Just dismiss</button>
+        </div>
+      `;
+
+    const isAmbiguous = validation.warningType === 'ambiguous_greeting';
+    const iconHtml = isAmbiguous
+      ? '<div class="warning-icon" role="img" aria-label="Ambiguous greeting">❓</div>'
+      : '<div class="warning-icon" role="img" aria-label="Warning">⚠️</div>';
+    // Coverage and salutation warnings are facts about the recipients, so a confidence would mean nothing
+    const isCoverageWarning = validation.warningType === 'recipient_not_greeted' ||
+      validation.warningType === 'cc_only_greeting' ||
+      validation.warningType === 'salutation_mismatch' ||
+      validation.warningType === 'register_mismatch' ||
+      validation.warningType === 'group_greeting_single_recipient' ||
+      validation.warningType === 'split_full_name';
+    let detailHtml = `<div class="warning-confidence" aria-label="Confidence level">
+          Confidence: ${Math.round(validation.confidence * 100)}%
+        </div>`;
+    if (isAmbiguous) {
+      detailHtml = `<div class="warning-candidates">Matches ${(validation.candidates || []).length} recipients</div>`;
+    } else if (isCoverageWarning) {
+      detailHtml = '';
+    }
+
     warningElement.innerHTML = `
-      <div class="warning-icon" role="img" aria-label="Warning">⚠️</div>
+      ${iconHtml}
       <div class="warning-content">
         <div class="warning-message" role="alert">
-          Name "<strong>${this.escapeHtml(validation.greetingName)}</strong>" doesn't match any recipient.${suggestionText}
-        </div>
-        <div class="warning-confidence" aria-label="Confidence level">
-          Confidence: ${Math.round(validation.confidence * 100)}%
+          ${messageHtml}${suggestionText}
         </div>
+        ${detailHtml}
         ${correctionButton}
+        ${dismissPrompt}
       </div>
       <button class="dismiss-warning" aria-label="Dismiss warning" title="Dismiss this warning">×</button>
     `;
@@ -318,7 +420,7 @@ export class NotificationSystem {
     const dismissButton = warningElement.querySelector('.dismiss-warning');
     if (dismissButton) {
       dismissButton.addEventListener('click', () => {
-        this.dismissWarning(warningId);
+        this.requestDismissal(warningElement, warningId);
       });
     }
 
@@ -338,14 +440,61 @@ export class NotificationSystem {
       });
     }
 
+    // Accept alias buttons, one per recipient the name may stand for
+    const aliasRecipients = this.getAliasRecipients(validation);
+    warningElement.querySelectorAll('.accept-alias').forEach(aliasButton => {
+      const recipient = aliasRecipients.find(candidate => candidate.email === aliasButton.getAttribute('data-email'));
+      aliasButton.addEventListener('click', () => {
+        if (recipient && this.callbacks.onAliasAccepted) {
+          this.callbacks.onAliasAccepted(validation.greetingName, recipient);
+        }
+
+        this.dismissWarning(warningId);
+      });
+    });
+
+    const dismissOnlyButton = warningElement.querySelector('.dismiss-only');
+    if (dismissOnlyButton) {
+      dismissOnlyButton.addEventListener('click', () => {
+        this.dismissWarning(warningId);
+      });
+    }
+
     // Keyboard accessibility
     warningElement.addEventListener('keydown', (event) => {
       if (event.key === 'Escape') {
-        this.dismissWarning(warningId);
+        this.requestDismissal(warningElement, warningId);
       }
     });
   }
 
+  /**
+   * Dismiss a warning, first asking whether to always accept the name when aliases can be learned;
+   * dismissing again while asked dismisses it for good
+   */
+  private requestDismissal(warningElement: HTMLElement, warningId: string): void {
+    const prompt = warningElement.querySelector<HTMLElement>('.dismiss-prompt');
+    if (prompt && prompt.hidden) {
+      prompt.hidden = false;
+      prompt.querySelector<HTMLElement>('.accept-alias')?.focus();
+      return;
+    }
+
+    this.dismissWarning(warningId);
+  }
+
+  /**
+   * Recipients a flagged greeting name may be learned for: the suggested recipient, or else every
+   * recipient the name was checked against; none unless aliases can be learned
+   */
+  private getAliasRecipients(validation: ValidationResult): ParsedRecipient[] {
+    const isNameMismatch = !validation.warningType || validation.warningType === 'greeting_mismatch';
+    if (!this.callbacks.onAliasAccepted || !isNameMismatch || validation.isValid || !validation.greetingName) {
+      return [];
+    }
+    return validation.suggestedRecipient ? [validation.suggestedRecipient] : validation.possibleRecipients || [];
+  }
+
   /**
    * Dismiss the oldest warning when max limit is reached
    */
@@ -455,6 +604,127 @@ export class NotificationSystem {
   }
 }
 
+/**
+ * Get the name to suggest as a correction for a recipient
+ */
+export function getSuggestedName(recipient: ParsedRecipient): string {
+  return recipient.extractedNames[0] || 
+         recipient.displayName || 
+         recipient.email.split('@')[0];
+}
+
+/**
+ * Describe a sign-off that doesn't match the sender, e.g. for a template drafted by a colleague
+ */
+export function describeSignOffMismatch(validation: ValidationResult): string {
+  const sender = validation.suggestedRecipient;
+  const senderName = sender ? sender.displayName || sender.email : 'you';
+  return `Signed as "${validation.greetingName}", but this message is sent by "${senderName}".`;
+}
+
+/**
+ * Whether a result needs the user's attention: a mismatch, a greeting that doesn't
+ * single out one recipient, a greeting that only reaches CC/BCC recipients, a
+ * salutation that doesn't fit the recipient, a switch between "Sie" and "du", or a
+ * greeting to a group in a mail to one person
+ */
+export function isValidationWarning(validation: ValidationResult): boolean {
+  return !validation.isValid ||
+    validation.warningType === 'ambiguous_greeting' ||
+    validation.warningType === 'cc_only_greeting' ||
+    validation.warningType === 'salutation_mismatch' ||
+    validation.warningType === 'register_mismatch' ||
+    validation.warningType === 'group_greeting_single_recipient';
+}
+
+/**
+ * Describe a greeting name that matches several recipients equally well
+ */
+export function describeAmbiguousGreeting(validation: ValidationResult): string {
+  const candidates = validation.candidates || [];
+  const topConfidence = candidates.length > 0 ? candidates[0].confidence : 0;
+  const names = candidates
+    .filter(candidate => candidate.confidence === topConfidence)
+    .map(candidate => describeRecipient(candidate.recipient));
+  return `"${validation.greetingName}" could mean any of ${names.join(', ')}.`;
+}
+
+/**
+ * Describe a To recipient that no greeting covers
+ */
+export function describeUngreetedRecipient(validation: ValidationResult): string {
+  return `${describeRecipient(validation.suggestedRecipient)} is on the To line but isn't greeted.`;
+}
+
+/**
+ * Describe a greeting name that only matches recipients in CC or BCC
+ */
+export function describeCcOnlyGreeting(validation: ValidationResult): string {
+  return `"${validation.greetingName}" only matches ${describeRecipient(validation.suggestedRecipient)}, who is in CC/BCC rather than To.`;
+}
+
+/**
+ * Describe a full name whose parts match different recipients
+ */
+export function describeSplitFullName(validation: ValidationResult): string {
+  const parts = validation.nameParts || [];
+  const fullName = parts.map(part => part.name).join(' ') || validation.greetingName;
+  const matches = parts.map(part => `"${part.name}" matches ${describeRecipient(part.recipient)}`);
+  return `"${fullName}" mixes names of different recipients: ${matches.join(', ')}.`;
+}
+
+/**
+ * Describe a title or gendered greeting form that contradicts the recipient's display name
+ */
+export function describeSalutationMismatch(validation: ValidationResult): string {
+  const recipient = describeRecipient(validation.suggestedRecipient);
+  const issue = validation.salutationIssue;
+  if (issue && issue.kind === 'missing_title') {
+    return `The salutation for "${validation.greetingName}" leaves out the title "${issue.expected}" of ${recipient}.`;
+  }
+  const expected = issue ? ` (display name says "${issue.expected}")` : '';
+  return `The salutation for "${validation.greetingName}" doesn't fit ${recipient}${expected}.`;
+}
+
+/**
+ * Describe a German body that uses the other form of address than its greeting
+ */
+export function describeRegisterMismatch(validation: ValidationResult): string {
+  const mismatch = validation.registerMismatch;
+  if (!mismatch) {
+    return 'The text switches between "Sie" and "du".';
+  }
+
+  // Each pronoun once, as first written ("Du", "dich")
+  const seen = new Set<string>();
+  const pronouns = mismatch.pronouns.filter(pronoun => {
+    const key = pronoun.toLowerCase();
+    if (seen.has(key)) {
+      return false;
+    }
+    seen.add(key);
+    return true;
+  });
+  return `"${mismatch.greetingText}" is ${mismatch.greeting}, but the text uses ${pronouns.map(pronoun => `"${pronoun}"`).join(', ')}.`;
+}
+
+/**
+ * Describe a greeting to a group in a mail that goes to a single person
+ */
+export function describeGroupGreeting(validation: ValidationResult): string {
+  return `"${validation.greetingName}" addresses a group, but the mail only goes to ${describeRecipient(validation.suggestedRecipient)}.`;
+}
+
+/**
+ * Name a recipient as "Display Name (address)", or just the address
+ */
+function describeRecipient(recipient?: ParsedRecipient): string {
+  if (!recipient) {
+    return 'a recipient';
+  }
+  return recipient.displayName ? `${recipient.displayName} (${recipient.email})` : recipient.email;
+}
+
 /**
  * Factory function to create a NotificationSystem instance
  */
@@ -0,0 +1,574 @@
+/**
+ * Phonetic name encoding
+ * Cologne phonetics (Kölner Phonetik) for German and Double Metaphone for English and the
+ * other languages, so sound-alike spellings like "Maier/Meyer" or "Catherine/Kathryn" match
+ */
+
+import { GreetingLanguage } from './interfaces';
+import { foldName } from './name-normalizer';
+
+/**
+ * Available phonetic algorithms
+ */
+export type PhoneticAlgorithm = 'cologne' | 'double_metaphone';
+
+/**
+ * Letters Cologne phonetics and Double Metaphone treat as vowels
+ */
+const VOWELS = 'AEIOUY';
+
+/**
+ * Chooses the phonetic algorithms for a greeting language
+ * @returns Cologne phonetics for German, Double Metaphone for the others, both when the language is unknown
+ */
+export function getPhoneticAlgorithms(language?: GreetingLanguage): PhoneticAlgorithm[] {
+  if (!language) {
+    return ['cologne', 'double_metaphone'];
+  }
+  return language === 'de' ? ['cologne'] : ['double_metaphone'];
+}
+
+/**
+ * Encodes a name with one phonetic algorithm
+ * @returns The distinct non-empty codes (Double Metaphone may yield a primary and an alternate code)
+ */
+export function getPhoneticCodes(name: string, algorithm: PhoneticAlgorithm): string[] {
+  const codes = algorithm === 'cologne' ? [colognePhonetic(name)] : doubleMetaphone(name);
+  return codes.filter((code, index) => code.length > 0 && codes.indexOf(code) === index);
+}
+
+/**
+ * Checks whether two names sound alike with any of the given algorithms. Since the encoders drop
+ * most vowels, names starting with a vowel must share their first letter ("Anna"/"Ina") and names
+ * ending in a vowel their last one ("Maria"/"Mario")
+ */
+export function soundsAlike(first: string, second: string, algorithms: PhoneticAlgorithm[]): boolean {
+  const a = foldName(first);
+  const b = foldName(second);
+  if (!a || !b) {
+    return false;
+  }
+  if ((isVowel(a.charAt(0)) || isVowel(b.charAt(0))) && a.charAt(0) !== b.charAt(0)) {
+    return false;
+  }
+  const aLast = a.charAt(a.length - 1);
+  const bLast = b.charAt(b.length - 1);
+  if (isVowel(aLast) && isVowel(bLast) && aLast !== bLast) {
+    return false;
+  }
+
+  return algorithms.some(algorithm => {
+    const codes = getPhoneticCodes(a, algorithm);
+    return getPhoneticCodes(b, algorithm).some(code => codes.indexOf(code) !== -1);
+  });
+}
+
+/**
+ * Cologne phonetics: maps letters to digit groups by their context, collapses repeats and
+ * drops vowels after the first position ("Meyer" → "67", "Schmidt" → "862")
+ */
+export function colognePhonetic(name: string): string {
+  const value = foldName(name, 'transliterate').toUpperCase();
+  let digits = '';
+  let lastDigit = '';
+
+  for (let index = 0; index < value.length; index++) {
+    const code = getCologneCode(value, index);
+    // "H" has no code and does not separate repeated digits
+    if (code === '') {
+      continue;
+    }
+    if (code !== lastDigit) {
+      digits += code;
+    }
+    lastDigit = code.charAt(code.length - 1);
+  }
+
+  return digits.charAt(0) + digits.substring(1).replace(/0/g, '');
+}
+
+/**
+ * Cologne code of the letter at index
+ */
+function getCologneCode(value: string, index: number): string {
+  const letter = value.charAt(index);
+  const previous = value.charAt(index - 1);
+  const next = value.charAt(index + 1);
+
+  switch (letter) {
+    case 'A': case 'E': case 'I': case 'J': case 'O': case 'U': case 'Y':
+      return '0';
+    case 'H':
+      return '';
+    case 'B':
+      return '1';
+    case 'P':
+      return next === 'H' ? '3' : '1';
+    case 'D': case 'T':
+      return 'CSZ'.indexOf(next) !== -1 && next !== '' ? '8' : '2';
+    case 'F': case 'V': case 'W':
+      return '3';
+    case 'G': case 'K': case 'Q':
+      return '4';
+    case 'C':
+      if (index === 0) {
+        return 'AHKLOQRUX'.indexOf(next) !== -1 && next !== '' ? '4' : '8';
+      }
+      return 'AHKOQUX'.indexOf(next) !== -1 && next !== '' && 'SZ'.indexOf(previous) === -1 ? '4' : '8';
+    case 'X':
+      return 'CKQ'.indexOf(previous) !== -1 && previous !== '' ? '8' : '48';
+    case 'L':
+      return '5';
+    case 'M': case 'N':
+      return '6';
+    case 'R':
+      return '7';
+    case 'S': case 'Z':
+      return '8';
+    default:
+      return '';
+  }
+}
+
+/**
+ * Double Metaphone (Lawrence Philips): a primary and an alternate code for names whose
+ * pronunciation depends on their origin. Codes are not cut to four characters, which keeps
+ * longer names apart ("Christopher"/"Christina").
+ * @returns [primary, alternate]; the alternate equals the primary for most names
+ */
+export function doubleMetaphone(name: string): [string, string] {
+  const value = foldName(name).toUpperCase();
+  const length = value.length;
+  const last = length - 1;
+  const slavoGermanic = /W|K|CZ|WITZ/.test(value);
+  const germanic = /^(?:VAN|VON|SCH)/.test(value);
+  let primary = '';
+  let alternate = '';
+  let index = 0;
+
+  const charAt = (position: number): string => value.charAt(position);
+  const stringAt = (start: number, count: number, ...options: string[]): boolean =>
+    start >= 0 && options.indexOf(value.substr(start, count)) !== -1;
+  const vowelAt = (position: number): boolean => isVowel(charAt(position));
+  const add = (main: string, other: string = main): void => {
+    primary += main;
+    alternate += other;
+  };
+
+  // Silent first letters: "Gnaeus", "Knut", "Wright", "Psmith"
+  if (stringAt(0, 2, 'GN', 'KN', 'PN', 'WR', 'PS')) {
+    index++;
+  }
+  // "Xavier" starts with an S sound
+  if (charAt(0) === 'X') {
+    add('S');
+    index++;
+  }
+
+  while (index < length) {
+    switch (charAt(index)) {
+      case 'A': case 'E': case 'I': case 'O': case 'U': case 'Y':
+        // Only a leading vowel is coded
+        if (index === 0) {
+          add('A');
+        }
+        index++;
+        break;
+
+      case 'B':
+        add('P');
+        index += charAt(index + 1) === 'B' ? 2 : 1;
+        break;
+
+      case 'C':
+        index += encodeC();
+        break;
+
+      case 'D':
+        if (stringAt(index, 2, 'DG')) {
+          if (stringAt(index + 2, 1, 'I', 'E', 'Y')) {
+            add('J');
+            index += 3;
+          } else {
+            add('TK');
+            index += 2;
+          }
+        } else {
+          add('T');
+          index += stringAt(index, 2, 'DT', 'DD') ? 2 : 1;
+        }
+        break;
+
+      case 'F':
+        add('F');
+        index += charAt(index + 1) === 'F' ? 2 : 1;
+        break;
+
+      case 'G':
+        index += encodeG();
+        break;
+
+      case 'H':
+        // Only coded between vowels or at the start before a vowel
+        if ((index === 0 || vowelAt(index - 1)) && vowelAt(index + 1)) {
+          add('H');
+          index += 2;
+        } else {
+          index++;
+        }
+        break;
+
+      case 'J':
+        if (stringAt(index, 4, 'JOSE')) {
+          add(index === 0 && length === 4 ? 'H' : 'J', 'H');
+        } else if (index === 0) {
+          add('J', 'A');
+        } else if (vowelAt(index - 1) && !slavoGermanic && stringAt(index + 1, 1, 'A', 'O')) {
+          add('J', 'H');
+        } else if (index === last) {
+          add('J', '');
+        } else if (!stringAt(index + 1, 1, 'L', 'T', 'K', 'S', 'N', 'M', 'B', 'Z') && !stringAt(index - 1, 1, 'S', 'K', 'L')) {
+          add('J');
+        }
+        index += charAt(index + 1) === 'J' ? 2 : 1;
+        break;
+
+      case 'K':
+        add('K');
+        index += charAt(index + 1) === 'K' ? 2 : 1;
+        break;
+
+      case 'L':
+        if (charAt(index + 1) === 'L') {
+          // Spanish "-illo", "-illa", "-alle": the double L is barely pronounced
+          if ((index === length - 3 && stringAt(index - 1, 4, 'ILLO', 'ILLA', 'ALLE')) ||
+              ((stringAt(last - 1, 2, 'AS', 'OS') || stringAt(last, 1, 'A', 'O')) && stringAt(index - 1, 4, 'ALLE'))) {
+            add('L', '');
+          } else {
+            add('L');
+          }
+          index += 2;
+        } else {
+          add('L');
+          index++;
+        }
+        break;
+
+      case 'M':
+        add('M');
+        index += (stringAt(index - 1, 3, 'UMB') && (index + 1 === last || stringAt(index + 2, 2, 'ER'))) ||
+          charAt(index + 1) === 'M' ? 2 : 1;
+        break;
+
+      case 'N':
+        add('N');
+        index += charAt(index + 1) === 'N' ? 2 : 1;
+        break;
+
+      case 'P':
+        if (charAt(index + 1) === 'H') {
+          add('F');
+          index += 2;
+        } else {
+          add('P');
+          index += stringAt(index + 1, 1, 'P', 'B') ? 2 : 1;
+        }
+        break;
+
+      case 'Q':
+        add('K');
+        index += charAt(index + 1) === 'Q' ? 2 : 1;
+        break;
+
+      case 'R':
+        // French "-ier" endings ("Rogier") may drop the R
+        if (index === last && !slavoGermanic && stringAt(index - 2, 2, 'IE') && !stringAt(index - 4, 2, 'ME', 'MA')) {
+          add('', 'R');
+        } else {
+          add('R');
+        }
+        index += charAt(index + 1) === 'R' ? 2 : 1;
+        break;
+
+      case 'S':
+        index += encodeS();
+        break;
+
+      case 'T':
+        if (stringAt(index, 4, 'TION') || stringAt(index, 3, 'TIA', 'TCH')) {
+          add('X');
+          index += 3;
+        } else if (stringAt(index, 2, 'TH') || stringAt(index, 3, 'TTH')) {
+          // "Thomas" and "Thames" keep a T sound
+          if (stringAt(index + 2, 2, 'OM', 'AM') || germanic) {
+            add('T');
+          } else {
+            add('0', 'T');
+          }
+          index += 2;
+        } else {
+          add('T');
+          index += stringAt(index + 1, 1, 'T', 'D') ? 2 : 1;
+        }
+        break;
+
+      case 'V':
+        add('F');
+        index += charAt(index + 1) === 'V' ? 2 : 1;
+        break;
+
+      case 'W':
+        if (stringAt(index, 2, 'WR')) {
+          add('R');
+          index += 2;
+          break;
+        }
+        if (index === 0 && (vowelAt(1) || stringAt(0, 2, 'WH'))) {
+          if (vowelAt(1)) {
+            add('A', 'F');
+          } else {
+            add('A');
+          }
+        }
+        // Polish "-ewski" and German "Sch-" names may pronounce the W as F
+        if ((index === last && vowelAt(index - 1)) || stringAt(index - 1, 5, 'EWSKI', 'EWSKY', 'OWSKI', 'OWSKY') ||
+            stringAt(0, 3, 'SCH')) {
+          add('', 'F');
+          index++;
+        } else if (stringAt(index, 4, 'WICZ', 'WITZ')) {
+          add('TS', 'FX');
+          index += 4;
+        } else {
+          index++;
+        }
+        break;
+
+      case 'X':
+        // French endings like "Breaux" are silent
+        if (!(index === last && (stringAt(index - 3, 3, 'IAU', 'EAU') || stringAt(index - 2, 2, 'AU', 'OU')))) {
+          add('KS');
+        }
+        index += stringAt(index + 1, 1, 'C', 'X') ? 2 : 1;
+        break;
+
+      case 'Z':
+        if (charAt(index + 1) === 'H') {
+          add('J');
+          index += 2;
+        } else {
+          if (stringAt(index + 1, 2, 'ZO', 'ZI', 'ZA') || (slavoGermanic && index > 0 && charAt(index - 1) !== 'T')) {
+            add('S', 'TS');
+          } else {
+            add('S');
+          }
+          index += charAt(index + 1) === 'Z' ? 2 : 1;
+        }
+        break;
+
+      default:
+        index++;
+    }
+  }
+
+  return [primary, alternate];
+
+  /**
+   * Codes a C and returns how many letters it used
+   */
+  function encodeC(): number {
+    // Germanic "-ach-" as in "Bacher", "Macher"
+    if (index > 1 && !vowelAt(index - 2) && stringAt(index - 1, 3, 'ACH') && charAt(index + 2) !== 'I' &&
+        (charAt(index + 2) !== 'E' || stringAt(index - 2, 6, 'BACHER', 'MACHER'))) {
+      add('K');
+      return 2;
+    }
+    if (index === 0 && stringAt(index, 6, 'CAESAR')) {
+      add('S');
+      return 2;
+    }
+    if (stringAt(index, 4, 'CHIA')) {
+      add('K');
+      return 2;
+    }
+    if (stringAt(index, 2, 'CH')) {
+      if (index > 0 && stringAt(index, 4, 'CHAE')) {
+        add('K', 'X');
+        return 2;
+      }
+      // Greek roots: "Charis", "Chloe"
+      if (index === 0 && (stringAt(index + 1, 5, 'HARAC', 'HARIS') || stringAt(index + 1, 3, 'HOR', 'HYM', 'HIA', 'HEM')) &&
+          !stringAt(0, 5, 'CHORE')) {
+        add('K');
+        return 2;
+      }
+      if (germanic || stringAt(index - 2, 6, 'ORCHES', 'ARCHIT', 'ORCHID') || stringAt(index + 2, 1, 'T', 'S') ||
+          ((stringAt(index - 1, 1, 'A', 'O', 'U', 'E') || index === 0) &&
+            stringAt(index + 2, 1, 'L', 'R', 'N', 'M', 'B', 'H', 'F', 'V', 'W'))) {
+        add('K');
+      } else if (index > 0) {
+        add(stringAt(0, 2, 'MC') ? 'K' : 'X', 'K');
+      } else {
+        add('X', 'K');
+      }
+      return 2;
+    }
+    // Polish "-cz-" but not "-wicz"
+    if (stringAt(index, 2, 'CZ') && !stringAt(index - 2, 4, 'WICZ')) {
+      add('S', 'X');
+      return 2;
+    }
+    if (stringAt(index + 1, 3, 'CIA')) {
+      add('X');
+      return 3;
+    }
+    if (stringAt(index, 2, 'CC') && !(index === 1 && charAt(0) === 'M')) {
+      if (stringAt(index + 2, 1, 'I', 'E', 'H') && !stringAt(index + 2, 2, 'HU')) {
+        add((index === 1 && charAt(0) === 'A') || stringAt(index - 1, 5, 'UCCEE', 'UCCES') ? 'KS' : 'X');
+        return 3;
+      }
+      add('K');
+      return 2;
+    }
+    if (stringAt(index, 2, 'CK', 'CG', 'CQ')) {
+      add('K');
+      return 2;
+    }
+    if (stringAt(index, 2, 'CI', 'CE', 'CY')) {
+      if (stringAt(index, 3, 'CIO', 'CIE', 'CIA')) {
+        add('S', 'X');
+      } else {
+        add('S');
+      }
+      return 2;
+    }
+    add('K');
+    return stringAt(index + 1, 1, 'C', 'K', 'Q') && !stringAt(index + 1, 2, 'CE', 'CI') ? 2 : 1;
+  }
+
+  /**
+   * Codes a G and returns how many letters it used
+   */
+  function encodeG(): number {
+    if (charAt(index + 1) === 'H') {
+      if (index > 0 && !vowelAt(index - 1)) {
+        add('K');
+        return 2;
+      }
+      if (index === 0) {
+        add(charAt(index + 2) === 'I' ? 'J' : 'K');
+        return 2;
+      }
+      // Silent as in "Hugh", "bough", "broughton"
+      if ((index > 1 && stringAt(index - 2, 1, 'B', 'H', 'D')) || (index > 2 && stringAt(index - 3, 1, 'B', 'H', 'D')) ||
+          (index > 3 && stringAt(index - 4, 1, 'B', 'H'))) {
+        return 2;
+      }
+      if (index > 2 && charAt(index - 1) === 'U' && stringAt(index - 3, 1, 'C', 'G', 'L', 'R', 'T')) {
+        add('F');
+      } else if (index > 0 && charAt(index - 1) !== 'I') {
+        add('K');
+      }
+      return 2;
+    }
+    if (charAt(index + 1) === 'N') {
+      if (index === 1 && vowelAt(0) && !slavoGermanic) {
+        add('KN', 'N');
+      } else if (!stringAt(index + 2, 2, 'EY') && charAt(index + 1) !== 'Y' && !slavoGermanic) {
+        add('N', 'KN');
+      } else {
+        add('KN');
+      }
+      return 2;
+    }
+    if (stringAt(index + 1, 2, 'LI') && !slavoGermanic) {
+      add('KL', 'L');
+      return 2;
+    }
+    if (index === 0 && (charAt(index + 1) === 'Y' ||
+        stringAt(index + 1, 2, 'ES', 'EP', 'EB', 'EL', 'EY', 'IB', 'IL', 'IN', 'IE', 'EI', 'ER'))) {
+      add('K', 'J');
+      return 2;
+    }
+    if ((stringAt(index + 1, 2, 'ER') || charAt(index + 1) === 'Y') && !stringAt(0, 6, 'DANGER', 'RANGER', 'MANGER') &&
+        !stringAt(index - 1, 1, 'E', 'I') && !stringAt(index - 1, 3, 'RGY', 'OGY')) {
+      add('K', 'J');
+      return 2;
+    }
+    if (stringAt(index + 1, 1, 'E', 'I', 'Y') || stringAt(index - 1, 4, 'AGGI', 'OGGI')) {
+      if (germanic || stringAt(index + 1, 2, 'ET')) {
+        add('K');
+      } else if (stringAt(index + 1, 4, 'IER')) {
+        add('J');
+      } else {
+        add('J', 'K');
+      }
+      return 2;
+    }
+    add('K');
+    return charAt(index + 1) === 'G' ? 2 : 1;
+  }
+
+  /**
+   * Codes an S and returns how many letters it used
+   */
+  function encodeS(): number {
+    // Silent as in "Carlisle", "Lysle"
+    if (stringAt(index - 1, 3, 'ISL', 'YSL')) {
+      return 1;
+    }
+    if (index === 0 && stringAt(index, 5, 'SUGAR')) {
+      add('X', 'S');
+      return 1;
+    }
+    if (stringAt(index, 2, 'SH')) {
+      // Germanic compounds: "Rosheim", "Holmsholz"
+      add(stringAt(index + 1, 4, 'HEIM', 'HOEK', 'HOLM', 'HOLZ') ? 'S' : 'X');
+      return 2;
+    }
+    if (stringAt(index, 3, 'SIO', 'SIA') || stringAt(index, 4, 'SIAN')) {
+      if (slavoGermanic) {
+        add('S');
+      } else {
+        add('S', 'X');
+      }
+      return 3;
+    }
+    if ((index === 0 && stringAt(index + 1, 1, 'M', 'N', 'L', 'W')) || stringAt(index + 1, 1, 'Z')) {
+      add('S', 'X');
+      return stringAt(index + 1, 1, 'Z') ? 2 : 1;
+    }
+    if (stringAt(index, 2, 'SC')) {
+      if (charAt(index + 2) === 'H') {
+        // Dutch "Schoo-", "Schenk"
+        if (stringAt(index + 3, 2, 'OO', 'ER', 'EN', 'UY', 'ED', 'EM')) {
+          if (stringAt(index + 3, 2, 'ER', 'EN')) {
+            add('X', 'SK');
+          } else {
+            add('SK');
+          }
+        } else if (index === 0 && !vowelAt(3) && charAt(3) !== 'W') {
+          add('X', 'S');
+        } else {
+          add('X');
+        }
+        return 3;
+      }
+      add(stringAt(index + 2, 1, 'I', 'E', 'Y') ? 'S' : 'SK');
+      return 3;
+    }
+    // French "-ais", "-ois" endings are silent
+    if (index === last && stringAt(index - 2, 2, 'AI', 'OI')) {
+      add('', 'S');
+    } else {
+      add('S');
+    }
+    return stringAt(index + 1, 1, 'S', 'Z') ? 2 : 1;
+  }
+}
+
+/**
+ * Whether a single letter is a vowel
+ */
+function isVowel(letter: string): boolean {
+  return letter.length === 1 && VOWELS.indexOf(letter.toUpperCase()) !== -1;
+}
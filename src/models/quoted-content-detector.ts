@@ -0,0 +1,128 @@
+/**
+ * Quoted content detection for replies and forwards
+ * Finds where the quoted message history starts so only newly authored text is validated
+ */
+
+import { QuotedContentBoundary } from './interfaces';
+
+/**
+ * Separator lines Outlook and other clients put above the quoted message
+ */
+const ORIGINAL_MESSAGE_SEPARATOR = new RegExp(
+  '^\\s*-{2,}\\s*(?:original message|forwarded message|ursprüngliche nachricht|weitergeleitete nachricht|' +
+  'message d\'origine|message transféré|mensaje original|mensaje reenviado|messaggio originale|messaggio inoltrato|' +
+  'oorspronkelijk bericht|doorgestuurd bericht)\\s*-{2,}',
+  'i'
+);
+
+/**
+ * First line of a quoted header block ("From: ..." / "Von: ..." / "De : ..." / "Da: ..." / "Van: ...")
+ */
+const HEADER_FROM_LINE = /^\s*\**(?:from|von|de|da|van)\s*:\**\s*\S/i;
+
+/**
+ * Lines that follow "From:" in a quoted header block
+ */
+const HEADER_DETAIL_LINE = new RegExp(
+  '^\\s*\\**(?:sent|date|to|subject|gesendet|datum|an|betreff|envoyé|à|objet|enviado|para|asunto|fecha|' +
+  'inviato|a|oggetto|data|verzonden|aan|onderwerp)\\s*:',
+  'i'
+);
+
+/**
+ * Attribution lines such as "On Mon, 3 Jun 2024, Sarah wrote:", "Am 03.06.2024 schrieb Sarah:"
+ * or "Le lun. 3 juin 2024, Sarah a écrit :"
+ */
+const ATTRIBUTION_LINE =
+  /^\s*(?:on\s.+\swrote|am\s.+\sschrieb.*|le\s.+\sa\s+écrit|el\s.+\sescribió|il\s.+\sha\s+scritto|op\s.+\sschreef.*)\s*:\s*$/i;
+
+/**
+ * Underscore rule Outlook puts above the header block
+ */
+const UNDERSCORE_RULE = /^\s*_{10,}\s*$/;
+
+/**
+ * Lines quoted with a ">" prefix (HTML blockquotes are rendered this way by the HTML text mapper)
+ */
+const QUOTE_PREFIX_LINE = /^\s*>/;
+
+/**
+ * How many lines after "From:" may hold the rest of the header block
+ */
+const HEADER_LOOKAHEAD_LINES = 4;
+
+/**
+ * Finds the start of quoted reply/forward history in plain text
+ * @returns The boundary, or null if the content has no recognizable quote
+ */
+export function findQuotedContentBoundary(content: string): QuotedContentBoundary | null {
+  if (!content || typeof content !== 'string') {
+    return null;
+  }
+
+  const lines = content.split('\n');
+  let offset = 0;
+
+  for (let index = 0; index < lines.length; index++) {
+    const line = lines[index];
+
+    if (ORIGINAL_MESSAGE_SEPARATOR.test(line)) {
+      return { position: offset, marker: 'separator' };
+    }
+
+    if (HEADER_FROM_LINE.test(line) && hasHeaderDetails(lines, index)) {
+      const ruleOffset = findUnderscoreRuleAbove(lines, index, offset);
+      return { position: ruleOffset !== -1 ? ruleOffset : offset, marker: 'header' };
+    }
+
+    if (ATTRIBUTION_LINE.test(line)) {
+      return { position: offset, marker: 'attribution' };
+    }
+
+    if (QUOTE_PREFIX_LINE.test(line)) {
+      return { position: offset, marker: 'quote_prefix' };
+    }
+
+    offset += line.length + 1;
+  }
+
+  return null;
+}
+
+/**
+ * Returns the authored part of the content, i.e. everything before the quoted history
+ */
+export function getAuthoredContent(content: string, boundary: QuotedContentBoundary | null): string {
+  return boundary ? content.substring(0, boundary.position) : content;
+}
+
+/**
+ * Checks that a "From:" line is followed by more header lines (Sent:, To:, Subject: ...)
+ */
+function hasHeaderDetails(lines: string[], fromIndex: number): boolean {
+  const lastIndex = Math.min(lines.length - 1, fromIndex + HEADER_LOOKAHEAD_LINES);
+  for (let index = fromIndex + 1; index <= lastIndex; index++) {
+    if (HEADER_DETAIL_LINE.test(lines[index])) {
+      return true;
+    }
+  }
+  return false;
+}
+
+/**
+ * Finds an underscore rule directly above the header block (ignoring blank lines)
+ * @returns Offset of the rule line or -1
+ */
+function findUnderscoreRuleAbove(lines: string[], fromIndex: number, fromOffset: number): number {
+  let offset = fromOffset;
+  for (let index = fromIndex - 1; index >= 0; index--) {
+    offset -= lines[index].length + 1;
+    if (UNDERSCORE_RULE.test(lines[index])) {
+      return offset;
+    }
+    if (lines[index].trim().length > 0) {
+      return -1;
+    }
+  }
+  return -1;
+}
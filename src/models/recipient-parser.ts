@@ -2,70 +2,23 @@
  * RecipientParser - Extracts and normalizes names from email addresses
  */
 
-import { ParsedRecipient } from './interfaces';
+import { Contact, ContactLookup, MailboxFormat, ParsedRecipient } from './interfaces';
+import { getNameMatchKeys, removeNonNameCharacters } from './name-normalizer';
+import { parseDisplayName, ParsedDisplayName } from './display-name-parser';
+import { GenericMailboxClassifier } from './generic-mailbox-rules';
 
 /**
  * Parser for extracting names from email addresses and recipient information
  */
 export class RecipientParser {
-  private static readonly GENERIC_EMAIL_PATTERNS = [
-    /^info@/i,
-    /^support@/i,
-    /^help@/i,
-    /^contact@/i,
-    /^admin@/i,
-    /^noreply@/i,
-    /^no-reply@/i,
-    /^donotreply@/i,
-    /^sales@/i,
-    /^marketing@/i,
-    /^service@/i,
-    /^team@/i,
-    /^office@/i,
-    /^hello@/i,
-    /^hi@/i,
-    /^mail@/i,
-    /^webmaster@/i,
-    /^postmaster@/i,
-    /^abuse@/i,
-    /^security@/i,
-    /^privacy@/i,
-    /^legal@/i,
-    /^billing@/i,
-    /^accounts@/i,
-    /^hr@/i,
-    /^jobs@/i,
-    /^careers@/i,
-    /^press@/i,
-    /^media@/i,
-    /^news@/i,
-    /^newsletter@/i,
-    /^notifications@/i,
-    /^alerts@/i,
-    /^updates@/i,
-    /^feedback@/i,
-    /^suggestions@/i,
-    /^complaints@/i,
-    /^orders@/i,
-    /^shipping@/i,
-    /^returns@/i,
-    /^invoices@/i,
-    /^payments@/i,
-    /^api@/i,
-    /^dev@/i,
-    /^developer@/i,
-    /^tech@/i,
-    /^technical@/i,
-    /^it@/i,
-    /^system@/i,
-    /^root@/i,
-    /^www@/i,
-    /^ftp@/i,
-    /^mail@/i,
-    /^smtp@/i,
-    /^pop@/i,
-    /^imap@/i
-  ];
+  /**
+   * @param contacts Contacts directory that fills in names the display name doesn't give
+   * @param genericMailboxes Decides which addresses are generic mailboxes (the built-in rules by default)
+   */
+  constructor(
+    private readonly contacts?: ContactLookup,
+    private readonly genericMailboxes: GenericMailboxClassifier = new GenericMailboxClassifier()
+  ) {}
 
   /**
    * Parses a single email address to extract name components
@@ -84,20 +37,33 @@ export class RecipientParser {
     const isGeneric = this.isGenericEmail(normalizedEmail);
     
     // Extract names from display name if available
-    const displayNameExtracted = displayName ? this.extractNamesFromDisplayName(displayName) : [];
+    const parsedDisplayName = parseDisplayName(displayName);
+    const displayNameExtracted = parsedDisplayName.nameParts
+      .map(part => this.normalizeName(part))
+      .filter(part => part.length > 0);
     
+    // Names the contacts directory knows for this address
+    const contactNames = this.getContactNames(isGeneric ? undefined : this.contacts?.getContact(normalizedEmail));
+
     // Extract names from email address local part (use original case for camelCase detection)
     const emailExtracted = this.extractNamesFromEmailAddress(email.trim());
     
     // Combine and deduplicate names
-    const allNames = [...displayNameExtracted, ...emailExtracted];
+    const allNames = [...displayNameExtracted, ...contactNames.names, ...emailExtracted];
     const extractedNames = this.deduplicateNames(allNames);
 
+    // Names from the display name win over those of the contact
+    const nameStructure = { ...contactNames.structure, ...this.getNameStructure(parsedDisplayName) };
+
     return {
       email: normalizedEmail,
       displayName: displayName?.trim(),
       extractedNames,
-      isGeneric
+      isGeneric,
+      ...(isGeneric ? {} : this.inferMailboxFormat(normalizedEmail, nameStructure)),
+      // Names from the display name win over those read from the mailbox
+      ...nameStructure,
+      ...contactNames.aliases
     };
   }
 
@@ -111,12 +77,48 @@ export class RecipientParser {
       return [];
     }
 
-    return recipients
+    return this.applyDomainConventions(recipients
       .filter(recipient => recipient && recipient.emailAddress)
       .map(recipient => this.parseEmailAddress(
         recipient.emailAddress,
         recipient.displayName
-      ));
+      )));
+  }
+
+  /**
+   * Learns each domain's mailbox format from recipients whose display name shows it (jsmith@ for
+   * "Jane Smith") and reads initials mailboxes without a display name in the same domain accordingly,
+   * so jdoe@ next to jsmith@ becomes initial "j" and surname "doe"
+   * @param recipients Parsed recipients of one message
+   * @returns The recipients, with initials and surnames filled in where the domain format tells them
+   */
+  public applyDomainConventions(recipients: ParsedRecipient[]): ParsedRecipient[] {
+    const formatCounts = new Map<string, Map<MailboxFormat, number>>();
+    for (const recipient of recipients) {
+      if (recipient.mailboxFormat && recipient.firstName) {
+        const domain = this.getDomain(recipient.email);
+        const counts = formatCounts.get(domain) || new Map<MailboxFormat, number>();
+        counts.set(recipient.mailboxFormat, (counts.get(recipient.mailboxFormat) || 0) + 1);
+        formatCounts.set(domain, counts);
+      }
+    }
+
+    return recipients.map(recipient => {
+      const localPart = this.getLocalPart(recipient.email);
+      if (recipient.isGeneric || recipient.firstName || recipient.firstInitial || !/^[a-z]{3,}$/.test(localPart) ||
+          this.getPrevailingFormat(formatCounts.get(this.getDomain(recipient.email))) !== 'flast') {
+        return recipient;
+      }
+
+      const lastName = localPart.substring(1);
+      return {
+        ...recipient,
+        extractedNames: this.deduplicateNames([...recipient.extractedNames, lastName]),
+        firstInitial: localPart.charAt(0),
+        lastName: recipient.lastName || lastName,
+        mailboxFormat: 'flast' as const
+      };
+    });
   }
 
   /**
@@ -129,10 +131,7 @@ export class RecipientParser {
       return '';
     }
 
-    return name
-      .trim()
-      .toLowerCase()
-      .replace(/[^\w\s-']/g, '') // Remove special characters except hyphens and apostrophes
+    return removeNonNameCharacters(name.trim().toLowerCase()) // Keep letters of any script, hyphens and apostrophes
       .replace(/\s+/g, ' ') // Normalize whitespace
       .trim();
   }
@@ -143,33 +142,149 @@ export class RecipientParser {
    * @returns True if the email is generic
    */
   private isGenericEmail(email: string): boolean {
-    return RecipientParser.GENERIC_EMAIL_PATTERNS.some(pattern => pattern.test(email));
+    return this.genericMailboxes.isGeneric(email);
   }
 
   /**
-   * Extracts names from display name string
-   * @param displayName The display name to parse
-   * @returns Array of extracted names
+   * Reads how the mailbox is built: from the display name's first and last name when known,
+   * otherwise from an initial set apart by a separator (j.doe@, doe.j@). A bare jdoe@ could
+   * just as well be a first name, so it is only read with the domain's format (see applyDomainConventions)
    */
-  private extractNamesFromDisplayName(displayName: string): string[] {
-    if (!displayName) {
-      return [];
+  private inferMailboxFormat(
+    email: string,
+    names: Pick<ParsedRecipient, 'firstName' | 'lastName'>
+  ): Pick<ParsedRecipient, 'firstInitial' | 'lastName' | 'mailboxFormat'> {
+    const localPart = this.getLocalPart(email);
+
+    if (names.firstName && names.lastName) {
+      const mailboxFormat = this.detectMailboxFormat(localPart, names.firstName, names.lastName);
+      return mailboxFormat ? { mailboxFormat } : {};
     }
 
-    // Remove common titles and honorifics
-    const cleanedName = displayName
-      .replace(/\b(mr|mrs|ms|miss|dr|prof|professor|sir|madam|lord|lady|rev|father|sister|brother)\b\.?\s*/gi, '')
-      .trim();
+    const initialFirst = /^([a-z])[._-]([a-z]{2,})$/.exec(localPart);
+    if (initialFirst) {
+      return { firstInitial: initialFirst[1], lastName: initialFirst[2], mailboxFormat: 'f.last' };
+    }
+    const initialLast = /^([a-z]{2,})[._-]([a-z])$/.exec(localPart);
+    if (initialLast) {
+      return { firstInitial: initialLast[2], lastName: initialLast[1], mailboxFormat: 'last.f' };
+    }
+    return {};
+  }
 
-    // Split on common separators and filter out empty strings
-    const nameParts = cleanedName
-      .split(/[\s,]+/)
-      .map(part => part.trim())
-      .filter(part => part.length > 0)
-      .map(part => this.normalizeName(part))
-      .filter(part => part.length > 0);
+  /**
+   * Which format builds the local part from the first and last name, if any
+   */
+  private detectMailboxFormat(localPart: string, firstName: string, lastName: string): MailboxFormat | undefined {
+    const compact = localPart.replace(/[._-]/g, '');
+    const separated = compact !== localPart;
+
+    // "Müller" may be written muller@ or mueller@
+    for (const first of getNameMatchKeys(firstName)) {
+      for (const last of getNameMatchKeys(lastName)) {
+        if (separated && compact === first + last) {
+          return 'first.last';
+        }
+        if (compact === first.charAt(0) + last) {
+          return separated ? 'f.last' : 'flast';
+        }
+        if (separated && compact === last + first.charAt(0)) {
+          return 'last.f';
+        }
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * The format most recipients of a domain use; undefined when there is no evidence
+   */
+  private getPrevailingFormat(counts?: Map<MailboxFormat, number>): MailboxFormat | undefined {
+    let prevailing: MailboxFormat | undefined;
+    let best = 0;
+    counts?.forEach((count, format) => {
+      if (count > best) {
+        prevailing = format;
+        best = count;
+      }
+    });
+    return prevailing;
+  }
+
+  /**
+   * Lowercase local part of an address without trailing digits (jdoe2@ → jdoe)
+   */
+  private getLocalPart(email: string): string {
+    return email.split('@')[0].toLowerCase().replace(/\d+$/, '');
+  }
+
+  /**
+   * Lowercase domain of an address
+   */
+  private getDomain(email: string): string {
+    return email.substring(email.indexOf('@') + 1).toLowerCase();
+  }
+
+  /**
+   * Normalized first, middle and last names of a parsed display name, where it has them
+   */
+  private getNameStructure(parsed: ParsedDisplayName): Pick<ParsedRecipient, 'firstName' | 'middleNames' | 'lastName'> {
+    if (!parsed.lastName) {
+      return {};
+    }
+
+    const lastName = this.normalizeName(parsed.lastName);
+    if (!parsed.firstName) {
+      return { lastName };
+    }
+    return {
+      firstName: this.normalizeName(parsed.firstName),
+      middleNames: parsed.middleNames.map(name => this.normalizeName(name)),
+      lastName
+    };
+  }
+
+  /**
+   * Normalized names of a contact: its first, middle and last name, the name it goes by and its
+   * nicknames, and all of them for matching
+   */
+  private getContactNames(contact?: Contact): {
+    structure: Pick<ParsedRecipient, 'firstName' | 'middleNames' | 'lastName'>;
+    aliases: Pick<ParsedRecipient, 'preferredName' | 'nicknames'>;
+    names: string[];
+  } {
+    if (!contact) {
+      return { structure: {}, aliases: {}, names: [] };
+    }
+
+    const normalize = (names: string[]) => names.map(name => this.normalizeName(name)).filter(name => name.length > 0);
+    const [firstName] = normalize(contact.firstName ? [contact.firstName] : []);
+    const [lastName] = normalize(contact.lastName ? [contact.lastName] : []);
+    const middleNames = normalize(contact.middleNames || []);
+    const [preferredName] = normalize(contact.preferredName ? [contact.preferredName] : []);
+    const nicknames = normalize(contact.nicknames || []);
+
+    const structure: Pick<ParsedRecipient, 'firstName' | 'middleNames' | 'lastName'> = {};
+    if (lastName) {
+      structure.lastName = lastName;
+      if (firstName) {
+        structure.firstName = firstName;
+        structure.middleNames = middleNames;
+      }
+    }
+
+    const aliases: Pick<ParsedRecipient, 'preferredName' | 'nicknames'> = {};
+    if (preferredName) aliases.preferredName = preferredName;
+    if (nicknames.length > 0) aliases.nicknames = nicknames;
 
-    return nameParts;
+    const names = [
+      ...(preferredName ? [preferredName] : []),
+      ...(firstName ? [firstName] : []),
+      ...middleNames,
+      ...(lastName ? [lastName] : []),
+      ...nicknames
+    ];
+    return { structure, aliases, names };
   }
 
   /**
@@ -265,7 +380,8 @@ export class RecipientParser {
   }
 
   /**
-   * Removes duplicate names from an array (case-insensitive)
+   * Removes duplicate names from an array (case- and accent-insensitive, so "José" and "jose"
+   * or "Müller" and "mueller" are kept once, in the spelling seen first)
    * @param names Array of names to deduplicate
    * @returns Array with duplicates removed
    */
@@ -275,8 +391,9 @@ export class RecipientParser {
 
     for (const name of names) {
       const normalized = this.normalizeName(name);
-      if (normalized && !seen.has(normalized)) {
-        seen.add(normalized);
+      const keys = getNameMatchKeys(normalized);
+      if (normalized && !keys.some(key => seen.has(key))) {
+        keys.forEach(key => seen.add(key));
         result.push(normalized);
       }
     }
@@ -0,0 +1,94 @@
+/**
+ * Form-of-address detection for German mails
+ * Classifies the greeting as formal ("Sehr geehrte Frau Weber") or informal ("Hallo Jan") and
+ * finds the "Sie"/"du" pronouns in the body, so a switch between the two can be pointed out
+ */
+
+import { GreetingMatch, Register } from './interfaces';
+
+/**
+ * Greetings that are formal on their own
+ */
+const FORMAL_GREETING = /^\s*sehr\s+geehrte/i;
+
+/**
+ * Greetings that are informal unless the person is addressed as "Herr"/"Frau"
+ */
+const INFORMAL_GREETING = /^\s*(?:hallo|hi|hey|moin|servus|liebe[rs]?)(?=\s|$)/i;
+
+/**
+ * Honorifics that make any greeting formal ("Hallo Herr Müller", "Liebe Frau Weber")
+ */
+const FORMAL_TITLES = ['herr', 'frau'];
+
+/**
+ * Informal pronouns, in any case ("Du" is capitalized in letters)
+ */
+const INFORMAL_PRONOUNS = /(?:^|[^a-zA-ZÀ-ÿ])(du|dich|dir|dein(?:e[mnrs]?)?|euch|euer|eure[mnrs]?)(?![a-zA-ZÀ-ÿ])/gi;
+
+/**
+ * Formal pronouns; only capitalized, since "sie"/"ihr"/"ihnen" also mean she/they/her/them
+ */
+const FORMAL_PRONOUNS = /(?:^|[^a-zA-ZÀ-ÿ])(Sie|Ihnen|Ihr(?:e[mnrs]?)?)(?![a-zA-ZÀ-ÿ])/g;
+
+/**
+ * Text before a word that starts a sentence, where any pronoun is capitalized
+ */
+const SENTENCE_START = /(?:^|[.!?:;]\s*|\n\s*|["„“(]\s*)$/;
+
+/**
+ * Pronouns of each register found in a piece of text
+ */
+export interface RegisterPronouns {
+  formal: string[];
+  informal: string[];
+}
+
+/**
+ * Classifies the form of address a German greeting implies
+ * @returns 'formal' or 'informal', or undefined for neutral greetings ("Guten Tag Anna")
+ */
+export function classifyGreetingRegister(greeting: GreetingMatch): Register | undefined {
+  const titles = greeting.salutation ? greeting.salutation.titles : [];
+  if (FORMAL_GREETING.test(greeting.fullMatch) ||
+      titles.some(title => FORMAL_TITLES.indexOf(title.toLowerCase()) !== -1)) {
+    return 'formal';
+  }
+  return INFORMAL_GREETING.test(greeting.fullMatch) ? 'informal' : undefined;
+}
+
+/**
+ * Finds the formal and informal pronouns addressing the reader
+ * @param text Authored text after the greeting (without quoted history or sign-off)
+ * @returns The pronouns as written, in order of appearance
+ */
+export function findRegisterPronouns(text: string): RegisterPronouns {
+  if (!text || typeof text !== 'string') {
+    return { formal: [], informal: [] };
+  }
+
+  return {
+    formal: collectPronouns(FORMAL_PRONOUNS, text, true),
+    informal: collectPronouns(INFORMAL_PRONOUNS, text, false)
+  };
+}
+
+/**
+ * Collects the pronouns a pattern matches
+ * @param skipSentenceStarts Ignore matches at the start of a sentence, where capitalization proves nothing
+ */
+function collectPronouns(pattern: RegExp, text: string, skipSentenceStarts: boolean): string[] {
+  const pronouns: string[] = [];
+  pattern.lastIndex = 0;
+
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(text)) !== null) {
+    const start = match.index + match[0].length - match[1].length;
+    if (skipSentenceStarts && SENTENCE_START.test(text.substring(0, start))) {
+      continue;
+    }
+    pronouns.push(match[1]);
+  }
+
+  return pronouns;
+}
@@ -0,0 +1,114 @@
+/**
+ * Storage for imported data (contacts, distribution lists)
+ * Roaming settings hold 32 KB per add-in, shared by the configuration, preferences, learned aliases
+ * and imports. An import stays in roaming settings only while everything the add-in stores still
+ * fits; otherwise it is kept in local storage on this machine.
+ */
+
+/**
+ * Size of an add-in's roaming settings, in characters of the stored values
+ */
+export const ROAMING_SETTINGS_LIMIT = 32768;
+
+/**
+ * Room kept free for the configuration, preferences and learned aliases to grow
+ */
+export const ROAMING_SETTINGS_RESERVE = 8192;
+
+/**
+ * Every key the add-in stores in roaming settings
+ */
+export const ROAMING_SETTINGS_KEYS = [
+  'validationConfig',
+  'userPreferences',
+  'learnedAliases',
+  'contactsDirectory',
+  'distributionLists'
+];
+
+/**
+ * Office roaming settings, where available
+ */
+function getRoamingSettings(): Office.RoamingSettings | undefined {
+  return typeof Office !== 'undefined' ? Office?.context?.roamingSettings : undefined;
+}
+
+/**
+ * Browser local storage, where available
+ */
+function getLocalStorage(): Storage | undefined {
+  try {
+    return typeof window !== 'undefined' && window.localStorage ? window.localStorage : undefined;
+  } catch {
+    // Access is denied in some sandboxed frames
+    return undefined;
+  }
+}
+
+/**
+ * Characters the other keys already take up in roaming settings
+ */
+function getRoamingSettingsUsage(roaming: Office.RoamingSettings, exceptKey: string): number {
+  return ROAMING_SETTINGS_KEYS
+    .filter(key => key !== exceptKey)
+    .reduce((total, key) => {
+      const value = roaming.get(key);
+      return total + key.length + (typeof value === 'string' ? value.length : JSON.stringify(value ?? '').length);
+    }, 0);
+}
+
+/**
+ * Read an import from roaming settings, or else from local storage
+ * @param key Settings key
+ * @returns The stored JSON, or undefined when nothing is stored
+ */
+export function loadImport(key: string): string | undefined {
+  return getRoamingSettings()?.get(key) || getLocalStorage()?.getItem(key) || undefined;
+}
+
+/**
+ * Save an import to roaming settings while it fits next to everything else stored there,
+ * otherwise to local storage
+ * @param key Settings key
+ * @param serialized JSON to store
+ * @param description What is stored, for error messages
+ * @throws Error when neither storage is available or roaming settings can't be saved
+ */
+export async function saveImport(key: string, serialized: string, description: string): Promise<void> {
+  const roaming = getRoamingSettings();
+  const localStorage = getLocalStorage();
+  const fits = !!roaming &&
+    getRoamingSettingsUsage(roaming, key) + key.length + serialized.length <= ROAMING_SETTINGS_LIMIT - ROAMING_SETTINGS_RESERVE;
+  const useRoaming = !!roaming && (fits || !localStorage);
+
+  if (!useRoaming && !localStorage) {
+    throw new Error(`No storage available for ${description}`);
+  }
+  if (!useRoaming) {
+    localStorage!.setItem(key, serialized);
+  } else {
+    localStorage?.removeItem(key);
+  }
+  if (!roaming) {
+    return;
+  }
+
+  return new Promise((resolve, reject) => {
+    try {
+      if (useRoaming) {
+        roaming.set(key, serialized);
+      } else {
+        roaming.remove(key);
+      }
+      roaming.saveAsync((result) => {
+        if (result.status === Office.AsyncResultStatus.Succeeded) {
+          resolve();
+        } else {
+          reject(new Error(`Failed to save ${description}: ${result.error?.message}`));
+        }
+      });
+    } catch (error) {
+      reject(new Error(`Failed to save ${description}: ${error}`));
+    }
+  });
+}
@@ -0,0 +1,176 @@
+/**
+ * Salutation consistency
+ * Reads honorifics, academic titles and gendered greeting forms ("Sehr geehrter Herr", "Chère",
+ * "Dr.") so the way a greeting addresses someone can be compared with their display name
+ */
+
+import { Salutation, SalutationGender, SalutationIssue } from './interfaces';
+
+/**
+ * What a title says about a person: the gender it implies, whether it is an academic title and
+ * whether it goes with the first name ("Sir John", "Don Pedro") rather than the surname
+ */
+interface TitleInfo {
+  gender?: SalutationGender;
+  academic?: boolean;
+  givenName?: boolean;
+}
+
+const MALE: TitleInfo = { gender: 'male' };
+const FEMALE: TitleInfo = { gender: 'female' };
+const ACADEMIC: TitleInfo = { academic: true };
+const ACADEMIC_MALE: TitleInfo = { gender: 'male', academic: true };
+const ACADEMIC_FEMALE: TitleInfo = { gender: 'female', academic: true };
+const MALE_GIVEN_NAME: TitleInfo = { gender: 'male', givenName: true };
+const FEMALE_GIVEN_NAME: TitleInfo = { gender: 'female', givenName: true };
+
+/**
+ * Honorifics and academic titles in the supported languages, lowercase and without a trailing dot
+ */
+const TITLES: Record<string, TitleInfo> = {
+  // English
+  'mr': MALE, 'mister': MALE, 'sir': MALE_GIVEN_NAME, 'lord': MALE,
+  'mrs': FEMALE, 'ms': FEMALE, 'miss': FEMALE, 'madam': FEMALE, 'lady': FEMALE,
+  'dr': ACADEMIC, 'doctor': ACADEMIC, 'prof': ACADEMIC, 'professor': ACADEMIC,
+  // German
+  'herr': MALE, 'frau': FEMALE,
+  // French
+  'monsieur': MALE, 'm': MALE, 'madame': FEMALE, 'mme': FEMALE, 'mademoiselle': FEMALE, 'mlle': FEMALE,
+  'docteur': ACADEMIC, 'professeur': ACADEMIC, 'maître': ACADEMIC,
+  // Spanish
+  'señor': MALE, 'sr': MALE, 'don': MALE_GIVEN_NAME, 'señora': FEMALE, 'sra': FEMALE, 'señorita': FEMALE, 'srta': FEMALE,
+  'doña': FEMALE_GIVEN_NAME, 'dra': ACADEMIC_FEMALE,
+  // Italian
+  'signor': MALE, 'signore': MALE, 'sig': MALE, 'signora': FEMALE, 'sig.ra': FEMALE, 'signorina': FEMALE,
+  'dott': ACADEMIC, 'dottore': ACADEMIC_MALE, 'dottor': ACADEMIC_MALE, 'dottoressa': ACADEMIC_FEMALE,
+  'dott.ssa': ACADEMIC_FEMALE, 'professore': ACADEMIC_MALE, 'professoressa': ACADEMIC_FEMALE,
+  'prof.ssa': ACADEMIC_FEMALE, 'ing': ACADEMIC, 'avv': ACADEMIC,
+  // Dutch
+  'heer': MALE, 'dhr': MALE, 'mevrouw': FEMALE, 'mevr': FEMALE, 'mw': FEMALE, 'ir': ACADEMIC
+};
+
+/**
+ * Greeting words whose form depends on the gender of the person addressed
+ */
+const GENDERED_GREETING_WORDS: Record<string, SalutationGender> = {
+  'geehrter': 'male', 'geehrte': 'female', 'lieber': 'male', 'liebe': 'female',
+  'cher': 'male', 'chère': 'female',
+  'estimado': 'male', 'estimada': 'female', 'querido': 'male', 'querida': 'female',
+  'caro': 'male', 'cara': 'female', 'egregio': 'male', 'egregia': 'female',
+  'gentilissimo': 'male', 'gentilissima': 'female'
+};
+
+/**
+ * Finds the honorifics and titles in a piece of greeting text
+ * @param text Text before or around the name, e.g. "Dear Mrs." or "Herr Dr. Müller"
+ * @param names Normalized names in the text; they are never read as titles ("Hi Don")
+ * @returns The titles as written, in order
+ */
+export function findTitles(text: string, names: string[] = []): string[] {
+  return splitWords(text).filter(word => {
+    const key = toTitleKey(word);
+    return TITLES[key] !== undefined && names.indexOf(key) === -1;
+  });
+}
+
+/**
+ * Describes how a greeting addresses one person
+ * @param titles Titles used for the person (see findTitles)
+ * @param greetingText Greeting words before the names ("Sehr geehrter"); pass an empty string when
+ * the greeting addresses several people, since "Liebe Anna und Peter" is plural rather than feminine
+ * @returns The salutation, or undefined when the greeting uses neither titles nor a gendered form
+ */
+export function getGreetingSalutation(titles: string[], greetingText: string): Salutation | undefined {
+  // "Sehr geehrter Dr. Müller": the greeting form still tells the gender when the title doesn't
+  const gender = getTitlesGender(titles) || getGreetingWordsGender(greetingText);
+  if (titles.length === 0 && gender === undefined) {
+    return undefined;
+  }
+  return gender ? { titles, gender } : { titles };
+}
+
+/**
+ * Whether a lone name after these titles is a surname ("Mr. Smith", "Frau Weber"); false for
+ * titles used with first names ("Sir John", "Don Pedro")
+ */
+export function addressesBySurname(titles: string[]): boolean {
+  return titles.some(title => !TITLES[toTitleKey(title)].givenName);
+}
+
+/**
+ * Reads the titles a display name leads with ("Dr. Anna Smith", "Müller, Frau Dr. Anna")
+ * @returns The recipient's salutation; empty when the display name has no titles
+ */
+export function getRecipientSalutation(displayName?: string): Salutation {
+  const titles: string[] = [];
+  for (const part of (displayName || '').split(',')) {
+    for (const word of splitWords(part)) {
+      if (TITLES[toTitleKey(word)] === undefined) {
+        break;
+      }
+      titles.push(word);
+    }
+  }
+
+  const gender = getTitlesGender(titles);
+  return gender ? { titles, gender } : { titles };
+}
+
+/**
+ * Compares a greeting's salutation with the recipient's: a gendered form that contradicts the
+ * display name, or a formal greeting that drops the recipient's academic title
+ * @returns The first inconsistency found, or null if the salutation fits
+ */
+export function findSalutationIssue(greeting: Salutation, recipient: Salutation): SalutationIssue | null {
+  if (greeting.gender && recipient.gender && greeting.gender !== recipient.gender) {
+    const expected = recipient.titles.filter(title => TITLES[toTitleKey(title)].gender === recipient.gender);
+    return { kind: 'gender', expected: expected[0] };
+  }
+
+  // "Hi Anna" is fine for a doctor; "Dear Mrs. Smith" is not
+  const academicTitle = recipient.titles.filter(title => TITLES[toTitleKey(title)].academic);
+  if (greeting.titles.length > 0 && academicTitle.length > 0 &&
+      !greeting.titles.some(title => TITLES[toTitleKey(title)].academic)) {
+    return { kind: 'missing_title', expected: academicTitle[0] };
+  }
+
+  return null;
+}
+
+/**
+ * Gender all gendered titles agree on; undefined when there is none or they disagree ("Mr. and Mrs.")
+ */
+function getTitlesGender(titles: string[]): SalutationGender | undefined {
+  const genders = titles
+    .map(title => TITLES[toTitleKey(title)].gender)
+    .filter((gender): gender is SalutationGender => gender !== undefined);
+  return genders.length > 0 && genders.every(gender => gender === genders[0]) ? genders[0] : undefined;
+}
+
+/**
+ * Gender of the last gendered greeting word ("Sehr geehrte" → female)
+ */
+function getGreetingWordsGender(greetingText: string): SalutationGender | undefined {
+  let gender: SalutationGender | undefined;
+  for (const word of splitWords(greetingText)) {
+    gender = GENDERED_GREETING_WORDS[toTitleKey(word)] || gender;
+  }
+  return gender;
+}
+
+/**
+ * Splits text into words, keeping the dots of abbreviations ("Dr.", "Sig.ra")
+ */
+function splitWords(text: string): string[] {
+  return text
+    .split(/[\s,;:!?]+/)
+    .map(word => word.replace(/^[^\wÀ-ɏ]+/, ''))
+    .filter(word => word.length > 0);
+}
+
+/**
+ * Lookup key of a word: lowercase, without a trailing dot
+ */
+function toTitleKey(word: string): string {
+  return word.normalize('NFC').toLowerCase().replace(/\.$/, '');
+}
@@ -0,0 +1,188 @@
+/**
+ * Migrations of stored settings
+ * Roaming settings carry a schemaVersion; settings saved by an older version of the add-in are
+ * upgraded one version at a time, so a changed field never costs users the rest of their settings
+ */
+
+import { GreetingPatternSetting, UserPreferences, ValidationConfig } from './interfaces';
+import { compileGreetingPattern } from './email-content-parser';
+import { DEFAULT_GENERIC_MAILBOX_RULES } from './defaults';
+
+/**
+ * Settings as stored in roaming settings: the schema version and the user's settings
+ */
+export type StoredSettings = { schemaVersion?: number; [setting: string]: unknown };
+
+/**
+ * Upgrades stored settings from one version to the next
+ */
+interface SettingsMigration<T> {
+  /** Version the migration upgrades from; it produces version from + 1 */
+  from: number;
+  /** What changed in the next version */
+  description: string;
+  /**
+   * @param settings Settings of version from (without schemaVersion)
+   * @param defaults Current defaults
+   */
+  migrate(settings: StoredSettings, defaults: T): StoredSettings;
+}
+
+/**
+ * Result of migrating stored settings
+ */
+export interface MigratedSettings<T> {
+  /** The user's settings in the current version (without schemaVersion) */
+  settings: Partial<T>;
+  /** Version the settings were stored with */
+  fromVersion: number;
+}
+
+/**
+ * Current version of the stored ValidationConfig
+ */
+export const CONFIG_SCHEMA_VERSION = 11;
+
+/**
+ * Current version of the stored UserPreferences
+ */
+export const PREFERENCES_SCHEMA_VERSION = 2;
+
+/**
+ * Built-in greeting patterns of version 1, which matched inside words ("Chi Lee" read as "Hi Lee")
+ */
+const UNBOUNDED_GREETING_PATTERNS = [
+  'Hi\\s+([A-Za-z]+)',
+  'Hello\\s+([A-Za-z]+)',
+  'Dear\\s+([A-Za-z]+)',
+  'Hey\\s+([A-Za-z]+)',
+  'Good\\s+morning\\s+([A-Za-z]+)',
+  'Good\\s+afternoon\\s+([A-Za-z]+)',
+  'Good\\s+evening\\s+([A-Za-z]+)'
+];
+
+/**
+ * A migration that adds fields missing from older settings with their value at the time
+ */
+function addFields<T>(from: number, description: string, fields: StoredSettings): SettingsMigration<T> {
+  return {
+    from,
+    description,
+    migrate: settings => ({ ...fields, ...settings })
+  };
+}
+
+/**
+ * Keep only the settings that differ from the defaults, so policy and default changes reach them
+ */
+function withoutDefaults<T>(settings: StoredSettings, defaults: T): StoredSettings {
+  const overrides: StoredSettings = {};
+  Object.keys(settings).forEach(key => {
+    if (JSON.stringify(settings[key]) !== JSON.stringify((defaults as Record<string, unknown>)[key])) {
+      overrides[key] = settings[key];
+    }
+  });
+  return overrides;
+}
+
+/**
+ * Steps from each historical ValidationConfig shape to the next. Settings saved before versions
+ * were stored start at version 1; since later unversioned shapes only have more fields, every
+ * step keeps fields that are already there.
+ */
+const CONFIG_MIGRATIONS: SettingsMigration<ValidationConfig>[] = [
+  addFields(1, 'Nickname equivalence groups', { customNicknames: [] }),
+  {
+    from: 2,
+    description: 'Greeting patterns need a word boundary and a capture group for the name',
+    migrate: settings => {
+      if (!Array.isArray(settings.enabledGreetingPatterns)) {
+        return settings;
+      }
+      const patterns = (settings.enabledGreetingPatterns as GreetingPatternSetting[])
+        .map(setting => typeof setting === 'string' && UNBOUNDED_GREETING_PATTERNS.indexOf(setting) !== -1 ? `\\b${setting}` : setting)
+        .filter(setting => {
+          try {
+            compileGreetingPattern(setting);
+            return true;
+          } catch {
+            return false;
+          }
+        });
+      return { ...settings, enabledGreetingPatterns: patterns };
+    }
+  },
+  addFields(3, 'Sign-off name check', { checkSignOffName: true }),
+  addFields(4, 'Recipient coverage check', { checkRecipientCoverage: true }),
+  addFields(5, 'Recipient field weights and BCC matching', {
+    recipientFieldWeights: { to: 1, cc: 0.9, bcc: 0.9 },
+    matchBccRecipients: false
+  }),
+  addFields(6, 'Salutation check', { checkSalutations: true }),
+  addFields(7, 'Sie/du register check', { checkRegister: true }),
+  addFields(8, 'Group greeting check', { checkGroupGreetings: true }),
+  addFields(9, 'Generic mailbox rules', {
+    genericMailboxRules: DEFAULT_GENERIC_MAILBOX_RULES,
+    genericMailboxDomainOverrides: [],
+    personalMailboxes: []
+  }),
+  {
+    from: 10,
+    description: 'Only settings that differ from the defaults and admin policy are stored',
+    migrate: withoutDefaults
+  }
+];
+
+/**
+ * Steps from each historical UserPreferences shape to the next
+ */
+const PREFERENCES_MIGRATIONS: SettingsMigration<UserPreferences>[] = [
+  {
+    from: 1,
+    description: 'Only preferences that differ from the defaults and admin policy are stored',
+    migrate: withoutDefaults
+  }
+];
+
+/**
+ * Run the migrations from the stored version up to the current one
+ */
+function migrate<T>(
+  stored: StoredSettings,
+  defaults: T,
+  migrations: SettingsMigration<T>[],
+  currentVersion: number
+): MigratedSettings<T> {
+  const { schemaVersion, ...settings } = stored;
+  const fromVersion = typeof schemaVersion === 'number' ? schemaVersion : 1;
+
+  let migrated: StoredSettings = settings;
+  for (let version = fromVersion; version < currentVersion; version++) {
+    const migration = migrations.find(candidate => candidate.from === version);
+    if (!migration) {
+      throw new Error(`No settings migration from version ${version}`);
+    }
+    migrated = migration.migrate(migrated, defaults);
+  }
+  return { settings: migrated as Partial<T>, fromVersion };
+}
+
+/**
+ * Upgrade a stored ValidationConfig to the current version
+ * @param stored Parsed roaming settings value
+ * @param defaults Current default configuration
+ * @throws Error when a step of the chain is missing
+ */
+export function migrateConfig(stored: StoredSettings, defaults: ValidationConfig): MigratedSettings<ValidationConfig> {
+  return migrate(stored, defaults, CONFIG_MIGRATIONS, CONFIG_SCHEMA_VERSION);
+}
+
+/**
+ * Upgrade stored UserPreferences to the current version
+ * @param stored Parsed roaming settings value
+ * @param defaults Current default preferences
+ * @throws Error when a step of the chain is missing
+ */
+export function migratePreferences(stored: StoredSettings, defaults: UserPreferences): MigratedSettings<UserPreferences> {
+  return migrate(stored, defaults, PREFERENCES_MIGRATIONS, PREFERENCES_SCHEMA_VERSION);
+}
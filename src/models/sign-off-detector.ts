@@ -0,0 +1,164 @@
+/**
+ * Sign-off and signature detection
+ * Finds the closing block ("Best regards,\nJohn" / "Viele Grüße, Hans") at the end of the
+ * newly authored text, so it is not mistaken for a greeting and the signed name can be checked
+ */
+
+import { SignOffBlock } from './interfaces';
+import { NAME_LETTERS } from './name-normalizer';
+
+/**
+ * Closing phrases in the supported languages, matched case-insensitively at the start of a line
+ */
+const CLOSING_LINE = new RegExp(
+  '^\\s*(' +
+  // English
+  '(?:best|kind|kindest|warm|warmest|many)\\s+(?:regards|wishes|thanks)|regards|best|cheers|' +
+  '(?:many\\s+)?thanks(?:\\s+(?:again|in\\s+advance))?|thank\\s+you|all\\s+the\\s+best|take\\s+care|' +
+  '(?:yours\\s+)?(?:sincerely|truly|faithfully)|sincerely\\s+yours|' +
+  // German
+  'mit\\s+freundlichen\\s+grü(?:ß|ss)en|(?:freundliche|viele|beste|liebe|herzliche|schöne|sonnige)\\s+grü(?:ß|ss)e|' +
+  'grü(?:ß|ss)e|gru(?:ß|ss)|lg|vg|mfg|bis\\s+bald|(?:vielen\\s+)?dank|' +
+  // French
+  '(?:bien\\s+)?cordialement|bien\\s+à\\s+vous|amicalement|bises|bonne\\s+journée|(?:sincères\\s+)?salutations|' +
+  // Spanish
+  '(?:un\\s+)?saludos?|atentamente|un\\s+abrazo|cordialmente|' +
+  // Italian
+  '(?:cordiali|distinti)\\s+saluti|saluti|un\\s+saluto|a\\s+presto|' +
+  // Dutch
+  'met\\s+vriendelijke\\s+groet(?:en)?|(?:vriendelijke|hartelijke|lieve)\\s+groet(?:en|jes)?|groet(?:en|jes)|mvg' +
+  ')(?=[\\s,.!]|$)([\\s,.!]*)(.*)$',
+  'i'
+);
+
+/**
+ * A name word in any supported script, e.g. "Anna", "O'Neill", "Müller-Lüdenscheidt", "Dr.", "Ирина"
+ */
+const NAME_WORD = `[${NAME_LETTERS}][${NAME_LETTERS}'’.-]*`;
+
+/**
+ * One to four name words, optionally followed by punctuation (see matchSignedName for capitalization)
+ */
+const SIGNED_NAME = new RegExp(`^\\s*(${NAME_WORD}(?:\\s+${NAME_WORD}){0,3})[\\s,.!]*$`);
+
+/**
+ * The conventional "-- " line that starts a signature
+ */
+const SIGNATURE_DELIMITER = /^--\s*$/;
+
+/**
+ * A closing followed by more than this many non-empty lines is part of the body, not the sign-off
+ */
+const MAX_LINES_AFTER_CLOSING = 8;
+
+/**
+ * Finds the sign-off block in newly authored text (quoted history should be removed first)
+ * @returns The sign-off, or null if the text has no recognizable closing or signature
+ */
+export function findSignOff(content: string): SignOffBlock | null {
+  if (!content || typeof content !== 'string') {
+    return null;
+  }
+
+  const lines = content.split('\n');
+  const offsets: number[] = [];
+  let offset = 0;
+  let delimiterIndex = -1;
+
+  for (let index = 0; index < lines.length; index++) {
+    offsets.push(offset);
+    offset += lines[index].length + 1;
+    if (delimiterIndex === -1 && SIGNATURE_DELIMITER.test(lines[index])) {
+      delimiterIndex = index;
+    }
+  }
+
+  // The last closing before the signature wins; earlier "Thanks!" lines belong to the body
+  const searchEnd = delimiterIndex === -1 ? lines.length : delimiterIndex;
+  for (let index = searchEnd - 1; index >= 0; index--) {
+    if (countNonEmptyLines(lines, index + 1, searchEnd) > MAX_LINES_AFTER_CLOSING) {
+      break;
+    }
+
+    const signOff = parseClosingLine(lines, index, searchEnd);
+    if (signOff) {
+      return { position: offsets[index] + signOff.indent, ...signOff.block };
+    }
+  }
+
+  return delimiterIndex !== -1 ? { position: offsets[delimiterIndex] } : null;
+}
+
+/**
+ * Returns the text before the sign-off, i.e. the part that may contain greetings
+ */
+export function getContentBeforeSignOff(content: string, signOff: SignOffBlock | null): string {
+  return signOff ? content.substring(0, signOff.position) : content;
+}
+
+/**
+ * Parses a closing line and the signed name after it
+ * @returns The closing details, or null if the line is not a closing
+ */
+function parseClosingLine(
+  lines: string[],
+  index: number,
+  searchEnd: number
+): { indent: number; block: Omit<SignOffBlock, 'position'> } | null {
+  const match = CLOSING_LINE.exec(lines[index]);
+  if (!match) {
+    return null;
+  }
+
+  const indent = lines[index].search(/\S/);
+  const closing = match[1];
+  const rest = match[3].trim();
+
+  if (rest) {
+    // "Best regards, John" signs on the same line; "Thanks John!" addresses John instead
+    const signedName = match[2].includes(',') ? matchSignedName(rest) : undefined;
+    return signedName ? { indent, block: { closing, signedName } } : null;
+  }
+
+  const nextLine = findNextNonEmptyLine(lines, index + 1, searchEnd);
+  const signedName = nextLine !== undefined && !CLOSING_LINE.test(nextLine) ? matchSignedName(nextLine) : undefined;
+  return { indent, block: signedName ? { closing, signedName } : { closing } };
+}
+
+/**
+ * Reads a line as a signed name: one to four words that each start with a capital letter
+ * @returns The name, or undefined if the line is not a name
+ */
+function matchSignedName(line: string): string | undefined {
+  const match = SIGNED_NAME.exec(line);
+  if (!match) {
+    return undefined;
+  }
+  const isCapitalized = (word: string) => word.charAt(0) !== word.charAt(0).toLowerCase();
+  return match[1].split(/\s+/).every(isCapitalized) ? match[1] : undefined;
+}
+
+/**
+ * Returns the first non-empty line in [from, to), if any
+ */
+function findNextNonEmptyLine(lines: string[], from: number, to: number): string | undefined {
+  for (let index = from; index < to; index++) {
+    if (lines[index].trim().length > 0) {
+      return lines[index];
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Counts the non-empty lines in [from, to)
+ */
+function countNonEmptyLines(lines: string[], from: number, to: number): number {
+  let count = 0;
+  for (let index = from; index < to; index++) {
+    if (lines[index].trim().length > 0) {
+      count++;
+    }
+  }
+  return count;
+}
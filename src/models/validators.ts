@@ -71,7 +71,8 @@ export function isValidValidationConfig(obj: any): obj is ValidationConfig {
     typeof obj === 'object' &&
     obj !== null &&
     Array.isArray(obj.enabledGreetingPatterns) &&
-    obj.enabledGreetingPatterns.every((pattern: any) => typeof pattern === 'string') &&
+    obj.enabledGreetingPatterns.every((pattern: any) =>
+      typeof pattern === 'string' || (typeof pattern === 'object' && pattern !== null && typeof pattern.pattern === 'string')) &&
     typeof obj.minimumConfidenceThreshold === 'number' &&
     obj.minimumConfidenceThreshold >= 0 &&
     obj.minimumConfidenceThreshold <= 1 &&
@@ -126,7 +127,7 @@ export function isValidParsedContent(obj: any): obj is ParsedContent {
  * Validates a MatchResult object
  */
 export function isValidMatchResult(obj: any): obj is MatchResult {
-  const validMatchTypes = ['exact', 'partial', 'fuzzy', 'none'];
+  const validMatchTypes = ['exact', 'nickname', 'phonetic', 'initial', 'partial', 'fuzzy', 'none'];
   return (
     typeof obj === 'object' &&
     obj !== null &&
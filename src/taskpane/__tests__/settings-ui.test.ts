@@ -5,6 +5,7 @@
 
 import { SettingsUI } from '../settings-ui';
 import { ConfigurationManager, DEFAULT_CONFIG, DEFAULT_PREFERENCES } from '../../models/configuration-manager';
+import { AliasStore } from '../../models/alias-store';
 
 // Mock ConfigurationManager
 jest.mock('../../models/configuration-manager');
@@ -34,7 +35,9 @@ describe('SettingsUI', () => {
       updateConfig: jest.fn().mockResolvedValue(undefined),
       updatePreferences: jest.fn().mockResolvedValue(undefined),
       resetConfig: jest.fn().mockResolvedValue(undefined),
-      resetPreferences: jest.fn().mockResolvedValue(undefined)
+      resetPreferences: jest.fn().mockResolvedValue(undefined),
+      isLocked: jest.fn().mockReturnValue(false),
+      getPolicyMessage: jest.fn().mockReturnValue(undefined)
     } as any;
 
     (ConfigurationManager.getInstance as jest.Mock).mockReturnValue(mockConfigManager);
@@ -82,6 +85,20 @@ describe('SettingsUI', () => {
       expect(excludeCheckbox.checked).toBe(false);
     });
 
+    it('should show settings locked by the administrator read-only with an explanation', async () => {
+      mockConfigManager.isLocked.mockImplementation(setting => setting === 'checkRegister' || setting === 'enabledGreetingPatterns');
+      mockConfigManager.getPolicyMessage.mockReturnValue('Contact the IT service desk.');
+
+      await settingsUI.initialize('settings-container');
+
+      const registerCheckbox = container.querySelector('#check-register') as HTMLInputElement;
+      expect(registerCheckbox.disabled).toBe(true);
+      expect(registerCheckbox.closest('.setting-item')!.querySelector('.policy-lock')!.textContent)
+        .toBe('Set by your administrator. Contact the IT service desk.');
+      expect((container.querySelector('#add-pattern-btn') as HTMLButtonElement).disabled).toBe(true);
+      expect((container.querySelector('#check-salutations') as HTMLInputElement).disabled).toBe(false);
+    });
+
     it('should render preferences values correctly', async () => {
       const customPreferences = {
         ...DEFAULT_PREFERENCES,
@@ -102,6 +119,19 @@ describe('SettingsUI', () => {
       expect(durationInput.value).toBe('8');
     });
 
+    it('should render nicknames as text', async () => {
+      mockConfigManager.getConfig.mockReturnValue({
+        ...DEFAULT_CONFIG,
+        customNicknames: [['Bob</textarea><img src=x onerror="alert(1)">', 'Robert']]
+      });
+
+      await settingsUI.initialize('settings-container');
+
+      expect(container.querySelector('img')).toBeNull();
+      expect((container.querySelector('#custom-nicknames') as HTMLTextAreaElement).value)
+        .toBe('Bob</textarea><img src=x onerror="alert(1)">, Robert');
+    });
+
     it('should render greeting patterns correctly', async () => {
       const customConfig = {
         ...DEFAULT_CONFIG,
@@ -116,6 +146,34 @@ describe('SettingsUI', () => {
       expect(patternInputs[0].value).toBe('Hi\\s+([A-Za-z]+)');
       expect(patternInputs[1].value).toBe('Hello\\s+([A-Za-z]+)');
     });
+
+    it('should render the contacts and distribution list imports with what is stored', async () => {
+      await settingsUI.initialize('settings-container');
+
+      expect(container.querySelector('#contacts-file')).toBeTruthy();
+      expect(container.querySelector('#contacts-count')?.textContent).toBe('No contacts imported');
+      expect(container.querySelector('#distribution-lists-file')).toBeTruthy();
+      expect(container.querySelector('#distribution-lists-count')?.textContent).toBe('No distribution lists imported');
+    });
+
+    it('should list learned aliases and forget the one removed', async () => {
+      const aliases = [{ email: 'robert.king@example.com', alias: 'bob' }];
+      jest.spyOn(AliasStore.prototype, 'getAllAliases').mockImplementation(() => [...aliases]);
+      const removeAlias = jest.spyOn(AliasStore.prototype, 'removeAlias').mockImplementation(async () => {
+        aliases.pop();
+      });
+
+      await settingsUI.initialize('settings-container');
+      expect(container.querySelector('#alias-list')?.textContent).toContain('"bob" for robert.king@example.com');
+
+      (container.querySelector('.remove-alias') as HTMLButtonElement).click();
+      await Promise.resolve();
+      await Promise.resolve();
+
+      expect(removeAlias).toHaveBeenCalledWith('robert.king@example.com', 'bob');
+      expect(container.querySelector('#alias-list')?.textContent).toContain('No learned names yet');
+      jest.restoreAllMocks();
+    });
   });
 
   describe('User Interactions', () => {
@@ -202,7 +260,17 @@ describe('SettingsUI', () => {
         minimumConfidenceThreshold: 0.9,
         enableFuzzyMatching: false,
         excludeGenericEmails: true,
-        enabledGreetingPatterns: expect.any(Array)
+        checkSignOffName: true,
+        checkRecipientCoverage: true,
+        matchBccRecipients: false,
+        checkSalutations: true,
+        checkRegister: true,
+        checkGroupGreetings: true,
+        enabledGreetingPatterns: expect.any(Array),
+        customNicknames: [],
+        genericMailboxRules: expect.any(Array),
+        genericMailboxDomainOverrides: [],
+        personalMailboxes: []
       });
 
       expect(mockConfigManager.updatePreferences).toHaveBeenCalledWith({
@@ -216,6 +284,29 @@ describe('SettingsUI', () => {
       expect(statusMessage.classList.contains('success')).toBe(true);
     });
 
+    it('should save generic mailbox rules, domain overrides and personal addresses', async () => {
+      (container.querySelector('#generic-mailbox-rules') as HTMLTextAreaElement).value =
+        'info\n\n*@noreply.github.com\n/^it-.+@/';
+      (container.querySelector('#generic-mailbox-overrides') as HTMLTextAreaElement).value =
+        'Smith-Consulting.com: kanzlei, -hr\nno domain here';
+      (container.querySelector('#personal-mailboxes') as HTMLTextAreaElement).value = ' Office@Mueller.de \n';
+
+      (container.querySelector('#save-settings') as HTMLButtonElement).click();
+      await new Promise(resolve => setTimeout(resolve, 0));
+
+      expect(mockConfigManager.updateConfig).toHaveBeenCalledWith(expect.objectContaining({
+        genericMailboxRules: [
+          { kind: 'prefix', pattern: 'info' },
+          { kind: 'domain', pattern: 'noreply.github.com' },
+          { kind: 'regex', pattern: '^it-.+@' }
+        ],
+        genericMailboxDomainOverrides: [
+          { domain: 'smith-consulting.com', genericPrefixes: ['kanzlei'], personalPrefixes: ['hr'] }
+        ],
+        personalMailboxes: ['office@mueller.de']
+      }));
+    });
+
     it('should handle save errors', async () => {
       mockConfigManager.updateConfig.mockRejectedValue(new Error('Save failed'));
 
@@ -343,6 +434,64 @@ describe('SettingsUI', () => {
     });
   });
 
+  describe('Greeting Pattern Preview', () => {
+    beforeEach(async () => {
+      mockConfigManager.getConfig.mockReturnValue({
+        ...DEFAULT_CONFIG,
+        enabledGreetingPatterns: ['\\bHi\\s+([A-Za-z]+)']
+      });
+      await settingsUI.initialize('settings-container');
+    });
+
+    it('should preview what each pattern extracts from the sample text', () => {
+      const preview = container.querySelector('.pattern-item .pattern-preview') as HTMLElement;
+      expect(preview.textContent).toBe('Extracts: john');
+    });
+
+    it('should update the preview when the pattern changes', () => {
+      const patternInput = container.querySelector('.pattern-input') as HTMLInputElement;
+      patternInput.value = '\\bDear\\s+(?:Ms\\.\\s+)?(?<name>[A-Za-z]+)';
+      patternInput.dispatchEvent(new Event('input', { bubbles: true }));
+
+      const preview = container.querySelector('.pattern-item .pattern-preview') as HTMLElement;
+      expect(preview.textContent).toBe('Extracts: smith');
+    });
+
+    it('should update the preview when the sample text changes', () => {
+      const sample = container.querySelector('#pattern-preview-sample') as HTMLTextAreaElement;
+      sample.value = 'Hi Maria, thanks!';
+      sample.dispatchEvent(new Event('input', { bubbles: true }));
+
+      const preview = container.querySelector('.pattern-item .pattern-preview') as HTMLElement;
+      expect(preview.textContent).toBe('Extracts: maria');
+    });
+
+    it('should explain patterns without a capture group', () => {
+      const patternInput = container.querySelector('.pattern-input') as HTMLInputElement;
+      patternInput.value = '\\bHi\\s+[A-Za-z]+';
+      patternInput.dispatchEvent(new Event('input', { bubbles: true }));
+
+      const preview = container.querySelector('.pattern-item .pattern-preview') as HTMLElement;
+      expect(preview.classList.contains('error')).toBe(true);
+      expect(preview.textContent).toContain('capture group');
+    });
+
+    it('should save language and confidence with the pattern', async () => {
+      const languageSelect = container.querySelector('.pattern-language') as HTMLSelectElement;
+      const confidenceInput = container.querySelector('.pattern-confidence') as HTMLInputElement;
+      languageSelect.value = 'en';
+      confidenceInput.value = '0.75';
+
+      const saveButton = container.querySelector('#save-settings') as HTMLButtonElement;
+      saveButton.click();
+
+      await new Promise(resolve => setTimeout(resolve, 0));
+
+      const savedPatterns = (mockConfigManager.updateConfig as jest.Mock).mock.calls[0][0].enabledGreetingPatterns;
+      expect(savedPatterns).toEqual([{ pattern: '\\bHi\\s+([A-Za-z]+)', language: 'en', confidence: 0.75 }]);
+    });
+  });
+
   describe('Status Messages', () => {
     beforeEach(async () => {
       await settingsUI.initialize('settings-container');
@@ -4,14 +4,73 @@
  */
 
 import { ConfigurationManager } from '../models/configuration-manager';
-import { ValidationConfig, UserPreferences } from '../models/interfaces';
+import { PolicySetting } from '../models/admin-policy';
+import { ContactsDirectory } from '../models/contacts-directory';
+import { AliasStore } from '../models/alias-store';
+import { LocalDistributionLists } from '../integration/local-distribution-lists';
+import { EmailContentParserImpl, GREETING_LANGUAGES, toGreetingPatternDefinition } from '../models/email-content-parser';
+import { formatGenericMailboxRule, parseGenericMailboxRule } from '../models/generic-mailbox-rules';
+import {
+  ValidationConfig,
+  UserPreferences,
+  GreetingLanguage,
+  GreetingPatternSetting,
+  GreetingPatternLanguage,
+  GenericMailboxRule,
+  GenericMailboxDomainOverride
+} from '../models/interfaces';
+
+/**
+ * Default sample text for previewing greeting patterns
+ */
+const DEFAULT_PATTERN_SAMPLE = 'Hi John,\nDear Ms. Smith,\nHallo Anna und Peter,';
+
+/**
+ * Display names of the greeting languages
+ */
+const LANGUAGE_LABELS: Record<GreetingLanguage, string> = {
+  en: 'English',
+  de: 'German (Deutsch)',
+  fr: 'French (Français)',
+  es: 'Spanish (Español)',
+  it: 'Italian (Italiano)',
+  nl: 'Dutch (Nederlands)'
+};
+
+/**
+ * Controls of each setting, made read-only when the administrator policy locks it
+ */
+const SETTING_CONTROLS: { [setting in PolicySetting]?: string } = {
+  minimumConfidenceThreshold: '#confidence-threshold',
+  enableFuzzyMatching: '#fuzzy-matching',
+  excludeGenericEmails: '#exclude-generic',
+  genericMailboxRules: '#generic-mailbox-rules',
+  genericMailboxDomainOverrides: '#generic-mailbox-overrides',
+  personalMailboxes: '#personal-mailboxes',
+  checkSignOffName: '#check-sign-off',
+  checkRecipientCoverage: '#check-recipient-coverage',
+  matchBccRecipients: '#match-bcc',
+  checkSalutations: '#check-salutations',
+  checkRegister: '#check-register',
+  checkGroupGreetings: '#check-group-greetings',
+  language: '#language-select',
+  enabledGreetingPatterns: '#pattern-list input, #pattern-list select, #pattern-list button, #add-pattern-btn',
+  customNicknames: '#custom-nicknames',
+  showSuccessNotifications: '#success-notifications',
+  autoCorrectSuggestions: '#auto-correct',
+  warningDisplayDuration: '#warning-duration'
+};
 
 /**
  * Settings UI manager for handling user interface interactions
  */
 export class SettingsUI {
   private configManager: ConfigurationManager;
+  private contactsDirectory = ContactsDirectory.getInstance();
+  private aliasStore = AliasStore.getInstance();
+  private distributionLists = LocalDistributionLists.getInstance();
   private container: HTMLElement | null = null;
+  private previewParser = new EmailContentParserImpl();
 
   constructor() {
     this.configManager = ConfigurationManager.getInstance();
@@ -27,6 +86,9 @@ export class SettingsUI {
     }
 
     await this.configManager.initialize();
+    await this.contactsDirectory.initialize();
+    await this.aliasStore.initialize();
+    await this.distributionLists.initialize();
     this.renderSettingsUI();
     this.attachEventListeners();
   }
@@ -71,12 +133,72 @@ export class SettingsUI {
             </label>
           </div>
 
+          <div class="setting-item">
+            <label for="generic-mailbox-rules">Generic mailboxes (one rule per line: "billing" for billing@, "*@noreply.github.com" for a whole domain or a /regular expression/ for the whole address):</label>
+            <textarea id="generic-mailbox-rules" class="generic-rules-input" rows="6"
+                      placeholder="info">${this.escapeAttribute(this.formatGenericMailboxRules(config.genericMailboxRules))}</textarea>
+            <label for="generic-mailbox-overrides">Per-domain rules (one domain per line, e.g. "acme.com: orders, -sales"; a leading "-" marks a person there):</label>
+            <textarea id="generic-mailbox-overrides" class="generic-rules-input" rows="3"
+                      placeholder="acme.com: orders, -sales">${this.escapeAttribute(this.formatDomainOverrides(config.genericMailboxDomainOverrides))}</textarea>
+            <label for="personal-mailboxes">Addresses that are actually a person (one per line):</label>
+            <textarea id="personal-mailboxes" class="generic-rules-input" rows="3"
+                      placeholder="hr@smith-consulting.com">${this.escapeAttribute((config.personalMailboxes || []).join('\n'))}</textarea>
+          </div>
+
+          <div class="setting-item">
+            <label>
+              <input type="checkbox" id="check-sign-off" 
+                     ${config.checkSignOffName ? 'checked' : ''}>
+              Warn when the name in the sign-off isn't mine
+            </label>
+          </div>
+
+          <div class="setting-item">
+            <label>
+              <input type="checkbox" id="check-recipient-coverage" 
+                     ${config.checkRecipientCoverage ? 'checked' : ''}>
+              Warn about To recipients I don't greet and greetings that only match CC/BCC
+            </label>
+          </div>
+
+          <div class="setting-item">
+            <label>
+              <input type="checkbox" id="match-bcc" 
+                     ${config.matchBccRecipients ? 'checked' : ''}>
+              Match greetings against BCC recipients
+            </label>
+          </div>
+
+          <div class="setting-item">
+            <label>
+              <input type="checkbox" id="check-salutations" 
+                     ${config.checkSalutations ? 'checked' : ''}>
+              Warn when a greeting's title or form (Mr./Mrs., Herr/Frau, Dr.) doesn't fit the recipient
+            </label>
+          </div>
+
+          <div class="setting-item">
+            <label>
+              <input type="checkbox" id="check-register" 
+                     ${config.checkRegister ? 'checked' : ''}>
+              Warn when a German mail switches between "Sie" and "du"
+            </label>
+          </div>
+
+          <div class="setting-item">
+            <label>
+              <input type="checkbox" id="check-group-greetings" 
+                     ${config.checkGroupGreetings ? 'checked' : ''}>
+              Warn when a greeting addresses a group ("Hi all") but the mail goes to one person
+            </label>
+          </div>
+
           <div class="setting-item">
             <label for="language-select">Language for greeting detection:</label>
             <select id="language-select">
               <option value="auto" ${config.language === 'auto' ? 'selected' : ''}>Auto-detect</option>
-              <option value="en" ${config.language === 'en' ? 'selected' : ''}>English</option>
-              <option value="de" ${config.language === 'de' ? 'selected' : ''}>German (Deutsch)</option>
+              ${GREETING_LANGUAGES.map(language =>
+                `<option value="${language}" ${config.language === language ? 'selected' : ''}>${LANGUAGE_LABELS[language]}</option>`).join('')}
             </select>
           </div>
 
@@ -86,9 +208,47 @@ export class SettingsUI {
               ${this.renderGreetingPatterns(config.enabledGreetingPatterns)}
             </div>
             <button type="button" id="add-pattern-btn" class="add-button">Add Pattern</button>
+            <p class="setting-hint">The name is taken from the group named "name", or else from the first capture group.
+              Leave confidence empty to score matches like the built-in patterns.</p>
+            <label for="pattern-preview-sample">Preview sample text:</label>
+            <textarea id="pattern-preview-sample" class="pattern-sample" rows="3">${DEFAULT_PATTERN_SAMPLE}</textarea>
+          </div>
+
+          <div class="setting-item">
+            <label for="custom-nicknames">Nickname equivalences (one group per line, e.g. "Hansi, Johannes"):</label>
+            <textarea id="custom-nicknames" class="nickname-input" rows="4"
+                      placeholder="Bob, Robert">${this.escapeAttribute(this.formatNicknameGroups(config.customNicknames))}</textarea>
           </div>
         </div>
 
+        <!-- Contacts Section -->
+        <div class="settings-section">
+          <h3>Contacts</h3>
+
+          <div class="setting-item">
+            <label for="contacts-file">Import contacts (vCard .vcf or CSV export) so recipients are known by name when only their address is shown:</label>
+            <input type="file" id="contacts-file" accept=".vcf,.vcard,.csv,text/vcard,text/csv">
+            <p class="setting-hint" id="contacts-count">${this.formatContactCount(this.contactsDirectory.getContacts().length)}</p>
+            <button type="button" id="clear-contacts" class="secondary-button">Remove All Contacts</button>
+          </div>
+
+          <div class="setting-item">
+            <label for="distribution-lists-file">Import distribution lists (JSON or LDIF export) so greetings in mails to a list are matched against its members:</label>
+            <input type="file" id="distribution-lists-file" accept=".json,.ldif,.ldi,application/json,text/ldif">
+            <p class="setting-hint" id="distribution-lists-count">${this.formatDistributionListCount(this.distributionLists.getLists().length)}</p>
+            <button type="button" id="clear-distribution-lists" class="secondary-button">Remove All Lists</button>
+          </div>
+        </div>
+
+        <!-- Learned Names Section -->
+        <div class="settings-section">
+          <h3>Learned Names</h3>
+          <p class="setting-hint">Greeting names you chose to always accept for a recipient.</p>
+          <ul class="alias-list" id="alias-list">
+            ${this.renderLearnedAliases()}
+          </ul>
+        </div>
+
         <!-- User Preferences Section -->
         <div class="settings-section">
           <h3>User Preferences</h3>
@@ -127,20 +287,173 @@ export class SettingsUI {
         <div id="settings-status" class="status-message" style="display: none;"></div>
       </div>
     `;
+
+    this.applyPolicyLocks();
+  }
+
+  /**
+   * Make the settings the administrator policy locks read-only and say why
+   */
+  private applyPolicyLocks(): void {
+    if (!this.container) return;
+
+    const message = this.configManager.getPolicyMessage();
+    const explanation = message
+      ? `Set by your administrator. ${message}`
+      : 'Set by your administrator and can\'t be changed here.';
+
+    (Object.keys(SETTING_CONTROLS) as PolicySetting[])
+      .filter(setting => this.configManager.isLocked(setting))
+      .forEach(setting => {
+        const controls = this.container!.querySelectorAll(SETTING_CONTROLS[setting]!) as NodeListOf<HTMLInputElement>;
+        controls.forEach(control => {
+          control.disabled = true;
+          control.title = explanation;
+        });
+
+        const item = controls[0]?.closest('.setting-item');
+        if (item && !item.querySelector('.policy-lock')) {
+          item.classList.add('locked');
+          const hint = document.createElement('p');
+          hint.className = 'setting-hint policy-lock';
+          hint.textContent = explanation;
+          item.appendChild(hint);
+        }
+      });
   }
 
   /**
    * Render greeting patterns list
    */
-  private renderGreetingPatterns(patterns: string[]): string {
+  private renderGreetingPatterns(patterns: GreetingPatternSetting[]): string {
     return patterns.map((pattern, index) => `
       <div class="pattern-item" data-index="${index}">
-        <input type="text" class="pattern-input" value="${pattern}" data-index="${index}">
-        <button type="button" class="remove-pattern" data-index="${index}">Remove</button>
+        ${this.renderPatternFields(pattern, index)}
       </div>
     `).join('');
   }
 
+  /**
+   * Render the inputs and preview line of a single greeting pattern
+   */
+  private renderPatternFields(setting: GreetingPatternSetting, index: number): string {
+    const definition = toGreetingPatternDefinition(setting);
+    const language = definition.language || 'any';
+    const confidence = definition.confidence !== undefined ? definition.confidence.toString() : '';
+    const languageOptions: Array<[GreetingPatternLanguage, string]> = [
+      ['any', 'Any language'],
+      ...GREETING_LANGUAGES.map((value): [GreetingPatternLanguage, string] => [value, LANGUAGE_LABELS[value]])
+    ];
+
+    return `
+        <input type="text" class="pattern-input" value="${this.escapeAttribute(definition.pattern)}" data-index="${index}"
+               placeholder="Enter regex pattern (e.g., Hi\\s+([A-Za-z]+))">
+        <select class="pattern-language" aria-label="Pattern language">
+          ${languageOptions.map(([value, label]) =>
+            `<option value="${value}" ${value === language ? 'selected' : ''}>${label}</option>`).join('')}
+        </select>
+        <input type="number" class="pattern-confidence" min="0" max="1" step="0.05" value="${confidence}"
+               placeholder="Auto" aria-label="Pattern confidence">
+        <button type="button" class="remove-pattern" data-index="${index}">Remove</button>
+        <div class="pattern-preview"></div>
+    `;
+  }
+
+  /**
+   * Render the learned aliases, each with a button to forget it
+   */
+  private renderLearnedAliases(): string {
+    const aliases = this.aliasStore.getAllAliases();
+    if (aliases.length === 0) {
+      return '<li class="alias-empty">No learned names yet</li>';
+    }
+
+    return aliases.map(({ email, alias }) => `
+      <li class="alias-item">
+        <span>"${this.escapeAttribute(alias)}" for ${this.escapeAttribute(email)}</span>
+        <button type="button" class="remove-alias" data-email="${this.escapeAttribute(email)}"
+                data-alias="${this.escapeAttribute(alias)}">Remove</button>
+      </li>
+    `).join('');
+  }
+
+  /**
+   * Escape a value for use inside a double-quoted HTML attribute
+   */
+  private escapeAttribute(value: string): string {
+    return value
+      .replace(/&/g, '&amp;')
+      .replace(/"/g, '&quot;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;');
+  }
+
+  /**
+   * Format nickname groups for the textarea, one comma-separated group per line
+   */
+  private formatNicknameGroups(groups: string[][]): string {
+    return (groups || []).map(group => group.join(', ')).join('\n');
+  }
+
+  /**
+   * Parse nickname groups from the textarea, ignoring lines with fewer than two names
+   */
+  private parseNicknameGroups(text: string): string[][] {
+    return text
+      .split('\n')
+      .map(line => line.split(',').map(name => name.trim()).filter(name => name.length > 0))
+      .filter(group => group.length >= 2);
+  }
+
+  /**
+   * Format generic mailbox rules for the textarea, one per line
+   */
+  private formatGenericMailboxRules(rules: GenericMailboxRule[]): string {
+    return (rules || []).map(formatGenericMailboxRule).join('\n');
+  }
+
+  /**
+   * Parse generic mailbox rules from the textarea, ignoring empty lines
+   */
+  private parseGenericMailboxRules(text: string): GenericMailboxRule[] {
+    return text
+      .split('\n')
+      .filter(line => line.trim().length > 0)
+      .map(parseGenericMailboxRule);
+  }
+
+  /**
+   * Format per-domain overrides for the textarea as "domain: generic, -personal"
+   */
+  private formatDomainOverrides(overrides: GenericMailboxDomainOverride[]): string {
+    return (overrides || [])
+      .map(override => `${override.domain}: ${[
+        ...override.genericPrefixes,
+        ...override.personalPrefixes.map(prefix => `-${prefix}`)
+      ].join(', ')}`)
+      .join('\n');
+  }
+
+  /**
+   * Parse per-domain overrides from the textarea, ignoring lines without a domain or prefixes
+   */
+  private parseDomainOverrides(text: string): GenericMailboxDomainOverride[] {
+    return text
+      .split('\n')
+      .map(line => {
+        const separator = line.indexOf(':');
+        const prefixes = line.substring(separator + 1).split(',').map(prefix => prefix.trim()).filter(prefix => prefix.length > 0);
+        return {
+          domain: separator === -1 ? '' : line.substring(0, separator).trim().toLowerCase(),
+          genericPrefixes: prefixes.filter(prefix => !prefix.startsWith('-')),
+          personalPrefixes: prefixes.filter(prefix => prefix.startsWith('-')).map(prefix => prefix.substring(1).trim())
+            .filter(prefix => prefix.length > 0)
+        };
+      })
+      .filter(override => override.domain.length > 0 &&
+        override.genericPrefixes.length + override.personalPrefixes.length > 0);
+  }
+
   /**
    * Attach event listeners to UI elements
    */
@@ -156,19 +469,56 @@ export class SettingsUI {
       thresholdValue.textContent = target.value;
     });
 
+    // Live preview of greeting patterns (delegated, covers rows added later)
+    const updatePreviewFor = (e: Event) => {
+      const target = e.target as HTMLElement;
+      const patternItem = target.closest('.pattern-item') as HTMLElement | null;
+      if (patternItem) {
+        this.updatePatternPreview(patternItem);
+      } else if (target.id === 'pattern-preview-sample') {
+        this.updatePatternPreviews();
+      }
+    };
+    this.container.addEventListener('input', updatePreviewFor);
+    this.container.addEventListener('change', updatePreviewFor);
+    this.updatePatternPreviews();
+
     // Add pattern button
     const addPatternBtn = this.container.querySelector('#add-pattern-btn');
     addPatternBtn?.addEventListener('click', () => this.addGreetingPattern());
 
-    // Remove pattern buttons (delegated event handling)
+    // Remove pattern and learned name buttons (delegated event handling)
     this.container.addEventListener('click', (e) => {
       const target = e.target as HTMLElement;
       if (target.classList.contains('remove-pattern')) {
         const index = parseInt(target.dataset.index || '0');
         this.removeGreetingPattern(index);
+      } else if (target.classList.contains('remove-alias')) {
+        this.removeLearnedAlias(target.dataset.email || '', target.dataset.alias || '');
       }
     });
 
+    // Contacts import and removal take effect right away
+    const contactsFileInput = this.container.querySelector('#contacts-file') as HTMLInputElement;
+    contactsFileInput?.addEventListener('change', () => {
+      const file = contactsFileInput.files?.[0];
+      if (file) {
+        this.importContactsFile(file);
+      }
+    });
+    const clearContactsBtn = this.container.querySelector('#clear-contacts');
+    clearContactsBtn?.addEventListener('click', () => this.clearContacts());
+
+    const distributionListsFileInput = this.container.querySelector('#distribution-lists-file') as HTMLInputElement;
+    distributionListsFileInput?.addEventListener('change', () => {
+      const file = distributionListsFileInput.files?.[0];
+      if (file) {
+        this.importDistributionListsFile(file);
+      }
+    });
+    const clearDistributionListsBtn = this.container.querySelector('#clear-distribution-lists');
+    clearDistributionListsBtn?.addEventListener('click', () => this.clearDistributionLists());
+
     // Save settings button
     const saveBtn = this.container.querySelector('#save-settings');
     saveBtn?.addEventListener('click', () => this.saveSettings());
@@ -193,15 +543,67 @@ export class SettingsUI {
     const patternDiv = document.createElement('div');
     patternDiv.className = 'pattern-item';
     patternDiv.dataset.index = newIndex.toString();
-    patternDiv.innerHTML = `
-      <input type="text" class="pattern-input" value="" data-index="${newIndex}" 
-             placeholder="Enter regex pattern (e.g., Hi\\s+([A-Za-z]+))">
-      <button type="button" class="remove-pattern" data-index="${newIndex}">Remove</button>
-    `;
+    patternDiv.innerHTML = this.renderPatternFields('', newIndex);
     
     patternList.appendChild(patternDiv);
   }
 
+  /**
+   * Refresh the preview line of every greeting pattern
+   */
+  private updatePatternPreviews(): void {
+    const patternItems = this.container?.querySelectorAll('.pattern-item');
+    patternItems?.forEach(item => this.updatePatternPreview(item as HTMLElement));
+  }
+
+  /**
+   * Show what a greeting pattern extracts from the preview sample text
+   */
+  private updatePatternPreview(patternItem: HTMLElement): void {
+    const preview = patternItem.querySelector('.pattern-preview') as HTMLElement;
+    const sampleInput = this.container?.querySelector('#pattern-preview-sample') as HTMLTextAreaElement;
+    if (!preview || !sampleInput) return;
+
+    const setting = this.readPatternSetting(patternItem);
+    preview.classList.remove('error');
+    if (!setting) {
+      preview.textContent = '';
+      return;
+    }
+
+    try {
+      const names = this.previewParser
+        .extractWithPattern(setting, sampleInput.value)
+        .map(match => match.audience === 'group' ? `${match.extractedName} (group)` : match.extractedName);
+      preview.textContent = names.length > 0 ? `Extracts: ${names.join(', ')}` : 'No names found in the sample text';
+    } catch (error) {
+      preview.textContent = (error as Error).message;
+      preview.classList.add('error');
+    }
+  }
+
+  /**
+   * Read a greeting pattern row; plain patterns stay strings so simple settings remain simple
+   */
+  private readPatternSetting(patternItem: HTMLElement): GreetingPatternSetting | null {
+    const patternInput = patternItem.querySelector('.pattern-input') as HTMLInputElement;
+    const languageSelect = patternItem.querySelector('.pattern-language') as HTMLSelectElement | null;
+    const confidenceInput = patternItem.querySelector('.pattern-confidence') as HTMLInputElement | null;
+
+    const pattern = patternInput ? patternInput.value.trim() : '';
+    if (pattern.length === 0) {
+      return null;
+    }
+
+    const language = (languageSelect?.value || 'any') as GreetingPatternLanguage;
+    const confidence = confidenceInput ? parseFloat(confidenceInput.value) : NaN;
+    if (language === 'any' && isNaN(confidence)) {
+      return pattern;
+    }
+
+    return isNaN(confidence) ? { pattern, language } : { pattern, language, confidence };
+  }
+
   /**
    * Remove a greeting pattern
    */
@@ -221,6 +623,116 @@ export class SettingsUI {
     });
   }
 
+  /**
+   * Import a vCard or CSV file into the contacts directory
+   */
+  private async importContactsFile(file: File): Promise<void> {
+    try {
+      const imported = await this.contactsDirectory.importContacts(await file.text(), file.name);
+      this.updateContactCount();
+      if (imported > 0) {
+        this.showStatusMessage(`Imported ${imported} contact${imported === 1 ? '' : 's'} from ${file.name}`, 'success');
+      } else {
+        this.showStatusMessage(`No contacts with an email address found in ${file.name}`, 'info');
+      }
+    } catch (error) {
+      this.showStatusMessage(`Failed to import contacts: ${error}`, 'error');
+    }
+  }
+
+  /**
+   * Remove all imported contacts
+   */
+  private async clearContacts(): Promise<void> {
+    try {
+      await this.contactsDirectory.clear();
+      this.updateContactCount();
+      this.showStatusMessage('Contacts removed', 'success');
+    } catch (error) {
+      this.showStatusMessage(`Failed to remove contacts: ${error}`, 'error');
+    }
+  }
+
+  /**
+   * Import a JSON or LDIF file into the local distribution lists
+   */
+  private async importDistributionListsFile(file: File): Promise<void> {
+    try {
+      const imported = await this.distributionLists.importLists(await file.text(), file.name);
+      this.updateDistributionListCount();
+      if (imported > 0) {
+        this.showStatusMessage(`Imported ${imported} distribution list${imported === 1 ? '' : 's'} from ${file.name}`, 'success');
+      } else {
+        this.showStatusMessage(`No distribution lists with an email address found in ${file.name}`, 'info');
+      }
+    } catch (error) {
+      this.showStatusMessage(`Failed to import distribution lists: ${error}`, 'error');
+    }
+  }
+
+  /**
+   * Remove all imported distribution lists
+   */
+  private async clearDistributionLists(): Promise<void> {
+    try {
+      await this.distributionLists.clear();
+      this.updateDistributionListCount();
+      this.showStatusMessage('Distribution lists removed', 'success');
+    } catch (error) {
+      this.showStatusMessage(`Failed to remove distribution lists: ${error}`, 'error');
+    }
+  }
+
+  /**
+   * Forget a learned alias and refresh the list
+   */
+  private async removeLearnedAlias(email: string, alias: string): Promise<void> {
+    try {
+      await this.aliasStore.removeAlias(email, alias);
+      const aliasList = this.container?.querySelector('#alias-list');
+      if (aliasList) {
+        aliasList.innerHTML = this.renderLearnedAliases();
+      }
+      this.showStatusMessage(`"${alias}" is no longer accepted for ${email}`, 'success');
+    } catch (error) {
+      this.showStatusMessage(`Failed to remove learned name: ${error}`, 'error');
+    }
+  }
+
+  /**
+   * Show the number of stored contacts
+   */
+  private updateContactCount(): void {
+    const countElement = this.container?.querySelector('#contacts-count');
+    if (countElement) {
+      countElement.textContent = this.formatContactCount(this.contactsDirectory.getContacts().length);
+    }
+  }
+
+  /**
+   * Describe how many contacts are stored
+   */
+  private formatContactCount(count: number): string {
+    return count === 0 ? 'No contacts imported' : `${count} contact${count === 1 ? '' : 's'} stored`;
+  }
+
+  /**
+   * Show the number of stored distribution lists
+   */
+  private updateDistributionListCount(): void {
+    const countElement = this.container?.querySelector('#distribution-lists-count');
+    if (countElement) {
+      countElement.textContent = this.formatDistributionListCount(this.distributionLists.getLists().length);
+    }
+  }
+
+  /**
+   * Describe how many distribution lists are stored
+   */
+  private formatDistributionListCount(count: number): string {
+    return count === 0 ? 'No distribution lists imported' : `${count} distribution list${count === 1 ? '' : 's'} stored`;
+  }
+
   /**
    * Save current settings
    */
@@ -273,19 +785,42 @@ export class SettingsUI {
     const thresholdInput = this.container.querySelector('#confidence-threshold') as HTMLInputElement;
     const fuzzyMatchingInput = this.container.querySelector('#fuzzy-matching') as HTMLInputElement;
     const excludeGenericInput = this.container.querySelector('#exclude-generic') as HTMLInputElement;
+    const checkSignOffInput = this.container.querySelector('#check-sign-off') as HTMLInputElement;
+    const checkCoverageInput = this.container.querySelector('#check-recipient-coverage') as HTMLInputElement;
+    const matchBccInput = this.container.querySelector('#match-bcc') as HTMLInputElement;
+    const checkSalutationsInput = this.container.querySelector('#check-salutations') as HTMLInputElement;
+    const checkRegisterInput = this.container.querySelector('#check-register') as HTMLInputElement;
+    const checkGroupGreetingsInput = this.container.querySelector('#check-group-greetings') as HTMLInputElement;
     const languageSelect = this.container.querySelector('#language-select') as HTMLSelectElement;
+    const nicknamesInput = this.container.querySelector('#custom-nicknames') as HTMLTextAreaElement;
+    const genericRulesInput = this.container.querySelector('#generic-mailbox-rules') as HTMLTextAreaElement;
+    const domainOverridesInput = this.container.querySelector('#generic-mailbox-overrides') as HTMLTextAreaElement;
+    const personalMailboxesInput = this.container.querySelector('#personal-mailboxes') as HTMLTextAreaElement;
     
-    const patternInputs = this.container.querySelectorAll('.pattern-input') as NodeListOf<HTMLInputElement>;
-    const patterns = Array.from(patternInputs)
-      .map(input => input.value.trim())
-      .filter(pattern => pattern.length > 0);
+    const patternItems = this.container.querySelectorAll('.pattern-item') as NodeListOf<HTMLElement>;
+    const patterns = Array.from(patternItems)
+      .map(item => this.readPatternSetting(item))
+      .filter((setting): setting is GreetingPatternSetting => setting !== null);
 
     return {
       minimumConfidenceThreshold: parseFloat(thresholdInput.value),
       enableFuzzyMatching: fuzzyMatchingInput.checked,
       excludeGenericEmails: excludeGenericInput.checked,
+      checkSignOffName: checkSignOffInput.checked,
+      checkRecipientCoverage: checkCoverageInput.checked,
+      matchBccRecipients: matchBccInput.checked,
+      checkSalutations: checkSalutationsInput.checked,
+      checkRegister: checkRegisterInput.checked,
+      checkGroupGreetings: checkGroupGreetingsInput.checked,
       enabledGreetingPatterns: patterns,
-      language: languageSelect.value as 'en' | 'de' | 'auto'
+      language: languageSelect.value as ValidationConfig['language'],
+      customNicknames: this.parseNicknameGroups(nicknamesInput.value),
+      genericMailboxRules: this.parseGenericMailboxRules(genericRulesInput.value),
+      genericMailboxDomainOverrides: this.parseDomainOverrides(domainOverridesInput.value),
+      personalMailboxes: personalMailboxesInput.value
+        .split('\n')
+        .map(email => email.trim().toLowerCase())
+        .filter(email => email.length > 0)
     };
   }
 
@@ -1,7 +1,12 @@
 import './taskpane.css';
 import { ValidationOrchestratorImpl, OrchestratorEventHandler } from '../integration/validation-orchestrator';
-import { ValidationResult, ValidationStatus } from '../models/interfaces';
-import { NotificationSystem, NotificationCallbacks, NotificationSystemConfig } from '../models/notification-system';
+import { ParsedRecipient, ValidationResult, ValidationStatus } from '../models/interfaces';
+import {
+  NotificationSystem,
+  NotificationCallbacks,
+  NotificationSystemConfig,
+  isValidationWarning
+} from '../models/notification-system';
 import { SettingsUI } from './settings-ui';
 import { ConfigurationManager } from '../models/configuration-manager';
 
@@ -34,7 +39,7 @@ class TaskpaneEventHandler implements OrchestratorEventHandler {
     if (results.length === 0) {
       notificationSystem.showSuccess('No issues found');
     } else {
-      const invalidResults = results.filter(r => !r.isValid);
+      const invalidResults = results.filter(isValidationWarning);
       if (invalidResults.length > 0) {
         const status: ValidationStatus = {
           isValidating: false,
@@ -101,9 +106,11 @@ async function initializeAddIn(): Promise<void> {
       },
       onCorrectionApplied: (originalName: string, correctedName: string) => {
         console.log('Correction applied:', originalName, '->', correctedName);
-        // TODO: Apply correction to email content
         applyCorrectionToEmail(originalName, correctedName);
       },
+      onAliasAccepted: (greetingName: string, recipient: ParsedRecipient) => {
+        acceptAliasForRecipient(greetingName, recipient);
+      },
       onSettingsRequested: () => {
         toggleSettingsPanel();
       }
@@ -222,82 +229,100 @@ function updateConfidenceDisplay(): void {
 }
 
 /**
- * Apply a name correction to the email content
+ * Restore the name a correction replaced
  */
-async function applyCorrectionToEmail(originalName: string, correctedName: string): Promise<void> {
+async function undoCorrection(transactionId: string): Promise<void> {
+  if (!validationOrchestrator) {
+    console.error('No validation orchestrator available to undo a correction');
+    return;
+  }
+
   try {
-    if (!Office.context.mailbox.item) {
-      console.error('No email item available for correction');
-      return;
+    const result = await validationOrchestrator.undoCorrection(transactionId);
+
+    if (result.undone) {
+      if (notificationSystem) {
+        notificationSystem.showSuccess('Correction undone');
+      }
+      await validationOrchestrator.validateCurrentEmail();
+    } else {
+      console.log('Correction not undone:', result.failureReason);
+      if (notificationSystem) {
+        const message = result.failureReason === 'body_changed'
+          ? 'The greeting was edited since the correction; please undo it manually'
+          : 'This correction can no longer be undone';
+        notificationSystem.updateStatus(message, 'warning');
+      }
+    }
+  } catch (error) {
+    console.error('Error undoing correction:', error);
+    if (notificationSystem) {
+      notificationSystem.updateStatus('Failed to undo correction', 'error');
     }
+  }
+}
 
-    // Get current email body
-    Office.context.mailbox.item.body.getAsync(Office.CoercionType.Text, (result) => {
-      if (result.status === Office.AsyncResultStatus.Succeeded) {
-        const currentBody = result.value;
-        
-        // Replace the original name with the corrected name in greetings
-        // Use word boundaries to avoid partial replacements
-        const greetingPatterns = [
-          new RegExp(`\\b(Hi|Hello|Dear)\\s+${originalName}\\b`, 'gi'),
-          new RegExp(`\\b${originalName}\\b(?=\\s*[,!]?)`, 'gi')
-        ];
-        
-        let updatedBody = currentBody;
-        let replacementMade = false;
-        
-        greetingPatterns.forEach(pattern => {
-          if (pattern.test(updatedBody)) {
-            updatedBody = updatedBody.replace(pattern, (match) => {
-              replacementMade = true;
-              return match.replace(new RegExp(originalName, 'gi'), correctedName);
-            });
-          }
-        });
-        
-        if (replacementMade) {
-          // Set the updated body
-          Office.context.mailbox.item!.body.setAsync(
-            updatedBody,
-            { coercionType: Office.CoercionType.Text },
-            (setResult) => {
-              if (setResult.status === Office.AsyncResultStatus.Succeeded) {
-                console.log('Correction applied successfully');
-                if (notificationSystem) {
-                  notificationSystem.showSuccess(`Corrected "${originalName}" to "${correctedName}"`);
-                }
-                
-                // Re-validate after correction
-                if (validationOrchestrator) {
-                  setTimeout(() => {
-                    validationOrchestrator!.validateCurrentEmail();
-                  }, 500);
-                }
-              } else {
-                console.error('Failed to apply correction:', setResult.error);
-                if (notificationSystem) {
-                  notificationSystem.updateStatus('Failed to apply correction', 'error');
-                }
-              }
-            }
-          );
-        } else {
-          console.log('No matching text found for correction');
-          if (notificationSystem) {
-            notificationSystem.updateStatus('No matching text found for correction', 'warning');
-          }
-        }
-      } else {
-        console.error('Failed to get email body for correction:', result.error);
-        if (notificationSystem) {
-          notificationSystem.updateStatus('Failed to access email content', 'error');
-        }
+/**
+ * Remember a greeting name as accepted for a recipient and validate again
+ */
+async function acceptAliasForRecipient(greetingName: string, recipient: ParsedRecipient): Promise<void> {
+  if (!validationOrchestrator) {
+    console.error('No validation orchestrator available to learn an alias');
+    return;
+  }
+
+  try {
+    await validationOrchestrator.acceptAlias(greetingName, recipient.email);
+    if (notificationSystem) {
+      notificationSystem.showSuccess(`"${greetingName}" is now accepted for ${recipient.displayName || recipient.email}`);
+    }
+  } catch (error) {
+    console.error('Error learning alias:', error);
+    if (notificationSystem) {
+      notificationSystem.updateStatus('Failed to remember the name', 'error');
+    }
+  }
+}
+
+/**
+ * Apply a name correction to the email content, editing only the greeting name
+ */
+async function applyCorrectionToEmail(originalName: string, correctedName: string): Promise<void> {
+  if (!validationOrchestrator) {
+    console.error('No validation orchestrator available for correction');
+    return;
+  }
+
+  try {
+    const result = await validationOrchestrator.applyCorrection(originalName, correctedName);
+
+    if (result.applied) {
+      console.log('Correction applied successfully');
+      if (notificationSystem) {
+        const transactionId = result.transactionId;
+        notificationSystem.showSuccess(
+          `Corrected "${originalName}" to "${correctedName}"`,
+          transactionId ? { label: 'Undo', onAction: () => undoCorrection(transactionId) } : undefined
+        );
       }
-    });
+
+      // Re-validate after correction
+      setTimeout(() => {
+        validationOrchestrator?.validateCurrentEmail();
+      }, 500);
+    } else {
+      console.log('Correction not applied:', result.failureReason);
+      if (notificationSystem) {
+        const message = result.failureReason === 'name_spans_formatting'
+          ? 'The name is split by formatting; please correct it manually'
+          : 'No matching text found for correction';
+        notificationSystem.updateStatus(message, 'warning');
+      }
+    }
   } catch (error) {
     console.error('Error applying correction:', error);
     if (notificationSystem) {
-      notificationSystem.updateStatus('Error applying correction', 'error');
+      notificationSystem.updateStatus('Failed to apply correction', 'error');
     }
   }
-}
\ No newline at end of file
+}
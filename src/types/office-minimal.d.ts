@@ -42,6 +42,10 @@ declare namespace Office {
     };
     mailbox?: {
       item?: MailboxItem;
+      userProfile?: {
+        displayName?: string;
+        emailAddress?: string;
+      };
       diagnostics?: {
         hostVersion?: string;
       };
@@ -1,7 +1,28 @@
+const fs = require('fs');
 const path = require('path');
+const webpack = require('webpack');
 const HtmlWebpackPlugin = require('html-webpack-plugin');
 const CopyWebpackPlugin = require('copy-webpack-plugin');
 
+/**
+ * URL of the admin policy, fixed at build time so send-time validation (commands.js, which runs
+ * without a page) finds it: ADMIN_POLICY_URL, else the ?policy= parameter of the task pane URL in
+ * the manifest, else admin-policy.json next to the task pane
+ */
+function getAdminPolicyUrl() {
+  if (process.env.ADMIN_POLICY_URL) {
+    return process.env.ADMIN_POLICY_URL;
+  }
+
+  const manifest = fs.readFileSync(path.resolve(__dirname, 'manifest.xml'), 'utf8');
+  const taskpaneUrl = manifest.match(/<bt:Url id="Taskpane\.Url" DefaultValue="([^"]+)"/);
+  if (!taskpaneUrl) {
+    return '';
+  }
+  const url = new URL(taskpaneUrl[1].replace(/&amp;/g, '&'));
+  return new URL(url.searchParams.get('policy') || 'admin-policy.json', url).href;
+}
+
 module.exports = (env, argv) => {
   const isProduction = argv.mode === 'production';
   
@@ -41,6 +62,9 @@ module.exports = (env, argv) => {
       ]
     },
     plugins: [
+      new webpack.DefinePlugin({
+        ADMIN_POLICY_URL: JSON.stringify(getAdminPolicyUrl())
+      }),
       new HtmlWebpackPlugin({
         template: './src/taskpane/taskpane.html',
         filename: 'taskpane.html',